@@ -0,0 +1,202 @@
+import { ServerConfig } from "../core/configuration/Config";
+import { createConfig } from "../core/configuration/ConfigLoader";
+import { AllPlayers, PlayerID, PlayerType, UnitType } from "../core/game/Game";
+import { TileRef } from "../core/game/GameMap";
+import { GameMapLoader } from "../core/game/GameMapLoader";
+import { GameView, GameViewQueries, PlayerView } from "../core/game/GameView";
+import { loadTerrainMap } from "../core/game/TerrainMapLoader";
+import { GameRunner } from "../core/GameRunner";
+import { ClientID, GameStartInfo, Intent } from "../core/Schemas";
+
+type WithoutClientID<T> = T extends unknown ? Omit<T, "clientID"> : never;
+
+// An intent as a bot sends it, the client fills in its clientID.
+export type BotIntent = WithoutClientID<Intent>;
+
+// What a bot sees each tick, the same in a live game and in a local match.
+export interface BotContext {
+  // The game as the bot's player sees it, like the view of a browser client.
+  // It is read only, the bot changes the game through its actions.
+  readonly game: GameView;
+  readonly clientID: ClientID;
+  readonly actions: BotActions;
+  // The player of the bot, see hasSpawned(). Null if it is not in the game.
+  player(): PlayerView | null;
+}
+
+export interface Bot {
+  // Display name of the bot's player.
+  readonly name: string;
+  // Called after every tick of the local game. Intents sent here are executed
+  // in one of the next turns, like the intents of human players.
+  tick(ctx: BotContext): void;
+}
+
+// Typed helpers for every intent a player can send.
+export class BotActions {
+  constructor(
+    private clientID: ClientID,
+    private name: string,
+    private sendIntent: (intent: Intent) => void,
+  ) {}
+
+  send(intent: BotIntent) {
+    this.sendIntent({ ...intent, clientID: this.clientID });
+  }
+
+  spawn(tile: TileRef) {
+    this.send({
+      type: "spawn",
+      name: this.name,
+      flag: "",
+      pattern: undefined,
+      playerType: PlayerType.Human,
+      tile,
+    });
+  }
+
+  // A null target attacks unclaimed land.
+  attack(target: PlayerID | null, troops: number) {
+    this.send({ type: "attack", targetID: target, troops });
+  }
+
+  cancelAttack(attackID: string) {
+    this.send({ type: "cancel_attack", attackID });
+  }
+
+  boatAttack(
+    target: PlayerID | null,
+    dst: TileRef,
+    troops: number,
+    src: TileRef | null = null,
+  ) {
+    this.send({ type: "boat", targetID: target, dst, troops, src });
+  }
+
+  cancelBoat(unitID: number) {
+    this.send({ type: "cancel_boat", unitID });
+  }
+
+  buildUnit(unit: UnitType, tile: TileRef) {
+    this.send({ type: "build_unit", unit, tile });
+  }
+
+  queueBuild(unit: UnitType, tile: TileRef) {
+    this.send({ type: "queue_build", unit, tile });
+  }
+
+  moveQueuedBuild(buildId: number, index: number) {
+    this.send({ type: "move_queued_build", buildId, index });
+  }
+
+  cancelQueuedBuild(buildId: number) {
+    this.send({ type: "cancel_queued_build", buildId });
+  }
+
+  upgradeStructure(unit: UnitType, unitId: number) {
+    this.send({ type: "upgrade_structure", unit, unitId });
+  }
+
+  moveWarship(unitId: number, tile: TileRef) {
+    this.send({ type: "move_warship", unitId, tile });
+  }
+
+  moveFleet(unitIds: number[], waypoints: TileRef[], patrol: boolean) {
+    this.send({ type: "fleet_move", unitIds, waypoints, patrol });
+  }
+
+  allianceRequest(recipient: PlayerID) {
+    this.send({ type: "allianceRequest", recipient });
+  }
+
+  allianceRequestReply(requestor: PlayerID, accept: boolean) {
+    this.send({ type: "allianceRequestReply", requestor, accept });
+  }
+
+  allianceExtension(recipient: PlayerID) {
+    this.send({ type: "allianceExtension", recipient });
+  }
+
+  breakAlliance(recipient: PlayerID) {
+    this.send({ type: "breakAlliance", recipient });
+  }
+
+  targetPlayer(target: PlayerID) {
+    this.send({ type: "targetPlayer", target });
+  }
+
+  embargo(targetID: PlayerID, action: "start" | "stop") {
+    this.send({ type: "embargo", targetID, action });
+  }
+
+  // A null amount donates the default share.
+  donateGold(recipient: PlayerID, gold: bigint | null) {
+    this.send({ type: "donate_gold", recipient, gold });
+  }
+
+  donateTroops(recipient: PlayerID, troops: number | null) {
+    this.send({ type: "donate_troops", recipient, troops });
+  }
+
+  cedeTerritory(recipient: PlayerID, tile: TileRef) {
+    this.send({ type: "cede_territory", recipient, tile });
+  }
+
+  emoji(recipient: PlayerID | typeof AllPlayers, emoji: number) {
+    this.send({ type: "emoji", recipient, emoji });
+  }
+}
+
+export function botContext(
+  game: () => GameView,
+  clientID: ClientID,
+  actions: BotActions,
+): BotContext {
+  return {
+    get game() {
+      return game();
+    },
+    clientID,
+    actions,
+    player() {
+      return game().myPlayer();
+    },
+  };
+}
+
+// A view of the game for the bot's player, kept in sync by passing it the
+// updates of the runner. Queries are answered by the runner, like the worker
+// answers them for the browser client.
+export async function createBotView(
+  gameStartInfo: GameStartInfo,
+  clientID: ClientID,
+  runner: GameRunner,
+  mapLoader: GameMapLoader,
+  serverConfig: ServerConfig,
+): Promise<GameView> {
+  const mapData = await loadTerrainMap(
+    gameStartInfo.config.gameMap,
+    mapLoader,
+    gameStartInfo.config.customMap,
+  );
+  const queries: GameViewQueries = {
+    playerInteraction: async (playerID, x, y) =>
+      runner.playerActions(playerID, x, y),
+    playerBorderTiles: async (playerID) => runner.playerBorderTiles(playerID),
+    attackAveragePosition: async (playerID, attackID) =>
+      runner.attackAveragePosition(playerID, attackID),
+    playerProfile: async (playerID) => runner.playerProfile(playerID),
+    transportShipSpawn: async (playerID, targetTile) =>
+      runner.bestTransportShipSpawn(playerID, targetTile),
+    nukeForecast: async (playerID, type, targetTile) =>
+      runner.nukeForecast(playerID, type, targetTile),
+  };
+  return new GameView(
+    queries,
+    createConfig(serverConfig, gameStartInfo.config, null),
+    mapData,
+    clientID,
+    gameStartInfo.gameID,
+    gameStartInfo.players,
+  );
+}
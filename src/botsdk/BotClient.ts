@@ -0,0 +1,224 @@
+import WebSocket from "ws";
+import { z } from "zod";
+import { ServerConfig } from "../core/configuration/Config";
+import { GameMapLoader } from "../core/game/GameMapLoader";
+import { GameUpdateType, WinUpdate } from "../core/game/GameUpdates";
+import { GameView } from "../core/game/GameView";
+import { createGameRunner, GameRunner } from "../core/GameRunner";
+import {
+  ClientID,
+  ClientMessage,
+  GameID,
+  GameStartInfo,
+  ServerMessage,
+  ServerMessageSchema,
+  Turn,
+} from "../core/Schemas";
+import { generateID, replacer } from "../core/Util";
+import { Bot, BotActions, botContext, BotContext, createBotView } from "./Bot";
+
+export interface BotClientOptions {
+  // Address of the game server, e.g. ws://localhost:3000
+  url: string;
+  gameID: GameID;
+  bot: Bot;
+  // A persistent id (UUID) or a JWT, the way browsers identify players.
+  token: string;
+  clientID?: ClientID;
+  flag?: string;
+}
+
+// Why a live game ended for the bot.
+export type BotGameResult =
+  | { type: "win"; update: WinUpdate }
+  | { type: "closed"; code: number; reason: string }
+  | { type: "error"; error: string };
+
+const PING_INTERVAL_MS = 5000;
+
+// Joins a lobby over the same websocket protocol as the browser client and
+// keeps a local copy of the game in sync from the turns of the server. The
+// bot sees the game through a view of it and acts through intents, like a
+// player.
+export class BotClient {
+  readonly clientID: ClientID;
+
+  private socket: WebSocket | null = null;
+  private runner: GameRunner | null = null;
+  private view: GameView | null = null;
+  private context: BotContext;
+  // Turns received while the map is still loading.
+  private pendingTurns: Turn[] = [];
+  private turnsSeen = 0;
+  private pingInterval: NodeJS.Timeout | null = null;
+  private finish: (result: BotGameResult) => void = () => {};
+
+  constructor(
+    private options: BotClientOptions,
+    private mapLoader: GameMapLoader,
+    private serverConfig: ServerConfig,
+  ) {
+    this.clientID = options.clientID ?? generateID();
+    this.context = botContext(
+      () => {
+        if (this.view === null) throw new Error("Game not started");
+        return this.view;
+      },
+      this.clientID,
+      new BotActions(this.clientID, options.bot.name, (intent) =>
+        this.send({ type: "intent", intent }),
+      ),
+    );
+  }
+
+  // Resolves once the game has a winner or the connection closed.
+  run(): Promise<BotGameResult> {
+    return new Promise((resolve) => {
+      this.finish = (result) => {
+        this.finish = () => {};
+        this.close();
+        resolve(result);
+      };
+      const workerPath = this.serverConfig.workerPath(this.options.gameID);
+      this.socket = new WebSocket(`${this.options.url}/${workerPath}`);
+      this.socket.on("open", () => {
+        this.send({
+          type: "join",
+          gameID: this.options.gameID,
+          clientID: this.clientID,
+          lastTurn: 0,
+          token: this.options.token,
+          username: this.options.bot.name,
+          flag: this.options.flag ?? "",
+          pattern: undefined,
+        });
+        this.pingInterval = setInterval(
+          () => this.send({ type: "ping" }),
+          PING_INTERVAL_MS,
+        );
+      });
+      this.socket.on("message", (data) => this.onMessage(data.toString()));
+      this.socket.on("error", (error) =>
+        this.finish({ type: "error", error: String(error) }),
+      );
+      this.socket.on("close", (code, reason) =>
+        this.finish({ type: "closed", code, reason: reason.toString() }),
+      );
+    });
+  }
+
+  close() {
+    if (this.pingInterval !== null) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message, replacer));
+    }
+  }
+
+  private onMessage(data: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      console.error("Error parsing server message", error, data);
+      return;
+    }
+    const result = ServerMessageSchema.safeParse(parsed);
+    if (!result.success) {
+      console.error(
+        "Error parsing server message",
+        z.prettifyError(result.error),
+      );
+      return;
+    }
+    const message: ServerMessage = result.data;
+    switch (message.type) {
+      case "start":
+        this.start(message.gameStartInfo, message.turns);
+        break;
+      case "turn":
+        this.addTurn(message.turn);
+        break;
+      case "desync":
+        console.warn(`desync on turn ${message.turn}`);
+        break;
+      case "error":
+        this.finish({ type: "error", error: message.error });
+        break;
+    }
+  }
+
+  private start(gameStartInfo: GameStartInfo, turns: Turn[]) {
+    this.pendingTurns.push(...turns);
+    createGameRunner(
+      gameStartInfo,
+      this.clientID,
+      this.mapLoader,
+      (gu) => {
+        if ("errMsg" in gu) {
+          this.finish({ type: "error", error: gu.errMsg });
+          return;
+        }
+        this.view?.update(gu);
+        gu.updates[GameUpdateType.Hash].forEach((hu) =>
+          this.send({ type: "hash", turnNumber: hu.tick, hash: hu.hash }),
+        );
+        const win = gu.updates[GameUpdateType.Win][0];
+        if (win !== undefined) {
+          this.finish({ type: "win", update: win });
+        }
+      },
+      this.serverConfig,
+    )
+      .then(async (runner) => {
+        this.view = await createBotView(
+          gameStartInfo,
+          this.clientID,
+          runner,
+          this.mapLoader,
+          this.serverConfig,
+        );
+        this.runner = runner;
+        const pending = this.pendingTurns;
+        this.pendingTurns = [];
+        pending.forEach((turn) => this.addTurn(turn));
+      })
+      .catch((error) => this.finish({ type: "error", error: String(error) }));
+  }
+
+  private addTurn(turn: Turn) {
+    if (this.runner === null) {
+      this.pendingTurns.push(turn);
+      return;
+    }
+    if (turn.turnNumber < this.turnsSeen) {
+      return;
+    }
+    // Fill in missing turns, like the browser client does.
+    while (this.turnsSeen < turn.turnNumber) {
+      this.tick({ turnNumber: this.turnsSeen, intents: [] });
+    }
+    this.tick(turn);
+  }
+
+  private tick(turn: Turn) {
+    if (this.runner === null) return;
+    this.runner.addTurn(turn);
+    this.runner.executeNextTick();
+    this.turnsSeen++;
+    if (this.socket === null) return;
+    try {
+      this.options.bot.tick(this.context);
+    } catch (error) {
+      // A broken bot ends its game rather than the process running it.
+      this.finish({ type: "error", error: `bot failed: ${String(error)}` });
+    }
+  }
+}
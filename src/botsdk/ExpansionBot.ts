@@ -0,0 +1,79 @@
+import { TileRef } from "../core/game/GameMap";
+import { PlayerView } from "../core/game/GameView";
+import { PseudoRandom } from "../core/PseudoRandom";
+import { simpleHash } from "../core/Util";
+import { Bot, BotContext } from "./Bot";
+
+// A minimal bot to start from: spawns on a random free tile, then keeps
+// expanding into unclaimed land and afterwards into its weakest neighbor.
+export class ExpansionBot implements Bot {
+  private random: PseudoRandom;
+  private spawned = false;
+  // The tiles of its player, kept up to date from the tile updates.
+  private tiles = new Set<TileRef>();
+
+  constructor(
+    public readonly name: string,
+    // Fraction of its troops sent with every attack.
+    private attackRatio = 0.25,
+  ) {
+    this.random = new PseudoRandom(simpleHash(name));
+  }
+
+  tick(ctx: BotContext) {
+    const { game, actions } = ctx;
+    const player = ctx.player();
+    for (const tile of game.recentlyUpdatedTiles()) {
+      if (player !== null && game.ownerID(tile) === player.smallID()) {
+        this.tiles.add(tile);
+      } else {
+        this.tiles.delete(tile);
+      }
+    }
+
+    if (game.inSpawnPhase()) {
+      if (!this.spawned) {
+        for (let i = 0; i < 100; i++) {
+          const tile = game.ref(
+            this.random.nextInt(0, game.width()),
+            this.random.nextInt(0, game.height()),
+          );
+          if (game.isLand(tile) && !game.hasOwner(tile)) {
+            actions.spawn(tile);
+            this.spawned = true;
+            break;
+          }
+        }
+      }
+      return;
+    }
+
+    if (
+      game.ticks() % 10 !== 0 ||
+      player === null ||
+      !player.isAlive() ||
+      player.outgoingAttacks().length > 0
+    ) {
+      return;
+    }
+    const troops = Math.floor(player.troops() * this.attackRatio);
+    const neighbors = new Set<PlayerView>();
+    for (const tile of this.tiles) {
+      for (const n of game.neighbors(tile)) {
+        if (!game.isLand(n) || game.ownerID(n) === player.smallID()) continue;
+        const owner = game.owner(n);
+        if (!owner.isPlayer()) {
+          actions.attack(null, troops);
+          return;
+        }
+        neighbors.add(owner);
+      }
+    }
+    const weakest = [...neighbors]
+      .filter((n) => !player.isFriendly(n))
+      .sort((a, b) => a.troops() - b.troops())[0];
+    if (weakest !== undefined && weakest.troops() < player.troops()) {
+      actions.attack(weakest.id(), troops);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { ServerConfig } from "../core/configuration/Config";
+import { Difficulty, GameMapType, GameMode, GameType } from "../core/game/Game";
+import { GameMapLoader } from "../core/game/GameMapLoader";
+import { GameUpdateType } from "../core/game/GameUpdates";
+import { GameView } from "../core/game/GameView";
+import { createGameRunner } from "../core/GameRunner";
+import { GameConfig, GameStartInfo, Intent, Winner } from "../core/Schemas";
+import { Bot, BotActions, botContext, BotContext, createBotView } from "./Bot";
+
+export interface MatchOptions {
+  gameMap: GameMapType;
+  bots: Bot[];
+  // The match ends without a winner after this many turns.
+  maxTurns: number;
+  // Overrides of the private lobby defaults, e.g. nations or game mode.
+  config?: Partial<GameConfig>;
+  gameID?: string;
+}
+
+export interface MatchPlayerResult {
+  name: string;
+  clientID: string;
+  isAlive: boolean;
+  tiles: number;
+  troops: number;
+  gold: bigint;
+}
+
+export interface MatchResult {
+  gameID: string;
+  turns: number;
+  winner: Winner;
+  // Name of the winning bot, or the winning team.
+  winnerName: string | null;
+  // Ordered by tiles owned at the end, best first.
+  players: MatchPlayerResult[];
+  // Set if the simulation failed.
+  error: string | null;
+}
+
+// Plays a match between bots in process, without a server. Every turn holds
+// the intents the bots sent after the previous tick, the same as they would
+// arrive from the server in a live game.
+export async function runMatch(
+  options: MatchOptions,
+  mapLoader: GameMapLoader,
+  serverConfig: ServerConfig,
+): Promise<MatchResult> {
+  const gameID = options.gameID ?? "botmatch";
+  const players = options.bots.map((bot, i) => ({
+    clientID: `bot${String(i).padStart(5, "0")}`,
+    username: bot.name,
+    flag: "",
+    pattern: undefined,
+  }));
+  const gameStartInfo: GameStartInfo = {
+    gameID,
+    players,
+    config: {
+      gameMap: options.gameMap,
+      gameType: GameType.Private,
+      gameMode: GameMode.FFA,
+      difficulty: Difficulty.Medium,
+      disableNPCs: true,
+      bots: 0,
+      infiniteGold: false,
+      infiniteTroops: false,
+      instantBuild: false,
+      ...options.config,
+    },
+  };
+
+  const result: MatchResult = {
+    gameID,
+    turns: 0,
+    winner: undefined,
+    winnerName: null,
+    players: [],
+    error: null,
+  };
+  let done = false;
+  let intents: Intent[] = [];
+  let views: GameView[] = [];
+
+  const runner = await createGameRunner(
+    gameStartInfo,
+    null,
+    mapLoader,
+    (gu) => {
+      if ("errMsg" in gu) {
+        result.error = gu.errMsg;
+        done = true;
+        return;
+      }
+      views.forEach((view) => view.update(gu));
+      const win = gu.updates[GameUpdateType.Win][0];
+      if (win !== undefined) {
+        result.winner = win.winner;
+        done = true;
+      }
+    },
+    serverConfig,
+  );
+
+  views = await Promise.all(
+    players.map((p) =>
+      createBotView(gameStartInfo, p.clientID, runner, mapLoader, serverConfig),
+    ),
+  );
+  const contexts: BotContext[] = players.map((p, i) =>
+    botContext(
+      () => views[i],
+      p.clientID,
+      new BotActions(p.clientID, p.username, (intent) => intents.push(intent)),
+    ),
+  );
+
+  while (!done && result.turns < options.maxTurns) {
+    runner.addTurn({ turnNumber: result.turns, intents });
+    intents = [];
+    runner.executeNextTick();
+    result.turns++;
+    if (done) break;
+    options.bots.forEach((bot, i) => bot.tick(contexts[i]));
+  }
+
+  result.players = players
+    .map((p): MatchPlayerResult => {
+      const player = runner.game.playerByClientID(p.clientID);
+      return {
+        name: p.username,
+        clientID: p.clientID,
+        isAlive: player?.isAlive() ?? false,
+        tiles: player?.numTilesOwned() ?? 0,
+        troops: player?.troops() ?? 0,
+        gold: player?.gold() ?? 0n,
+      };
+    })
+    .sort((a, b) => b.tiles - a.tiles);
+  if (result.winner !== undefined) {
+    const [kind, id] = result.winner;
+    result.winnerName =
+      kind === "team"
+        ? id
+        : (players.find((p) => p.clientID === id)?.username ?? null);
+  }
+  return result;
+}
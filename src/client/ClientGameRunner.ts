@@ -7,6 +7,7 @@ import {
   GameStartInfo,
   PlayerRecord,
   ServerMessage,
+  Turn,
 } from "../core/Schemas";
 import { createGameRecord } from "../core/Util";
 import { ServerConfig } from "../core/configuration/Config";
@@ -22,28 +23,44 @@ import {
   WinUpdate,
 } from "../core/game/GameUpdates";
 import { GameView, PlayerView } from "../core/game/GameView";
+import { ReplayMarker, ReplayMarkerType } from "../core/game/ReplayMarkers";
 import { loadTerrainMap, TerrainMapData } from "../core/game/TerrainMapLoader";
 import { UserSettings } from "../core/game/UserSettings";
 import { WorkerClient } from "../core/worker/WorkerClient";
 import {
   DoBoatAttackEvent,
+  DoBuildEvent,
   DoGroundAttackEvent,
+  DoPlayerActionEvent,
+  DoUpgradeEvent,
   InputHandler,
   MouseMoveEvent,
   MouseUpEvent,
+  ReplaySeekEvent,
 } from "./InputHandler";
+import { PlayerHotkeyAction } from "./Keybinds";
 import { endGame, startGame, startTime } from "./LocalPersistantStats";
 import { getPersistentID } from "./Main";
 import { terrainMapFileLoader } from "./TerrainMapFileLoader";
 import {
+  BuildUnitIntentEvent,
+  QueueBuildIntentEvent,
+  SendAllianceRequestIntentEvent,
   SendAttackIntentEvent,
   SendBoatAttackIntentEvent,
+  SendDonateGoldIntentEvent,
+  SendDonateTroopsIntentEvent,
+  SendEmbargoIntentEvent,
   SendHashEvent,
   SendSpawnIntentEvent,
+  SendTargetPlayerIntentEvent,
+  SendUpgradeStructureIntentEvent,
   Transport,
 } from "./Transport";
 import { createCanvas } from "./Utils";
 import { createRenderer, GameRenderer } from "./graphics/GameRenderer";
+import { GamePausedEvent } from "./graphics/layers/PauseOverlay";
+import { ReplayTimelineEvent } from "./graphics/layers/ReplayPanel";
 
 export interface LobbyConfig {
   serverConfig: ServerConfig;
@@ -57,6 +74,11 @@ export interface LobbyConfig {
   gameStartInfo?: GameStartInfo;
   // GameRecord exists when replaying an archived game.
   gameRecord?: GameRecord;
+  // Turns of a saved singleplayer game, simulated before play continues.
+  savedTurns?: Turn[];
+  // Spectators only watch, they never send intents.
+  isSpectator?: boolean;
+  isLobbyCreator?: boolean;
 }
 
 export function joinLobby(
@@ -83,7 +105,11 @@ export function joinLobby(
   const onmessage = (message: ServerMessage) => {
     if (message.type === "prestart") {
       console.log(`lobby: game prestarting: ${JSON.stringify(message)}`);
-      terrainLoad = loadTerrainMap(message.gameMap, terrainMapFileLoader);
+      terrainLoad = loadTerrainMap(
+        message.gameMap,
+        terrainMapFileLoader,
+        message.customMap,
+      );
       onPrestart();
     }
     if (message.type === "start") {
@@ -102,6 +128,12 @@ export function joinLobby(
         terrainMapFileLoader,
       ).then((r) => r.start());
     }
+    if (message.type === "lobby_chat") {
+      // Shown by the lobby-chat element of whichever lobby is open.
+      document.dispatchEvent(
+        new CustomEvent("lobby-chat", { detail: message }),
+      );
+    }
     if (message.type === "error") {
       showErrorModal(
         message.error,
@@ -145,11 +177,13 @@ async function createClientGame(
     gameMap = await loadTerrainMap(
       lobbyConfig.gameStartInfo.config.gameMap,
       mapLoader,
+      lobbyConfig.gameStartInfo.config.customMap,
     );
   }
   const worker = new WorkerClient(
     lobbyConfig.gameStartInfo,
     lobbyConfig.clientID,
+    lobbyConfig.gameRecord !== undefined,
   );
   await worker.initialize();
   const gameView = new GameView(
@@ -159,6 +193,8 @@ async function createClientGame(
     lobbyConfig.clientID,
     lobbyConfig.gameStartInfo.gameID,
     lobbyConfig.gameStartInfo.players,
+    lobbyConfig.isSpectator ?? false,
+    lobbyConfig.isLobbyCreator ?? false,
   );
 
   console.log("going to init path finder");
@@ -188,6 +224,13 @@ export class ClientGameRunner {
   private turnsSeen = 0;
   private hasJoined = false;
 
+  // Set while the server has paused the game, no turns arrive meanwhile.
+  private isPaused = false;
+
+  private isSeeking = false;
+  // Latest turn requested while a seek was running.
+  private pendingSeekTurn: number | null = null;
+
   private lastMousePosition: { x: number; y: number } | null = null;
 
   private lastMessageTime: number = 0;
@@ -248,30 +291,47 @@ export class ClientGameRunner {
     }, 20000);
     this.eventBus.on(MouseUpEvent, this.inputEvent.bind(this));
     this.eventBus.on(MouseMoveEvent, this.onMouseMove.bind(this));
-    this.eventBus.on(
-      DoBoatAttackEvent,
-      this.doBoatAttackUnderCursor.bind(this),
-    );
-    this.eventBus.on(
-      DoGroundAttackEvent,
-      this.doGroundAttackUnderCursor.bind(this),
-    );
+    if (!this.lobby.isSpectator) {
+      this.eventBus.on(
+        DoBoatAttackEvent,
+        this.doBoatAttackUnderCursor.bind(this),
+      );
+      this.eventBus.on(
+        DoGroundAttackEvent,
+        this.doGroundAttackUnderCursor.bind(this),
+      );
+      this.eventBus.on(DoBuildEvent, this.doBuildUnderCursor.bind(this));
+      this.eventBus.on(DoUpgradeEvent, this.doUpgradeUnderCursor.bind(this));
+      this.eventBus.on(
+        DoPlayerActionEvent,
+        this.doPlayerActionUnderCursor.bind(this),
+      );
+    }
+
+    if (this.lobby.gameRecord !== undefined) {
+      this.eventBus.on(ReplaySeekEvent, this.onReplaySeek.bind(this));
+    }
 
     this.renderer.initialize();
     this.input.initialize();
+    if (this.lobby.gameRecord !== undefined) {
+      this.eventBus.emit(
+        new ReplayTimelineEvent(
+          this.lobby.gameRecord.info.num_turns,
+          this.pauseMarkers(),
+        ),
+      );
+    }
     this.worker.start((gu: GameUpdateViewData | ErrorUpdate) => {
       if (this.lobby.gameStartInfo === undefined) {
         throw new Error("missing gameStartInfo");
       }
+      if (this.isSeeking) {
+        // Ticks from before the seek, the seek result replaces them.
+        return;
+      }
       if ("errMsg" in gu) {
-        showErrorModal(
-          gu.errMsg,
-          gu.stack ?? "missing",
-          this.lobby.gameStartInfo.gameID,
-          this.lobby.clientID,
-        );
-        console.error(gu.stack);
-        this.stop(true);
+        this.crash(gu.errMsg, gu.stack);
         return;
       }
       this.transport.turnComplete();
@@ -303,6 +363,10 @@ export class ClientGameRunner {
       if (message.type === "start") {
         this.hasJoined = true;
         console.log("starting game!");
+        if (this.lobby.savedTurns !== undefined && this.turnsSeen === 0) {
+          this.resumeSavedGame(message.turns);
+          return;
+        }
         for (const turn of message.turns) {
           if (turn.turnNumber < this.turnsSeen) {
             continue;
@@ -343,6 +407,12 @@ export class ClientGameRunner {
           "error_modal.connection_error",
         );
       }
+      if (message.type === "paused") {
+        this.isPaused = message.paused;
+        this.eventBus.emit(
+          new GamePausedEvent(message.paused, message.clientID),
+        );
+      }
       if (message.type === "turn") {
         if (!this.hasJoined) {
           this.transport.joinGame(0);
@@ -361,6 +431,89 @@ export class ClientGameRunner {
     this.transport.connect(onconnect, onmessage);
   }
 
+  // Simulates the turns of a saved game at once instead of tick by tick.
+  private resumeSavedGame(turns: Turn[]) {
+    this.isSeeking = true;
+    this.turnsSeen = turns.length;
+    this.worker
+      .seek(turns)
+      .then((result) => {
+        this.gameView.reset(result.gameUpdate);
+        this.renderer.reset();
+        this.isSeeking = false;
+        this.transport.replaySeekComplete();
+      })
+      .catch((error: Error) => {
+        // Corrupt or from an incompatible version, it would fail every time.
+        this.isSeeking = false;
+        this.transport.discardSavedGame();
+        this.crash(error.message, error.stack, "error_modal.saved_game_failed");
+      });
+  }
+
+  private onReplaySeek(event: ReplaySeekEvent) {
+    if (this.isSeeking) {
+      this.pendingSeekTurn = event.turn;
+      return;
+    }
+    this.isSeeking = true;
+    const turns = this.transport.seekReplay(event.turn);
+    this.turnsSeen = turns.length;
+    this.worker
+      .seek(turns)
+      .then((result) => {
+        this.gameView.reset(result.gameUpdate);
+        this.renderer.reset();
+        this.eventBus.emit(
+          new ReplayTimelineEvent(
+            this.lobby.gameRecord?.info.num_turns ?? 0,
+            result.markers,
+          ),
+        );
+        this.isSeeking = false;
+        if (this.pendingSeekTurn !== null) {
+          const turn = this.pendingSeekTurn;
+          this.pendingSeekTurn = null;
+          this.onReplaySeek(new ReplaySeekEvent(turn));
+          return;
+        }
+        this.transport.replaySeekComplete();
+      })
+      .catch((error: Error) => {
+        this.isSeeking = false;
+        this.pendingSeekTurn = null;
+        this.crash(error.message, error.stack);
+      });
+  }
+
+  private crash(
+    errMsg: string,
+    stack: string | undefined,
+    heading = "error_modal.crashed",
+  ) {
+    if (this.lobby.gameStartInfo === undefined) {
+      throw new Error("missing gameStartInfo");
+    }
+    showErrorModal(
+      errMsg,
+      stack ?? "missing",
+      this.lobby.gameStartInfo.gameID,
+      this.lobby.clientID,
+      false,
+      true,
+      heading,
+    );
+    console.error(stack);
+    this.stop(true);
+  }
+
+  private pauseMarkers(): ReplayMarker[] {
+    return (this.lobby.gameRecord?.info.pauses ?? []).map((pause) => ({
+      type: ReplayMarkerType.Pause,
+      turn: pause.turn,
+    }));
+  }
+
   public stop(saveFullGame: boolean = false) {
     if (!this.isActive) return;
 
@@ -386,6 +539,14 @@ export class ClientGameRunner {
     }
     console.log(`clicked cell ${cell}`);
     const tile = this.gameView.ref(cell.x, cell.y);
+    if (this.lobby.isSpectator) {
+      // Spectators can only look around, clicking focuses the owner.
+      const owner = this.gameView.owner(tile);
+      this.gameView.setFocusedPlayer(
+        owner.isPlayer() ? (owner as PlayerView) : null,
+      );
+      return;
+    }
     if (
       this.gameView.isLand(tile) &&
       !this.gameView.hasOwner(tile) &&
@@ -430,13 +591,10 @@ export class ClientGameRunner {
       return;
     }
 
-    if (this.myPlayer === null) {
-      const myPlayer = this.gameView.playerByClientID(this.lobby.clientID);
-      if (myPlayer === null) return;
-      this.myPlayer = myPlayer;
-    }
+    const myPlayer = this.resolveMyPlayer();
+    if (myPlayer === null) return;
 
-    this.myPlayer.actions(tile).then((actions) => {
+    myPlayer.actions(tile).then((actions) => {
       if (!actions.canAttack && this.canBoatAttack(actions, tile)) {
         this.sendBoatAttackIntent(tile);
       }
@@ -449,13 +607,10 @@ export class ClientGameRunner {
       return;
     }
 
-    if (this.myPlayer === null) {
-      const myPlayer = this.gameView.playerByClientID(this.lobby.clientID);
-      if (myPlayer === null) return;
-      this.myPlayer = myPlayer;
-    }
+    const myPlayer = this.resolveMyPlayer();
+    if (myPlayer === null) return;
 
-    this.myPlayer.actions(tile).then((actions) => {
+    myPlayer.actions(tile).then((actions) => {
       if (this.myPlayer === null) return;
       if (actions.canAttack) {
         this.eventBus.emit(
@@ -468,6 +623,119 @@ export class ClientGameRunner {
     });
   }
 
+  // Builds, upgrades or queues like the build menu does.
+  private doBuildUnderCursor(event: DoBuildEvent): void {
+    const tile = this.getTileUnderCursor();
+    if (tile === null) {
+      return;
+    }
+    const myPlayer = this.resolveMyPlayer();
+    if (myPlayer === null) return;
+
+    myPlayer.actions(tile).then((actions) => {
+      const bu = actions.buildableUnits.find((u) => u.type === event.unitType);
+      if (bu === undefined) {
+        return;
+      }
+      if (bu.canUpgrade !== false) {
+        this.eventBus.emit(
+          new SendUpgradeStructureIntentEvent(bu.canUpgrade, bu.type),
+        );
+      } else if (bu.canBuild !== false) {
+        this.eventBus.emit(new BuildUnitIntentEvent(bu.type, tile));
+      } else if (bu.cost > myPlayer.gold()) {
+        this.eventBus.emit(new QueueBuildIntentEvent(bu.type, tile));
+      }
+    });
+  }
+
+  // Upgrades my structure closest to the cursor.
+  private doUpgradeUnderCursor(): void {
+    const tile = this.getTileUnderCursor();
+    if (tile === null) {
+      return;
+    }
+    const myPlayer = this.resolveMyPlayer();
+    if (myPlayer === null) return;
+
+    const config = this.gameView.config();
+    const upgradable = Object.values(UnitType).filter(
+      (type) => config.unitInfo(type).upgradable === true,
+    );
+    const structure = this.gameView
+      .nearbyUnits(tile, config.structureMinDist(), upgradable)
+      .filter(({ unit }) => unit.owner() === myPlayer && unit.isActive())
+      .sort((a, b) => a.distSquared - b.distSquared)[0]?.unit;
+    if (structure === undefined) {
+      return;
+    }
+
+    myPlayer.actions(structure.tile()).then((actions) => {
+      const bu = actions.buildableUnits.find(
+        (u) => u.type === structure.type(),
+      );
+      if (bu !== undefined && bu.canUpgrade !== false) {
+        this.eventBus.emit(
+          new SendUpgradeStructureIntentEvent(bu.canUpgrade, bu.type),
+        );
+      }
+    });
+  }
+
+  private doPlayerActionUnderCursor(event: DoPlayerActionEvent): void {
+    const tile = this.getTileUnderCursor();
+    if (tile === null) {
+      return;
+    }
+    const myPlayer = this.resolveMyPlayer();
+    if (myPlayer === null) return;
+    const owner = this.gameView.owner(tile);
+    if (!owner.isPlayer() || owner === myPlayer) {
+      return;
+    }
+
+    myPlayer.actions(tile).then((actions) => {
+      const interaction = actions.interaction;
+      if (interaction === undefined) {
+        return;
+      }
+      if (
+        event.action === PlayerHotkeyAction.AllianceRequest &&
+        interaction.canSendAllianceRequest
+      ) {
+        this.eventBus.emit(new SendAllianceRequestIntentEvent(myPlayer, owner));
+      } else if (event.action === PlayerHotkeyAction.Embargo) {
+        // Like the radial menu, trade is resumed when it can't be stopped.
+        this.eventBus.emit(
+          new SendEmbargoIntentEvent(
+            owner,
+            interaction.canEmbargo ? "start" : "stop",
+          ),
+        );
+      } else if (
+        event.action === PlayerHotkeyAction.Target &&
+        interaction.canTarget
+      ) {
+        this.eventBus.emit(new SendTargetPlayerIntentEvent(owner.id()));
+      } else if (
+        event.action === PlayerHotkeyAction.DonateGold &&
+        interaction.canDonate
+      ) {
+        this.eventBus.emit(new SendDonateGoldIntentEvent(owner, null));
+      } else if (
+        event.action === PlayerHotkeyAction.DonateTroops &&
+        interaction.canDonate
+      ) {
+        this.eventBus.emit(new SendDonateTroopsIntentEvent(owner, null));
+      }
+    });
+  }
+
+  private resolveMyPlayer(): PlayerView | null {
+    this.myPlayer ??= this.gameView.playerByClientID(this.lobby.clientID);
+    return this.myPlayer;
+  }
+
   private getTileUnderCursor(): TileRef | null {
     if (!this.isActive || !this.lastMousePosition) {
       return null;
@@ -572,7 +840,7 @@ export class ClientGameRunner {
   }
 
   private onConnectionCheck() {
-    if (this.transport.isLocal) {
+    if (this.transport.isLocal || this.isPaused) {
       return;
     }
     const now = Date.now();
@@ -15,19 +15,35 @@ import {
 } from "../core/game/Game";
 import { UserSettings } from "../core/game/UserSettings";
 import {
-  ClientInfo,
-  GameConfig,
-  GameInfo,
-  TeamCountConfig,
-} from "../core/Schemas";
+  GameRules,
+  VictoryCondition,
+  VictoryConditionSchema,
+  VictoryConditionType,
+} from "../core/RulesSchemas";
+import { ClientInfo, GameInfo, TeamCountConfig } from "../core/Schemas";
 import { generateID } from "../core/Util";
+import { GameInput } from "../core/WorkerSchemas";
 import "./components/baseComponents/Modal";
 import "./components/Difficulties";
 import { DifficultyDescription } from "./components/Difficulties";
+import "./components/GameRulesPanel";
+import "./components/LobbyChat";
 import "./components/Maps";
 import { JoinLobbyEvent } from "./Main";
 import { renderUnitTypeOptions } from "./utilities/RenderUnitTypeOptions";
 
+const defaultVictoryConditions: Record<VictoryConditionType, VictoryCondition> =
+  {
+    tiles: { type: "tiles" },
+    timeLimit: { type: "timeLimit", minutes: 30 },
+    lastStanding: { type: "lastStanding" },
+    kingOfTheHill: { type: "kingOfTheHill", radius: 30, holdMinutes: 5 },
+    points: { type: "points", minutes: 30 },
+  };
+const victoryConditionTypes = Object.keys(
+  defaultVictoryConditions,
+) as VictoryConditionType[];
+
 @customElement("host-lobby-modal")
 export class HostLobbyModal extends LitElement {
   @query("o-modal") private modalEl!: HTMLElement & {
@@ -43,6 +59,9 @@ export class HostLobbyModal extends LitElement {
   @state() private infiniteGold: boolean = false;
   @state() private infiniteTroops: boolean = false;
   @state() private instantBuild: boolean = false;
+  @state() private fogOfWar: boolean = false;
+  @state() private capitalMode: boolean = false;
+  @state() private capitalAnnexation: boolean = false;
   @state() private lobbyId = "";
   @state() private copySuccess = false;
   @state() private clients: ClientInfo[] = [];
@@ -50,6 +69,11 @@ export class HostLobbyModal extends LitElement {
   @state() private disabledUnits: UnitType[] = [UnitType.Factory];
   @state() private lobbyCreatorClientID: string = "";
   @state() private lobbyIdVisible: boolean = true;
+  @state() private customMap: { hash: string; name: string } | null = null;
+  @state() private customMapError: string | null = null;
+  @state() private uploadingCustomMap = false;
+  @state() private rules: GameRules = {};
+  @state() private victoryCondition: VictoryCondition = { type: "tiles" };
 
   private playersInterval: NodeJS.Timeout | null = null;
   // Add a new timer for debouncing bot changes
@@ -188,6 +212,7 @@ export class HostLobbyModal extends LitElement {
                             <map-display
                               .mapKey=${mapKey}
                               .selected=${!this.useRandomMap &&
+                              this.customMap === null &&
                               this.selectedMap === mapValue}
                               .translation=${translateText(
                                 `map.${mapKey?.toLowerCase()}`,
@@ -217,6 +242,36 @@ export class HostLobbyModal extends LitElement {
                   ${translateText("map.random")}
                 </div>
               </div>
+              <label
+                class="option-card ${this.customMap !== null ? "selected" : ""}"
+              >
+                <input
+                  type="file"
+                  class="hidden"
+                  multiple
+                  accept=".json,.png,application/json,image/png"
+                  ?disabled=${this.uploadingCustomMap}
+                  @change=${this.handleCustomMapUpload}
+                />
+                <div class="option-card-title">
+                  ${translateText("host_modal.custom_map")}
+                </div>
+                <p class="text-sm text-gray-300">
+                  ${
+                    this.uploadingCustomMap
+                      ? translateText("host_modal.custom_map_uploading")
+                      : (this.customMap?.name ??
+                        translateText("host_modal.custom_map_desc"))
+                  }
+                </p>
+                ${
+                  this.customMapError !== null
+                    ? html`<p class="text-sm text-red-400">
+                        ${this.customMapError}
+                      </p>`
+                    : ""
+                }
+              </label>
             </div>
           </div>
 
@@ -304,6 +359,30 @@ export class HostLobbyModal extends LitElement {
                 `
           }
 
+          <!-- Victory Condition Selection -->
+          <div class="options-section">
+            <div class="option-title">
+              ${translateText("host_modal.victory_condition")}
+            </div>
+            <div class="option-cards">
+              ${victoryConditionTypes.map(
+                (type) => html`
+                  <div
+                    class="option-card ${this.victoryCondition.type === type
+                      ? "selected"
+                      : ""}"
+                    @click=${() => this.handleVictoryConditionSelection(type)}
+                  >
+                    <div class="option-card-title">
+                      ${translateText(`victory_status.${type}`)}
+                    </div>
+                  </div>
+                `,
+              )}
+            </div>
+            ${this.renderVictoryConditionOptions()}
+          </div>
+
           <!-- Game Options -->
           <div class="options-section">
             <div class="option-title">
@@ -362,6 +441,61 @@ export class HostLobbyModal extends LitElement {
                   </div>
                 </label>
 
+                <label
+                  for="fog-of-war"
+                  class="option-card ${this.fogOfWar ? "selected" : ""}"
+                >
+                  <div class="checkbox-icon"></div>
+                  <input
+                    type="checkbox"
+                    id="fog-of-war"
+                    @change=${this.handleFogOfWarChange}
+                    .checked=${this.fogOfWar}
+                  />
+                  <div class="option-card-title">
+                    ${translateText("host_modal.fog_of_war")}
+                  </div>
+                </label>
+
+                <label
+                  for="capitals"
+                  class="option-card ${this.capitalMode ? "selected" : ""}"
+                >
+                  <div class="checkbox-icon"></div>
+                  <input
+                    type="checkbox"
+                    id="capitals"
+                    @change=${this.handleCapitalModeChange}
+                    .checked=${this.capitalMode}
+                  />
+                  <div class="option-card-title">
+                    ${translateText("host_modal.capitals")}
+                  </div>
+                </label>
+                ${
+                  this.capitalMode
+                    ? html`
+                        <label
+                          for="capital-annexation"
+                          class="option-card ${this.capitalAnnexation
+                            ? "selected"
+                            : ""}"
+                        >
+                          <div class="checkbox-icon"></div>
+                          <input
+                            type="checkbox"
+                            id="capital-annexation"
+                            @change=${this.handleCapitalAnnexationChange}
+                            .checked=${this.capitalAnnexation}
+                          />
+                          <div class="option-card-title">
+                            ${translateText("host_modal.capital_annexation")}
+                          </div>
+                        </label>
+                      `
+                    : ""
+                }
+
                 <label
                   for="infinite-gold"
                   class="option-card ${this.infiniteGold ? "selected" : ""}"
@@ -415,6 +549,11 @@ export class HostLobbyModal extends LitElement {
             </div>
           </div>
 
+        <game-rules-panel
+          .rules=${this.rules}
+          @rules-change=${this.handleRulesChange}
+        ></game-rules-panel>
+
         <!-- Lobby Selection -->
         <div class="options-section">
           <div class="option-title">
@@ -449,6 +588,8 @@ export class HostLobbyModal extends LitElement {
             )}
         </div>
 
+        <lobby-chat></lobby-chat>
+
         <div class="start-game-button-container">
           <button
             @click=${this.startGame}
@@ -490,6 +631,7 @@ export class HostLobbyModal extends LitElement {
             detail: {
               gameID: this.lobbyId,
               clientID: this.lobbyCreatorClientID,
+              isLobbyCreator: true,
             } as JoinLobbyEvent,
             bubbles: true,
             composed: true,
@@ -516,15 +658,61 @@ export class HostLobbyModal extends LitElement {
 
   private async handleRandomMapToggle() {
     this.useRandomMap = true;
+    this.customMap = null;
     this.putGameConfig();
   }
 
   private async handleMapSelection(value: GameMapType) {
     this.selectedMap = value;
     this.useRandomMap = false;
+    this.customMap = null;
     this.putGameConfig();
   }
 
+  // A map package is the manifest with the nations and the terrain image,
+  // the server converts it and switches the lobby to it.
+  private async handleCustomMapUpload(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    input.value = "";
+    const manifestFile = files.find((f) => f.name.endsWith(".json"));
+    const terrainFile = files.find((f) => f.name.endsWith(".png"));
+    if (manifestFile === undefined || terrainFile === undefined) {
+      this.customMapError = translateText("host_modal.custom_map_files");
+      return;
+    }
+
+    this.customMapError = null;
+    this.uploadingCustomMap = true;
+    try {
+      const manifest = JSON.parse(await manifestFile.text());
+      const terrain = await readAsBase64(terrainFile);
+      const config = await getServerConfigFromClient();
+      const response = await fetch(
+        `${window.location.origin}/${config.workerPath(this.lobbyId)}/api/game/${this.lobbyId}/custom_map`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ manifest, terrain }),
+        },
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        this.customMapError = data.error;
+        return;
+      }
+      this.customMap = { hash: data.hash, name: data.manifest.name };
+      this.useRandomMap = false;
+    } catch (error) {
+      console.error("Error uploading custom map:", error);
+      this.customMapError = translateText("host_modal.custom_map_invalid");
+    } finally {
+      this.uploadingCustomMap = false;
+    }
+  }
+
   private async handleDifficultySelection(value: Difficulty) {
     this.selectedDifficulty = value;
     this.putGameConfig();
@@ -557,6 +745,21 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
+  private handleFogOfWarChange(e: Event) {
+    this.fogOfWar = Boolean((e.target as HTMLInputElement).checked);
+    this.putGameConfig();
+  }
+
+  private handleCapitalModeChange(e: Event) {
+    this.capitalMode = Boolean((e.target as HTMLInputElement).checked);
+    this.putGameConfig();
+  }
+
+  private handleCapitalAnnexationChange(e: Event) {
+    this.capitalAnnexation = Boolean((e.target as HTMLInputElement).checked);
+    this.putGameConfig();
+  }
+
   private handleInfiniteGoldChange(e: Event) {
     this.infiniteGold = Boolean((e.target as HTMLInputElement).checked);
     this.putGameConfig();
@@ -583,6 +786,83 @@ export class HostLobbyModal extends LitElement {
     this.putGameConfig();
   }
 
+  private renderVictoryConditionOptions() {
+    const condition = this.victoryCondition;
+    const numberInput = (
+      label: string,
+      value: number,
+      update: (value: number) => VictoryCondition,
+    ) =>
+      html`<label class="flex items-center gap-2">
+        <span>${translateText(label)}</span>
+        <input
+          type="number"
+          class="w-20 px-2 py-1 rounded text-black"
+          .value=${String(value)}
+          @change=${(e: Event) => {
+            const input = e.target as HTMLInputElement;
+            if (
+              !this.handleVictoryConditionChange(update(Number(input.value)))
+            ) {
+              input.value = String(value);
+            }
+          }}
+        />
+      </label>`;
+
+    switch (condition.type) {
+      case "timeLimit":
+      case "points":
+        return html`<div class="flex justify-center gap-4 mt-2 text-sm">
+          ${numberInput(
+            "host_modal.victory_minutes",
+            condition.minutes,
+            (v) => ({
+              ...condition,
+              minutes: v,
+            }),
+          )}
+        </div>`;
+      case "kingOfTheHill":
+        return html`<div class="flex justify-center gap-4 mt-2 text-sm">
+          ${numberInput(
+            "host_modal.victory_hill_radius",
+            condition.radius,
+            (v) => ({
+              ...condition,
+              radius: v,
+            }),
+          )}
+          ${numberInput(
+            "host_modal.victory_hold_minutes",
+            condition.holdMinutes,
+            (v) => ({ ...condition, holdMinutes: v }),
+          )}
+        </div>`;
+      default:
+        return html``;
+    }
+  }
+
+  private handleVictoryConditionSelection(type: VictoryConditionType) {
+    this.handleVictoryConditionChange(defaultVictoryConditions[type]);
+  }
+
+  private handleVictoryConditionChange(condition: VictoryCondition): boolean {
+    const result = VictoryConditionSchema.safeParse(condition);
+    if (!result.success) {
+      return false;
+    }
+    this.victoryCondition = result.data;
+    this.putGameConfig();
+    return true;
+  }
+
+  private handleRulesChange(e: CustomEvent<GameRules>) {
+    this.rules = e.detail;
+    this.putGameConfig();
+  }
+
   private async putGameConfig() {
     const config = await getServerConfigFromClient();
     const response = await fetch(
@@ -600,10 +880,17 @@ export class HostLobbyModal extends LitElement {
           infiniteGold: this.infiniteGold,
           infiniteTroops: this.infiniteTroops,
           instantBuild: this.instantBuild,
+          fogOfWar: this.fogOfWar,
+          capitalMode: this.capitalMode
+            ? { annexDisconnected: this.capitalAnnexation }
+            : null,
           gameMode: this.gameMode,
           disabledUnits: this.disabledUnits,
           playerTeams: this.teamCount,
-        } satisfies Partial<GameConfig>),
+          customMap: this.customMap?.hash ?? null,
+          rules: this.rules,
+          victoryCondition: this.victoryCondition,
+        } satisfies GameInput),
       },
     );
     return response;
@@ -690,6 +977,16 @@ export class HostLobbyModal extends LitElement {
   }
 }
 
+async function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Strip the "data:image/png;base64," prefix.
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 async function createLobby(creatorClientID: string): Promise<GameInfo> {
   const config = await getServerConfigFromClient();
   try {
@@ -1,13 +1,23 @@
 import { EventBus, GameEvent } from "../core/EventBus";
 import { UnitType } from "../core/game/Game";
+import { TileRef } from "../core/game/GameMap";
 import { UnitView } from "../core/game/GameView";
+import { ForecastNukeType } from "../core/game/NukeForecast";
 import { UserSettings } from "../core/game/UserSettings";
+import {
+  buildKeybinds,
+  cameraBookmarkSlot,
+  loadKeybinds,
+  PlayerHotkeyAction,
+} from "./Keybinds";
 import { ReplaySpeedMultiplier } from "./utilities/ReplaySpeedMultiplier";
 
 export class MouseUpEvent implements GameEvent {
   constructor(
     public readonly x: number,
     public readonly y: number,
+    // Held down to give warships fleet orders.
+    public readonly fleetModifier: boolean = false,
   ) {}
 }
 
@@ -78,6 +88,16 @@ export class ToggleStructureEvent implements GameEvent {
   constructor(public readonly structureType: UnitType | null) {}
 }
 
+/**
+ * Event emitted when a nuke is hovered in the radial menu, or with null when
+ * it no longer is, to preview where it would hit
+ */
+export class NukeForecastEvent implements GameEvent {
+  constructor(
+    public readonly nuke: { type: ForecastNukeType; tile: TileRef } | null,
+  ) {}
+}
+
 export class ShowBuildMenuEvent implements GameEvent {
   constructor(
     public readonly x: number,
@@ -95,6 +115,16 @@ export class DoBoatAttackEvent implements GameEvent {}
 
 export class DoGroundAttackEvent implements GameEvent {}
 
+export class DoBuildEvent implements GameEvent {
+  constructor(public readonly unitType: UnitType) {}
+}
+
+export class DoUpgradeEvent implements GameEvent {}
+
+export class DoPlayerActionEvent implements GameEvent {
+  constructor(public readonly action: PlayerHotkeyAction) {}
+}
+
 export class AttackRatioEvent implements GameEvent {
   constructor(public readonly attackRatio: number) {}
 }
@@ -103,14 +133,46 @@ export class ReplaySpeedChangeEvent implements GameEvent {
   constructor(public readonly replaySpeedMultiplier: ReplaySpeedMultiplier) {}
 }
 
+export class ReplaySeekEvent implements GameEvent {
+  constructor(public readonly turn: number) {}
+}
+
 export class CenterCameraEvent implements GameEvent {
   constructor() {}
 }
 
+export class CameraBookmarkEvent implements GameEvent {
+  constructor(
+    public readonly slot: number,
+    public readonly save: boolean,
+  ) {}
+}
+
+/**
+ * Starts following the selected unit, or the one near the screen position,
+ * or stops following if the camera already follows something.
+ */
+export class ToggleFollowEvent implements GameEvent {
+  constructor(
+    public readonly x: number,
+    public readonly y: number,
+  ) {}
+}
+
+export class FollowAttackEvent implements GameEvent {
+  constructor(
+    public readonly attackerID: number,
+    public readonly attackID: string,
+  ) {}
+}
+
 export class InputHandler {
   private lastPointerX: number = 0;
   private lastPointerY: number = 0;
 
+  private lastMouseX: number = 0;
+  private lastMouseY: number = 0;
+
   private lastPointerDownX: number = 0;
   private lastPointerDownY: number = 0;
 
@@ -137,23 +199,7 @@ export class InputHandler {
   ) {}
 
   initialize() {
-    this.keybinds = {
-      toggleView: "Space",
-      centerCamera: "KeyC",
-      moveUp: "KeyW",
-      moveDown: "KeyS",
-      moveLeft: "KeyA",
-      moveRight: "KeyD",
-      zoomOut: "KeyQ",
-      zoomIn: "KeyE",
-      attackRatioDown: "Digit1",
-      attackRatioUp: "Digit2",
-      boatAttack: "KeyB",
-      groundAttack: "KeyG",
-      modifierKey: "ControlLeft",
-      altKey: "AltLeft",
-      ...JSON.parse(localStorage.getItem("settings.keybinds") ?? "{}"),
-    };
+    this.keybinds = loadKeybinds();
 
     // Mac users might have different keybinds
     const isMac = /Mac/.test(navigator.userAgent);
@@ -175,6 +221,8 @@ export class InputHandler {
     window.addEventListener("pointermove", this.onPointerMove.bind(this));
     this.canvas.addEventListener("contextmenu", (e) => this.onContextMenu(e));
     window.addEventListener("mousemove", (e) => {
+      this.lastMouseX = e.clientX;
+      this.lastMouseY = e.clientY;
       if (e.movementX || e.movementY) {
         this.eventBus.emit(new MouseMoveEvent(e.clientX, e.clientY));
       }
@@ -249,6 +297,18 @@ export class InputHandler {
         this.eventBus.emit(new CloseViewEvent());
       }
 
+      // On key down, the modifier may be released before the digit.
+      const slot = cameraBookmarkSlot(this.keybinds, e.code);
+      if (slot !== null && !e.repeat) {
+        e.preventDefault();
+        this.eventBus.emit(
+          new CameraBookmarkEvent(
+            slot,
+            this.isCameraBookmarkModifierPressed(e),
+          ),
+        );
+      }
+
       if (
         [
           this.keybinds.moveUp,
@@ -266,6 +326,7 @@ export class InputHandler {
           this.keybinds.attackRatioDown,
           this.keybinds.attackRatioUp,
           this.keybinds.centerCamera,
+          this.keybinds.fleetModifier,
           "ControlLeft",
           "ControlRight",
           "ShiftLeft",
@@ -297,6 +358,34 @@ export class InputHandler {
         this.eventBus.emit(new DoGroundAttackEvent());
       }
 
+      // Leave browser and system shortcuts like Ctrl+Z or Alt+R alone.
+      const modified = e.ctrlKey || e.altKey || e.metaKey;
+
+      const build = buildKeybinds.find(
+        ({ action }) => e.code === this.keybinds[action],
+      );
+      if (build !== undefined && !modified) {
+        e.preventDefault();
+        this.eventBus.emit(new DoBuildEvent(build.unitType));
+      }
+
+      if (e.code === this.keybinds.upgradeStructure && !modified) {
+        e.preventDefault();
+        this.eventBus.emit(new DoUpgradeEvent());
+      }
+
+      for (const action of Object.values(PlayerHotkeyAction)) {
+        if (e.code !== this.keybinds[action] || modified) continue;
+        e.preventDefault();
+        if (action === PlayerHotkeyAction.Emoji) {
+          this.eventBus.emit(
+            new ShowEmojiMenuEvent(this.lastMouseX, this.lastMouseY),
+          );
+        } else {
+          this.eventBus.emit(new DoPlayerActionEvent(action));
+        }
+      }
+
       if (e.code === this.keybinds.attackRatioDown) {
         e.preventDefault();
         this.eventBus.emit(new AttackRatioEvent(-10));
@@ -312,6 +401,13 @@ export class InputHandler {
         this.eventBus.emit(new CenterCameraEvent());
       }
 
+      if (e.code === this.keybinds.followUnit) {
+        e.preventDefault();
+        this.eventBus.emit(
+          new ToggleFollowEvent(this.lastMouseX, this.lastMouseY),
+        );
+      }
+
       // Shift-D to toggle performance overlay
       console.log(e.code, e.shiftKey, e.ctrlKey, e.altKey, e.metaKey);
       if (e.code === "KeyD" && e.shiftKey) {
@@ -372,7 +468,13 @@ export class InputHandler {
       }
 
       if (!this.userSettings.leftClickOpensMenu() || event.shiftKey) {
-        this.eventBus.emit(new MouseUpEvent(event.x, event.y));
+        this.eventBus.emit(
+          new MouseUpEvent(
+            event.x,
+            event.y,
+            this.activeKeys.has(this.keybinds.fleetModifier),
+          ),
+        );
       } else {
         this.eventBus.emit(new ContextMenuEvent(event.clientX, event.clientY));
       }
@@ -467,6 +569,17 @@ export class InputHandler {
     );
   }
 
+  isCameraBookmarkModifierPressed(event: KeyboardEvent): boolean {
+    return (
+      (this.keybinds.cameraBookmarkModifier === "AltLeft" && event.altKey) ||
+      (this.keybinds.cameraBookmarkModifier === "ControlLeft" &&
+        event.ctrlKey) ||
+      (this.keybinds.cameraBookmarkModifier === "ShiftLeft" &&
+        event.shiftKey) ||
+      (this.keybinds.cameraBookmarkModifier === "MetaLeft" && event.metaKey)
+    );
+  }
+
   isAltKeyPressed(event: PointerEvent): boolean {
     return (
       (this.keybinds.altKey === "AltLeft" && event.altKey) ||
@@ -5,6 +5,7 @@ import { GameInfo, GameRecord } from "../core/Schemas";
 import { generateID } from "../core/Util";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
 import { JoinLobbyEvent } from "./Main";
+import "./components/LobbyChat";
 import "./components/baseComponents/Button";
 import "./components/baseComponents/Modal";
 @customElement("join-private-lobby-modal")
@@ -16,6 +17,7 @@ export class JoinPrivateLobbyModal extends LitElement {
   @query("#lobbyIdInput") private lobbyIdInput!: HTMLInputElement;
   @state() private message: string = "";
   @state() private hasJoined = false;
+  @state() private isSpectating = false;
   @state() private players: string[] = [];
 
   private playersInterval: NodeJS.Timeout | null = null;
@@ -87,14 +89,23 @@ export class JoinPrivateLobbyModal extends LitElement {
                 </div>
               </div>`
             : ""}
+          ${this.hasJoined
+            ? html`<lobby-chat ?readonly=${this.isSpectating}></lobby-chat>`
+            : ""}
         </div>
-        <div class="flex justify-center">
+        <div class="flex justify-center gap-2">
           ${!this.hasJoined
             ? html` <o-button
-                title=${translateText("private_lobby.join_lobby")}
-                block
-                @click=${this.joinLobby}
-              ></o-button>`
+                  title=${translateText("private_lobby.join_lobby")}
+                  block
+                  @click=${() => this.joinLobby()}
+                ></o-button>
+                <o-button
+                  title=${translateText("private_lobby.spectate")}
+                  block
+                  secondary
+                  @click=${() => this.joinLobby(true)}
+                ></o-button>`
             : ""}
         </div>
       </o-modal>
@@ -168,14 +179,14 @@ export class JoinPrivateLobbyModal extends LitElement {
     }
   }
 
-  private async joinLobby(): Promise<void> {
+  private async joinLobby(spectate: boolean = false): Promise<void> {
     const lobbyId = this.lobbyIdInput.value;
     console.log(`Joining lobby with ID: ${lobbyId}`);
     this.message = `${translateText("private_lobby.checking")}`;
 
     try {
       // First, check if the game exists in active lobbies
-      const gameExists = await this.checkActiveLobby(lobbyId);
+      const gameExists = await this.checkActiveLobby(lobbyId, spectate);
       if (gameExists) return;
 
       // If not active, check archived games
@@ -189,7 +200,10 @@ export class JoinPrivateLobbyModal extends LitElement {
     }
   }
 
-  private async checkActiveLobby(lobbyId: string): Promise<boolean> {
+  private async checkActiveLobby(
+    lobbyId: string,
+    spectate: boolean,
+  ): Promise<boolean> {
     const config = await getServerConfigFromClient();
     const url = `/${config.workerPath(lobbyId)}/api/game/${lobbyId}/exists`;
 
@@ -201,14 +215,18 @@ export class JoinPrivateLobbyModal extends LitElement {
     const gameInfo = await response.json();
 
     if (gameInfo.exists) {
-      this.message = translateText("private_lobby.joined_waiting");
+      this.message = spectate
+        ? translateText("private_lobby.spectating_waiting")
+        : translateText("private_lobby.joined_waiting");
       this.hasJoined = true;
+      this.isSpectating = spectate;
 
       this.dispatchEvent(
         new CustomEvent("join-lobby", {
           detail: {
             gameID: lobbyId,
             clientID: generateID(),
+            isSpectator: spectate,
           } as JoinLobbyEvent,
           bubbles: true,
           composed: true,
@@ -0,0 +1,203 @@
+import { UnitType } from "../core/game/Game";
+
+export interface BuildKeybind {
+  action: string;
+  unitType: UnitType;
+  translationKey: string;
+}
+
+// Keybind actions that build at the cursor.
+export const buildKeybinds: BuildKeybind[] = [
+  {
+    action: "buildCity",
+    unitType: UnitType.City,
+    translationKey: "unit_type.city",
+  },
+  {
+    action: "buildFactory",
+    unitType: UnitType.Factory,
+    translationKey: "unit_type.factory",
+  },
+  {
+    action: "buildPort",
+    unitType: UnitType.Port,
+    translationKey: "unit_type.port",
+  },
+  {
+    action: "buildDefensePost",
+    unitType: UnitType.DefensePost,
+    translationKey: "unit_type.defense_post",
+  },
+  {
+    action: "buildMissileSilo",
+    unitType: UnitType.MissileSilo,
+    translationKey: "unit_type.missile_silo",
+  },
+  {
+    action: "buildSamLauncher",
+    unitType: UnitType.SAMLauncher,
+    translationKey: "unit_type.sam_launcher",
+  },
+  {
+    action: "buildWarship",
+    unitType: UnitType.Warship,
+    translationKey: "unit_type.warship",
+  },
+  {
+    action: "buildAtomBomb",
+    unitType: UnitType.AtomBomb,
+    translationKey: "unit_type.atom_bomb",
+  },
+  {
+    action: "buildHydrogenBomb",
+    unitType: UnitType.HydrogenBomb,
+    translationKey: "unit_type.hydrogen_bomb",
+  },
+  {
+    action: "buildMIRV",
+    unitType: UnitType.MIRV,
+    translationKey: "unit_type.mirv",
+  },
+];
+
+// Actions on the player under the cursor, the values are keybind actions.
+export enum PlayerHotkeyAction {
+  AllianceRequest = "allianceRequest",
+  Embargo = "toggleEmbargo",
+  Target = "targetPlayer",
+  DonateGold = "donateGold",
+  DonateTroops = "donateTroops",
+  Emoji = "sendEmoji",
+}
+
+// "Null" is stored for keybinds the user unbound.
+export const UNBOUND_KEY = "Null";
+
+// Nukes and player actions are unbound at first, a stray key press should not
+// launch a nuke or gift troops.
+export const defaultKeybinds: Record<string, string> = {
+  toggleView: "Space",
+  centerCamera: "KeyC",
+  moveUp: "KeyW",
+  moveDown: "KeyS",
+  moveLeft: "KeyA",
+  moveRight: "KeyD",
+  zoomOut: "KeyQ",
+  zoomIn: "KeyE",
+  attackRatioDown: "Digit1",
+  attackRatioUp: "Digit2",
+  boatAttack: "KeyB",
+  groundAttack: "KeyG",
+  fleetModifier: "KeyF",
+  followUnit: "KeyT",
+  modifierKey: "ControlLeft",
+  altKey: "AltLeft",
+  cameraBookmarkModifier: "ShiftLeft",
+  buildCity: "KeyZ",
+  buildFactory: "KeyX",
+  buildPort: "KeyP",
+  buildDefensePost: "KeyV",
+  buildMissileSilo: "KeyN",
+  buildSamLauncher: "KeyH",
+  buildWarship: "KeyM",
+  buildAtomBomb: UNBOUND_KEY,
+  buildHydrogenBomb: UNBOUND_KEY,
+  buildMIRV: UNBOUND_KEY,
+  upgradeStructure: "KeyU",
+  [PlayerHotkeyAction.AllianceRequest]: UNBOUND_KEY,
+  [PlayerHotkeyAction.Embargo]: UNBOUND_KEY,
+  [PlayerHotkeyAction.Target]: UNBOUND_KEY,
+  [PlayerHotkeyAction.DonateGold]: UNBOUND_KEY,
+  [PlayerHotkeyAction.DonateTroops]: UNBOUND_KEY,
+  [PlayerHotkeyAction.Emoji]: UNBOUND_KEY,
+};
+
+// The user's keybinds over the defaults.
+export function loadKeybinds(): Record<string, string> {
+  let saved: Record<string, string> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem("settings.keybinds") ?? "{}");
+  } catch (e) {
+    console.warn("Invalid keybinds JSON:", e);
+  }
+  return { ...defaultKeybinds, ...saved };
+}
+
+// Hotkeys that don't fire while Ctrl, Alt or Meta is held, so browser and
+// system shortcuts don't trigger them.
+export function ignoresModifiers(action: string): boolean {
+  return (
+    action === "upgradeStructure" ||
+    buildKeybinds.some((b) => b.action === action) ||
+    Object.values<string>(PlayerHotkeyAction).includes(action)
+  );
+}
+
+interface FixedShortcut {
+  action: string;
+  key: string;
+  // Held together with the key, hotkeys that ignore modifiers can share it.
+  withModifier: boolean;
+}
+
+// Shortcuts InputHandler handles itself, whatever the keybinds.
+const fixedShortcuts: FixedShortcut[] = [
+  { action: "closeView", key: "Escape", withModifier: false },
+  { action: "moveUp", key: "ArrowUp", withModifier: false },
+  { action: "moveDown", key: "ArrowDown", withModifier: false },
+  { action: "moveLeft", key: "ArrowLeft", withModifier: false },
+  { action: "moveRight", key: "ArrowRight", withModifier: false },
+  { action: "zoomOut", key: "Minus", withModifier: false },
+  { action: "zoomIn", key: "Equal", withModifier: false },
+  // Alt+R
+  { action: "refreshGraphics", key: "KeyR", withModifier: true },
+];
+
+// Digits not bound to another action recall camera bookmarks.
+export function cameraBookmarkSlot(
+  keybinds: Record<string, string>,
+  key: string,
+): number | null {
+  const match = /^Digit(\d)$/.exec(key);
+  if (match === null || Object.values(keybinds).includes(key)) {
+    return null;
+  }
+  return Number(match[1]);
+}
+
+// The camera bookmark slots left free by the keybinds, in keyboard order.
+export function cameraBookmarkSlots(
+  keybinds: Record<string, string>,
+): number[] {
+  return [1, 2, 3, 4, 5, 6, 7, 8, 9, 0].filter(
+    (slot) => cameraBookmarkSlot(keybinds, `Digit${slot}`) !== null,
+  );
+}
+
+// The action already bound to the key, if any. Binding a free digit would
+// take its camera bookmark, reported as "cameraBookmark".
+export function keybindConflict(
+  keybinds: Record<string, string>,
+  action: string,
+  key: string,
+): string | null {
+  if (key === UNBOUND_KEY || key === "") {
+    return null;
+  }
+  const conflict = Object.entries(keybinds).find(
+    ([other, value]) => other !== action && value === key,
+  );
+  if (conflict !== undefined) {
+    return conflict[0];
+  }
+  const shortcut = fixedShortcuts.find(
+    (s) =>
+      s.key === key &&
+      s.action !== action &&
+      !(s.withModifier && ignoresModifiers(action)),
+  );
+  if (shortcut !== undefined) {
+    return shortcut.action;
+  }
+  return cameraBookmarkSlot(keybinds, key) !== null ? "cameraBookmark" : null;
+}
@@ -15,8 +15,12 @@ import { createGameRecord, decompressGameRecord, replacer } from "../core/Util";
 import { LobbyConfig } from "./ClientGameRunner";
 import { ReplaySpeedChangeEvent } from "./InputHandler";
 import { getPersistentID } from "./Main";
+import { deleteSavedGame, saveGame } from "./SavedGame";
 import { defaultReplaySpeedMultiplier } from "./utilities/ReplaySpeedMultiplier";
 
+// Singleplayer games are saved every 10 seconds of play.
+const SAVE_INTERVAL_TURNS = 100;
+
 export class LocalServer {
   // All turns from the game record on replay.
   private replayTurns: Turn[] = [];
@@ -27,6 +31,8 @@ export class LocalServer {
   private startedAt: number;
 
   private paused = false;
+  // Holds back turns while the client seeks to another turn in the replay.
+  private seeking = false;
   private replaySpeedMultiplier = defaultReplaySpeedMultiplier;
 
   private winner: ClientSendWinnerMessage | null = null;
@@ -36,6 +42,7 @@ export class LocalServer {
   private turnStartTime = 0;
 
   private turnCheckInterval: NodeJS.Timeout;
+  private savedGameDiscarded = false;
 
   constructor(
     private lobbyConfig: LobbyConfig,
@@ -75,10 +82,17 @@ export class LocalServer {
     if (this.lobbyConfig.gameStartInfo === undefined) {
       throw new Error("missing gameStartInfo");
     }
+    if (this.lobbyConfig.savedTurns !== undefined) {
+      // The client simulates the saved turns at once, like a replay seek, and
+      // calls seekComplete() when it caught up.
+      this.turns = [...this.lobbyConfig.savedTurns];
+      this.turnsExecuted = this.turns.length;
+      this.seeking = true;
+    }
     this.clientMessage({
       type: "start",
       gameStartInfo: this.lobbyConfig.gameStartInfo,
-      turns: [],
+      turns: this.turns,
     } satisfies ServerStartGameMessage);
   }
 
@@ -90,6 +104,28 @@ export class LocalServer {
     this.paused = false;
   }
 
+  // Moves the replay to the given turn and returns all turns before it, so
+  // the client can simulate up to there. Call seekComplete() once done.
+  seek(turn: number): Turn[] {
+    const target = Math.min(Math.max(turn, 0), this.replayTurns.length);
+    this.seeking = true;
+    this.turns = this.replayTurns.slice(0, target);
+    this.turnsExecuted = this.turns.length;
+    return this.turns;
+  }
+
+  seekComplete() {
+    this.seeking = false;
+  }
+
+  // The saved game could not be resumed, don't save it again on exit.
+  discardSavedGame() {
+    this.savedGameDiscarded = true;
+    deleteSavedGame().catch((e) =>
+      console.error("Failed to delete saved game", e),
+    );
+  }
+
   onMessage(clientMsg: ClientMessage) {
     if (clientMsg.type === "intent") {
       if (this.lobbyConfig.gameRecord) {
@@ -136,6 +172,12 @@ export class LocalServer {
     if (clientMsg.type === "winner") {
       this.winner = clientMsg;
       this.allPlayersStats = clientMsg.allPlayersStats;
+      if (!this.isReplay) {
+        // A finished game can't be continued.
+        deleteSavedGame().catch((e) =>
+          console.error("Failed to delete saved game", e),
+        );
+      }
     }
   }
 
@@ -147,12 +189,12 @@ export class LocalServer {
   // endTurn in this context means the server has collected all the intents
   // and will send the turn to the client.
   private endTurn() {
-    if (this.paused) {
+    if (this.paused || this.seeking) {
       return;
     }
     if (this.replayTurns.length > 0) {
       if (this.turns.length >= this.replayTurns.length) {
-        this.endGame();
+        // Keep running so the replay can still be rewound.
         return;
       }
       this.intents = this.replayTurns[this.turns.length].intents;
@@ -167,6 +209,26 @@ export class LocalServer {
       type: "turn",
       turn: pastTurn,
     });
+    if (this.turns.length % SAVE_INTERVAL_TURNS === 0) {
+      this.saveGame();
+    }
+  }
+
+  private saveGame() {
+    if (
+      this.isReplay ||
+      this.savedGameDiscarded ||
+      this.winner !== null ||
+      this.lobbyConfig.gameStartInfo === undefined
+    ) {
+      return;
+    }
+    saveGame({
+      gameStartInfo: this.lobbyConfig.gameStartInfo,
+      clientID: this.lobbyConfig.clientID,
+      turns: this.turns,
+      savedAt: Date.now(),
+    }).catch((e) => console.error("Failed to save game", e));
   }
 
   public endGame(saveFullGame: boolean = false) {
@@ -175,6 +237,8 @@ export class LocalServer {
     if (this.isReplay) {
       return;
     }
+    // Keep the latest turns in case the player closed the tab.
+    this.saveGame();
     const players: PlayerRecord[] = [
       {
         persistentID: getPersistentID(),
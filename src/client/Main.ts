@@ -1,7 +1,7 @@
 import version from "../../resources/version.txt";
 import { UserMeResponse } from "../core/ApiSchemas";
 import { EventBus } from "../core/EventBus";
-import { GameRecord, GameStartInfo, ID } from "../core/Schemas";
+import { GameRecord, GameStartInfo, ID, Turn } from "../core/Schemas";
 import { ServerConfig } from "../core/configuration/Config";
 import { getServerConfigFromClient } from "../core/configuration/ConfigLoader";
 import { GameType } from "../core/game/Game";
@@ -25,7 +25,7 @@ import "./PublicLobby";
 import { PublicLobby } from "./PublicLobby";
 import { SinglePlayerModal } from "./SinglePlayerModal";
 import { TerritoryPatternsModal } from "./TerritoryPatternsModal";
-import { SendKickPlayerIntentEvent } from "./Transport";
+import { SendKickPlayerIntentEvent, SendLobbyChatEvent } from "./Transport";
 import { UserSettingModal } from "./UserSettingModal";
 import "./UsernameInput";
 import { UsernameInput } from "./UsernameInput";
@@ -65,6 +65,7 @@ declare global {
   interface DocumentEventMap {
     "join-lobby": CustomEvent<JoinLobbyEvent>;
     "kick-player": CustomEvent;
+    "send-lobby-chat": CustomEvent<{ message: string }>;
   }
 }
 
@@ -76,6 +77,12 @@ export interface JoinLobbyEvent {
   gameStartInfo?: GameStartInfo;
   // GameRecord exists when replaying an archived game.
   gameRecord?: GameRecord;
+  // Turns of a saved singleplayer game that is continued.
+  savedTurns?: Turn[];
+  // Spectators watch a multiplayer game without playing.
+  isSpectator?: boolean;
+  // The creator of a private lobby can pause the game.
+  isLobbyCreator?: boolean;
 }
 
 class Client {
@@ -167,6 +174,10 @@ class Client {
     document.addEventListener("join-lobby", this.handleJoinLobby.bind(this));
     document.addEventListener("leave-lobby", this.handleLeaveLobby.bind(this));
     document.addEventListener("kick-player", this.handleKickPlayer.bind(this));
+    document.addEventListener(
+      "send-lobby-chat",
+      this.handleSendLobbyChat.bind(this),
+    );
 
     const spModal = document.querySelector(
       "single-player-modal",
@@ -457,6 +468,9 @@ class Client {
         clientID: lobby.clientID,
         gameStartInfo: lobby.gameStartInfo ?? lobby.gameRecord?.info,
         gameRecord: lobby.gameRecord,
+        savedTurns: lobby.savedTurns,
+        isSpectator: lobby.isSpectator ?? false,
+        isLobbyCreator: lobby.isLobbyCreator ?? false,
       },
       () => {
         console.log("Closing modals");
@@ -538,6 +552,10 @@ class Client {
       this.eventBus.emit(new SendKickPlayerIntentEvent(target));
     }
   }
+
+  private handleSendLobbyChat(event: CustomEvent<{ message: string }>) {
+    this.eventBus.emit(new SendLobbyChatEvent(event.detail.message));
+  }
 }
 
 // Initialize the client when the DOM is loaded
@@ -4,6 +4,7 @@ import { translateText } from "../client/Utils";
 import { GameMapType, GameMode } from "../core/game/Game";
 import { GameID, GameInfo } from "../core/Schemas";
 import { generateID } from "../core/Util";
+import "./components/LobbyChat";
 import { JoinLobbyEvent } from "./Main";
 import { terrainMapFileLoader } from "./TerrainMapFileLoader";
 
@@ -174,6 +175,9 @@ export class PublicLobby extends LitElement {
           </div>
         </div>
       </button>
+      ${this.isLobbyHighlighted
+        ? html`<lobby-chat class="block mt-2"></lobby-chat>`
+        : ""}
     `;
   }
 
@@ -0,0 +1,98 @@
+import { ClientID, GameStartInfo, Turn } from "../core/Schemas";
+
+// A singleplayer game in progress, saved so it can be continued after the tab
+// or the browser was closed.
+export interface SavedGame {
+  gameStartInfo: GameStartInfo;
+  clientID: ClientID;
+  turns: Turn[];
+  savedAt: number;
+}
+
+// Only turns with intents are stored, the others are recreated on load.
+interface StoredGame extends SavedGame {
+  numTurns: number;
+}
+
+const DB_NAME = "saved-games";
+const STORE_NAME = "games";
+// There is a single save, starting a new singleplayer game replaces it.
+const SINGLEPLAYER_KEY = "singleplayer";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function transaction<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  const stored: StoredGame = {
+    ...game,
+    turns: game.turns
+      .filter((turn) => turn.intents.length > 0)
+      .map(({ turnNumber, intents }) => ({ turnNumber, intents })),
+    numTurns: game.turns.length,
+  };
+  await transaction("readwrite", (store) =>
+    store.put(stored, SINGLEPLAYER_KEY),
+  );
+}
+
+export async function loadSavedGame(): Promise<SavedGame | null> {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+  const stored: StoredGame | undefined = await transaction(
+    "readonly",
+    (store) => store.get(SINGLEPLAYER_KEY),
+  );
+  if (stored === undefined) {
+    return null;
+  }
+  const turns: Turn[] = [];
+  for (let turnNumber = 0; turnNumber < stored.numTurns; turnNumber++) {
+    turns.push({ turnNumber, intents: [] });
+  }
+  for (const turn of stored.turns) {
+    turns[turn.turnNumber] = turn;
+  }
+  return {
+    gameStartInfo: stored.gameStartInfo,
+    clientID: stored.clientID,
+    turns,
+    savedAt: stored.savedAt,
+  };
+}
+
+export async function deleteSavedGame(): Promise<void> {
+  if (typeof indexedDB === "undefined") {
+    return;
+  }
+  await transaction("readwrite", (store) => store.delete(SINGLEPLAYER_KEY));
+}
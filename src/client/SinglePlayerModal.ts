@@ -23,6 +23,7 @@ import { DifficultyDescription } from "./components/Difficulties";
 import "./components/Maps";
 import { FlagInput } from "./FlagInput";
 import { JoinLobbyEvent } from "./Main";
+import { SavedGame, loadSavedGame } from "./SavedGame";
 import { UsernameInput } from "./UsernameInput";
 import { renderUnitTypeOptions } from "./utilities/RenderUnitTypeOptions";
 
@@ -39,11 +40,15 @@ export class SinglePlayerModal extends LitElement {
   @state() private infiniteGold: boolean = false;
   @state() private infiniteTroops: boolean = false;
   @state() private instantBuild: boolean = false;
+  @state() private fogOfWar: boolean = false;
+  @state() private capitalMode: boolean = false;
+  @state() private capitalAnnexation: boolean = false;
   @state() private useRandomMap: boolean = false;
   @state() private gameMode: GameMode = GameMode.FFA;
   @state() private teamCount: TeamCountConfig = 2;
 
   @state() private disabledUnits: UnitType[] = [UnitType.Factory];
+  @state() private savedGame: SavedGame | null = null;
 
   private userSettings: UserSettings = new UserSettings();
 
@@ -68,6 +73,8 @@ export class SinglePlayerModal extends LitElement {
     return html`
       <o-modal title=${translateText("single_modal.title")}>
         <div class="options-layout">
+          ${this.renderContinue()}
+
           <!-- Map Selection -->
           <div class="options-section">
             <div class="option-title">${translateText("map.map")}</div>
@@ -269,6 +276,59 @@ export class SinglePlayerModal extends LitElement {
                 </div>
               </label>
 
+              <label
+                for="singleplayer-modal-fog-of-war"
+                class="option-card ${this.fogOfWar ? "selected" : ""}"
+              >
+                <div class="checkbox-icon"></div>
+                <input
+                  type="checkbox"
+                  id="singleplayer-modal-fog-of-war"
+                  @change=${this.handleFogOfWarChange}
+                  .checked=${this.fogOfWar}
+                />
+                <div class="option-card-title">
+                  ${translateText("single_modal.fog_of_war")}
+                </div>
+              </label>
+
+              <label
+                for="singleplayer-modal-capitals"
+                class="option-card ${this.capitalMode ? "selected" : ""}"
+              >
+                <div class="checkbox-icon"></div>
+                <input
+                  type="checkbox"
+                  id="singleplayer-modal-capitals"
+                  @change=${this.handleCapitalModeChange}
+                  .checked=${this.capitalMode}
+                />
+                <div class="option-card-title">
+                  ${translateText("single_modal.capitals")}
+                </div>
+              </label>
+              ${this.capitalMode
+                ? html`
+                    <label
+                      for="singleplayer-modal-capital-annexation"
+                      class="option-card ${this.capitalAnnexation
+                        ? "selected"
+                        : ""}"
+                    >
+                      <div class="checkbox-icon"></div>
+                      <input
+                        type="checkbox"
+                        id="singleplayer-modal-capital-annexation"
+                        @change=${this.handleCapitalAnnexationChange}
+                        .checked=${this.capitalAnnexation}
+                      />
+                      <div class="option-card-title">
+                        ${translateText("single_modal.capital_annexation")}
+                      </div>
+                    </label>
+                  `
+                : ""}
+
               <label
                 for="singleplayer-modal-infinite-gold"
                 class="option-card ${this.infiniteGold ? "selected" : ""}"
@@ -330,6 +390,38 @@ export class SinglePlayerModal extends LitElement {
     `;
   }
 
+  private renderContinue() {
+    if (this.savedGame === null) {
+      return html``;
+    }
+    const { config } = this.savedGame.gameStartInfo;
+    return html`
+      <div class="options-section">
+        <div class="option-title">
+          ${translateText("single_modal.continue")}
+        </div>
+        <div class="option-cards">
+          <div class="option-card" @click=${this.continueGame}>
+            <div class="option-card-title">
+              ${translateText(
+                `map.${config.gameMap.toLowerCase().replace(/\s+/g, "")}`,
+              )}
+              ·
+              ${translateText(
+                `difficulty.${DifficultyDescription[config.difficulty]}`,
+              )}
+            </div>
+            <div class="text-sm text-gray-300">
+              ${translateText("single_modal.saved_at", {
+                time: new Date(this.savedGame.savedAt).toLocaleString(),
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
   createRenderRoot() {
     return this; // light DOM
   }
@@ -337,6 +429,9 @@ export class SinglePlayerModal extends LitElement {
   public open() {
     this.modalEl?.open();
     this.useRandomMap = false;
+    loadSavedGame()
+      .then((game) => (this.savedGame = game))
+      .catch((e) => console.error("Failed to load saved game", e));
   }
 
   public close() {
@@ -368,6 +463,18 @@ export class SinglePlayerModal extends LitElement {
     this.instantBuild = Boolean((e.target as HTMLInputElement).checked);
   }
 
+  private handleFogOfWarChange(e: Event) {
+    this.fogOfWar = Boolean((e.target as HTMLInputElement).checked);
+  }
+
+  private handleCapitalModeChange(e: Event) {
+    this.capitalMode = Boolean((e.target as HTMLInputElement).checked);
+  }
+
+  private handleCapitalAnnexationChange(e: Event) {
+    this.capitalAnnexation = Boolean((e.target as HTMLInputElement).checked);
+  }
+
   private handleInfiniteGoldChange(e: Event) {
     this.infiniteGold = Boolean((e.target as HTMLInputElement).checked);
   }
@@ -401,6 +508,26 @@ export class SinglePlayerModal extends LitElement {
       : this.disabledUnits.filter((u) => u !== unit);
   }
 
+  private continueGame() {
+    if (this.savedGame === null) {
+      return;
+    }
+    const { gameStartInfo, clientID, turns } = this.savedGame;
+    this.dispatchEvent(
+      new CustomEvent("join-lobby", {
+        detail: {
+          clientID,
+          gameID: gameStartInfo.gameID,
+          gameStartInfo,
+          savedTurns: turns,
+        } satisfies JoinLobbyEvent,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.close();
+  }
+
   private startGame() {
     // If random map is selected, choose a random map now
     if (this.useRandomMap) {
@@ -453,6 +580,10 @@ export class SinglePlayerModal extends LitElement {
               infiniteGold: this.infiniteGold,
               infiniteTroops: this.infiniteTroops,
               instantBuild: this.instantBuild,
+              fogOfWar: this.fogOfWar,
+              capitalMode: this.capitalMode
+                ? { annexDisconnected: this.capitalAnnexation }
+                : undefined,
               disabledUnits: this.disabledUnits
                 .map((u) => Object.values(UnitType).find((ut) => ut === u))
                 .filter((ut): ut is UnitType => ut !== undefined),
@@ -1,4 +1,9 @@
 import { z } from "zod";
+import {
+  BINARY_CODEC_VERSION,
+  BinaryCodec,
+  isBinaryMessage,
+} from "../core/BinaryCodec";
 import { EventBus, GameEvent } from "../core/EventBus";
 import {
   AllPlayers,
@@ -16,12 +21,14 @@ import {
   ClientHashMessage,
   ClientIntentMessage,
   ClientJoinMessage,
+  ClientLobbyChatMessage,
   ClientMessage,
   ClientPingMessage,
   ClientSendWinnerMessage,
   Intent,
   ServerMessage,
   ServerMessageSchema,
+  Turn,
   Winner,
 } from "../core/Schemas";
 import { replacer } from "../core/Util";
@@ -93,6 +100,24 @@ export class BuildUnitIntentEvent implements GameEvent {
   ) {}
 }
 
+export class QueueBuildIntentEvent implements GameEvent {
+  constructor(
+    public readonly unit: UnitType,
+    public readonly tile: TileRef,
+  ) {}
+}
+
+export class MoveQueuedBuildIntentEvent implements GameEvent {
+  constructor(
+    public readonly buildId: number,
+    public readonly index: number,
+  ) {}
+}
+
+export class CancelQueuedBuildIntentEvent implements GameEvent {
+  constructor(public readonly buildId: number) {}
+}
+
 export class SendTargetPlayerIntentEvent implements GameEvent {
   constructor(public readonly targetID: PlayerID) {}
 }
@@ -118,6 +143,14 @@ export class SendDonateTroopsIntentEvent implements GameEvent {
   ) {}
 }
 
+export class SendCedeTerritoryIntentEvent implements GameEvent {
+  constructor(
+    public readonly recipient: PlayerView,
+    // The land of the sender closest to this tile is ceded.
+    public readonly tile: TileRef,
+  ) {}
+}
+
 export class SendQuickChatEvent implements GameEvent {
   constructor(
     public readonly recipient: PlayerView,
@@ -161,16 +194,32 @@ export class MoveWarshipIntentEvent implements GameEvent {
   ) {}
 }
 
+export class MoveFleetIntentEvent implements GameEvent {
+  constructor(
+    public readonly unitIds: number[],
+    public readonly waypoints: number[],
+    public readonly patrol: boolean,
+  ) {}
+}
+
 export class SendKickPlayerIntentEvent implements GameEvent {
   constructor(public readonly target: string) {}
 }
 
+export class SendLobbyChatEvent implements GameEvent {
+  constructor(public readonly message: string) {}
+}
+
 export class Transport {
   private socket: WebSocket | null = null;
 
   private localServer: LocalServer;
 
-  private buffer: string[] = [];
+  private buffer: (string | Uint8Array)[] = [];
+
+  // Set when the server sent the game start in binary, intents are then
+  // sent in binary as well.
+  private codec: BinaryCodec | null = null;
 
   private onconnect: () => void;
   private onmessage: (msg: ServerMessage) => void;
@@ -219,11 +268,21 @@ export class Transport {
     this.eventBus.on(SendDonateTroopsIntentEvent, (e) =>
       this.onSendDonateTroopIntent(e),
     );
+    this.eventBus.on(SendCedeTerritoryIntentEvent, (e) =>
+      this.onSendCedeTerritoryIntent(e),
+    );
     this.eventBus.on(SendQuickChatEvent, (e) => this.onSendQuickChatIntent(e));
     this.eventBus.on(SendEmbargoIntentEvent, (e) =>
       this.onSendEmbargoIntent(e),
     );
     this.eventBus.on(BuildUnitIntentEvent, (e) => this.onBuildUnitIntent(e));
+    this.eventBus.on(QueueBuildIntentEvent, (e) => this.onQueueBuildIntent(e));
+    this.eventBus.on(MoveQueuedBuildIntentEvent, (e) =>
+      this.onMoveQueuedBuildIntent(e),
+    );
+    this.eventBus.on(CancelQueuedBuildIntentEvent, (e) =>
+      this.onCancelQueuedBuildIntent(e),
+    );
 
     this.eventBus.on(PauseGameEvent, (e) => this.onPauseGameEvent(e));
     this.eventBus.on(SendWinnerEvent, (e) => this.onSendWinnerEvent(e));
@@ -238,9 +297,13 @@ export class Transport {
     this.eventBus.on(MoveWarshipIntentEvent, (e) => {
       this.onMoveWarshipEvent(e);
     });
+    this.eventBus.on(MoveFleetIntentEvent, (e) => {
+      this.onMoveFleetEvent(e);
+    });
     this.eventBus.on(SendKickPlayerIntentEvent, (e) =>
       this.onSendKickPlayerIntent(e),
     );
+    this.eventBus.on(SendLobbyChatEvent, (e) => this.onSendLobbyChat(e));
   }
 
   private startPing() {
@@ -298,6 +361,7 @@ export class Transport {
       this.lobbyConfig.gameID,
     );
     this.socket = new WebSocket(`${wsProtocol}//${wsHost}/${workerPath}`);
+    this.socket.binaryType = "arraybuffer";
     this.onconnect = onconnect;
     this.onmessage = onmessage;
     this.socket.onopen = () => {
@@ -319,13 +383,21 @@ export class Transport {
     };
     this.socket.onmessage = (event: MessageEvent) => {
       try {
-        const parsed = JSON.parse(event.data);
+        const binary = isBinaryMessage(event.data);
+        const parsed = binary
+          ? (this.codec ?? new BinaryCodec()).decodeServerMessage(event.data)
+          : JSON.parse(event.data);
         const result = ServerMessageSchema.safeParse(parsed);
         if (!result.success) {
           const error = z.prettifyError(result.error);
           console.error("Error parsing server message", error);
           return;
         }
+        if (result.data.type === "start") {
+          this.codec = binary
+            ? BinaryCodec.forGame(result.data.gameStartInfo)
+            : null;
+        }
         this.onmessage(result.data);
       } catch (e) {
         console.error("Error in onmessage handler:", e, event.data);
@@ -361,6 +433,26 @@ export class Transport {
     }
   }
 
+  // Returns the turns the client has to execute to reach the given turn.
+  public seekReplay(turn: number): Turn[] {
+    if (!this.isLocal) {
+      throw new Error("only local replays can seek");
+    }
+    return this.localServer.seek(turn);
+  }
+
+  public replaySeekComplete() {
+    if (this.isLocal) {
+      this.localServer.seekComplete();
+    }
+  }
+
+  public discardSavedGame() {
+    if (this.isLocal) {
+      this.localServer.discardSavedGame();
+    }
+  }
+
   joinGame(numTurns: number) {
     this.sendMsg({
       type: "join",
@@ -371,6 +463,8 @@ export class Transport {
       username: this.lobbyConfig.playerName,
       flag: this.lobbyConfig.flag,
       pattern: this.lobbyConfig.pattern,
+      spectator: this.lobbyConfig.isSpectator,
+      codecVersion: BINARY_CODEC_VERSION,
     } satisfies ClientJoinMessage);
   }
 
@@ -506,6 +600,15 @@ export class Transport {
     });
   }
 
+  private onSendCedeTerritoryIntent(event: SendCedeTerritoryIntentEvent) {
+    this.sendIntent({
+      type: "cede_territory",
+      clientID: this.lobbyConfig.clientID,
+      recipient: event.recipient.id(),
+      tile: event.tile,
+    });
+  }
+
   private onSendQuickChatIntent(event: SendQuickChatEvent) {
     this.sendIntent({
       type: "quick_chat",
@@ -534,9 +637,43 @@ export class Transport {
     });
   }
 
+  private onQueueBuildIntent(event: QueueBuildIntentEvent) {
+    this.sendIntent({
+      type: "queue_build",
+      clientID: this.lobbyConfig.clientID,
+      unit: event.unit,
+      tile: event.tile,
+    });
+  }
+
+  private onMoveQueuedBuildIntent(event: MoveQueuedBuildIntentEvent) {
+    this.sendIntent({
+      type: "move_queued_build",
+      clientID: this.lobbyConfig.clientID,
+      buildId: event.buildId,
+      index: event.index,
+    });
+  }
+
+  private onCancelQueuedBuildIntent(event: CancelQueuedBuildIntentEvent) {
+    this.sendIntent({
+      type: "cancel_queued_build",
+      clientID: this.lobbyConfig.clientID,
+      buildId: event.buildId,
+    });
+  }
+
   private onPauseGameEvent(event: PauseGameEvent) {
     if (!this.isLocal) {
-      console.log(`cannot pause multiplayer games`);
+      if (!this.lobbyConfig.isLobbyCreator) {
+        console.log(`only the lobby creator can pause multiplayer games`);
+        return;
+      }
+      this.sendIntent({
+        type: "toggle_pause",
+        clientID: this.lobbyConfig.clientID,
+        paused: event.paused,
+      });
       return;
     }
     if (event.paused) {
@@ -547,6 +684,7 @@ export class Transport {
   }
 
   private onSendWinnerEvent(event: SendWinnerEvent) {
+    if (this.lobbyConfig.isSpectator) return;
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       this.sendMsg({
         type: "winner",
@@ -563,6 +701,8 @@ export class Transport {
   }
 
   private onSendHashEvent(event: SendHashEvent) {
+    // The server ignores spectator hashes, they are not players.
+    if (this.lobbyConfig.isSpectator) return;
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       this.sendMsg({
         type: "hash",
@@ -603,6 +743,16 @@ export class Transport {
     });
   }
 
+  private onMoveFleetEvent(event: MoveFleetIntentEvent) {
+    this.sendIntent({
+      type: "fleet_move",
+      clientID: this.lobbyConfig.clientID,
+      unitIds: event.unitIds,
+      waypoints: event.waypoints,
+      patrol: event.patrol,
+    });
+  }
+
   private onSendKickPlayerIntent(event: SendKickPlayerIntentEvent) {
     this.sendIntent({
       type: "kick_player",
@@ -611,7 +761,21 @@ export class Transport {
     });
   }
 
+  private onSendLobbyChat(event: SendLobbyChatEvent) {
+    if (this.isLocal || this.lobbyConfig.isSpectator) {
+      return;
+    }
+    this.sendMsg({
+      type: "lobby_chat",
+      message: event.message,
+    } satisfies ClientLobbyChatMessage);
+  }
+
   private sendIntent(intent: Intent) {
+    if (this.lobbyConfig.isSpectator) {
+      console.log(`spectators cannot send intents`);
+      return;
+    }
     if (this.isLocal || this.socket?.readyState === WebSocket.OPEN) {
       const msg = {
         type: "intent",
@@ -636,17 +800,20 @@ export class Transport {
       // Socket missing, do nothing
       return;
     }
-    const str = JSON.stringify(msg, replacer);
+    const data =
+      msg.type === "intent" && this.codec !== null
+        ? this.codec.encodeIntentMessage(msg)
+        : JSON.stringify(msg, replacer);
     if (this.socket.readyState === WebSocket.CLOSED) {
       // Buffer message
       console.warn("socket not ready, closing and trying later");
       this.socket.close();
       this.socket = null;
       this.connectRemote(this.onconnect, this.onmessage);
-      this.buffer.push(str);
+      this.buffer.push(data);
     } else {
       // Send the message directly
-      this.socket.send(str);
+      this.socket.send(data);
     }
   }
 
@@ -1,7 +1,15 @@
-import { LitElement, html } from "lit";
+import { html, LitElement } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
 import { translateText } from "../client/Utils";
 import { UserSettings } from "../core/game/UserSettings";
+import {
+  buildKeybinds,
+  cameraBookmarkSlots,
+  defaultKeybinds,
+  keybindConflict,
+  PlayerHotkeyAction,
+  UNBOUND_KEY,
+} from "./Keybinds";
 import "./components/baseComponents/setting/SettingKeybind";
 import { SettingKeybind } from "./components/baseComponents/setting/SettingKeybind";
 import "./components/baseComponents/setting/SettingNumber";
@@ -134,6 +142,15 @@ export class UserSettingModal extends LitElement {
     console.log("🏠 Structure sprites:", enabled ? "ON" : "OFF");
   }
 
+  private toggleMinimap(e: CustomEvent<{ checked: boolean }>) {
+    const enabled = e.detail?.checked;
+    if (typeof enabled !== "boolean") return;
+
+    this.userSettings.set("settings.minimap", enabled);
+
+    console.log("🗺️ Minimap:", enabled ? "ON" : "OFF");
+  }
+
   private toggleAnonymousNames(e: CustomEvent<{ checked: boolean }>) {
     const enabled = e.detail?.checked;
     if (typeof enabled !== "boolean") return;
@@ -203,14 +220,21 @@ export class UserSettingModal extends LitElement {
     const { action, value } = e.detail;
     const prevValue = this.keybinds[action] ?? "";
 
-    const values = Object.entries(this.keybinds)
-      .filter(([k]) => k !== action)
-      .map(([, v]) => v);
-    if (values.includes(value) && value !== "Null") {
-      const popup = document.createElement("div");
-      popup.className = "setting-popup";
-      popup.textContent = `The key "${value}" is already assigned to another action.`;
-      document.body.appendChild(popup);
+    // Defaults the user kept are taken too.
+    const conflict = keybindConflict(
+      { ...defaultKeybinds, ...this.keybinds },
+      action,
+      value,
+    );
+    if (conflict === "cameraBookmark") {
+      // The key still works, the bookmark on it is gone.
+      this.showPopup(
+        `The key "${value}" recalled a camera bookmark, it no longer does.`,
+      );
+    } else if (conflict !== null) {
+      this.showPopup(
+        `The key "${value}" is already assigned to another action.`,
+      );
       const element = this.renderRoot.querySelector(
         `setting-keybind[action="${action}"]`,
       ) as SettingKeybind;
@@ -224,6 +248,13 @@ export class UserSettingModal extends LitElement {
     localStorage.setItem("settings.keybinds", JSON.stringify(this.keybinds));
   }
 
+  private showPopup(text: string) {
+    const popup = document.createElement("div");
+    popup.className = "setting-popup";
+    popup.textContent = text;
+    document.body.appendChild(popup);
+  }
+
   render() {
     return html`
       <o-modal title="${translateText("user_setting.title")}">
@@ -309,6 +340,15 @@ export class UserSettingModal extends LitElement {
         @change=${this.toggleStructureSprites}
       ></setting-toggle>
 
+      <!-- 🗺️ Minimap -->
+      <setting-toggle
+        label="${translateText("user_setting.minimap_label")}"
+        description="${translateText("user_setting.minimap_desc")}"
+        id="minimap-toggle"
+        .checked=${this.userSettings.minimap()}
+        @change=${this.toggleMinimap}
+      ></setting-toggle>
+
       <!-- 🖱️ Left Click Menu -->
       <setting-toggle
         label="${translateText("user_setting.left_click_label")}"
@@ -470,6 +510,15 @@ export class UserSettingModal extends LitElement {
         @change=${this.handleKeybindChange}
       ></setting-keybind>
 
+      <setting-keybind
+        action="fleetModifier"
+        label=${translateText("user_setting.fleet_modifier")}
+        description=${translateText("user_setting.fleet_modifier_desc")}
+        defaultKey="KeyF"
+        .value=${this.keybinds["fleetModifier"] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
       <div class="text-center text-white text-base font-semibold mt-5 mb-2">
         ${translateText("user_setting.zoom_controls")}
       </div>
@@ -505,6 +554,32 @@ export class UserSettingModal extends LitElement {
         @change=${this.handleKeybindChange}
       ></setting-keybind>
 
+      <setting-keybind
+        action="followUnit"
+        label=${translateText("user_setting.follow_unit")}
+        description=${translateText("user_setting.follow_unit_desc")}
+        defaultKey="KeyT"
+        .value=${this.keybinds["followUnit"] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action="cameraBookmarkModifier"
+        label=${translateText("user_setting.camera_bookmark_modifier")}
+        description=${translateText(
+          "user_setting.camera_bookmark_modifier_desc",
+          {
+            slots: cameraBookmarkSlots({
+              ...defaultKeybinds,
+              ...this.keybinds,
+            }).join(", "),
+          },
+        )}
+        defaultKey="ShiftLeft"
+        .value=${this.keybinds["cameraBookmarkModifier"] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
       <setting-keybind
         action="moveUp"
         label=${translateText("user_setting.move_up")}
@@ -540,6 +615,96 @@ export class UserSettingModal extends LitElement {
         .value=${this.keybinds["moveRight"] ?? ""}
         @change=${this.handleKeybindChange}
       ></setting-keybind>
+
+      <div class="text-center text-white text-base font-semibold mt-5 mb-2">
+        ${translateText("user_setting.build_hotkeys")}
+      </div>
+
+      ${buildKeybinds.map(
+        ({ action, translationKey }) => html`
+          <setting-keybind
+            action=${action}
+            label=${translateText("user_setting.build_unit", {
+              unit: translateText(translationKey),
+            })}
+            description=${translateText("user_setting.build_unit_desc", {
+              unit: translateText(translationKey),
+            })}
+            defaultKey=${defaultKeybinds[action] === UNBOUND_KEY
+              ? ""
+              : defaultKeybinds[action]}
+            .value=${this.keybinds[action] ?? ""}
+            @change=${this.handleKeybindChange}
+          ></setting-keybind>
+        `,
+      )}
+
+      <setting-keybind
+        action="upgradeStructure"
+        label=${translateText("user_setting.upgrade_structure")}
+        description=${translateText("user_setting.upgrade_structure_desc")}
+        defaultKey="KeyU"
+        .value=${this.keybinds["upgradeStructure"] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <div class="text-center text-white text-base font-semibold mt-5 mb-2">
+        ${translateText("user_setting.player_action_hotkeys")}
+      </div>
+
+      <setting-keybind
+        action=${PlayerHotkeyAction.AllianceRequest}
+        label=${translateText("user_setting.alliance_request_key")}
+        description=${translateText("user_setting.alliance_request_key_desc")}
+        defaultKey=""
+        .value=${this.keybinds[PlayerHotkeyAction.AllianceRequest] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action=${PlayerHotkeyAction.Embargo}
+        label=${translateText("user_setting.toggle_embargo_key")}
+        description=${translateText("user_setting.toggle_embargo_key_desc")}
+        defaultKey=""
+        .value=${this.keybinds[PlayerHotkeyAction.Embargo] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action=${PlayerHotkeyAction.Target}
+        label=${translateText("user_setting.target_player_key")}
+        description=${translateText("user_setting.target_player_key_desc")}
+        defaultKey=""
+        .value=${this.keybinds[PlayerHotkeyAction.Target] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action=${PlayerHotkeyAction.DonateGold}
+        label=${translateText("user_setting.donate_gold_key")}
+        description=${translateText("user_setting.donate_gold_key_desc")}
+        defaultKey=""
+        .value=${this.keybinds[PlayerHotkeyAction.DonateGold] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action=${PlayerHotkeyAction.DonateTroops}
+        label=${translateText("user_setting.donate_troops_key")}
+        description=${translateText("user_setting.donate_troops_key_desc")}
+        defaultKey=""
+        .value=${this.keybinds[PlayerHotkeyAction.DonateTroops] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
+
+      <setting-keybind
+        action=${PlayerHotkeyAction.Emoji}
+        label=${translateText("user_setting.send_emoji_key")}
+        description=${translateText("user_setting.send_emoji_key_desc")}
+        defaultKey=""
+        .value=${this.keybinds[PlayerHotkeyAction.Emoji] ?? ""}
+        @change=${this.handleKeybindChange}
+      ></setting-keybind>
     `;
   }
 
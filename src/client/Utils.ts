@@ -137,6 +137,8 @@ export function getMessageTypeClasses(type: MessageType): string {
     case MessageType.SENT_TROOPS_TO_PLAYER:
     case MessageType.RECEIVED_GOLD_FROM_PLAYER:
     case MessageType.RECEIVED_TROOPS_FROM_PLAYER:
+    case MessageType.SENT_TERRITORY_TO_PLAYER:
+    case MessageType.RECEIVED_TERRITORY_FROM_PLAYER:
       return severityColors["blue"];
     case MessageType.MIRV_INBOUND:
     case MessageType.NUKE_INBOUND:
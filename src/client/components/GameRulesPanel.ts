@@ -0,0 +1,213 @@
+import { html, LitElement, TemplateResult } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { UnitType } from "../../core/game/Game";
+import {
+  CostRuleType,
+  costRuleTypes,
+  GameRules,
+  GameRulesSchema,
+  NukeRuleType,
+  nukeRuleTypes,
+  NumericGameRule,
+  numericGameRuleBounds,
+  numericGameRules,
+} from "../../core/RulesSchemas";
+import { unitOptions } from "../utilities/RenderUnitTypeOptions";
+import { translateText } from "../Utils";
+
+// Rules while they are being edited, a nuke may have only one radius set.
+type DraftRules = { [K in NumericGameRule]?: number } & {
+  unitCostMultipliers?: { [K in CostRuleType]?: number };
+  nukeMagnitudes?: {
+    [K in NukeRuleType]?: { inner?: number; outer?: number };
+  };
+};
+
+const ruleLabels: Record<NumericGameRule, string> = {
+  allianceDuration: "game_rules.alliance_duration",
+  allianceRequestCooldown: "game_rules.alliance_request_cooldown",
+  traitorDuration: "game_rules.traitor_duration",
+  spawnImmunityDuration: "game_rules.spawn_immunity_duration",
+  percentageTilesOwnedToWin: "game_rules.percentage_tiles_owned_to_win",
+  boatMaxNumber: "game_rules.boat_max_number",
+};
+
+function unitLabel(type: UnitType): string {
+  if (type === UnitType.MIRVWarhead) {
+    return translateText("unit_type.mirv_warhead");
+  }
+  const option = unitOptions.find((o) => o.type === type);
+  return option ? translateText(option.translationKey) : type;
+}
+
+function parseRule(value: string): number | undefined {
+  const n = Number(value);
+  return value.trim() === "" || isNaN(n) ? undefined : n;
+}
+
+// Drops empty values so unset rules keep their default.
+function prune<T extends object>(obj: T | undefined): T | undefined {
+  if (obj === undefined) {
+    return undefined;
+  }
+  const entries = Object.entries(obj).filter(
+    ([, v]) =>
+      v !== undefined && (typeof v !== "object" || Object.keys(v).length > 0),
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+// Advanced panel of the host lobby modal for overriding balance values.
+// Dispatches "rules-change" with the rules whenever the edits are valid.
+@customElement("game-rules-panel")
+export class GameRulesPanel extends LitElement {
+  @property({ attribute: false }) rules: GameRules = {};
+
+  @state() private open = false;
+  @state() private invalid = false;
+  @state() private draft: DraftRules = {};
+
+  private emitted: GameRules | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  willUpdate(changed: Map<string, unknown>) {
+    // Only rules set from outside replace the edits.
+    if (changed.has("rules") && this.rules !== this.emitted) {
+      this.draft = structuredClone(this.rules) as DraftRules;
+      this.invalid = false;
+    }
+  }
+
+  private edit(update: (draft: DraftRules) => void) {
+    const draft = structuredClone(this.draft);
+    update(draft);
+    if (draft.nukeMagnitudes !== undefined) {
+      for (const type of nukeRuleTypes) {
+        draft.nukeMagnitudes[type] = prune(draft.nukeMagnitudes[type]);
+      }
+    }
+    draft.unitCostMultipliers = prune(draft.unitCostMultipliers);
+    draft.nukeMagnitudes = prune(draft.nukeMagnitudes);
+    this.draft = prune(draft) ?? {};
+
+    const result = GameRulesSchema.safeParse(this.draft);
+    this.invalid = !result.success;
+    if (!result.success) {
+      return;
+    }
+    this.emitted = result.data;
+    this.dispatchEvent(
+      new CustomEvent("rules-change", {
+        detail: result.data,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private numberInput(
+    value: number | undefined,
+    min: number,
+    max: number,
+    step: number,
+    onChange: (value: number | undefined) => void,
+  ): TemplateResult {
+    return html`<input
+      type="number"
+      class="w-20 px-2 py-1 rounded text-black"
+      min=${min}
+      max=${max}
+      step=${step}
+      placeholder=${translateText("game_rules.default")}
+      .value=${value === undefined ? "" : String(value)}
+      @change=${(e: Event) =>
+        onChange(parseRule((e.target as HTMLInputElement).value))}
+    />`;
+  }
+
+  render() {
+    return html`
+      <div class="options-section">
+        <button
+          class="option-title w-full text-left"
+          @click=${() => (this.open = !this.open)}
+        >
+          ${this.open ? "▾" : "▸"} ${translateText("game_rules.title")}
+        </button>
+        ${this.open ? this.renderRules() : html``}
+      </div>
+    `;
+  }
+
+  private renderRules() {
+    return html`
+      <p class="text-sm text-gray-300 mb-2">
+        ${translateText("game_rules.desc")}
+      </p>
+      <div class="grid grid-cols-2 gap-2 text-sm text-left">
+        ${numericGameRules.map((rule) => {
+          const { min, max } = numericGameRuleBounds(rule);
+          return html`<label class="flex items-center justify-between gap-2">
+            <span>${translateText(ruleLabels[rule])}</span>
+            ${this.numberInput(this.draft[rule], min, max, 1, (v) =>
+              this.edit((d) => (d[rule] = v)),
+            )}
+          </label>`;
+        })}
+      </div>
+
+      <div class="font-bold mt-4 mb-2">
+        ${translateText("game_rules.unit_costs")}
+      </div>
+      <div class="grid grid-cols-2 gap-2 text-sm text-left">
+        ${costRuleTypes.map(
+          (type) =>
+            html`<label class="flex items-center justify-between gap-2">
+              <span>${unitLabel(type)}</span>
+              ${this.numberInput(
+                this.draft.unitCostMultipliers?.[type],
+                0,
+                10,
+                0.1,
+                (v) =>
+                  this.edit((d) => ((d.unitCostMultipliers ??= {})[type] = v)),
+              )}
+            </label>`,
+        )}
+      </div>
+
+      <div class="font-bold mt-4 mb-2">
+        ${translateText("game_rules.nuke_magnitudes")}
+      </div>
+      <div class="flex flex-col gap-2 text-sm text-left">
+        ${nukeRuleTypes.map((type) => {
+          const magnitude = this.draft.nukeMagnitudes?.[type];
+          const setRadius = (radius: "inner" | "outer", v?: number) =>
+            this.edit(
+              (d) => (((d.nukeMagnitudes ??= {})[type] ??= {})[radius] = v),
+            );
+          return html`<label class="flex items-center justify-between gap-2">
+            <span>${unitLabel(type)}</span>
+            <span class="flex gap-2">
+              ${this.numberInput(magnitude?.inner, 1, 200, 1, (v) =>
+                setRadius("inner", v),
+              )}
+              ${this.numberInput(magnitude?.outer, 1, 200, 1, (v) =>
+                setRadius("outer", v),
+              )}
+            </span>
+          </label>`;
+        })}
+      </div>
+
+      ${this.invalid
+        ? html`<div class="text-red-400 text-sm mt-2">
+            ${translateText("game_rules.invalid")}
+          </div>`
+        : html``}
+    `;
+  }
+}
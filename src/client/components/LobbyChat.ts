@@ -0,0 +1,142 @@
+import { html, LitElement } from "lit";
+import { customElement, property, query, state } from "lit/decorators.js";
+import {
+  ClientLobbyChatMessageSchema,
+  MAX_LOBBY_CHAT_LENGTH,
+  ServerLobbyChatMessage,
+} from "../../core/Schemas";
+import { translateText } from "../Utils";
+import "./baseComponents/Button";
+
+declare global {
+  interface DocumentEventMap {
+    "lobby-chat": CustomEvent<ServerLobbyChatMessage>;
+  }
+}
+
+// Chat for players waiting in a lobby. Messages are received from the lobby's
+// connection as "lobby-chat" events and sent with "send-lobby-chat".
+@customElement("lobby-chat")
+export class LobbyChat extends LitElement {
+  // Spectators can read the chat but not write.
+  @property({ type: Boolean }) readonly = false;
+
+  @state() private messages: ServerLobbyChatMessage[] = [];
+  @state() private draft = "";
+  @state() private invalid = false;
+
+  @query(".lobby-chat-messages") private messagesEl?: HTMLElement;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener("lobby-chat", this.onChat);
+    document.addEventListener("join-lobby", this.clear);
+    document.addEventListener("leave-lobby", this.clear);
+  }
+
+  disconnectedCallback() {
+    document.removeEventListener("lobby-chat", this.onChat);
+    document.removeEventListener("join-lobby", this.clear);
+    document.removeEventListener("leave-lobby", this.clear);
+    super.disconnectedCallback();
+  }
+
+  updated() {
+    if (this.messagesEl) {
+      this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+    }
+  }
+
+  private onChat = (event: CustomEvent<ServerLobbyChatMessage>) => {
+    this.messages = [...this.messages, event.detail];
+  };
+
+  private clear = () => {
+    this.messages = [];
+    this.draft = "";
+    this.invalid = false;
+  };
+
+  private send() {
+    const message = this.draft.trim();
+    if (message === "") {
+      return;
+    }
+    // The server drops the connection on messages it cannot parse.
+    if (
+      !ClientLobbyChatMessageSchema.shape.message.safeParse(message).success
+    ) {
+      this.invalid = true;
+      return;
+    }
+    this.dispatchEvent(
+      new CustomEvent("send-lobby-chat", {
+        detail: { message },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.draft = "";
+  }
+
+  private onKeyDown(e: KeyboardEvent) {
+    // Keep keys like Escape from reaching the modal while typing.
+    e.stopPropagation();
+    if (e.key === "Enter") {
+      e.preventDefault();
+      this.send();
+    }
+  }
+
+  render() {
+    return html`
+      <div class="options-section">
+        <div class="option-title">${translateText("lobby_chat.title")}</div>
+        <div
+          class="lobby-chat-messages h-32 overflow-y-auto text-left text-sm bg-black/20 rounded p-2"
+        >
+          ${this.messages.length === 0
+            ? html`<div class="text-gray-400">
+                ${translateText("lobby_chat.empty")}
+              </div>`
+            : this.messages.map(
+                (msg) =>
+                  html`<div class="break-words">
+                    <span class="font-bold">${msg.username}:</span>
+                    ${msg.message}
+                  </div>`,
+              )}
+        </div>
+        ${this.readonly
+          ? html``
+          : html`<div class="flex gap-2 mt-2">
+              <input
+                type="text"
+                class="flex-1 px-2 py-1 rounded text-black"
+                maxlength=${MAX_LOBBY_CHAT_LENGTH}
+                placeholder=${translateText("lobby_chat.placeholder")}
+                .value=${this.draft}
+                @input=${(e: InputEvent) => {
+                  this.draft = (e.target as HTMLInputElement).value;
+                  this.invalid = false;
+                }}
+                @keydown=${this.onKeyDown}
+              />
+              <o-button
+                title=${translateText("lobby_chat.send")}
+                @click=${() => this.send()}
+              ></o-button>
+            </div>`}
+        ${this.invalid
+          ? html`<div class="text-red-400 text-sm mt-1">
+              ${translateText("lobby_chat.invalid")}
+            </div>`
+          : html``}
+      </div>
+    `;
+  }
+}
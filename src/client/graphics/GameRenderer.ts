@@ -7,6 +7,7 @@ import { TransformHandler } from "./TransformHandler";
 import { UIState } from "./UIState";
 import { AlertFrame } from "./layers/AlertFrame";
 import { BuildMenu } from "./layers/BuildMenu";
+import { BuildQueue } from "./layers/BuildQueue";
 import { ChatDisplay } from "./layers/ChatDisplay";
 import { ChatModal } from "./layers/ChatModal";
 import { ControlPanel } from "./layers/ControlPanel";
@@ -21,8 +22,10 @@ import { HeadsUpMessage } from "./layers/HeadsUpMessage";
 import { Layer } from "./layers/Layer";
 import { Leaderboard } from "./layers/Leaderboard";
 import { MainRadialMenu } from "./layers/MainRadialMenu";
+import { Minimap } from "./layers/Minimap";
 import { MultiTabModal } from "./layers/MultiTabModal";
 import { NameLayer } from "./layers/NameLayer";
+import { PauseOverlay } from "./layers/PauseOverlay";
 import { PlayerInfoOverlay } from "./layers/PlayerInfoOverlay";
 import { PlayerPanel } from "./layers/PlayerPanel";
 import { RailroadLayer } from "./layers/RailroadLayer";
@@ -30,6 +33,7 @@ import { ReplayPanel } from "./layers/ReplayPanel";
 import { SettingsModal } from "./layers/SettingsModal";
 import { SpawnAd } from "./layers/SpawnAd";
 import { SpawnTimer } from "./layers/SpawnTimer";
+import { StrategicOverlayLayer } from "./layers/StrategicOverlayLayer";
 import { StructureIconsLayer } from "./layers/StructureIconsLayer";
 import { StructureLayer } from "./layers/StructureLayer";
 import { TeamStats } from "./layers/TeamStats";
@@ -38,6 +42,7 @@ import { TerritoryLayer } from "./layers/TerritoryLayer";
 import { UILayer } from "./layers/UILayer";
 import { UnitDisplay } from "./layers/UnitDisplay";
 import { UnitLayer } from "./layers/UnitLayer";
+import { VictoryStatus } from "./layers/VictoryStatus";
 import { WinModal } from "./layers/WinModal";
 
 export function createRenderer(
@@ -103,6 +108,21 @@ export function createRenderer(
   controlPanel.uiState = uiState;
   controlPanel.game = game;
 
+  const buildQueue = document.querySelector("build-queue") as BuildQueue;
+  if (!(buildQueue instanceof BuildQueue)) {
+    console.error("build queue not found");
+  }
+  buildQueue.eventBus = eventBus;
+  buildQueue.game = game;
+
+  const minimap = document.querySelector("mini-map") as Minimap;
+  if (!(minimap instanceof Minimap)) {
+    console.error("minimap not found");
+  }
+  minimap.game = game;
+  minimap.transformHandler = transformHandler;
+  minimap.userSettings = userSettings;
+
   const eventsDisplay = document.querySelector(
     "events-display",
   ) as EventsDisplay;
@@ -200,6 +220,21 @@ export function createRenderer(
   }
   headsUpMessage.game = game;
 
+  const victoryStatus = document.querySelector(
+    "victory-status",
+  ) as VictoryStatus;
+  if (!(victoryStatus instanceof VictoryStatus)) {
+    console.error("victory status not found");
+  }
+  victoryStatus.game = game;
+
+  const pauseOverlay = document.querySelector("pause-overlay") as PauseOverlay;
+  if (!(pauseOverlay instanceof PauseOverlay)) {
+    console.error("pause overlay not found");
+  }
+  pauseOverlay.game = game;
+  pauseOverlay.eventBus = eventBus;
+
   const structureLayer = new StructureLayer(game, eventBus, transformHandler);
 
   const fpsDisplay = document.querySelector("fps-display") as FPSDisplay;
@@ -233,10 +268,12 @@ export function createRenderer(
     new TerrainLayer(game, transformHandler),
     new TerritoryLayer(game, eventBus, transformHandler, userSettings),
     new RailroadLayer(game),
+    new StrategicOverlayLayer(game, userSettings),
     structureLayer,
     new StructureIconsLayer(game, eventBus, transformHandler),
     new UnitLayer(game, eventBus, transformHandler),
     new FxLayer(game),
+    victoryStatus,
     new UILayer(game, eventBus, transformHandler),
     new NameLayer(game, transformHandler, eventBus),
     eventsDisplay,
@@ -257,6 +294,8 @@ export function createRenderer(
     unitDisplay,
     gameRightSidebar,
     controlPanel,
+    minimap,
+    buildQueue,
     playerInfo,
     winModal,
     replayPanel,
@@ -264,6 +303,7 @@ export function createRenderer(
     teamStats,
     playerPanel,
     headsUpMessage,
+    pauseOverlay,
     multiTabModal,
     spawnAd,
     gutterAdModal,
@@ -335,6 +375,13 @@ export class GameRenderer {
     });
   }
 
+  // Rebuilds every layer after the game view was reset to a full update.
+  reset() {
+    this.layers.forEach((l) => l.reset?.());
+    this.tick();
+    this.redraw();
+  }
+
   renderGame() {
     const start = performance.now();
     // Set background
@@ -1,7 +1,15 @@
 import { EventBus } from "../../core/EventBus";
-import { Cell } from "../../core/game/Game";
-import { GameView } from "../../core/game/GameView";
-import { CenterCameraEvent, DragEvent, ZoomEvent } from "../InputHandler";
+import { Cell, UnitType } from "../../core/game/Game";
+import { GameView, UnitView } from "../../core/game/GameView";
+import {
+  CameraBookmarkEvent,
+  CenterCameraEvent,
+  DragEvent,
+  FollowAttackEvent,
+  ToggleFollowEvent,
+  UnitSelectionEvent,
+  ZoomEvent,
+} from "../InputHandler";
 import {
   GoToPlayerEvent,
   GoToPositionEvent,
@@ -11,6 +19,99 @@ import {
 export const GOTO_INTERVAL_MS = 16;
 export const CAMERA_MAX_SPEED = 15;
 export const CAMERA_SMOOTHING = 0.03;
+// How far from the cursor a unit to follow is looked for, in tiles.
+const FOLLOW_SELECTION_RADIUS = 15;
+const FOLLOWABLE_UNITS = [
+  UnitType.TransportShip,
+  UnitType.Warship,
+  UnitType.AtomBomb,
+  UnitType.HydrogenBomb,
+  UnitType.MIRV,
+  UnitType.MIRVWarhead,
+  UnitType.Train,
+];
+const ATTACK_POSITION_INTERVAL_MS = 500;
+
+// Something the camera keeps in the center until it is done.
+interface FollowTarget {
+  isDone(): boolean;
+  // Null while the position is not known yet.
+  position(): Cell | null;
+}
+
+class FollowedUnit implements FollowTarget {
+  constructor(
+    private game: GameView,
+    private unitID: number,
+  ) {}
+
+  // Units going under the fog are let go, so they don't give away where
+  // they are.
+  isDone(): boolean {
+    const unit = this.game.unit(this.unitID);
+    return (
+      unit === undefined || !unit.isActive() || !this.game.isUnitVisible(unit)
+    );
+  }
+
+  position(): Cell | null {
+    const unit = this.game.unit(this.unitID);
+    if (unit === undefined) return null;
+    return new Cell(this.game.x(unit.tile()), this.game.y(unit.tile()));
+  }
+}
+
+// The average position is computed by the worker, so it is polled and lags a
+// little behind.
+class FollowedAttack implements FollowTarget {
+  private lastPosition: Cell | null = null;
+  private lastQuery = -Infinity;
+  private failed = false;
+
+  constructor(
+    private game: GameView,
+    private attackerID: number,
+    private attackID: string,
+  ) {}
+
+  isDone(): boolean {
+    const attacker = this.game.playerBySmallID(this.attackerID);
+    return !(
+      !this.failed &&
+      attacker.isPlayer() &&
+      attacker.outgoingAttacks().some((a) => a.id === this.attackID)
+    );
+  }
+
+  position(): Cell | null {
+    const now = window.performance.now();
+    const attacker = this.game.playerBySmallID(this.attackerID);
+    if (
+      attacker.isPlayer() &&
+      now - this.lastQuery > ATTACK_POSITION_INTERVAL_MS
+    ) {
+      this.lastQuery = now;
+      attacker
+        .attackAveragePosition(this.attackerID, this.attackID)
+        .then((position) => {
+          if (position !== null) {
+            this.lastPosition = position;
+          }
+        })
+        .catch((error) => {
+          console.error("Failed to get attack position", error);
+          this.failed = true;
+        });
+    }
+    return this.lastPosition;
+  }
+}
+
+interface CameraBookmark {
+  x: number;
+  y: number;
+  scale: number;
+}
 
 export class TransformHandler {
   public scale: number = 1.8;
@@ -23,6 +124,10 @@ export class TransformHandler {
   private intervalID: NodeJS.Timeout | null = null;
   private changed = false;
 
+  private followed: FollowTarget | null = null;
+  private selectedUnit: UnitView | null = null;
+  private bookmarks = new Map<number, CameraBookmark>();
+
   constructor(
     private game: GameView,
     private eventBus: EventBus,
@@ -35,6 +140,20 @@ export class TransformHandler {
     this.eventBus.on(GoToPositionEvent, (e) => this.onGoToPosition(e));
     this.eventBus.on(GoToUnitEvent, (e) => this.onGoToUnit(e));
     this.eventBus.on(CenterCameraEvent, () => this.centerCamera());
+    this.eventBus.on(CameraBookmarkEvent, (e) => this.onCameraBookmark(e));
+    this.eventBus.on(ToggleFollowEvent, (e) => this.onToggleFollow(e));
+    this.eventBus.on(FollowAttackEvent, (e) =>
+      this.startFollowing(
+        new FollowedAttack(this.game, e.attackerID, e.attackID),
+      ),
+    );
+    this.eventBus.on(UnitSelectionEvent, (e) => {
+      if (e.isSelected) {
+        this.selectedUnit = e.unit;
+      } else if (e.unit === this.selectedUnit) {
+        this.selectedUnit = null;
+      }
+    });
   }
 
   public updateCanvasBoundingRect() {
@@ -191,6 +310,75 @@ export class TransformHandler {
     this.intervalID = setInterval(() => this.goTo(), GOTO_INTERVAL_MS);
   }
 
+  onCameraBookmark(event: CameraBookmarkEvent) {
+    if (event.save) {
+      this.bookmarks.set(event.slot, { ...this.center(), scale: this.scale });
+      return;
+    }
+    const bookmark = this.bookmarks.get(event.slot);
+    if (bookmark === undefined) return;
+    this.scale = bookmark.scale;
+    this.centerOn(bookmark.x, bookmark.y);
+  }
+
+  onToggleFollow(event: ToggleFollowEvent) {
+    if (this.followed !== null) {
+      this.clearTarget();
+      return;
+    }
+    const unit =
+      this.selectedUnit?.isActive() === true
+        ? this.selectedUnit
+        : this.followableUnitNear(event.x, event.y);
+    if (unit !== null) {
+      this.startFollowing(new FollowedUnit(this.game, unit.id()));
+    }
+  }
+
+  private followableUnitNear(
+    screenX: number,
+    screenY: number,
+  ): UnitView | null {
+    const cell = this.screenToWorldCoordinates(screenX, screenY);
+    if (!this.game.isValidCoord(cell.x, cell.y)) return null;
+    const tile = this.game.ref(cell.x, cell.y);
+    let closest: UnitView | null = null;
+    let closestDist = FOLLOW_SELECTION_RADIUS + 1;
+    for (const unit of this.game.units(...FOLLOWABLE_UNITS)) {
+      if (!unit.isActive() || !this.game.isUnitVisible(unit)) continue;
+      const dist = this.game.manhattanDist(unit.tile(), tile);
+      if (dist < closestDist) {
+        closest = unit;
+        closestDist = dist;
+      }
+    }
+    return closest;
+  }
+
+  private startFollowing(target: FollowTarget) {
+    this.clearTarget();
+    this.followed = target;
+    this.intervalID = setInterval(() => this.follow(), GOTO_INTERVAL_MS);
+  }
+
+  private follow() {
+    if (this.followed === null) throw new Error("nothing followed");
+    if (this.followed.isDone()) {
+      this.clearTarget();
+      return;
+    }
+    const position = this.followed.position();
+    if (position === null) return;
+    this.target = position;
+    const { screenX, screenY } = this.screenCenter();
+    if (
+      Math.abs(this.target.x - screenX) + Math.abs(this.target.y - screenY) >=
+      2
+    ) {
+      this.panTowardsTarget();
+    }
+  }
+
   private goTo() {
     const { screenX, screenY } = this.screenCenter();
 
@@ -203,6 +391,12 @@ export class TransformHandler {
       this.clearTarget();
       return;
     }
+    this.panTowardsTarget();
+  }
+
+  private panTowardsTarget() {
+    if (this.target === null) throw new Error("null target");
+    const { screenX, screenY } = this.screenCenter();
 
     let dt: number;
     const now = window.performance.now();
@@ -228,7 +422,10 @@ export class TransformHandler {
   }
 
   onZoom(event: ZoomEvent) {
-    this.clearTarget();
+    // Zooming keeps following, the next step recenters.
+    if (this.followed === null) {
+      this.clearTarget();
+    }
     const oldScale = this.scale;
     const zoomFactor = 1 + event.delta / 600;
     this.scale /= zoomFactor;
@@ -259,12 +456,44 @@ export class TransformHandler {
     this.changed = true;
   }
 
+  // The world position in the center of the screen.
+  private center(): { x: number; y: number } {
+    const canvasRect = this.boundingRect();
+    return {
+      x:
+        this.offsetX +
+        this.game.width() / 2 +
+        (canvasRect.width / 2 - this.game.width() / 2) / this.scale,
+      y:
+        this.offsetY +
+        this.game.height() / 2 +
+        (canvasRect.height / 2 - this.game.height() / 2) / this.scale,
+    };
+  }
+
+  // Moves the camera so the world position is in the center, without panning
+  // there gradually like the go to events.
+  centerOn(x: number, y: number) {
+    this.clearTarget();
+    const canvasRect = this.boundingRect();
+    this.offsetX =
+      x -
+      this.game.width() / 2 -
+      (canvasRect.width / 2 - this.game.width() / 2) / this.scale;
+    this.offsetY =
+      y -
+      this.game.height() / 2 -
+      (canvasRect.height / 2 - this.game.height() / 2) / this.scale;
+    this.changed = true;
+  }
+
   private clearTarget() {
     if (this.intervalID !== null) {
       clearInterval(this.intervalID);
       this.intervalID = null;
     }
     this.target = null;
+    this.followed = null;
   }
 
   override(x: number = 0, y: number = 0, s: number = 1) {
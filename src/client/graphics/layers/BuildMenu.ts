@@ -29,6 +29,7 @@ import {
 } from "../../InputHandler";
 import {
   BuildUnitIntentEvent,
+  QueueBuildIntentEvent,
   SendUpgradeStructureIntentEvent,
 } from "../../Transport";
 import { renderNumber } from "../../Utils";
@@ -227,6 +228,12 @@ export class BuildMenu extends LitElement implements Layer {
       cursor: not-allowed;
       opacity: 0.7;
     }
+    .build-button.queueable {
+      opacity: 0.7;
+    }
+    .build-button.queueable .build-cost {
+      color: #ffb444;
+    }
     .build-button:disabled img {
       opacity: 0.5;
     }
@@ -368,6 +375,20 @@ export class BuildMenu extends LitElement implements Layer {
     return unit[0].canBuild !== false || unit[0].canUpgrade !== false;
   }
 
+  // Builds that can't be afforded yet are queued instead.
+  public canQueue(item: BuildItemDisplay): boolean {
+    const player = this.game?.myPlayer();
+    if (!player || this.game.inSpawnPhase()) {
+      return false;
+    }
+    return !this.canBuildOrUpgrade(item) && this.cost(item) > player.gold();
+  }
+
+  public queueBuild(item: BuildItemDisplay, tile: TileRef): void {
+    this.eventBus.emit(new QueueBuildIntentEvent(item.unitType, tile));
+    this.hideMenu();
+  }
+
   public cost(item: BuildItemDisplay): Gold {
     for (const bu of this.playerActions?.buildableUnits ?? []) {
       if (bu.type === item.unitType) {
@@ -419,15 +440,23 @@ export class BuildMenu extends LitElement implements Layer {
                 const enabled =
                   buildableUnit.canBuild !== false ||
                   buildableUnit.canUpgrade !== false;
+                const queueable = !enabled && this.canQueue(item);
                 return html`
                   <button
-                    class="build-button"
+                    class="build-button ${queueable ? "queueable" : ""}"
                     @click=${() =>
-                      this.sendBuildOrUpgrade(buildableUnit, this.clickedTile)}
-                    ?disabled=${!enabled}
-                    title=${!enabled
-                      ? translateText("build_menu.not_enough_money")
-                      : ""}
+                      queueable
+                        ? this.queueBuild(item, this.clickedTile)
+                        : this.sendBuildOrUpgrade(
+                            buildableUnit,
+                            this.clickedTile,
+                          )}
+                    ?disabled=${!enabled && !queueable}
+                    title=${queueable
+                      ? translateText("build_menu.queue")
+                      : !enabled
+                        ? translateText("build_menu.not_enough_money")
+                        : ""}
                   >
                     <img
                       src=${item.icon}
@@ -0,0 +1,131 @@
+import { html, LitElement } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { EventBus } from "../../../core/EventBus";
+import { QueuedBuildUpdate } from "../../../core/game/GameUpdates";
+import { GameView } from "../../../core/game/GameView";
+import {
+  CancelQueuedBuildIntentEvent,
+  MoveQueuedBuildIntentEvent,
+} from "../../Transport";
+import { renderNumber, translateText } from "../../Utils";
+import { buildTable } from "./BuildMenu";
+import { Layer } from "./Layer";
+
+interface QueueEntry {
+  build: QueuedBuildUpdate;
+  // Seconds until the gold for this and all earlier builds is there.
+  eta: number;
+}
+
+function renderEta(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+// Lists the builds queued with the build menu above the control panel, with
+// their cost and when they can be afforded at the current income.
+@customElement("build-queue")
+export class BuildQueue extends LitElement implements Layer {
+  public game: GameView;
+  public eventBus: EventBus;
+
+  @state()
+  private entries: QueueEntry[] = [];
+
+  createRenderRoot() {
+    return this;
+  }
+
+  init() {}
+
+  tick() {
+    const player = this.game.myPlayer();
+    if (player === null || !player.isAlive()) {
+      this.entries = [];
+      return;
+    }
+    const income = Number(this.game.config().goldAdditionRate(player)) * 10;
+    let needed = 0n;
+    this.entries = player.buildQueue().map((build) => {
+      needed += build.cost;
+      const missing = Number(needed - player.gold());
+      return {
+        build,
+        eta: missing > 0 && income > 0 ? Math.ceil(missing / income) : 0,
+      };
+    });
+  }
+
+  shouldTransform(): boolean {
+    return false;
+  }
+
+  private move(build: QueuedBuildUpdate, index: number) {
+    this.eventBus.emit(new MoveQueuedBuildIntentEvent(build.id, index));
+  }
+
+  private cancel(build: QueuedBuildUpdate) {
+    this.eventBus.emit(new CancelQueuedBuildIntentEvent(build.id));
+  }
+
+  render() {
+    if (this.entries.length === 0) {
+      return html``;
+    }
+    return html`
+      <div
+        class="w-full sm:max-w-[320px] text-sm bg-gray-800/70 text-white p-2 mb-2 shadow-lg sm:rounded-lg backdrop-blur"
+        @contextmenu=${(e: MouseEvent) => e.preventDefault()}
+      >
+        <div class="font-bold mb-1">${translateText("build_queue.title")}</div>
+        ${this.entries.map(({ build, eta }, i) => {
+          const item = buildTable.flat().find((b) => b.unitType === build.type);
+          return html`
+            <div class="flex items-center gap-2 py-0.5">
+              ${item
+                ? html`<img
+                    src=${item.icon}
+                    alt=${build.type}
+                    class="w-5 h-5"
+                  />`
+                : html``}
+              <span class="flex-1 truncate"
+                >${item?.key ? translateText(item.key) : build.type}</span
+              >
+              <span translate="no">${renderNumber(build.cost)}</span>
+              <span class="w-12 text-right text-gray-300" translate="no"
+                >${eta > 0
+                  ? renderEta(eta)
+                  : translateText("build_queue.ready")}</span
+              >
+              <button
+                class="px-1 disabled:opacity-30"
+                title=${translateText("build_queue.move_up")}
+                ?disabled=${i === 0}
+                @click=${() => this.move(build, i - 1)}
+              >
+                ▲
+              </button>
+              <button
+                class="px-1 disabled:opacity-30"
+                title=${translateText("build_queue.move_down")}
+                ?disabled=${i === this.entries.length - 1}
+                @click=${() => this.move(build, i + 1)}
+              >
+                ▼
+              </button>
+              <button
+                class="px-1 text-red-400"
+                title=${translateText("build_queue.cancel")}
+                @click=${() => this.cancel(build)}
+              >
+                ✕
+              </button>
+            </div>
+          `;
+        })}
+      </div>
+    `;
+  }
+}
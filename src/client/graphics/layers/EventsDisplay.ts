@@ -39,6 +39,7 @@ import { Layer } from "./Layer";
 
 import { GameView, PlayerView, UnitView } from "../../../core/game/GameView";
 import { onlyImages } from "../../../core/Util";
+import { FollowAttackEvent } from "../../InputHandler";
 import { renderNumber, renderTroops } from "../../Utils";
 import {
   GoToPlayerEvent,
@@ -78,6 +79,9 @@ export class EventsDisplay extends LitElement implements Layer {
 
   // allianceID -> last checked at tick
   private alliancesCheckedAt = new Map<number, Tick>();
+  // Warnings about incoming units still hidden by fog of war, shown once the
+  // unit is revealed.
+  private hiddenIncomingUnits: UnitIncomingUpdate[] = [];
   @state() private incomingAttacks: AttackUpdate[] = [];
   @state() private outgoingAttacks: AttackUpdate[] = [];
   @state() private outgoingLandAttacks: AttackUpdate[] = [];
@@ -192,6 +196,7 @@ export class EventsDisplay extends LitElement implements Layer {
         updates[ut]?.forEach(fn as (event: unknown) => void);
       }
     }
+    this.checkForRevealedIncomingUnits();
 
     let remainingEvents = this.events.filter((event) => {
       const shouldKeep =
@@ -239,6 +244,16 @@ export class EventsDisplay extends LitElement implements Layer {
     }
   }
 
+  private checkForRevealedIncomingUnits() {
+    const hidden = this.hiddenIncomingUnits;
+    this.hiddenIncomingUnits = [];
+    for (const event of hidden) {
+      if (this.game.unit(event.unitID)?.isActive()) {
+        this.onUnitIncomingEvent(event);
+      }
+    }
+  }
+
   private checkForAllianceExpirations() {
     const myPlayer = this.game.myPlayer();
     if (!myPlayer?.isAlive()) return;
@@ -662,6 +677,10 @@ export class EventsDisplay extends LitElement implements Layer {
     }
 
     const unitView = this.game.unit(event.unitID);
+    if (unitView !== undefined && !this.game.isUnitVisible(unitView)) {
+      this.hiddenIncomingUnits.push(event);
+      return;
+    }
 
     this.addEvent({
       description: event.message,
@@ -693,7 +712,10 @@ export class EventsDisplay extends LitElement implements Layer {
         if (averagePosition === null) {
           this.emitGoToPlayerEvent(attack.attackerID);
         } else {
-          this.emitGoToPositionEvent(averagePosition.x, averagePosition.y);
+          // Keeps the front in view until the attack ends.
+          this.eventBus.emit(
+            new FollowAttackEvent(attack.attackerID, attack.id),
+          );
         }
       }
     } else {
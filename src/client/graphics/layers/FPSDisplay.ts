@@ -3,7 +3,9 @@ import { customElement, property, state } from "lit/decorators.js";
 import { EventBus } from "../../../core/EventBus";
 import { UserSettings } from "../../../core/game/UserSettings";
 import { TogglePerformanceOverlayEvent } from "../../InputHandler";
+import { TerritoryRenderStats } from "../territory/TerritoryWebGLRenderer";
 import { Layer } from "./Layer";
+import { TerritoryRenderStatsEvent } from "./TerritoryLayer";
 
 @customElement("fps-display")
 export class FPSDisplay extends LitElement implements Layer {
@@ -25,6 +27,10 @@ export class FPSDisplay extends LitElement implements Layer {
   @state()
   private isVisible: boolean = false;
 
+  // Only with WebGL territory rendering.
+  @state()
+  private territoryStats: TerritoryRenderStats | null = null;
+
   @state()
   private isDragging: boolean = false;
 
@@ -108,6 +114,9 @@ export class FPSDisplay extends LitElement implements Layer {
     this.eventBus.on(TogglePerformanceOverlayEvent, () => {
       this.userSettings.togglePerformanceOverlay();
     });
+    this.eventBus.on(TerritoryRenderStatsEvent, (e) => {
+      this.territoryStats = e.stats;
+    });
   }
 
   setVisible(visible: boolean) {
@@ -262,6 +271,20 @@ export class FPSDisplay extends LitElement implements Layer {
             >${this.frameTime}ms</span
           >
         </div>
+        ${this.territoryStats !== null
+          ? html`
+              <div class="fps-line">
+                Territory upload:
+                ${Math.round(this.territoryStats.uploadedBytes / 1024)}KB/s
+              </div>
+              <div class="fps-line">
+                Territory GPU:
+                ${this.territoryStats.gpuMs !== null
+                  ? `${this.territoryStats.gpuMs.toFixed(2)}ms`
+                  : "n/a"}
+              </div>
+            `
+          : html``}
       </div>
     `;
   }
@@ -13,6 +13,7 @@ import { GameView } from "../../../core/game/GameView";
 import { PauseGameEvent } from "../../Transport";
 import { translateText } from "../../Utils";
 import { Layer } from "./Layer";
+import { GamePausedEvent } from "./PauseOverlay";
 import { ShowReplayPanelEvent } from "./ReplayPanel";
 import { ShowSettingsModalEvent } from "./SettingsModal";
 
@@ -48,6 +49,10 @@ export class GameRightSidebar extends LitElement implements Layer {
       this.game.config().isReplay();
     this._isVisible = true;
     this.game.inSpawnPhase();
+    // Multiplayer games are paused by the server, keep the button in sync.
+    this.eventBus.on(GamePausedEvent, (event) => {
+      this.isPaused = event.paused;
+    });
     this.requestUpdate();
   }
 
@@ -64,6 +69,13 @@ export class GameRightSidebar extends LitElement implements Layer {
     }
   }
 
+  reset() {
+    const ticksSinceSpawn =
+      this.game.ticks() - this.game.config().numSpawnPhaseTurns();
+    this.hasWinner = false;
+    this.timer = Math.max(0, Math.floor(ticksSinceSpawn / 10));
+  }
+
   private secondsToHms = (d: number): string => {
     const h = Math.floor(d / 3600);
     const m = Math.floor((d % 3600) / 60);
@@ -160,17 +172,26 @@ export class GameRightSidebar extends LitElement implements Layer {
             style="vertical-align: middle;"
           />
         </div>
-        <div class="w-6 h-6 cursor-pointer" @click=${this.onPauseButtonClick}>
-          <img
-            src=${this.isPaused ? playIcon : pauseIcon}
-            alt="play/pause"
-            width="20"
-            height="20"
-            style="vertical-align: middle;"
-          />
-        </div>`;
+        ${this.renderPauseButton()}`;
+    } else if (this.game?.isLobbyCreator()) {
+      return this.renderPauseButton();
     } else {
       return html``;
     }
   }
+
+  private renderPauseButton() {
+    return html`<div
+      class="w-6 h-6 cursor-pointer"
+      @click=${this.onPauseButtonClick}
+    >
+      <img
+        src=${this.isPaused ? playIcon : pauseIcon}
+        alt="play/pause"
+        width="20"
+        height="20"
+        style="vertical-align: middle;"
+      />
+    </div>`;
+  }
 }
@@ -21,7 +21,7 @@ export class HeadsUpMessage extends LitElement implements Layer {
   }
 
   tick() {
-    if (!this.game.inSpawnPhase()) {
+    if (!this.game.inSpawnPhase() && !this.game.isSpectator()) {
       this.isVisible = false;
       this.requestUpdate();
     }
@@ -40,7 +40,9 @@ export class HeadsUpMessage extends LitElement implements Layer {
                     backdrop-blur-md text-white text-md lg:text-xl p-1 lg:p-2"
         @contextmenu=${(e: MouseEvent) => e.preventDefault()}
       >
-        ${translateText("heads_up_message.choose_spawn")}
+        ${this.game.isSpectator()
+          ? translateText("heads_up_message.spectating")
+          : translateText("heads_up_message.choose_spawn")}
       </div>
     `;
   }
@@ -4,4 +4,7 @@ export interface Layer {
   renderLayer?: (context: CanvasRenderingContext2D) => void;
   shouldTransform?: () => boolean;
   redraw?: () => void;
+  // Called when the game view was replaced by a full update, e.g. after
+  // seeking in a replay.
+  reset?: () => void;
 }
@@ -74,9 +74,11 @@ export class Leaderboard extends LitElement implements Layer {
 
   private updateLeaderboard() {
     if (this.game === null) throw new Error("Not initialized");
-    const myPlayer = this.game.myPlayer();
+    const game = this.game;
+    const myPlayer = game.myPlayer();
 
-    let sorted = this.game.playerViews();
+    // Players hidden by fog of war are left out.
+    let sorted = game.playerViews().filter((p) => game.isPlayerVisible(p));
 
     const compare = (a: number, b: number) =>
       this._sortOrder === "asc" ? a - b : b - a;
@@ -0,0 +1,241 @@
+import { Colord } from "colord";
+import { html, LitElement } from "lit";
+import { customElement, query, state } from "lit/decorators.js";
+import { TileRef } from "../../../core/game/GameMap";
+import { GameUpdateType } from "../../../core/game/GameUpdates";
+import { GameView } from "../../../core/game/GameView";
+import { UserSettings } from "../../../core/game/UserSettings";
+import { TransformHandler } from "../TransformHandler";
+import { Layer } from "./Layer";
+
+// Longest side of the minimap in pixels.
+const MINIMAP_SIZE = 220;
+// Territory changes slowly at this scale, redraw it once a second.
+const REFRESH_TICKS = 10;
+const FLASH_DURATION_MS = 5000;
+
+interface Flash {
+  tile: TileRef;
+  createdAt: number;
+}
+
+@customElement("mini-map")
+export class Minimap extends LitElement implements Layer {
+  public game: GameView;
+  public transformHandler: TransformHandler;
+  public userSettings: UserSettings;
+
+  @state()
+  private visible = true;
+
+  @query("canvas")
+  private canvas: HTMLCanvasElement | null;
+
+  private scale = 1;
+  private terrain: ImageData | null = null;
+  private territory: ImageData | null = null;
+  private flashes: Flash[] = [];
+  // Incoming units under fog, like in EventsDisplay they flash once seen.
+  private hiddenIncoming: number[] = [];
+  private dragging = false;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  init() {
+    this.scale = MINIMAP_SIZE / Math.max(this.game.width(), this.game.height());
+    this.visible = this.userSettings.minimap();
+  }
+
+  tick() {
+    this.visible = this.userSettings.minimap();
+    if (!this.visible) return;
+
+    const myPlayer = this.game.myPlayer();
+    const updates = this.game.updatesSinceLastTick();
+    const incoming = this.hiddenIncoming;
+    this.hiddenIncoming = [];
+    updates?.[GameUpdateType.UnitIncoming].forEach((update) => {
+      if (myPlayer !== null && update.playerID === myPlayer.smallID()) {
+        incoming.push(update.unitID);
+      }
+    });
+    for (const unitID of incoming) {
+      const unit = this.game.unit(unitID);
+      if (unit === undefined || !unit.isActive()) continue;
+      if (!this.game.isUnitVisible(unit)) {
+        this.hiddenIncoming.push(unitID);
+        continue;
+      }
+      this.flashes.push({
+        tile: unit.targetTile() ?? unit.tile(),
+        createdAt: Date.now(),
+      });
+    }
+
+    if (this.territory === null || this.game.ticks() % REFRESH_TICKS === 0) {
+      this.paintTerritory();
+    }
+  }
+
+  reset() {
+    this.territory = null;
+  }
+
+  private width(): number {
+    return Math.max(1, Math.round(this.game.width() * this.scale));
+  }
+
+  private height(): number {
+    return Math.max(1, Math.round(this.game.height() * this.scale));
+  }
+
+  // The tile shown by a minimap pixel.
+  private tileAt(x: number, y: number): TileRef {
+    return this.game.ref(
+      Math.min(this.game.width() - 1, Math.floor(x / this.scale)),
+      Math.min(this.game.height() - 1, Math.floor(y / this.scale)),
+    );
+  }
+
+  private paintTerritory() {
+    const theme = this.game.config().theme();
+    const width = this.width();
+    const height = this.height();
+    if (this.terrain === null) {
+      this.terrain = new ImageData(width, height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const color = theme.terrainColor(this.game, this.tileAt(x, y));
+          setPixel(this.terrain, x, y, color);
+        }
+      }
+    }
+    this.territory = new ImageData(
+      new Uint8ClampedArray(this.terrain.data),
+      width,
+      height,
+    );
+
+    const colors = new Map<number, Colord>();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const tile = this.tileAt(x, y);
+        if (!this.game.isTileVisible(tile)) {
+          setPixel(this.territory, x, y, theme.fogColor());
+          continue;
+        }
+        const ownerID = this.game.ownerID(tile);
+        if (ownerID === 0) continue;
+        let color = colors.get(ownerID);
+        if (color === undefined) {
+          const owner = this.game.playerBySmallID(ownerID);
+          if (!owner.isPlayer()) continue;
+          color = theme.territoryColor(owner);
+          colors.set(ownerID, color);
+        }
+        setPixel(this.territory, x, y, color);
+      }
+    }
+  }
+
+  renderLayer() {
+    if (!this.visible || this.canvas === null || this.territory === null) {
+      return;
+    }
+    const ctx = this.canvas.getContext("2d");
+    if (ctx === null) return;
+    ctx.putImageData(this.territory, 0, 0);
+
+    const now = Date.now();
+    this.flashes = this.flashes.filter(
+      (f) => now - f.createdAt < FLASH_DURATION_MS,
+    );
+    for (const flash of this.flashes) {
+      // Pulses twice a second, fading out.
+      const age = now - flash.createdAt;
+      const pulse = (age % 500) / 500;
+      ctx.beginPath();
+      ctx.arc(
+        this.game.x(flash.tile) * this.scale,
+        this.game.y(flash.tile) * this.scale,
+        3 + pulse * 8,
+        0,
+        2 * Math.PI,
+      );
+      ctx.strokeStyle = `rgba(255, 40, 40, ${(1 - age / FLASH_DURATION_MS) * (1 - pulse)})`;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    const [topLeft, bottomRight] = this.transformHandler.screenBoundingRect();
+    ctx.strokeStyle = "white";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      topLeft.x * this.scale + 0.5,
+      topLeft.y * this.scale + 0.5,
+      (bottomRight.x - topLeft.x) * this.scale,
+      (bottomRight.y - topLeft.y) * this.scale,
+    );
+  }
+
+  private panTo(event: PointerEvent) {
+    if (this.canvas === null) return;
+    const rect = this.canvas.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * this.width();
+    const y = ((event.clientY - rect.top) / rect.height) * this.height();
+    this.transformHandler.centerOn(x / this.scale, y / this.scale);
+  }
+
+  // The map below must not see these, it would drag or click too.
+  private onPointerDown(event: PointerEvent) {
+    event.stopPropagation();
+    this.dragging = true;
+    this.canvas?.setPointerCapture(event.pointerId);
+    this.panTo(event);
+  }
+
+  private onPointerMove(event: PointerEvent) {
+    event.stopPropagation();
+    if (this.dragging) {
+      this.panTo(event);
+    }
+  }
+
+  private onPointerUp(event: PointerEvent) {
+    event.stopPropagation();
+    this.dragging = false;
+    this.canvas?.releasePointerCapture(event.pointerId);
+  }
+
+  render() {
+    if (!this.visible || this.game === undefined) {
+      return html``;
+    }
+    return html`
+      <div
+        class="hidden lg:block mb-2 p-1 bg-gray-800/70 backdrop-blur-sm border border-slate-400 rounded-lg w-max"
+      >
+        <canvas
+          class="block cursor-pointer"
+          style="image-rendering: pixelated"
+          width=${this.width()}
+          height=${this.height()}
+          @pointerdown=${this.onPointerDown}
+          @pointermove=${this.onPointerMove}
+          @pointerup=${this.onPointerUp}
+          @contextmenu=${(e: Event) => e.preventDefault()}
+        ></canvas>
+      </div>
+    `;
+  }
+}
+
+function setPixel(image: ImageData, x: number, y: number, color: Colord) {
+  const offset = (y * image.width + x) * 4;
+  image.data[offset] = color.rgba.r;
+  image.data[offset + 1] = color.rgba.g;
+  image.data[offset + 2] = color.rgba.b;
+  image.data[offset + 3] = 255;
+}
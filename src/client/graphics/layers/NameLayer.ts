@@ -139,8 +139,14 @@ export class NameLayer implements Layer {
     const isOnScreen = render.location
       ? this.transformHandler.isOnScreen(render.location)
       : false;
+    // Names and troops of players in the fog of war are hidden.
+    const isRevealed =
+      render.location !== null &&
+      this.game.isTileVisible(
+        this.game.ref(render.location.x, render.location.y),
+      );
 
-    if (!this.isVisible || size < 7 || !isOnScreen) {
+    if (!this.isVisible || size < 7 || !isOnScreen || !isRevealed) {
       render.element.style.display = "none";
     } else {
       render.element.style.display = "flex";
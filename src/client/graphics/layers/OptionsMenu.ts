@@ -4,11 +4,15 @@ import { EventBus } from "../../../core/EventBus";
 import { GameType } from "../../../core/game/Game";
 import { GameUpdateType } from "../../../core/game/GameUpdates";
 import { GameView } from "../../../core/game/GameView";
-import { UserSettings } from "../../../core/game/UserSettings";
+import {
+  StrategicOverlay,
+  UserSettings,
+} from "../../../core/game/UserSettings";
 import { AlternateViewEvent, RefreshGraphicsEvent } from "../../InputHandler";
 import { PauseGameEvent } from "../../Transport";
 import { translateText } from "../../Utils";
 import { Layer } from "./Layer";
+import { strategicOverlayToggles } from "./StrategicOverlayLayer";
 
 const button = ({
   classes = "",
@@ -142,6 +146,11 @@ export class OptionsMenu extends LitElement implements Layer {
     this.requestUpdate();
   }
 
+  private onToggleStrategicOverlay(overlay: StrategicOverlay) {
+    this.userSettings.toggleStrategicOverlay(overlay);
+    this.requestUpdate();
+  }
+
   init() {
     console.log("init called from OptionsMenu");
     this.showPauseButton =
@@ -262,6 +271,15 @@ export class OptionsMenu extends LitElement implements Layer {
             children:
               "🚀: " + (this.userSettings.performanceOverlay() ? "On" : "Off"),
           })}
+          ${strategicOverlayToggles.map(({ overlay, icon, translationKey }) =>
+            button({
+              onClick: () => this.onToggleStrategicOverlay(overlay),
+              title: translateText(translationKey),
+              children:
+                `${icon}: ` +
+                (this.userSettings.strategicOverlay(overlay) ? "On" : "Off"),
+            }),
+          )}
           <!-- ${button({
             onClick: this.onToggleFocusLockedButtonClick,
             title: "Lock Focus",
@@ -0,0 +1,61 @@
+import { html, LitElement } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { EventBus } from "../../../core/EventBus";
+import { GameView } from "../../../core/game/GameView";
+import { ClientID } from "../../../core/Schemas";
+import { translateText } from "../../Utils";
+import { Layer } from "./Layer";
+
+// Sent when the server pauses or resumes a multiplayer game.
+export class GamePausedEvent {
+  constructor(
+    public readonly paused: boolean,
+    public readonly clientID: ClientID,
+  ) {}
+}
+
+@customElement("pause-overlay")
+export class PauseOverlay extends LitElement implements Layer {
+  public game: GameView;
+  public eventBus: EventBus;
+
+  @state()
+  private pausedBy: string | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  init() {
+    this.eventBus.on(GamePausedEvent, (event) => {
+      this.pausedBy = event.paused
+        ? (this.game.playerByClientID(event.clientID)?.displayName() ?? "")
+        : null;
+    });
+  }
+
+  render() {
+    if (this.pausedBy === null) {
+      return html``;
+    }
+
+    return html`
+      <div
+        class="fixed inset-0 z-[900] flex items-center justify-center bg-black/40 pointer-events-none"
+      >
+        <div
+          class="flex flex-col items-center gap-1 bg-gray-900/80 backdrop-blur-md rounded-lg text-white p-4"
+        >
+          <div class="text-2xl lg:text-3xl font-bold">
+            ${translateText("pause_overlay.paused")}
+          </div>
+          <div class="text-sm lg:text-base">
+            ${translateText("pause_overlay.paused_by", {
+              username: this.pausedBy,
+            })}
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
@@ -100,7 +100,7 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
     }
 
     const tile = this.game.ref(worldCoord.x, worldCoord.y);
-    if (!tile) return;
+    if (!tile || !this.game.isTileVisible(tile)) return;
 
     const owner = this.game.owner(tile);
 
@@ -113,7 +113,11 @@ export class PlayerInfoOverlay extends LitElement implements Layer {
     } else if (!this.game.isLand(tile)) {
       const units = this.game
         .units(UnitType.Warship, UnitType.TradeShip, UnitType.TransportShip)
-        .filter((u) => euclideanDistWorld(worldCoord, u.tile(), this.game) < 50)
+        .filter(
+          (u) =>
+            euclideanDistWorld(worldCoord, u.tile(), this.game) < 50 &&
+            this.game.isUnitVisible(u),
+        )
         .sort(distSortUnitWorld(worldCoord, this.game));
 
       if (units.length > 0) {
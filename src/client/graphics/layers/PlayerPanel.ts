@@ -17,6 +17,7 @@ import { CloseViewEvent, MouseUpEvent } from "../../InputHandler";
 import {
   SendAllianceRequestIntentEvent,
   SendBreakAllianceIntentEvent,
+  SendCedeTerritoryIntentEvent,
   SendDonateGoldIntentEvent,
   SendDonateTroopsIntentEvent,
   SendEmbargoIntentEvent,
@@ -107,6 +108,13 @@ export class PlayerPanel extends LitElement implements Layer {
     this.hide();
   }
 
+  private handleCedeTerritoryClick(e: Event, other: PlayerView) {
+    e.stopPropagation();
+    if (this.tile === null) return;
+    this.eventBus.emit(new SendCedeTerritoryIntentEvent(other, this.tile));
+    this.hide();
+  }
+
   private handleEmbargoClick(
     e: Event,
     myPlayer: PlayerView,
@@ -242,6 +250,7 @@ export class PlayerPanel extends LitElement implements Layer {
     const canBreakAlliance = this.actions?.interaction?.canBreakAlliance;
     const canTarget = this.actions?.interaction?.canTarget;
     const canEmbargo = this.actions?.interaction?.canEmbargo;
+    const canCedeTerritory = this.actions?.interaction?.canCedeTerritory;
 
     return html`
       <div
@@ -481,6 +490,18 @@ export class PlayerPanel extends LitElement implements Layer {
                     ${translateText("player_panel.start_trade")}
                   </button>`
                 : ""}
+              ${canCedeTerritory
+                ? html`<button
+                    @click=${(e: MouseEvent) =>
+                      this.handleCedeTerritoryClick(e, other)}
+                    title=${translateText("player_panel.cede_territory_desc")}
+                    class="w-100 h-10 flex items-center justify-center
+                          bg-opacity-50 bg-gray-700 hover:bg-opacity-70
+                          text-white rounded-lg transition-colors"
+                  >
+                    ${translateText("player_panel.cede_territory")}
+                  </button>`
+                : ""}
             </div>
           </div>
         </div>
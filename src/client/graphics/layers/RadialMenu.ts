@@ -75,6 +75,7 @@ export class RadialMenu implements Layer {
   private originalCenterButtonIcon: string = "";
 
   private params: MenuElementParams | null = null;
+  private hoveredItem: MenuElement | null = null;
 
   constructor(
     private eventBus: EventBus,
@@ -387,6 +388,7 @@ export class RadialMenu implements Layer {
       if (d.data.tooltipItems && d.data.tooltipItems.length > 0) {
         this.showTooltip(d.data.tooltipItems);
       }
+      this.setHoveredItem(d.data);
       if (
         disabled ||
         (this.currentLevel > 0 && this.currentLevel !== level) ||
@@ -407,6 +409,7 @@ export class RadialMenu implements Layer {
       }
 
       this.hideTooltip();
+      this.setHoveredItem(null);
 
       if (
         disabled ||
@@ -774,6 +777,7 @@ export class RadialMenu implements Layer {
     this.isVisible = false;
     this.selectedItemId = null;
     this.hideTooltip();
+    this.setHoveredItem(null);
 
     this.resetMenu();
     this.isTransitioning = false;
@@ -1023,6 +1027,17 @@ export class RadialMenu implements Layer {
     this.tooltipElement.style.display = "block";
   }
 
+  private setHoveredItem(item: MenuElement | null) {
+    if (item === this.hoveredItem) return;
+    if (this.hoveredItem !== null && this.params !== null) {
+      this.hoveredItem.onHover?.(this.params, false);
+    }
+    this.hoveredItem = item;
+    if (item !== null && this.params !== null) {
+      item.onHover?.(this.params, true);
+    }
+  }
+
   private hideTooltip() {
     if (this.tooltipElement) {
       this.tooltipElement.style.display = "none";
@@ -2,7 +2,9 @@ import { Config } from "../../../core/configuration/Config";
 import { AllPlayers, PlayerActions, UnitType } from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
 import { GameView, PlayerView } from "../../../core/game/GameView";
+import { ForecastNukeType } from "../../../core/game/NukeForecast";
 import { flattenedEmojiTable } from "../../../core/Util";
+import { NukeForecastEvent } from "../../InputHandler";
 import { renderNumber, translateText } from "../../Utils";
 import { BuildItemDisplay, BuildMenu, flattenedBuildTable } from "./BuildMenu";
 import { ChatIntegration } from "./ChatIntegration";
@@ -51,6 +53,7 @@ export interface MenuElement {
 
   disabled: (params: MenuElementParams) => boolean;
   action?: (params: MenuElementParams) => void; // For leaf items that perform actions
+  onHover?: (params: MenuElementParams, hovered: boolean) => void;
   subMenu?: (params: MenuElementParams) => MenuElement[]; // For non-leaf items that open submenus
 }
 
@@ -353,7 +356,8 @@ function createMenuElements(
         ? item.key.replace("unit_type.", "")
         : item.unitType.toString(),
       disabled: (params: MenuElementParams) =>
-        !params.buildMenu.canBuildOrUpgrade(item),
+        !params.buildMenu.canBuildOrUpgrade(item) &&
+        !params.buildMenu.canQueue(item),
       color: params.buildMenu.canBuildOrUpgrade(item)
         ? filterType === "attack"
           ? COLORS.attack
@@ -373,6 +377,12 @@ function createMenuElements(
         item.countable
           ? { text: `${params.buildMenu.count(item)}x`, className: "count" }
           : null,
+        params.buildMenu.canQueue(item)
+          ? {
+              text: translateText("build_menu.queue"),
+              className: "description",
+            }
+          : null,
       ].filter(
         (tooltipItem): tooltipItem is TooltipItem => tooltipItem !== null,
       ),
@@ -385,9 +395,27 @@ function createMenuElements(
         }
         if (params.buildMenu.canBuildOrUpgrade(item)) {
           params.buildMenu.sendBuildOrUpgrade(buildableUnit, params.tile);
+        } else if (params.buildMenu.canQueue(item)) {
+          params.buildMenu.queueBuild(item, params.tile);
         }
         params.closeMenu();
       },
+      onHover:
+        item.unitType === UnitType.AtomBomb ||
+        item.unitType === UnitType.HydrogenBomb
+          ? (params: MenuElementParams, hovered: boolean) => {
+              params.eventBus.emit(
+                new NukeForecastEvent(
+                  hovered
+                    ? {
+                        type: item.unitType as ForecastNukeType,
+                        tile: params.tile,
+                      }
+                    : null,
+                ),
+              );
+            }
+          : undefined,
     }));
 }
 
@@ -71,6 +71,13 @@ export class RailroadLayer implements Layer {
     this.redraw();
   }
 
+  reset() {
+    // The full update repaints every railroad.
+    this.existingRailroads.clear();
+    this.railTileList = [];
+    this.nextRailIndexToCheck = 0;
+  }
+
   redraw() {
     this.canvas = document.createElement("canvas");
     const context = this.canvas.getContext("2d", { alpha: true });
@@ -2,7 +2,12 @@ import { html, LitElement } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 import { EventBus } from "../../../core/EventBus";
 import { GameView } from "../../../core/game/GameView";
-import { ReplaySpeedChangeEvent } from "../../InputHandler";
+import {
+  ReplayMarker,
+  replayMarkers,
+  ReplayMarkerType,
+} from "../../../core/game/ReplayMarkers";
+import { ReplaySeekEvent, ReplaySpeedChangeEvent } from "../../InputHandler";
 import {
   defaultReplaySpeedMultiplier,
   ReplaySpeedMultiplier,
@@ -17,6 +22,25 @@ export class ShowReplayPanelEvent {
   ) {}
 }
 
+// Sent when a replay starts and after each seek, with the markers found
+// while simulating to the target turn.
+export class ReplayTimelineEvent {
+  constructor(
+    public readonly numTurns: number,
+    public readonly markers: ReplayMarker[] = [],
+  ) {}
+}
+
+// Clicking a marker jumps a few seconds before the event.
+const markerLeadTurns = 50;
+
+const markerColors: Record<ReplayMarkerType, string> = {
+  [ReplayMarkerType.Win]: "bg-yellow-400",
+  [ReplayMarkerType.Nuke]: "bg-red-500",
+  [ReplayMarkerType.BrokeAlliance]: "bg-purple-400",
+  [ReplayMarkerType.Pause]: "bg-sky-400",
+};
+
 @customElement("replay-panel")
 export class ReplayPanel extends LitElement implements Layer {
   public game: GameView | undefined;
@@ -31,6 +55,16 @@ export class ReplayPanel extends LitElement implements Layer {
   @property({ type: Boolean })
   isSingleplayer = false;
 
+  @state()
+  private numTurns = 0;
+
+  // Turn under the scrub bar thumb while it is being dragged.
+  @state()
+  private scrubTurn: number | null = null;
+
+  // Keyed by type and turn, as seeking backwards replays the same events.
+  private markers = new Map<string, ReplayMarker>();
+
   createRenderRoot() {
     return this; // Enable Tailwind CSS
   }
@@ -41,10 +75,18 @@ export class ReplayPanel extends LitElement implements Layer {
         this.visible = event.visible;
         this.isSingleplayer = event.isSingleplayer;
       });
+      this.eventBus.on(ReplayTimelineEvent, (event) => {
+        this.numTurns = event.numTurns;
+        this.addMarkers(event.markers);
+      });
     }
   }
 
   tick() {
+    const updates = this.game!.updatesSinceLastTick();
+    if (this.numTurns > 0 && updates !== null) {
+      this.addMarkers(replayMarkers(this.game!.ticks(), updates));
+    }
     if (!this.visible) return;
     if (this.game!.ticks() % 10 === 0) {
       this.requestUpdate();
@@ -56,6 +98,17 @@ export class ReplayPanel extends LitElement implements Layer {
     this.eventBus?.emit(new ReplaySpeedChangeEvent(value));
   }
 
+  private addMarkers(markers: ReplayMarker[]) {
+    for (const marker of markers) {
+      this.markers.set(`${marker.type}:${marker.turn}`, marker);
+    }
+  }
+
+  private seek(turn: number) {
+    this.scrubTurn = null;
+    this.eventBus?.emit(new ReplaySeekEvent(turn));
+  }
+
   renderLayer(_ctx: CanvasRenderingContext2D) {}
   shouldTransform() {
     return false;
@@ -83,10 +136,59 @@ export class ReplayPanel extends LitElement implements Layer {
             translateText("replay_panel.fastest_game_speed"),
           )}
         </div>
+        ${this.renderTimeline()}
+      </div>
+    `;
+  }
+
+  private renderTimeline() {
+    if (this.numTurns === 0) return html``;
+
+    const turn = Math.min(this.scrubTurn ?? this.game!.ticks(), this.numTurns);
+    return html`
+      <label class="block mt-2 mb-1 text-white" translate="no">
+        ${translateText("replay_panel.timeline")}
+      </label>
+      <div class="relative h-2 mx-1">
+        ${Array.from(this.markers.values()).map(
+          (marker) => html`
+            <div
+              class="absolute top-0 w-1 h-2 -ml-0.5 cursor-pointer ${markerColors[
+                marker.type
+              ]}"
+              style="left: ${(marker.turn / this.numTurns) * 100}%"
+              title=${translateText(`replay_panel.marker_${marker.type}`)}
+              @click=${() =>
+                this.seek(Math.max(0, marker.turn - markerLeadTurns))}
+            ></div>
+          `,
+        )}
+      </div>
+      <input
+        type="range"
+        class="w-full"
+        min="0"
+        max=${this.numTurns}
+        .value=${String(turn)}
+        @input=${(e: Event) =>
+          (this.scrubTurn = Number((e.target as HTMLInputElement).value))}
+        @change=${(e: Event) =>
+          this.seek(Number((e.target as HTMLInputElement).value))}
+      />
+      <div class="flex justify-between text-xs text-white" translate="no">
+        <span>${this.formatTurn(turn)}</span>
+        <span>${this.formatTurn(this.numTurns)}</span>
       </div>
     `;
   }
 
+  // Turns are 100ms of game time.
+  private formatTurn(turn: number): string {
+    const seconds = Math.floor(turn / 10);
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+  }
+
   private renderSpeedButton(value: ReplaySpeedMultiplier, label: string) {
     const isActive = this._replaySpeedMultiplier === value;
     return html`
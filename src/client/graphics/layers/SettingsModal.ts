@@ -10,10 +10,14 @@ import ninjaIcon from "../../../../resources/images/NinjaIconWhite.svg";
 import settingsIcon from "../../../../resources/images/SettingIconWhite.svg";
 import treeIcon from "../../../../resources/images/TreeIconWhite.svg";
 import { EventBus } from "../../../core/EventBus";
-import { UserSettings } from "../../../core/game/UserSettings";
+import {
+  StrategicOverlay,
+  UserSettings,
+} from "../../../core/game/UserSettings";
 import { AlternateViewEvent, RefreshGraphicsEvent } from "../../InputHandler";
 import { translateText } from "../../Utils";
 import { Layer } from "./Layer";
+import { strategicOverlayToggles } from "./StrategicOverlayLayer";
 
 export class ShowSettingsModalEvent {
   constructor(public readonly isVisible: boolean = true) {}
@@ -125,6 +129,16 @@ export class SettingsModal extends LitElement implements Layer {
     this.requestUpdate();
   }
 
+  private onToggleMinimapButtonClick() {
+    this.userSettings.toggleMinimap();
+    this.requestUpdate();
+  }
+
+  private onToggleStrategicOverlay(overlay: StrategicOverlay) {
+    this.userSettings.toggleStrategicOverlay(overlay);
+    this.requestUpdate();
+  }
+
   private onExitButtonClick() {
     // redirect to the home page
     window.location.href = "/";
@@ -365,6 +379,54 @@ export class SettingsModal extends LitElement implements Layer {
               </div>
             </button>
 
+            <button
+              class="flex gap-3 items-center w-full text-left p-3 hover:bg-slate-700 rounded text-white transition-colors"
+              @click="${this.onToggleMinimapButtonClick}"
+            >
+              <img src=${treeIcon} alt="minimapIcon" width="20" height="20" />
+              <div class="flex-1">
+                <div class="font-medium">
+                  ${translateText("user_setting.minimap_label")}
+                </div>
+                <div class="text-sm text-slate-400">
+                  ${this.userSettings.minimap()
+                    ? translateText("user_setting.minimap_enabled")
+                    : translateText("user_setting.minimap_disabled")}
+                </div>
+              </div>
+              <div class="text-sm text-slate-400">
+                ${this.userSettings.minimap()
+                  ? translateText("user_setting.on")
+                  : translateText("user_setting.off")}
+              </div>
+            </button>
+
+            <div class="border-t border-slate-600 pt-3 mt-4">
+              <div class="font-medium text-white px-3 pb-2">
+                ${translateText("user_setting.overlays_title")}
+              </div>
+              <div class="grid grid-cols-2 gap-1">
+                ${strategicOverlayToggles.map(
+                  ({ overlay, icon, translationKey }) => html`
+                    <button
+                      class="flex gap-2 items-center w-full text-left p-2 hover:bg-slate-700 rounded text-white transition-colors"
+                      @click=${() => this.onToggleStrategicOverlay(overlay)}
+                    >
+                      <span>${icon}</span>
+                      <span class="flex-1 text-sm"
+                        >${translateText(translationKey)}</span
+                      >
+                      <span class="text-sm text-slate-400">
+                        ${this.userSettings.strategicOverlay(overlay)
+                          ? translateText("user_setting.on")
+                          : translateText("user_setting.off")}
+                      </span>
+                    </button>
+                  `,
+                )}
+              </div>
+            </div>
+
             <div class="border-t border-slate-600 pt-3 mt-4">
               <button
                 class="flex gap-3 items-center w-full text-left p-3 hover:bg-red-600/20 rounded text-red-400 transition-colors"
@@ -0,0 +1,328 @@
+import { TrainType, UnitType } from "../../../core/game/Game";
+import { TileRef } from "../../../core/game/GameMap";
+import { GameView, UnitView } from "../../../core/game/GameView";
+import {
+  StrategicOverlay,
+  UserSettings,
+} from "../../../core/game/UserSettings";
+import { Layer } from "./Layer";
+
+// Tile overlays are recomputed once a second.
+const REFRESH_TICKS = 10;
+// Fallout density is averaged over squares of this size.
+const FALLOUT_CELL_SIZE = 8;
+
+// The toggles shown in the in-game menus.
+export const strategicOverlayToggles: {
+  overlay: StrategicOverlay;
+  icon: string;
+  translationKey: string;
+}[] = [
+  {
+    overlay: StrategicOverlay.DefenseCoverage,
+    icon: "🛡️",
+    translationKey: "user_setting.overlay_defense",
+  },
+  {
+    overlay: StrategicOverlay.SamCoverage,
+    icon: "📡",
+    translationKey: "user_setting.overlay_sam",
+  },
+  {
+    overlay: StrategicOverlay.WarshipPatrols,
+    icon: "⚓",
+    translationKey: "user_setting.overlay_warships",
+  },
+  {
+    overlay: StrategicOverlay.TradeRoutes,
+    icon: "💰",
+    translationKey: "user_setting.overlay_trade",
+  },
+  {
+    overlay: StrategicOverlay.Fallout,
+    icon: "☢️",
+    translationKey: "user_setting.overlay_fallout",
+  },
+  {
+    overlay: StrategicOverlay.BorderPressure,
+    icon: "⚔️",
+    translationKey: "user_setting.overlay_pressure",
+  },
+];
+
+// Troops per owned tile of every player, by small id.
+export function troopDensities(game: GameView): Map<number, number> {
+  const densities = new Map<number, number>();
+  for (const player of game.playerViews()) {
+    densities.set(
+      player.smallID(),
+      player.troops() / Math.max(1, player.numTilesOwned()),
+    );
+  }
+  return densities;
+}
+
+// How much stronger the strongest neighbouring player is than the owner of a
+// border tile, by troop density. Null if no other player touches the tile.
+export function borderPressure(
+  game: GameView,
+  tile: TileRef,
+  densities: Map<number, number>,
+): number | null {
+  const ownerID = game.ownerID(tile);
+  let pressure: number | null = null;
+  for (const n of game.neighbors(tile)) {
+    const neighborID = game.ownerID(n);
+    if (neighborID === 0 || neighborID === ownerID) continue;
+    const ratio =
+      (densities.get(neighborID) ?? 0) /
+      Math.max(1, densities.get(ownerID) ?? 0);
+    pressure = Math.max(pressure ?? 0, ratio);
+  }
+  return pressure;
+}
+
+// The share of fallout tiles in each cellSize square, row by row.
+export function falloutDensity(game: GameView, cellSize: number): Float32Array {
+  const columns = Math.ceil(game.width() / cellSize);
+  const rows = Math.ceil(game.height() / cellSize);
+  const density = new Float32Array(columns * rows);
+  game.forEachTile((tile) => {
+    if (game.hasFallout(tile)) {
+      const cell =
+        Math.floor(game.y(tile) / cellSize) * columns +
+        Math.floor(game.x(tile) / cellSize);
+      density[cell]++;
+    }
+  });
+  for (let i = 0; i < density.length; i++) {
+    density[i] /= cellSize * cellSize;
+  }
+  return density;
+}
+
+/**
+ * Planning overlays toggled from the options: structure and warship ranges,
+ * trade and train routes, fallout and the troop pressure along borders.
+ */
+export class StrategicOverlayLayer implements Layer {
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private image: ImageData | null = null;
+  // Read from the settings once per tick, not every frame.
+  private overlays = new Set<StrategicOverlay>();
+
+  constructor(
+    private game: GameView,
+    private userSettings: UserSettings,
+  ) {}
+
+  shouldTransform(): boolean {
+    return true;
+  }
+
+  tick() {
+    this.overlays = new Set(
+      Object.values(StrategicOverlay).filter((o) =>
+        this.userSettings.strategicOverlay(o),
+      ),
+    );
+    const tileOverlays =
+      this.enabled(StrategicOverlay.Fallout) ||
+      this.enabled(StrategicOverlay.BorderPressure);
+    if (!tileOverlays) {
+      this.reset();
+      return;
+    }
+    if (this.canvas === null || this.game.ticks() % REFRESH_TICKS === 0) {
+      this.paintTiles();
+    }
+  }
+
+  reset() {
+    this.canvas = null;
+    this.context = null;
+    this.image = null;
+  }
+
+  private enabled(overlay: StrategicOverlay): boolean {
+    return this.overlays.has(overlay);
+  }
+
+  private paintTiles() {
+    if (this.canvas === null || this.context === null || this.image === null) {
+      this.canvas = document.createElement("canvas");
+      this.canvas.width = this.game.width();
+      this.canvas.height = this.game.height();
+      this.context = this.canvas.getContext("2d");
+      if (this.context === null) throw new Error("2d context not supported");
+      this.image = this.context.createImageData(
+        this.game.width(),
+        this.game.height(),
+      );
+    }
+    const image = this.image;
+    image.data.fill(0);
+    const set = (tile: TileRef, rgba: [number, number, number, number]) => {
+      image.data.set(rgba, tile * 4);
+    };
+
+    if (this.enabled(StrategicOverlay.Fallout)) {
+      const { r, g, b } = this.game.config().theme().falloutColor().rgba;
+      const density = falloutDensity(this.game, FALLOUT_CELL_SIZE);
+      const columns = Math.ceil(this.game.width() / FALLOUT_CELL_SIZE);
+      this.game.forEachTile((tile) => {
+        const cell =
+          Math.floor(this.game.y(tile) / FALLOUT_CELL_SIZE) * columns +
+          Math.floor(this.game.x(tile) / FALLOUT_CELL_SIZE);
+        if (density[cell] > 0 && this.game.isTileVisible(tile)) {
+          set(tile, [r, g, b, 40 + density[cell] * 180]);
+        }
+      });
+    }
+
+    if (this.enabled(StrategicOverlay.BorderPressure)) {
+      const densities = troopDensities(this.game);
+      this.game.forEachTile((tile) => {
+        if (!this.game.isBorder(tile) || !this.game.isTileVisible(tile)) {
+          return;
+        }
+        const pressure = borderPressure(this.game, tile, densities);
+        if (pressure === null) return;
+        // Red where the neighbor is stronger, green where it is weaker.
+        const t = Math.max(-1, Math.min(1, Math.log2(Math.max(pressure, 0.5))));
+        const alpha = 80 + 175 * Math.abs(t);
+        set(tile, t > 0 ? [255, 50, 50, alpha] : [50, 220, 80, alpha]);
+      });
+    }
+
+    this.context.putImageData(image, 0, 0);
+  }
+
+  renderLayer(context: CanvasRenderingContext2D) {
+    if (this.canvas !== null) {
+      context.drawImage(
+        this.canvas,
+        -this.game.width() / 2,
+        -this.game.height() / 2,
+        this.game.width(),
+        this.game.height(),
+      );
+    }
+    if (this.enabled(StrategicOverlay.DefenseCoverage)) {
+      this.drawDefenseCoverage(context);
+    }
+    if (this.enabled(StrategicOverlay.SamCoverage)) {
+      this.drawSamCoverage(context);
+    }
+    if (this.enabled(StrategicOverlay.WarshipPatrols)) {
+      this.drawWarshipPatrols(context);
+    }
+    if (this.enabled(StrategicOverlay.TradeRoutes)) {
+      this.drawTradeRoutes(context);
+    }
+  }
+
+  private visibleUnits(...types: UnitType[]): UnitView[] {
+    return this.game
+      .units(...types)
+      .filter((u) => u.isActive() && this.game.isTileVisible(u.tile()));
+  }
+
+  private drawDefenseCoverage(context: CanvasRenderingContext2D) {
+    const range = this.game.config().defensePostRange();
+    const theme = this.game.config().theme();
+    context.save();
+    context.lineWidth = 0.5;
+    for (const post of this.visibleUnits(UnitType.DefensePost)) {
+      const color = theme.territoryColor(post.owner());
+      this.circle(context, post.tile(), range);
+      context.fillStyle = color.alpha(0.2).toRgbString();
+      context.fill();
+      context.strokeStyle = color.alpha(0.8).toRgbString();
+      context.stroke();
+    }
+    context.restore();
+  }
+
+  // Every level is one more missile ready, so higher levels look denser.
+  private drawSamCoverage(context: CanvasRenderingContext2D) {
+    const range = this.game.config().defaultSamRange();
+    context.save();
+    context.setLineDash([3, 2]);
+    for (const sam of this.visibleUnits(UnitType.SAMLauncher)) {
+      const level = sam.level();
+      this.circle(context, sam.tile(), range);
+      context.fillStyle = `rgba(80, 200, 255, ${Math.min(0.35, 0.08 * level)})`;
+      context.fill();
+      context.strokeStyle = "rgba(80, 200, 255, 0.9)";
+      context.lineWidth = Math.min(3, 0.5 * level);
+      context.stroke();
+    }
+    context.restore();
+  }
+
+  private drawWarshipPatrols(context: CanvasRenderingContext2D) {
+    const range = this.game.config().warshipPatrolRange();
+    context.save();
+    context.lineWidth = 0.5;
+    context.strokeStyle = "rgba(255, 255, 255, 0.6)";
+    context.fillStyle = "rgba(255, 255, 255, 0.05)";
+    for (const warship of this.visibleUnits(UnitType.Warship)) {
+      const patrolTile = warship.patrolTile();
+      if (patrolTile === undefined) continue;
+      this.circle(context, patrolTile, range);
+      context.fill();
+      context.stroke();
+    }
+    context.restore();
+  }
+
+  private drawTradeRoutes(context: CanvasRenderingContext2D) {
+    context.save();
+    context.lineWidth = 0.5;
+    context.setLineDash([2, 2]);
+    for (const unit of this.visibleUnits(UnitType.TradeShip, UnitType.Train)) {
+      if (
+        unit.type() === UnitType.Train &&
+        unit.trainType() !== TrainType.Engine
+      ) {
+        continue;
+      }
+      const targetID = unit.targetUnitId();
+      const target =
+        targetID !== undefined ? this.game.unit(targetID) : undefined;
+      // The line would give away ports and stations under the fog.
+      if (target === undefined || !this.game.isTileVisible(target.tile())) {
+        continue;
+      }
+      context.strokeStyle =
+        unit.type() === UnitType.TradeShip
+          ? "rgba(255, 215, 0, 0.8)"
+          : "rgba(255, 140, 0, 0.8)";
+      context.beginPath();
+      context.moveTo(...this.position(unit.tile()));
+      context.lineTo(...this.position(target.tile()));
+      context.stroke();
+    }
+    context.restore();
+  }
+
+  private circle(
+    context: CanvasRenderingContext2D,
+    tile: TileRef,
+    radius: number,
+  ) {
+    const [x, y] = this.position(tile);
+    context.beginPath();
+    context.arc(x, y, radius, 0, 2 * Math.PI);
+  }
+
+  // The center of a tile in the transformed context.
+  private position(tile: TileRef): [number, number] {
+    return [
+      this.game.x(tile) - this.game.width() / 2 + 0.5,
+      this.game.y(tile) - this.game.height() / 2 + 0.5,
+    ];
+  }
+}
@@ -3,6 +3,7 @@ import * as PIXI from "pixi.js";
 import bitmapFont from "../../../../resources/fonts/round_6x6_modified.xml";
 import anchorIcon from "../../../../resources/images/AnchorIcon.png";
 import cityIcon from "../../../../resources/images/CityIcon.png";
+import crownIcon from "../../../../resources/images/CrownIcon.png";
 import factoryIcon from "../../../../resources/images/FactoryUnit.png";
 import missileSiloIcon from "../../../../resources/images/MissileSiloUnit.png";
 import SAMMissileIcon from "../../../../resources/images/SamLauncherUnit.png";
@@ -38,6 +39,7 @@ const STRUCTURE_SHAPES: Partial<Record<UnitType, ShapeType>> = {
   [UnitType.DefensePost]: "octagon",
   [UnitType.SAMLauncher]: "square",
   [UnitType.MissileSilo]: "triangle",
+  [UnitType.Capital]: "pentagon",
 };
 const LEVEL_SCALE_FACTOR = 3;
 const ICON_SCALE_FACTOR_ZOOMED_IN = 3.5;
@@ -83,6 +85,7 @@ export class StructureIconsLayer implements Layer {
       UnitType.SAMLauncher,
       { visible: true, iconPath: SAMMissileIcon, image: null },
     ],
+    [UnitType.Capital, { visible: true, iconPath: crownIcon, image: null }],
   ]);
   private renderSprites = true;
 
@@ -184,6 +187,12 @@ export class StructureIconsLayer implements Layer {
           this.handleInactiveUnit(unitView);
         }
       });
+    if (this.game.recentlyFogUpdatedTiles().length > 0) {
+      for (const render of this.renders) {
+        this.computeNewLocation(render);
+      }
+      this.shouldRedraw = true;
+    }
     this.renderSprites =
       this.game.config().userSettings()?.structureSprites() ?? true;
   }
@@ -273,6 +282,7 @@ export class StructureIconsLayer implements Layer {
       render.dotContainer?.destroy();
       render.iconContainer = this.createIconSprite(unit);
       render.dotContainer = this.createDotSprite(unit);
+      this.computeNewLocation(render);
       this.modifyVisibility(render);
       this.shouldRedraw = true;
     }
@@ -285,6 +295,7 @@ export class StructureIconsLayer implements Layer {
       render.dotContainer?.destroy();
       render.iconContainer = this.createIconSprite(unit);
       render.dotContainer = this.createDotSprite(unit);
+      this.computeNewLocation(render);
       this.modifyVisibility(render);
       this.shouldRedraw = true;
     }
@@ -299,6 +310,7 @@ export class StructureIconsLayer implements Layer {
       render.iconContainer = this.createIconSprite(unit);
       render.levelContainer = this.createLevelSprite(unit);
       render.dotContainer = this.createDotSprite(unit);
+      this.computeNewLocation(render);
       this.modifyVisibility(render);
       this.shouldRedraw = true;
     }
@@ -660,12 +672,13 @@ export class StructureIconsLayer implements Layer {
       }
     }
 
-    if (render.isOnScreen !== onScreen) {
-      render.isOnScreen = onScreen;
-      render.iconContainer.visible = onScreen;
-      render.dotContainer.visible = onScreen;
-      render.levelContainer.visible = onScreen;
-    }
+    // Structures hidden by fog of war are treated as off screen. Set every
+    // time as the containers are recreated when the structure changes.
+    const shown = onScreen && this.game.isUnitVisible(render.unit);
+    render.isOnScreen = shown;
+    render.iconContainer.visible = shown;
+    render.dotContainer.visible = shown;
+    render.levelContainer.visible = shown;
   }
 
   private addNewStructure(unitView: UnitView) {
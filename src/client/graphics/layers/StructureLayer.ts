@@ -4,6 +4,7 @@ import { EventBus } from "../../../core/EventBus";
 import { TransformHandler } from "../TransformHandler";
 import { Layer } from "./Layer";
 
+import crownIcon from "../../../../resources/images/CrownIcon.png";
 import cityIcon from "../../../../resources/non-commercial/images/buildings/cityAlt1.png";
 import factoryIcon from "../../../../resources/non-commercial/images/buildings/factoryAlt1.png";
 import shieldIcon from "../../../../resources/non-commercial/images/buildings/fortAlt3.png";
@@ -69,6 +70,11 @@ export class StructureLayer implements Layer {
       borderRadius: BASE_BORDER_RADIUS * RADIUS_SCALE_FACTOR,
       territoryRadius: BASE_TERRITORY_RADIUS * RADIUS_SCALE_FACTOR,
     },
+    [UnitType.Capital]: {
+      icon: crownIcon,
+      borderRadius: BASE_BORDER_RADIUS * RADIUS_SCALE_FACTOR,
+      territoryRadius: BASE_TERRITORY_RADIUS * RADIUS_SCALE_FACTOR,
+    },
   };
 
   constructor(
@@ -116,6 +122,9 @@ export class StructureLayer implements Layer {
       if (unit === undefined) continue;
       this.handleUnitRendering(unit);
     }
+    if (this.game.recentlyFogUpdatedTiles().length > 0) {
+      this.game.units().forEach((unit) => this.handleUnitRendering(unit));
+    }
   }
 
   init() {
@@ -223,7 +232,7 @@ export class StructureLayer implements Layer {
       this.clearCell(new Cell(this.game.x(tile), this.game.y(tile)));
     }
 
-    if (!unit.isActive()) return;
+    if (!unit.isActive() || !this.game.isUnitVisible(unit)) return;
 
     this.drawBorder(unit, borderColor, config);
 
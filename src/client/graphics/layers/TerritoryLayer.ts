@@ -1,8 +1,8 @@
 import { PriorityQueue } from "@datastructures-js/priority-queue";
 import { Colord } from "colord";
 import { Theme } from "../../../core/configuration/Config";
-import { EventBus } from "../../../core/EventBus";
-import { Cell, PlayerType, UnitType } from "../../../core/game/Game";
+import { EventBus, GameEvent } from "../../../core/EventBus";
+import { PlayerType, UnitType } from "../../../core/game/Game";
 import { euclDistFN, TileRef } from "../../../core/game/GameMap";
 import { GameUpdateType } from "../../../core/game/GameUpdates";
 import { GameView, PlayerView } from "../../../core/game/GameView";
@@ -14,15 +14,32 @@ import {
   MouseOverEvent,
   RefreshGraphicsEvent,
 } from "../../InputHandler";
+import { TerritoryCanvasPainter } from "../territory/TerritoryCanvasPainter";
+import {
+  TerritoryRenderStats,
+  TerritoryWebGLRenderer,
+} from "../territory/TerritoryWebGLRenderer";
 import { TransformHandler } from "../TransformHandler";
 import { Layer } from "./Layer";
 
+// Sent every second while the performance overlay is open.
+export class TerritoryRenderStatsEvent implements GameEvent {
+  constructor(public readonly stats: TerritoryRenderStats) {}
+}
+
+const STATS_INTERVAL_MS = 1000;
+
 export class TerritoryLayer implements Layer {
   private userSettings: UserSettings;
   private canvas: HTMLCanvasElement;
   private context: CanvasRenderingContext2D;
   private imageData: ImageData;
   private alternativeImageData: ImageData;
+  // Exactly one of the two is set, WebGL is preferred.
+  private painter: TerritoryCanvasPainter | null = null;
+  private webgl: TerritoryWebGLRenderer | null = null;
+  // Set once the GPU dropped the WebGL context, the CPU path is kept from then.
+  private webglLost = false;
 
   private cachedTerritoryPatternsEnabled: boolean | undefined;
 
@@ -51,6 +68,9 @@ export class TerritoryLayer implements Layer {
 
   private lastFocusedPlayer: PlayerView | null = null;
 
+  private measureGpu = false;
+  private lastStats = 0;
+
   constructor(
     private game: GameView,
     private eventBus: EventBus,
@@ -67,6 +87,10 @@ export class TerritoryLayer implements Layer {
   }
 
   async paintPlayerBorder(player: PlayerView) {
+    if (this.webgl !== null) {
+      // The focused border color is picked in the shader.
+      return;
+    }
     const tiles = await player.borderTiles();
     tiles.borderTiles.forEach((tile: TileRef) => {
       this.paintTerritory(tile, true); // Immediately paint the tile instead of enqueueing
@@ -76,10 +100,17 @@ export class TerritoryLayer implements Layer {
   tick() {
     const prev = this.cachedTerritoryPatternsEnabled;
     this.cachedTerritoryPatternsEnabled = this.userSettings.territoryPatterns();
+    if (this.painter !== null) {
+      this.painter.patternsEnabled = this.cachedTerritoryPatternsEnabled;
+    }
     if (prev !== undefined && prev !== this.cachedTerritoryPatternsEnabled) {
       this.eventBus.emit(new RefreshGraphicsEvent());
     }
+    this.webgl?.updatePalette();
+    this.measureGpu = this.userSettings.performanceOverlay();
     this.game.recentlyUpdatedTiles().forEach((t) => this.enqueueTile(t));
+    // Can cover most of the map, too much for the render queue.
+    this.game.recentlyFogUpdatedTiles().forEach((t) => this.paintTerritory(t));
     const updates = this.game.updatesSinceLastTick();
     const unitUpdates = updates !== null ? updates[GameUpdateType.Unit] : [];
     unitUpdates.forEach((update) => {
@@ -228,6 +259,9 @@ export class TerritoryLayer implements Layer {
     } else {
       this.highlightedTerritory = null;
     }
+    if (this.painter !== null) {
+      this.painter.highlightedTerritory = this.highlightedTerritory;
+    }
 
     if (previousTerritory?.id() !== this.highlightedTerritory?.id()) {
       const territories: PlayerView[] = [];
@@ -247,7 +281,7 @@ export class TerritoryLayer implements Layer {
       return null;
     }
     // If the tile has no owner, it is either a fallout tile or a terra nullius tile.
-    if (!this.game.hasOwner(tile)) {
+    if (!this.game.hasOwner(tile) || !this.game.isTileVisible(tile)) {
       return null;
     }
     const owner = this.game.owner(tile);
@@ -263,25 +297,35 @@ export class TerritoryLayer implements Layer {
     this.canvas.width = this.game.width();
     this.canvas.height = this.game.height();
 
-    this.imageData = this.context.getImageData(
-      0,
-      0,
-      this.canvas.width,
-      this.canvas.height,
-    );
-    this.alternativeImageData = this.context.getImageData(
-      0,
-      0,
-      this.canvas.width,
-      this.canvas.height,
-    );
-    this.initImageData();
-
-    this.context.putImageData(
-      this.alternativeView ? this.alternativeImageData : this.imageData,
-      0,
-      0,
-    );
+    this.webgl?.dispose();
+    this.webgl = this.webglLost
+      ? null
+      : TerritoryWebGLRenderer.create(this.game, this.theme);
+    this.painter = null;
+    if (this.webgl !== null) {
+      this.onContextLost(this.webgl.canvas);
+    } else {
+      console.warn("WebGL2 unavailable, rendering territory on the CPU");
+      this.painter = new TerritoryCanvasPainter(this.game, this.theme);
+      this.painter.highlightedTerritory = this.highlightedTerritory;
+      this.painter.patternsEnabled =
+        this.cachedTerritoryPatternsEnabled ?? false;
+      this.imageData = new ImageData(
+        this.painter.imageData,
+        this.canvas.width,
+        this.canvas.height,
+      );
+      this.alternativeImageData = new ImageData(
+        this.painter.alternativeImageData,
+        this.canvas.width,
+        this.canvas.height,
+      );
+      this.context.putImageData(
+        this.alternativeView ? this.alternativeImageData : this.imageData,
+        0,
+        0,
+      );
+    }
 
     // Add a second canvas for highlights
     this.highlightCanvas = document.createElement("canvas");
@@ -298,7 +342,25 @@ export class TerritoryLayer implements Layer {
     });
   }
 
+  // Driver resets and GPU memory pressure drop the context, after which the
+  // renderer draws nothing.
+  private onContextLost(canvas: HTMLCanvasElement) {
+    canvas.addEventListener("webglcontextlost", () => {
+      if (this.webgl?.canvas !== canvas) {
+        // Disposed by a redraw.
+        return;
+      }
+      console.warn("WebGL context lost, rendering territory on the CPU");
+      this.webglLost = true;
+      this.redraw();
+    });
+  }
+
   redrawTerritory(territory: PlayerView | PlayerView[]) {
+    if (this.webgl !== null) {
+      // Alliance and highlight colors are picked in the shader.
+      return;
+    }
     const territories = Array.isArray(territory) ? territory : [territory];
     const territorySet = new Set(territories);
 
@@ -310,17 +372,33 @@ export class TerritoryLayer implements Layer {
     });
   }
 
-  initImageData() {
-    this.game.forEachTile((tile) => {
-      const cell = new Cell(this.game.x(tile), this.game.y(tile));
-      const index = cell.y * this.game.width() + cell.x;
-      const offset = index * 4;
-      this.imageData.data[offset + 3] = 0;
-      this.alternativeImageData.data[offset + 3] = 0;
-    });
-  }
-
   renderLayer(context: CanvasRenderingContext2D) {
+    if (this.webgl !== null) {
+      this.webgl.render({
+        alternativeView: this.alternativeView,
+        patternsEnabled: this.cachedTerritoryPatternsEnabled ?? false,
+        highlightedTerritory: this.highlightedTerritory,
+        measureGpu: this.measureGpu,
+      });
+      const now = performance.now();
+      if (now - this.lastStats >= STATS_INTERVAL_MS) {
+        this.lastStats = now;
+        const stats = this.webgl.takeStats();
+        if (this.measureGpu) {
+          this.eventBus.emit(new TerritoryRenderStatsEvent(stats));
+        }
+      }
+      context.drawImage(
+        this.webgl.canvas,
+        -this.game.width() / 2,
+        -this.game.height() / 2,
+        this.game.width(),
+        this.game.height(),
+      );
+      this.renderHighlight(context);
+      return;
+    }
+
     const now = Date.now();
     if (
       now > this.lastDragTime + this.nodrawDragDuration &&
@@ -358,6 +436,10 @@ export class TerritoryLayer implements Layer {
       this.game.width(),
       this.game.height(),
     );
+    this.renderHighlight(context);
+  }
+
+  private renderHighlight(context: CanvasRenderingContext2D) {
     if (this.game.inSpawnPhase()) {
       context.drawImage(
         this.highlightCanvas,
@@ -392,119 +474,24 @@ export class TerritoryLayer implements Layer {
   }
 
   paintTerritory(tile: TileRef, isBorder: boolean = false) {
-    if (isBorder && !this.game.hasOwner(tile)) {
+    if (this.webgl !== null) {
+      this.webgl.paintTile(tile);
       return;
     }
-
-    if (!this.game.hasOwner(tile)) {
-      if (this.game.hasFallout(tile)) {
-        this.paintTile(this.imageData, tile, this.theme.falloutColor(), 150);
-        this.paintTile(
-          this.alternativeImageData,
-          tile,
-          this.theme.falloutColor(),
-          150,
-        );
-        return;
-      }
-      this.clearTile(tile);
-      return;
-    }
-    const owner = this.game.owner(tile) as PlayerView;
-    const isHighlighted =
-      this.highlightedTerritory &&
-      this.highlightedTerritory.id() === owner.id();
-    const myPlayer = this.game.myPlayer();
-
-    if (this.game.isBorder(tile)) {
-      const playerIsFocused = owner && this.game.focusedPlayer() === owner;
-      if (myPlayer) {
-        let alternativeColor = owner.isFriendly(myPlayer)
-          ? this.theme.allyColor()
-          : this.theme.enemyColor();
-        if (owner.smallID() === myPlayer.smallID()) {
-          alternativeColor = this.theme.selfColor();
-        }
-        this.paintTile(this.alternativeImageData, tile, alternativeColor, 255);
-      }
-      if (
-        this.game.hasUnitNearby(
-          tile,
-          this.game.config().defensePostRange(),
-          UnitType.DefensePost,
-          owner.id(),
-        )
-      ) {
-        const borderColors = this.theme.defendedBorderColors(owner);
-        const x = this.game.x(tile);
-        const y = this.game.y(tile);
-        const lightTile =
-          (x % 2 === 0 && y % 2 === 0) || (y % 2 === 1 && x % 2 === 1);
-        const borderColor = lightTile ? borderColors.light : borderColors.dark;
-        this.paintTile(this.imageData, tile, borderColor, 255);
-      } else {
-        const useBorderColor = playerIsFocused
-          ? this.theme.focusedBorderColor()
-          : this.theme.borderColor(owner);
-        this.paintTile(this.imageData, tile, useBorderColor, 255);
-      }
-    } else {
-      const pattern = owner.cosmetics.pattern;
-      const patternsEnabled = this.cachedTerritoryPatternsEnabled ?? false;
-
-      if (myPlayer) {
-        let alternativeColor = owner.isFriendly(myPlayer)
-          ? this.theme.allyColor()
-          : this.theme.enemyColor();
-        // If the current player is the owner
-        if (owner.smallID() === myPlayer.smallID()) {
-          alternativeColor = this.theme.selfColor();
-        }
-        // If the tile is on a ally territory, use the ally color
-        this.paintTile(
-          this.alternativeImageData,
-          tile,
-          alternativeColor,
-          isHighlighted ? 150 : 60,
-        );
-      }
-
-      if (pattern === undefined || patternsEnabled === false) {
-        this.paintTile(
-          this.imageData,
-          tile,
-          this.theme.territoryColor(owner),
-          150,
-        );
-      } else {
-        const x = this.game.x(tile);
-        const y = this.game.y(tile);
-        const baseColor = this.theme.territoryColor(owner);
-
-        const decoder = owner.patternDecoder();
-        const color = decoder?.isSet(x, y)
-          ? baseColor.darken(0.125)
-          : baseColor;
-        this.paintTile(this.imageData, tile, color, 150);
-      }
-    }
-  }
-
-  paintTile(imageData: ImageData, tile: TileRef, color: Colord, alpha: number) {
-    const offset = tile * 4;
-    imageData.data[offset] = color.rgba.r;
-    imageData.data[offset + 1] = color.rgba.g;
-    imageData.data[offset + 2] = color.rgba.b;
-    imageData.data[offset + 3] = alpha;
+    this.painter?.paintTerritory(tile, isBorder);
   }
 
   clearTile(tile: TileRef) {
-    const offset = tile * 4;
-    this.imageData.data[offset + 3] = 0; // Set alpha to 0 (fully transparent)
-    this.alternativeImageData.data[offset + 3] = 0; // Set alpha to 0 (fully transparent)
+    this.painter?.clearTile(tile);
   }
 
   enqueueTile(tile: TileRef) {
+    if (this.webgl !== null) {
+      // Cheap enough to not need the render queue.
+      this.webgl.paintTile(tile);
+      this.game.neighbors(tile).forEach((n) => this.webgl?.paintTile(n));
+      return;
+    }
     this.tileToRenderQueue.push({
       tile: tile,
       lastUpdate: this.game.ticks() + this.random.nextFloat(0, 0.5),
@@ -1,11 +1,17 @@
 import { Colord } from "colord";
 import { EventBus } from "../../../core/EventBus";
 import { Theme } from "../../../core/configuration/Config";
-import { UnitType } from "../../../core/game/Game";
+import { PlayerID, UnitType } from "../../../core/game/Game";
+import { TileRef } from "../../../core/game/GameMap";
 import { GameUpdateType } from "../../../core/game/GameUpdates";
 import { GameView, UnitView } from "../../../core/game/GameView";
+import {
+  ForecastNukeType,
+  NukeForecast,
+} from "../../../core/game/NukeForecast";
 import { UserSettings } from "../../../core/game/UserSettings";
-import { UnitSelectionEvent } from "../../InputHandler";
+import { NukeForecastEvent, UnitSelectionEvent } from "../../InputHandler";
+import { renderNumber, renderTroops, translateText } from "../../Utils";
 import { ProgressBar } from "../ProgressBar";
 import { TransformHandler } from "../TransformHandler";
 import { Layer } from "./Layer";
@@ -20,6 +26,28 @@ const HEALTHBAR_WIDTH = 11; // Width of the health bar
 const LOADINGBAR_WIDTH = 14; // Width of the loading bar
 const PROGRESSBAR_HEIGHT = 3; // Height of a bar
 
+// Leaves out what the fog hides: players without visible territory and SAM
+// launchers on hidden tiles. The interception chance only counts the
+// launchers left.
+export function visibleNukeForecast(
+  game: GameView,
+  forecast: NukeForecast,
+): NukeForecast {
+  const visiblePlayer = (id: PlayerID) => game.isPlayerVisible(game.player(id));
+  const interceptors = forecast.interceptors.filter((sam) =>
+    game.isTileVisible(sam.tile),
+  );
+  return {
+    impacts: forecast.impacts.filter((impact) =>
+      visiblePlayer(impact.playerID),
+    ),
+    brokenAlliances: forecast.brokenAlliances.filter(visiblePlayer),
+    interceptors,
+    interceptionChance:
+      1 - interceptors.reduce((miss, sam) => miss * (1 - sam.hitChance), 1),
+  };
+}
+
 /**
  * Layer responsible for drawing UI elements that overlay the game
  * such as selection boxes, health bars, etc.
@@ -35,15 +63,20 @@ export class UILayer implements Layer {
     { unit: UnitView; progressBar: ProgressBar }
   > = new Map();
   private allHealthBars: Map<number, ProgressBar> = new Map();
-  // Keep track of currently selected unit
-  private selectedUnit: UnitView | null = null;
-
-  // Keep track of previous selection box position for cleanup
-  private lastSelectionBoxCenter: {
-    x: number;
-    y: number;
-    size: number;
+  // Keep track of currently selected units with the previous position of
+  // their selection box for cleanup
+  private selectionBoxCenters = new Map<
+    UnitView,
+    { x: number; y: number; size: number } | null
+  >();
+
+  // Forecast of the nuke hovered in the radial menu
+  private nukeForecast: {
+    type: ForecastNukeType;
+    tile: TileRef;
+    forecast: NukeForecast;
   } | null = null;
+  private nukeForecastRequest = 0;
 
   // Visual settings for selection
   private readonly SELECTION_BOX_SIZE = 6; // Size of the selection box (should be larger than the warship)
@@ -64,9 +97,11 @@ export class UILayer implements Layer {
     // Update the selection animation time
     this.selectionAnimTime = (this.selectionAnimTime + 1) % 60;
 
-    // If there's a selected warship, redraw to update the selection box animation
-    if (this.selectedUnit && this.selectedUnit.type() === UnitType.Warship) {
-      this.drawSelectionBox(this.selectedUnit);
+    // If there are selected warships, redraw to update the selection box animation
+    for (const unit of this.selectionBoxCenters.keys()) {
+      if (unit.type() === UnitType.Warship) {
+        this.drawSelectionBox(unit);
+      }
     }
 
     this.game
@@ -81,6 +116,7 @@ export class UILayer implements Layer {
 
   init() {
     this.eventBus.on(UnitSelectionEvent, (e) => this.onUnitSelection(e));
+    this.eventBus.on(NukeForecastEvent, (e) => this.onNukeForecast(e));
     this.redraw();
   }
 
@@ -92,6 +128,7 @@ export class UILayer implements Layer {
       this.game.width(),
       this.game.height(),
     );
+    this.drawNukeForecast(context);
   }
 
   redraw() {
@@ -102,6 +139,115 @@ export class UILayer implements Layer {
     this.canvas.height = this.game.height();
   }
 
+  private onNukeForecast(event: NukeForecastEvent) {
+    // Results of earlier requests that come in late are dropped.
+    const request = ++this.nukeForecastRequest;
+    const nuke = event.nuke;
+    const myPlayer = this.game.myPlayer();
+    if (nuke === null || myPlayer === null) {
+      this.nukeForecast = null;
+      return;
+    }
+    myPlayer.nukeForecast(nuke.type, nuke.tile).then((forecast) => {
+      if (request === this.nukeForecastRequest) {
+        this.nukeForecast = {
+          ...nuke,
+          forecast: visibleNukeForecast(this.game, forecast),
+        };
+      }
+    });
+  }
+
+  private drawNukeForecast(context: CanvasRenderingContext2D) {
+    if (this.nukeForecast === null) {
+      return;
+    }
+    const { type, tile, forecast } = this.nukeForecast;
+    const magnitude = this.game.config().nukeMagnitudes(type);
+    const offsetX = -this.game.width() / 2 + 0.5;
+    const offsetY = -this.game.height() / 2 + 0.5;
+    const x = this.game.x(tile) + offsetX;
+    const y = this.game.y(tile) + offsetY;
+    // Keep lines and text the same size on screen at any zoom.
+    const pixel = 1 / this.transformHandler.scale;
+
+    context.save();
+    context.lineWidth = pixel;
+    context.strokeStyle = "rgba(255, 60, 60, 0.9)";
+    context.fillStyle = "rgba(255, 60, 60, 0.15)";
+    context.beginPath();
+    context.arc(x, y, magnitude.outer, 0, Math.PI * 2);
+    context.fill();
+    context.setLineDash([4 * pixel, 4 * pixel]);
+    context.stroke();
+    context.setLineDash([]);
+    context.fillStyle = "rgba(255, 60, 60, 0.25)";
+    context.beginPath();
+    context.arc(x, y, magnitude.inner, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+
+    context.font = `${12 * pixel}px sans-serif`;
+    context.textBaseline = "top";
+    context.strokeStyle = "rgba(255, 200, 0, 0.9)";
+    context.fillStyle = "rgba(255, 200, 0, 0.9)";
+    for (const sam of forecast.interceptors) {
+      const samX = this.game.x(sam.tile) + offsetX;
+      const samY = this.game.y(sam.tile) + offsetY;
+      context.setLineDash([2 * pixel, 2 * pixel]);
+      context.beginPath();
+      context.moveTo(samX, samY);
+      context.lineTo(x, y);
+      context.stroke();
+      context.fillText(
+        `${Math.round(sam.hitChance * 100)}%`,
+        samX + 4 * pixel,
+        samY + 4 * pixel,
+      );
+    }
+
+    const lines = [
+      ...forecast.impacts.map((impact) =>
+        translateText("nuke_forecast.impact", {
+          name: this.game.player(impact.playerID).displayName(),
+          tiles: renderNumber(impact.tiles),
+          troops: renderTroops(impact.troops),
+        }),
+      ),
+      ...forecast.brokenAlliances.map((id) =>
+        translateText("nuke_forecast.breaks_alliance", {
+          name: this.game.player(id).displayName(),
+        }),
+      ),
+    ];
+    if (forecast.interceptors.length > 0) {
+      lines.push(
+        translateText("nuke_forecast.interception", {
+          chance: Math.round(forecast.interceptionChance * 100),
+        }),
+      );
+    }
+    if (lines.length > 0) {
+      const lineHeight = 14 * pixel;
+      const padding = 4 * pixel;
+      const width = Math.max(...lines.map((l) => context.measureText(l).width));
+      const left = x + magnitude.outer + padding;
+      const top = y - (lines.length * lineHeight) / 2;
+      context.fillStyle = "rgba(0, 0, 0, 0.7)";
+      context.fillRect(
+        left - padding,
+        top - padding,
+        width + padding * 2,
+        lines.length * lineHeight + padding * 2,
+      );
+      context.fillStyle = "white";
+      lines.forEach((line, i) => {
+        context.fillText(line, left, top + i * lineHeight);
+      });
+    }
+    context.restore();
+  }
+
   onUnitEvent(unit: UnitView) {
     switch (unit.type()) {
       case UnitType.Construction: {
@@ -153,21 +299,23 @@ export class UILayer implements Layer {
    * Handle the unit selection event
    */
   private onUnitSelection(event: UnitSelectionEvent) {
+    if (event.unit === null) {
+      return;
+    }
     if (event.isSelected) {
-      this.selectedUnit = event.unit;
-      if (event.unit && event.unit.type() === UnitType.Warship) {
+      if (!this.selectionBoxCenters.has(event.unit)) {
+        this.selectionBoxCenters.set(event.unit, null);
+      }
+      if (event.unit.type() === UnitType.Warship) {
         this.drawSelectionBox(event.unit);
       }
-    } else {
-      if (this.selectedUnit === event.unit) {
-        // Clear the selection box
-        if (this.lastSelectionBoxCenter) {
-          const { x, y, size } = this.lastSelectionBoxCenter;
-          this.clearSelectionBox(x, y, size);
-          this.lastSelectionBoxCenter = null;
-        }
-        this.selectedUnit = null;
+    } else if (this.selectionBoxCenters.has(event.unit)) {
+      // Clear the selection box
+      const last = this.selectionBoxCenters.get(event.unit);
+      if (last) {
+        this.clearSelectionBox(last.x, last.y, last.size);
       }
+      this.selectionBoxCenters.delete(event.unit);
     }
   }
 
@@ -219,14 +367,11 @@ export class UILayer implements Layer {
     const centerY = this.game.y(center);
 
     // Clear previous selection box if it exists and is different from current position
-    if (
-      this.lastSelectionBoxCenter &&
-      (this.lastSelectionBoxCenter.x !== centerX ||
-        this.lastSelectionBoxCenter.y !== centerY)
-    ) {
-      const lastSize = this.lastSelectionBoxCenter.size;
-      const lastX = this.lastSelectionBoxCenter.x;
-      const lastY = this.lastSelectionBoxCenter.y;
+    const last = this.selectionBoxCenters.get(unit);
+    if (last && (last.x !== centerX || last.y !== centerY)) {
+      const lastSize = last.size;
+      const lastX = last.x;
+      const lastY = last.y;
 
       // Clear the previous selection box
       this.clearSelectionBox(lastX, lastY, lastSize);
@@ -252,11 +397,11 @@ export class UILayer implements Layer {
     }
 
     // Store current selection box position for next cleanup
-    this.lastSelectionBoxCenter = {
+    this.selectionBoxCenters.set(unit, {
       x: centerX,
       y: centerY,
       size: selectionSize,
-    };
+    });
   }
 
   /**
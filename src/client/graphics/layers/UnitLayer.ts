@@ -1,16 +1,17 @@
 import { colord, Colord } from "colord";
-import { EventBus } from "../../../core/EventBus";
 import { Theme } from "../../../core/configuration/Config";
+import { EventBus } from "../../../core/EventBus";
 import { UnitType } from "../../../core/game/Game";
 import { TileRef } from "../../../core/game/GameMap";
 import { GameView, UnitView } from "../../../core/game/GameView";
+import { MAX_FLEET_SIZE, MAX_FLEET_WAYPOINTS } from "../../../core/Schemas";
 import { BezenhamLine } from "../../../core/utilities/Line";
 import {
   AlternateViewEvent,
   MouseUpEvent,
   UnitSelectionEvent,
 } from "../../InputHandler";
-import { MoveWarshipIntentEvent } from "../../Transport";
+import { MoveFleetIntentEvent, MoveWarshipIntentEvent } from "../../Transport";
 import { TransformHandler } from "../TransformHandler";
 import { Layer } from "./Layer";
 
@@ -43,11 +44,14 @@ export class UnitLayer implements Layer {
 
   private transformHandler: TransformHandler;
 
-  // Selected unit property as suggested in the review comment
-  private selectedUnit: UnitView | null = null;
+  // Selected warships, more than one with the fleet modifier
+  private selectedUnits: UnitView[] = [];
+  // Waypoints of the fleet order that is being placed
+  private waypoints: TileRef[] = [];
 
   // Configuration for unit selection
   private readonly WARSHIP_SELECTION_RADIUS = 10; // Radius in game cells for warship selection hit zone
+  private readonly WAYPOINT_LOOP_RADIUS = 10; // Ending a route this close to its first waypoint makes a patrol route
 
   constructor(
     private game: GameView,
@@ -63,11 +67,18 @@ export class UnitLayer implements Layer {
   }
 
   tick() {
-    const unitIds = this.game
-      .updatesSinceLastTick()
-      ?.[GameUpdateType.Unit]?.map((unit) => unit.id);
+    const unitIds = new Set(
+      this.game
+        .updatesSinceLastTick()
+        ?.[GameUpdateType.Unit]?.map((unit) => unit.id),
+    );
+    if (this.game.recentlyFogUpdatedTiles().length > 0) {
+      // Units that don't move are not updated, but may have been revealed or
+      // hidden.
+      this.game.units().forEach((unit) => unitIds.add(unit.id()));
+    }
 
-    this.updateUnitsSprites(unitIds ?? []);
+    this.updateUnitsSprites(Array.from(unitIds));
   }
 
   init() {
@@ -119,15 +130,16 @@ export class UnitLayer implements Layer {
     // Find warships near this cell, sorted by distance
     const nearbyWarships = this.findWarshipsNearCell(cell);
 
-    if (this.selectedUnit) {
-      const clickRef = this.game.ref(cell.x, cell.y);
-      if (this.game.isOcean(clickRef)) {
-        this.eventBus.emit(
-          new MoveWarshipIntentEvent(this.selectedUnit.id(), clickRef),
-        );
+    if (event.fleetModifier) {
+      this.onFleetClick(cell, nearbyWarships);
+    } else if (this.selectedUnits.length > 0) {
+      if (
+        this.game.isValidCoord(cell.x, cell.y) &&
+        this.game.isOcean(this.game.ref(cell.x, cell.y))
+      ) {
+        this.sendFleetOrder(this.game.ref(cell.x, cell.y));
       }
-      // Deselect
-      this.eventBus.emit(new UnitSelectionEvent(this.selectedUnit, false));
+      this.clearSelection();
     } else if (nearbyWarships.length > 0) {
       // Toggle selection of the closest warship
       const clickedUnit = nearbyWarships[0];
@@ -135,14 +147,86 @@ export class UnitLayer implements Layer {
     }
   }
 
+  /**
+   * Clicks with the fleet modifier add or remove warships from the selection,
+   * once warships are selected clicks on the ocean add waypoints.
+   */
+  private onFleetClick(cell: { x: number; y: number }, nearby: UnitView[]) {
+    if (this.waypoints.length === 0 && nearby.length > 0) {
+      const clickedUnit = nearby[0];
+      const selected = this.selectedUnits.includes(clickedUnit);
+      if (selected || this.selectedUnits.length < MAX_FLEET_SIZE) {
+        this.eventBus.emit(new UnitSelectionEvent(clickedUnit, !selected));
+      }
+      return;
+    }
+    if (
+      this.selectedUnits.length === 0 ||
+      !this.game.isValidCoord(cell.x, cell.y)
+    ) {
+      return;
+    }
+    const tile = this.game.ref(cell.x, cell.y);
+    // Leave room for the waypoint of the click that sends the order.
+    if (
+      this.game.isOcean(tile) &&
+      this.waypoints.length < MAX_FLEET_WAYPOINTS - 1
+    ) {
+      this.waypoints.push(tile);
+    }
+  }
+
+  /**
+   * Sends the selected warships through the waypoints to the tile. Ending the
+   * route next to its first waypoint makes the warships patrol it instead.
+   */
+  private sendFleetOrder(tile: TileRef) {
+    const route = [...this.waypoints];
+    const patrol =
+      route.length > 1 &&
+      this.game.manhattanDist(route[0], tile) <= this.WAYPOINT_LOOP_RADIUS;
+    if (!patrol) {
+      route.push(tile);
+    }
+    if (this.selectedUnits.length === 1 && route.length === 1) {
+      this.eventBus.emit(
+        new MoveWarshipIntentEvent(this.selectedUnits[0].id(), tile),
+      );
+      return;
+    }
+    this.eventBus.emit(
+      new MoveFleetIntentEvent(
+        this.selectedUnits.map((unit) => unit.id()),
+        route,
+        patrol,
+      ),
+    );
+  }
+
+  private clearSelection() {
+    this.waypoints = [];
+    for (const unit of [...this.selectedUnits]) {
+      this.eventBus.emit(new UnitSelectionEvent(unit, false));
+    }
+  }
+
   /**
    * Handle unit selection changes
    */
   private onUnitSelectionChange(event: UnitSelectionEvent) {
+    const unit = event.unit;
+    if (unit === null) {
+      return;
+    }
     if (event.isSelected) {
-      this.selectedUnit = event.unit;
-    } else if (this.selectedUnit === event.unit) {
-      this.selectedUnit = null;
+      if (!this.selectedUnits.includes(unit)) {
+        this.selectedUnits.push(unit);
+      }
+    } else {
+      this.selectedUnits = this.selectedUnits.filter((u) => u !== unit);
+      if (this.selectedUnits.length === 0) {
+        this.waypoints = [];
+      }
     }
   }
 
@@ -151,7 +235,7 @@ export class UnitLayer implements Layer {
    * If the selected unit is removed from the game, deselect it
    */
   private handleUnitDeactivation(unit: UnitView) {
-    if (this.selectedUnit === unit && !unit.isActive()) {
+    if (this.selectedUnits.includes(unit) && !unit.isActive()) {
       this.eventBus.emit(new UnitSelectionEvent(unit, false));
     }
   }
@@ -171,6 +255,41 @@ export class UnitLayer implements Layer {
       this.game.width(),
       this.game.height(),
     );
+    this.drawWaypoints(context);
+  }
+
+  // The route of the fleet order that is being placed.
+  private drawWaypoints(context: CanvasRenderingContext2D) {
+    if (this.waypoints.length === 0) {
+      return;
+    }
+    const offsetX = -this.game.width() / 2 + 0.5;
+    const offsetY = -this.game.height() / 2 + 0.5;
+    context.save();
+    context.strokeStyle = "rgba(255, 255, 255, 0.8)";
+    context.fillStyle = "rgba(255, 255, 255, 0.8)";
+    context.lineWidth = 0.5;
+    context.setLineDash([2, 2]);
+    context.beginPath();
+    this.waypoints.forEach((tile, i) => {
+      const x = this.game.x(tile) + offsetX;
+      const y = this.game.y(tile) + offsetY;
+      if (i === 0) {
+        context.moveTo(x, y);
+      } else {
+        context.lineTo(x, y);
+      }
+    });
+    context.stroke();
+    for (const tile of this.waypoints) {
+      context.fillRect(
+        this.game.x(tile) + offsetX - 1,
+        this.game.y(tile) + offsetY - 1,
+        2,
+        2,
+      );
+    }
+    context.restore();
   }
 
   onAlternativeViewEvent(event: AlternateViewEvent) {
@@ -312,7 +431,7 @@ export class UnitLayer implements Layer {
     }
 
     this.oldShellTile.set(unit, unit.lastTile());
-    if (!unit.isActive()) {
+    if (!unit.isActive() || !this.game.isUnitVisible(unit)) {
       return;
     }
 
@@ -341,6 +460,9 @@ export class UnitLayer implements Layer {
   private drawTrail(trail: number[], color: Colord, rel: Relationship) {
     // Paint new trail
     for (const t of trail) {
+      if (rel === Relationship.Enemy && !this.game.isTileVisible(t)) {
+        continue;
+      }
       this.paintCell(
         this.game.x(t),
         this.game.y(t),
@@ -424,7 +546,7 @@ export class UnitLayer implements Layer {
 
     this.clearCell(this.game.x(unit.lastTile()), this.game.y(unit.lastTile()));
 
-    if (unit.isActive()) {
+    if (unit.isActive() && this.game.isUnitVisible(unit)) {
       // Paint area
       this.paintCell(
         this.game.x(unit.tile()),
@@ -541,7 +663,7 @@ export class UnitLayer implements Layer {
       alternateViewColor ?? undefined,
     );
 
-    if (unit.isActive()) {
+    if (unit.isActive() && this.game.isUnitVisible(unit)) {
       const targetable = unit.targetable();
       if (!targetable) {
         this.context.save();
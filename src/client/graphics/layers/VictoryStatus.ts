@@ -0,0 +1,122 @@
+import { html, LitElement } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import { TileRef } from "../../../core/game/GameMap";
+import {
+  GameUpdateType,
+  VictoryProgressUpdate,
+} from "../../../core/game/GameUpdates";
+import { GameView } from "../../../core/game/GameView";
+import { hillCenter } from "../../../core/game/Victory";
+import { renderNumber, translateText } from "../../Utils";
+import { Layer } from "./Layer";
+
+function renderTicks(ticks: number): string {
+  const seconds = Math.ceil(ticks / 10);
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+// Shows the countdown and standings of the victory condition chosen for the
+// game, and outlines the hill in king of the hill games.
+@customElement("victory-status")
+export class VictoryStatus extends LitElement implements Layer {
+  public game: GameView;
+
+  @state()
+  private progress: VictoryProgressUpdate | null = null;
+
+  private hill: TileRef | null = null;
+
+  createRenderRoot() {
+    return this;
+  }
+
+  init() {
+    const condition = this.game.config().gameConfig().victoryCondition;
+    if (condition?.type === "kingOfTheHill") {
+      this.hill = hillCenter(this.game);
+    }
+  }
+
+  tick() {
+    const updates = this.game.updatesSinceLastTick();
+    if (updates === null) return;
+    const progress = updates[GameUpdateType.VictoryProgress];
+    if (progress.length > 0) {
+      this.progress = progress[progress.length - 1];
+    }
+    if (updates[GameUpdateType.Win].length > 0) {
+      this.progress = null;
+    }
+  }
+
+  reset() {
+    this.progress = null;
+  }
+
+  shouldTransform(): boolean {
+    return true;
+  }
+
+  renderLayer(context: CanvasRenderingContext2D) {
+    const condition = this.game.config().gameConfig().victoryCondition;
+    if (this.hill === null || condition?.type !== "kingOfTheHill") return;
+    context.save();
+    context.strokeStyle = "rgba(255, 215, 0, 0.9)";
+    context.lineWidth = 2;
+    context.setLineDash([6, 4]);
+    context.beginPath();
+    context.arc(
+      this.game.x(this.hill) - this.game.width() / 2 + 0.5,
+      this.game.y(this.hill) - this.game.height() / 2 + 0.5,
+      condition.radius,
+      0,
+      Math.PI * 2,
+    );
+    context.stroke();
+    context.restore();
+  }
+
+  render() {
+    const condition = this.game?.config().gameConfig().victoryCondition;
+    if (this.progress === null || condition === undefined) {
+      return html``;
+    }
+    const { ticksLeft, standings, remaining, hill } = this.progress;
+    return html`
+      <div
+        class="flex flex-col items-center gap-1 mt-2 px-3 py-1 bg-gray-900/60
+               backdrop-blur-md rounded-md text-white text-sm lg:text-base"
+        @contextmenu=${(e: MouseEvent) => e.preventDefault()}
+      >
+        <div class="font-bold">
+          ${translateText(`victory_status.${condition.type}`)}
+          ${ticksLeft !== null ? html` · ${renderTicks(ticksLeft)}` : ""}
+          ${condition.type === "lastStanding"
+            ? html` ·
+              ${translateText("victory_status.remaining", {
+                num: remaining,
+              })}`
+            : ""}
+        </div>
+        ${hill !== undefined
+          ? html`<div>
+              ${hill.holder === null
+                ? translateText("victory_status.hill_unclaimed")
+                : translateText("victory_status.hill_held", {
+                    name: hill.holder,
+                    time: renderTicks(hill.holdTicks - hill.heldTicks),
+                  })}
+            </div>`
+          : ""}
+        <div class="flex gap-3">
+          ${standings.map(
+            (s, i) =>
+              html`<span>${i + 1}. ${s.name} ${renderNumber(s.score)}</span>`,
+          )}
+        </div>
+      </div>
+    `;
+  }
+}
@@ -0,0 +1,150 @@
+import { Colord } from "colord";
+import { Theme } from "../../../core/configuration/Config";
+import { UnitType } from "../../../core/game/Game";
+import { TileRef } from "../../../core/game/GameMap";
+import { GameView, PlayerView } from "../../../core/game/GameView";
+
+/**
+ * Paints territory into RGBA pixel buffers on the CPU, one tile at a time.
+ * Used when WebGL is unavailable.
+ */
+export class TerritoryCanvasPainter {
+  readonly imageData: Uint8ClampedArray;
+  // Self, ally and enemy colors instead of the player colors.
+  readonly alternativeImageData: Uint8ClampedArray;
+
+  highlightedTerritory: PlayerView | null = null;
+  patternsEnabled = false;
+
+  constructor(
+    private game: GameView,
+    private theme: Theme,
+  ) {
+    const size = game.width() * game.height() * 4;
+    this.imageData = new Uint8ClampedArray(size);
+    this.alternativeImageData = new Uint8ClampedArray(size);
+  }
+
+  paintTerritory(tile: TileRef, isBorder: boolean = false) {
+    if (!this.game.isTileVisible(tile)) {
+      const fogColor = this.theme.fogColor();
+      this.paintTile(this.imageData, tile, fogColor, 200);
+      this.paintTile(this.alternativeImageData, tile, fogColor, 200);
+      return;
+    }
+    if (isBorder && !this.game.hasOwner(tile)) {
+      return;
+    }
+
+    if (!this.game.hasOwner(tile)) {
+      if (this.game.hasFallout(tile)) {
+        this.paintTile(this.imageData, tile, this.theme.falloutColor(), 150);
+        this.paintTile(
+          this.alternativeImageData,
+          tile,
+          this.theme.falloutColor(),
+          150,
+        );
+        return;
+      }
+      this.clearTile(tile);
+      return;
+    }
+    const owner = this.game.owner(tile) as PlayerView;
+    const isHighlighted =
+      this.highlightedTerritory &&
+      this.highlightedTerritory.id() === owner.id();
+    const myPlayer = this.game.myPlayer();
+
+    if (this.game.isBorder(tile)) {
+      const playerIsFocused = owner && this.game.focusedPlayer() === owner;
+      if (myPlayer) {
+        let alternativeColor = owner.isFriendly(myPlayer)
+          ? this.theme.allyColor()
+          : this.theme.enemyColor();
+        if (owner.smallID() === myPlayer.smallID()) {
+          alternativeColor = this.theme.selfColor();
+        }
+        this.paintTile(this.alternativeImageData, tile, alternativeColor, 255);
+      }
+      if (
+        this.game.hasUnitNearby(
+          tile,
+          this.game.config().defensePostRange(),
+          UnitType.DefensePost,
+          owner.id(),
+        )
+      ) {
+        const borderColors = this.theme.defendedBorderColors(owner);
+        const x = this.game.x(tile);
+        const y = this.game.y(tile);
+        const lightTile =
+          (x % 2 === 0 && y % 2 === 0) || (y % 2 === 1 && x % 2 === 1);
+        const borderColor = lightTile ? borderColors.light : borderColors.dark;
+        this.paintTile(this.imageData, tile, borderColor, 255);
+      } else {
+        const useBorderColor = playerIsFocused
+          ? this.theme.focusedBorderColor()
+          : this.theme.borderColor(owner);
+        this.paintTile(this.imageData, tile, useBorderColor, 255);
+      }
+    } else {
+      const pattern = owner.cosmetics.pattern;
+
+      if (myPlayer) {
+        let alternativeColor = owner.isFriendly(myPlayer)
+          ? this.theme.allyColor()
+          : this.theme.enemyColor();
+        // If the current player is the owner
+        if (owner.smallID() === myPlayer.smallID()) {
+          alternativeColor = this.theme.selfColor();
+        }
+        // If the tile is on a ally territory, use the ally color
+        this.paintTile(
+          this.alternativeImageData,
+          tile,
+          alternativeColor,
+          isHighlighted ? 150 : 60,
+        );
+      }
+
+      if (pattern === undefined || this.patternsEnabled === false) {
+        this.paintTile(
+          this.imageData,
+          tile,
+          this.theme.territoryColor(owner),
+          150,
+        );
+      } else {
+        const x = this.game.x(tile);
+        const y = this.game.y(tile);
+        const baseColor = this.theme.territoryColor(owner);
+
+        const decoder = owner.patternDecoder();
+        const color = decoder?.isSet(x, y)
+          ? baseColor.darken(0.125)
+          : baseColor;
+        this.paintTile(this.imageData, tile, color, 150);
+      }
+    }
+  }
+
+  paintTile(
+    imageData: Uint8ClampedArray,
+    tile: TileRef,
+    color: Colord,
+    alpha: number,
+  ) {
+    const offset = tile * 4;
+    imageData[offset] = color.rgba.r;
+    imageData[offset + 1] = color.rgba.g;
+    imageData[offset + 2] = color.rgba.b;
+    imageData[offset + 3] = alpha;
+  }
+
+  clearTile(tile: TileRef) {
+    const offset = tile * 4;
+    this.imageData[offset + 3] = 0; // Set alpha to 0 (fully transparent)
+    this.alternativeImageData[offset + 3] = 0; // Set alpha to 0 (fully transparent)
+  }
+}
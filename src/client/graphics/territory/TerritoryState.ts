@@ -0,0 +1,189 @@
+import { Colord } from "colord";
+import { Theme } from "../../../core/configuration/Config";
+import { UnitType } from "../../../core/game/Game";
+import { TileRef } from "../../../core/game/GameMap";
+import { GameView, PlayerView } from "../../../core/game/GameView";
+
+// Flags in the third byte of a tile, must match the shader.
+export const BORDER_FLAG = 1;
+export const DEFENDED_FLAG = 2;
+export const FALLOUT_FLAG = 4;
+export const HIDDEN_FLAG = 8;
+export const PATTERN_FLAG = 16;
+
+// Rows of the palette, must match the shader.
+export enum PaletteRow {
+  Territory,
+  Pattern,
+  Border,
+  DefendedLight,
+  DefendedDark,
+  Alternative,
+}
+export const PALETTE_ROWS = 6;
+
+// Changed tiles are uploaded in blocks of this many tiles squared.
+export const DIRTY_BLOCK_SIZE = 64;
+
+// A part of the map to upload, in tiles.
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The state of every tile packed into four bytes, uploaded as a texture: the
+ * owner small id in the first two bytes, flags in the third. Coloring happens
+ * in the shader, so only tiles whose state changed need to be uploaded again.
+ */
+export class TerritoryState {
+  readonly data: Uint8Array;
+  // Blocks, not a single span of rows, so changes far apart on a large map
+  // don't upload everything in between.
+  private blockColumns: number;
+  private dirtyBlocks: Uint8Array;
+  private dirtyList: number[] = [];
+
+  constructor(private game: GameView) {
+    this.data = new Uint8Array(game.width() * game.height() * 4);
+    this.blockColumns = Math.ceil(game.width() / DIRTY_BLOCK_SIZE);
+    this.dirtyBlocks = new Uint8Array(
+      this.blockColumns * Math.ceil(game.height() / DIRTY_BLOCK_SIZE),
+    );
+  }
+
+  paintTile(tile: TileRef) {
+    const offset = tile * 4;
+    const ownerID = this.game.ownerID(tile);
+    let flags = 0;
+    if (!this.game.isTileVisible(tile)) {
+      flags |= HIDDEN_FLAG;
+    } else if (ownerID === 0) {
+      if (this.game.hasFallout(tile)) {
+        flags |= FALLOUT_FLAG;
+      }
+    } else {
+      const owner = this.game.owner(tile) as PlayerView;
+      if (this.game.isBorder(tile)) {
+        flags |= BORDER_FLAG;
+        if (
+          this.game.hasUnitNearby(
+            tile,
+            this.game.config().defensePostRange(),
+            UnitType.DefensePost,
+            owner.id(),
+          )
+        ) {
+          flags |= DEFENDED_FLAG;
+        }
+      } else if (
+        owner.patternDecoder()?.isSet(this.game.x(tile), this.game.y(tile))
+      ) {
+        flags |= PATTERN_FLAG;
+      }
+    }
+    this.data[offset] = ownerID & 0xff;
+    this.data[offset + 1] = ownerID >> 8;
+    this.data[offset + 2] = flags;
+    this.data[offset + 3] = 255;
+
+    const block =
+      Math.floor(this.game.y(tile) / DIRTY_BLOCK_SIZE) * this.blockColumns +
+      Math.floor(this.game.x(tile) / DIRTY_BLOCK_SIZE);
+    if (this.dirtyBlocks[block] === 0) {
+      this.dirtyBlocks[block] = 1;
+      this.dirtyList.push(block);
+    }
+  }
+
+  // The parts painted since the last call. Neighboring blocks in a row are
+  // merged, so there are few uploads.
+  takeDirtyRects(): DirtyRect[] {
+    const blocks = this.dirtyList.sort((a, b) => a - b);
+    const rects: DirtyRect[] = [];
+    for (let i = 0; i < blocks.length; ) {
+      let end = i + 1;
+      while (
+        end < blocks.length &&
+        blocks[end] === blocks[end - 1] + 1 &&
+        blocks[end] % this.blockColumns !== 0
+      ) {
+        end++;
+      }
+      const x = (blocks[i] % this.blockColumns) * DIRTY_BLOCK_SIZE;
+      const y = Math.floor(blocks[i] / this.blockColumns) * DIRTY_BLOCK_SIZE;
+      rects.push({
+        x,
+        y,
+        width: Math.min((end - i) * DIRTY_BLOCK_SIZE, this.game.width() - x),
+        height: Math.min(DIRTY_BLOCK_SIZE, this.game.height() - y),
+      });
+      i = end;
+    }
+    blocks.forEach((block) => (this.dirtyBlocks[block] = 0));
+    this.dirtyList = [];
+    return rects;
+  }
+}
+
+/**
+ * Colors of every player by small id, one row per PaletteRow. Cheap enough to
+ * rebuild every tick, which keeps alliance changes out of the tile state.
+ */
+export class TerritoryPalette {
+  data: Uint8Array;
+  width = 0;
+
+  constructor(
+    private game: GameView,
+    private theme: Theme,
+  ) {
+    this.resize(256);
+  }
+
+  update() {
+    const players = this.game.playerViews();
+    const maxID = Math.max(0, ...players.map((p) => p.smallID()));
+    if (maxID >= this.width) {
+      let width = this.width;
+      while (maxID >= width) width *= 2;
+      this.resize(width);
+    }
+    const myPlayer = this.game.myPlayer();
+    for (const player of players) {
+      const id = player.smallID();
+      const territory = this.theme.territoryColor(player);
+      const defended = this.theme.defendedBorderColors(player);
+      this.set(PaletteRow.Territory, id, territory);
+      this.set(PaletteRow.Pattern, id, territory.darken(0.125));
+      this.set(PaletteRow.Border, id, this.theme.borderColor(player));
+      this.set(PaletteRow.DefendedLight, id, defended.light);
+      this.set(PaletteRow.DefendedDark, id, defended.dark);
+      if (myPlayer === null) {
+        // Transparent, there is nothing to compare against.
+        this.set(PaletteRow.Alternative, id, null);
+      } else if (player.smallID() === myPlayer.smallID()) {
+        this.set(PaletteRow.Alternative, id, this.theme.selfColor());
+      } else if (player.isFriendly(myPlayer)) {
+        this.set(PaletteRow.Alternative, id, this.theme.allyColor());
+      } else {
+        this.set(PaletteRow.Alternative, id, this.theme.enemyColor());
+      }
+    }
+  }
+
+  private resize(width: number) {
+    this.width = width;
+    this.data = new Uint8Array(width * PALETTE_ROWS * 4);
+  }
+
+  private set(row: PaletteRow, id: number, color: Colord | null) {
+    const offset = (row * this.width + id) * 4;
+    this.data[offset] = color?.rgba.r ?? 0;
+    this.data[offset + 1] = color?.rgba.g ?? 0;
+    this.data[offset + 2] = color?.rgba.b ?? 0;
+    this.data[offset + 3] = color === null ? 0 : 255;
+  }
+}
@@ -0,0 +1,404 @@
+import { Colord } from "colord";
+import { Theme } from "../../../core/configuration/Config";
+import { TileRef } from "../../../core/game/GameMap";
+import { GameView, PlayerView } from "../../../core/game/GameView";
+import {
+  BORDER_FLAG,
+  DEFENDED_FLAG,
+  FALLOUT_FLAG,
+  HIDDEN_FLAG,
+  PALETTE_ROWS,
+  PaletteRow,
+  PATTERN_FLAG,
+  TerritoryPalette,
+  TerritoryState,
+} from "./TerritoryState";
+
+const vertexShader = `#version 300 es
+in vec2 a_position;
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}
+`;
+
+// Mirrors TerritoryCanvasPainter.paintTerritory.
+const fragmentShader = `#version 300 es
+precision highp float;
+precision highp int;
+
+uniform highp sampler2D u_state;
+uniform highp sampler2D u_palette;
+uniform int u_height;
+uniform int u_focusedID;
+uniform int u_highlightedID;
+uniform bool u_alternativeView;
+uniform bool u_patterns;
+uniform vec3 u_fogColor;
+uniform vec3 u_falloutColor;
+uniform vec3 u_focusedBorderColor;
+
+out vec4 outColor;
+
+vec4 palette(int row, int id) {
+  return texelFetch(u_palette, ivec2(id, row), 0);
+}
+
+vec4 premultiplied(vec3 color, float alpha) {
+  return vec4(color * alpha, alpha);
+}
+
+void main() {
+  ivec2 pos = ivec2(int(gl_FragCoord.x), u_height - 1 - int(gl_FragCoord.y));
+  ivec4 state = ivec4(texelFetch(u_state, pos, 0) * 255.0 + 0.5);
+  int owner = state.r + state.g * 256;
+  int flags = state.b;
+
+  if ((flags & ${HIDDEN_FLAG}) != 0) {
+    outColor = premultiplied(u_fogColor, 200.0 / 255.0);
+    return;
+  }
+  if (owner == 0) {
+    outColor = (flags & ${FALLOUT_FLAG}) != 0
+      ? premultiplied(u_falloutColor, 150.0 / 255.0)
+      : vec4(0.0);
+    return;
+  }
+  bool border = (flags & ${BORDER_FLAG}) != 0;
+
+  if (u_alternativeView) {
+    vec4 color = palette(${PaletteRow.Alternative}, owner);
+    float alpha = border ? 1.0 : owner == u_highlightedID ? 150.0 / 255.0 : 60.0 / 255.0;
+    outColor = premultiplied(color.rgb, alpha * color.a);
+    return;
+  }
+
+  if (border) {
+    vec3 color;
+    if ((flags & ${DEFENDED_FLAG}) != 0) {
+      bool light = pos.x % 2 == pos.y % 2;
+      color = palette(light ? ${PaletteRow.DefendedLight} : ${PaletteRow.DefendedDark}, owner).rgb;
+    } else if (owner == u_focusedID) {
+      color = u_focusedBorderColor;
+    } else {
+      color = palette(${PaletteRow.Border}, owner).rgb;
+    }
+    outColor = premultiplied(color, 1.0);
+    return;
+  }
+  bool pattern = u_patterns && (flags & ${PATTERN_FLAG}) != 0;
+  vec3 color = palette(pattern ? ${PaletteRow.Pattern} : ${PaletteRow.Territory}, owner).rgb;
+  outColor = premultiplied(color, 150.0 / 255.0);
+}
+`;
+
+// From EXT_disjoint_timer_query_webgl2, which has no typings.
+const TIME_ELAPSED_EXT = 0x88bf;
+const GPU_DISJOINT_EXT = 0x8fbb;
+
+export interface TerritoryRenderOptions {
+  alternativeView: boolean;
+  patternsEnabled: boolean;
+  highlightedTerritory: PlayerView | null;
+  // Times uploads and drawing on the GPU, where supported.
+  measureGpu: boolean;
+}
+
+// Since the last call to takeStats().
+export interface TerritoryRenderStats {
+  frames: number;
+  uploadedBytes: number;
+  // Average per measured frame, null if nothing was measured.
+  gpuMs: number | null;
+}
+
+/**
+ * Renders territory on the GPU. Tiles are uploaded as owner and flags, the
+ * colors come from a palette texture, so alliance, focus and highlight
+ * changes don't repaint any tiles.
+ */
+export class TerritoryWebGLRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private state: TerritoryState;
+  private palette: TerritoryPalette;
+  private stateTexture: WebGLTexture;
+  private paletteTexture: WebGLTexture;
+  private uniforms: Map<string, WebGLUniformLocation | null> = new Map();
+  private uploadedPaletteWidth = 0;
+
+  private canTimeGpu: boolean;
+  // At most one timer query in flight, its result arrives frames later.
+  private gpuQuery: WebGLQuery | null = null;
+  private stats = { frames: 0, uploadedBytes: 0, gpuMs: 0, gpuFrames: 0 };
+
+  // Returns null if WebGL2 is unavailable, the canvas path is used instead.
+  static create(game: GameView, theme: Theme): TerritoryWebGLRenderer | null {
+    const canvas = document.createElement("canvas");
+    canvas.width = game.width();
+    canvas.height = game.height();
+    const gl = canvas.getContext("webgl2", {
+      premultipliedAlpha: true,
+      preserveDrawingBuffer: true,
+    });
+    if (gl === null) {
+      return null;
+    }
+    const program = createProgram(gl);
+    if (program === null) {
+      return null;
+    }
+    return new TerritoryWebGLRenderer(game, theme, canvas, gl, program);
+  }
+
+  private constructor(
+    private game: GameView,
+    private theme: Theme,
+    canvas: HTMLCanvasElement,
+    private gl: WebGL2RenderingContext,
+    private program: WebGLProgram,
+  ) {
+    this.canvas = canvas;
+    this.canTimeGpu =
+      gl.getExtension("EXT_disjoint_timer_query_webgl2") !== null;
+    this.state = new TerritoryState(game);
+    this.palette = new TerritoryPalette(game, theme);
+
+    gl.useProgram(program);
+    // A single triangle covering the whole canvas.
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 3, -1, -1, 3]),
+      gl.STATIC_DRAW,
+    );
+    const position = gl.getAttribLocation(program, "a_position");
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    this.stateTexture = this.createTexture(0, "u_state");
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      game.width(),
+      game.height(),
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      this.state.data,
+    );
+    this.paletteTexture = this.createTexture(1, "u_palette");
+    gl.uniform1i(this.uniform("u_height"), game.height());
+    this.updatePalette();
+  }
+
+  paintTile(tile: TileRef) {
+    this.state.paintTile(tile);
+  }
+
+  // Picks up new players and alliance changes.
+  updatePalette() {
+    this.palette.update();
+    const gl = this.gl;
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.paletteTexture);
+    if (this.palette.width !== this.uploadedPaletteWidth) {
+      this.uploadedPaletteWidth = this.palette.width;
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        this.palette.width,
+        PALETTE_ROWS,
+        0,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        this.palette.data,
+      );
+    } else {
+      gl.texSubImage2D(
+        gl.TEXTURE_2D,
+        0,
+        0,
+        0,
+        this.palette.width,
+        PALETTE_ROWS,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        this.palette.data,
+      );
+    }
+  }
+
+  render(options: TerritoryRenderOptions) {
+    const gl = this.gl;
+    this.readGpuTime();
+    const measure =
+      options.measureGpu && this.canTimeGpu && this.gpuQuery === null;
+    if (measure) {
+      this.gpuQuery = gl.createQuery();
+      gl.beginQuery(TIME_ELAPSED_EXT, this.gpuQuery);
+    }
+    this.stats.frames++;
+    this.uploadState();
+
+    const focused = this.game.focusedPlayer();
+    gl.uniform1i(this.uniform("u_focusedID"), focused?.smallID() ?? -1);
+    gl.uniform1i(
+      this.uniform("u_highlightedID"),
+      options.highlightedTerritory?.smallID() ?? -1,
+    );
+    gl.uniform1i(
+      this.uniform("u_alternativeView"),
+      options.alternativeView ? 1 : 0,
+    );
+    gl.uniform1i(this.uniform("u_patterns"), options.patternsEnabled ? 1 : 0);
+    this.setColor("u_fogColor", this.theme.fogColor());
+    this.setColor("u_falloutColor", this.theme.falloutColor());
+    this.setColor("u_focusedBorderColor", this.theme.focusedBorderColor());
+
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    if (measure) {
+      gl.endQuery(TIME_ELAPSED_EXT);
+    }
+  }
+
+  takeStats(): TerritoryRenderStats {
+    const { frames, uploadedBytes, gpuMs, gpuFrames } = this.stats;
+    this.stats = { frames: 0, uploadedBytes: 0, gpuMs: 0, gpuFrames: 0 };
+    return {
+      frames,
+      uploadedBytes,
+      gpuMs: gpuFrames > 0 ? gpuMs / gpuFrames : null,
+    };
+  }
+
+  // Each changed block is uploaded on its own, rows of the state are
+  // skipped with UNPACK_ROW_LENGTH.
+  private uploadState() {
+    const rects = this.state.takeDirtyRects();
+    if (rects.length === 0) {
+      return;
+    }
+    const gl = this.gl;
+    const width = this.game.width();
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.stateTexture);
+    gl.pixelStorei(gl.UNPACK_ROW_LENGTH, width);
+    for (const rect of rects) {
+      gl.texSubImage2D(
+        gl.TEXTURE_2D,
+        0,
+        rect.x,
+        rect.y,
+        rect.width,
+        rect.height,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        this.state.data,
+        (rect.y * width + rect.x) * 4,
+      );
+      this.stats.uploadedBytes += rect.width * rect.height * 4;
+    }
+    // The palette is packed tightly.
+    gl.pixelStorei(gl.UNPACK_ROW_LENGTH, 0);
+  }
+
+  private readGpuTime() {
+    const gl = this.gl;
+    if (
+      this.gpuQuery === null ||
+      !gl.getQueryParameter(this.gpuQuery, gl.QUERY_RESULT_AVAILABLE)
+    ) {
+      return;
+    }
+    // Timings are meaningless after e.g. a GPU frequency change.
+    if (!gl.getParameter(GPU_DISJOINT_EXT)) {
+      const ns: number = gl.getQueryParameter(this.gpuQuery, gl.QUERY_RESULT);
+      this.stats.gpuMs += ns / 1e6;
+      this.stats.gpuFrames++;
+    }
+    gl.deleteQuery(this.gpuQuery);
+    this.gpuQuery = null;
+  }
+
+  // Browsers only allow a few live contexts.
+  dispose() {
+    if (this.gpuQuery !== null) {
+      this.gl.deleteQuery(this.gpuQuery);
+      this.gpuQuery = null;
+    }
+    this.gl.getExtension("WEBGL_lose_context")?.loseContext();
+  }
+
+  private createTexture(unit: number, name: string): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (texture === null) throw new Error("could not create texture");
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.uniform1i(this.uniform(name), unit);
+    return texture;
+  }
+
+  private setColor(name: string, color: Colord) {
+    const { r, g, b } = color.rgba;
+    this.gl.uniform3f(this.uniform(name), r / 255, g / 255, b / 255);
+  }
+
+  private uniform(name: string): WebGLUniformLocation | null {
+    let location = this.uniforms.get(name);
+    if (location === undefined) {
+      location = this.gl.getUniformLocation(this.program, name);
+      this.uniforms.set(name, location);
+    }
+    return location;
+  }
+}
+
+function createProgram(gl: WebGL2RenderingContext): WebGLProgram | null {
+  const program = gl.createProgram();
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexShader);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShader);
+  if (program === null || vertex === null || fragment === null) {
+    return null;
+  }
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error(
+      `territory shader link failed: ${gl.getProgramInfoLog(program)}`,
+    );
+    return null;
+  }
+  return program;
+}
+
+function compileShader(
+  gl: WebGL2RenderingContext,
+  type: number,
+  source: string,
+): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (shader === null) {
+    return null;
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error(
+      `territory shader compile failed: ${gl.getShaderInfoLog(shader)}`,
+    );
+    return null;
+  }
+  return shader;
+}
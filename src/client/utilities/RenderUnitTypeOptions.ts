@@ -8,7 +8,7 @@ export interface UnitTypeRenderContext {
   toggleUnit: (unit: UnitType, checked: boolean) => void;
 }
 
-const unitOptions: { type: UnitType; translationKey: string }[] = [
+export const unitOptions: { type: UnitType; translationKey: string }[] = [
   { type: UnitType.City, translationKey: "unit_type.city" },
   { type: UnitType.DefensePost, translationKey: "unit_type.defense_post" },
   { type: UnitType.Port, translationKey: "unit_type.port" },
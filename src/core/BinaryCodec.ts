@@ -0,0 +1,551 @@
+import {
+  ClientID,
+  ClientIntentMessage,
+  GameStartInfo,
+  Intent,
+  ServerStartGameMessage,
+  ServerTurnMessage,
+  Turn,
+} from "./Schemas";
+
+// Sent by the client in the join message. The server only switches a
+// connection to binary if both sides speak the same version, everyone else
+// keeps using JSON.
+export const BINARY_CODEC_VERSION = 1;
+
+// Every binary frame starts with the codec version. It is kept below 0x20, so
+// a frame can be told apart from JSON text (which starts with "{") even when
+// the websocket hands both over as bytes.
+const MAX_VERSION = 0x1f;
+
+enum FrameType {
+  Intent = 1,
+  Turn = 2,
+  Start = 3,
+}
+
+enum Presence {
+  Value = 0,
+  Null = 1,
+  Undefined = 2,
+}
+
+// Numbers are written as a varuint of n * 2 when they are small non-negative
+// integers, otherwise as the marker 1 followed by a float64.
+const FLOAT_MARKER = 1;
+const MAX_SMALL_NUMBER = 2 ** 52 - 1;
+
+type FieldKind =
+  // Strings that repeat a lot (ids, enum values) are written once per frame
+  // and referenced by index afterwards.
+  | "interned"
+  | "string"
+  | "number"
+  | "bool"
+  // A list of numbers, prefixed with its length.
+  | "numbers"
+  // Sent as its decimal string, the same as the JSON replacer.
+  | "bigint";
+
+type IntentType = Intent["type"];
+
+interface FieldSpec<T extends IntentType> {
+  name: Exclude<keyof Extract<Intent, { type: T }>, "type" | "clientID">;
+  kind: FieldKind;
+  nullable?: boolean;
+  optional?: boolean;
+}
+
+// The position of an intent type in this table is its id on the wire, so
+// only ever append new intent types and bump BINARY_CODEC_VERSION when the
+// fields of an existing intent change.
+const intentFields: { [T in IntentType]: FieldSpec<T>[] } = {
+  spawn: [
+    { name: "name", kind: "string" },
+    { name: "flag", kind: "interned", optional: true },
+    { name: "pattern", kind: "string", optional: true },
+    { name: "playerType", kind: "interned" },
+    { name: "tile", kind: "number" },
+  ],
+  attack: [
+    { name: "targetID", kind: "interned", nullable: true },
+    { name: "troops", kind: "number", nullable: true },
+  ],
+  cancel_attack: [{ name: "attackID", kind: "interned" }],
+  boat: [
+    { name: "targetID", kind: "interned", nullable: true },
+    { name: "troops", kind: "number" },
+    { name: "dst", kind: "number" },
+    { name: "src", kind: "number", nullable: true },
+  ],
+  cancel_boat: [{ name: "unitID", kind: "number" }],
+  allianceRequest: [{ name: "recipient", kind: "interned" }],
+  allianceRequestReply: [
+    { name: "requestor", kind: "interned" },
+    { name: "accept", kind: "bool" },
+  ],
+  allianceExtension: [{ name: "recipient", kind: "interned" }],
+  breakAlliance: [{ name: "recipient", kind: "interned" }],
+  targetPlayer: [{ name: "target", kind: "interned" }],
+  emoji: [
+    { name: "recipient", kind: "interned" },
+    { name: "emoji", kind: "number" },
+  ],
+  donate_gold: [
+    { name: "recipient", kind: "interned" },
+    { name: "gold", kind: "bigint", nullable: true },
+  ],
+  donate_troops: [
+    { name: "recipient", kind: "interned" },
+    { name: "troops", kind: "number", nullable: true },
+  ],
+  build_unit: [
+    { name: "unit", kind: "interned" },
+    { name: "tile", kind: "number" },
+  ],
+  embargo: [
+    { name: "targetID", kind: "interned" },
+    { name: "action", kind: "interned" },
+  ],
+  quick_chat: [
+    { name: "recipient", kind: "interned" },
+    { name: "quickChatKey", kind: "interned" },
+    { name: "target", kind: "interned", optional: true },
+  ],
+  move_warship: [
+    { name: "unitId", kind: "number" },
+    { name: "tile", kind: "number" },
+  ],
+  mark_disconnected: [{ name: "isDisconnected", kind: "bool" }],
+  upgrade_structure: [
+    { name: "unit", kind: "interned" },
+    { name: "unitId", kind: "number" },
+  ],
+  kick_player: [{ name: "target", kind: "interned" }],
+  toggle_pause: [{ name: "paused", kind: "bool" }],
+  fleet_move: [
+    { name: "unitIds", kind: "numbers" },
+    { name: "waypoints", kind: "numbers" },
+    { name: "patrol", kind: "bool" },
+  ],
+  queue_build: [
+    { name: "unit", kind: "interned" },
+    { name: "tile", kind: "number" },
+  ],
+  move_queued_build: [
+    { name: "buildId", kind: "number" },
+    { name: "index", kind: "number" },
+  ],
+  cancel_queued_build: [{ name: "buildId", kind: "number" }],
+  cede_territory: [
+    { name: "recipient", kind: "interned" },
+    { name: "tile", kind: "number" },
+  ],
+};
+
+const intentTypes = Object.keys(intentFields) as IntentType[];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Returns true if the websocket payload was written by a BinaryCodec rather
+// than being a JSON string.
+export function isBinaryMessage(
+  data: unknown,
+): data is ArrayBuffer | Uint8Array {
+  if (data instanceof ArrayBuffer) {
+    return true;
+  }
+  return (
+    data instanceof Uint8Array && data.length > 0 && data[0] <= MAX_VERSION
+  );
+}
+
+// Compact encoding for the messages sent every turn. Decoded messages are
+// plain objects with the same shape as the parsed JSON, so they still need to
+// be validated with the zod schemas.
+export class BinaryCodec {
+  // Client ids known to both sides, usually the players in the game start
+  // info. They never have to be written out in full.
+  private readonly knownStrings: string[];
+
+  constructor(clientIDs: ClientID[] = []) {
+    this.knownStrings = [...clientIDs];
+  }
+
+  static forGame(gameStartInfo: GameStartInfo): BinaryCodec {
+    return new BinaryCodec(gameStartInfo.players.map((p) => p.clientID));
+  }
+
+  encodeIntentMessage(msg: ClientIntentMessage): Uint8Array {
+    const writer = new FrameWriter(FrameType.Intent, this.knownStrings);
+    writer.intent(msg.intent);
+    return writer.finish();
+  }
+
+  encodeTurnMessage(msg: ServerTurnMessage): Uint8Array {
+    const writer = new FrameWriter(FrameType.Turn, this.knownStrings);
+    writer.turn(msg.turn);
+    return writer.finish();
+  }
+
+  // The game start info is embedded as JSON, the codec for the rest of the
+  // game is created from it on the client.
+  encodeStartMessage(msg: ServerStartGameMessage): Uint8Array {
+    const codec = BinaryCodec.forGame(msg.gameStartInfo);
+    const writer = new FrameWriter(FrameType.Start, codec.knownStrings);
+    writer.string(JSON.stringify(msg.gameStartInfo));
+    writer.uint(msg.turns.length);
+    msg.turns.forEach((turn) => writer.turn(turn));
+    return writer.finish();
+  }
+
+  // Throws if the frame is malformed or was written by another version.
+  decodeClientMessage(data: ArrayBuffer | Uint8Array): unknown {
+    const reader = new FrameReader(data, this.knownStrings);
+    if (reader.frameType !== FrameType.Intent) {
+      throw new Error(`unexpected client frame type ${reader.frameType}`);
+    }
+    return reader.done({ type: "intent", intent: reader.intent() });
+  }
+
+  // Throws if the frame is malformed or was written by another version.
+  decodeServerMessage(data: ArrayBuffer | Uint8Array): unknown {
+    const reader = new FrameReader(data, this.knownStrings);
+    switch (reader.frameType) {
+      case FrameType.Turn:
+        return reader.done({ type: "turn", turn: reader.turn() });
+      case FrameType.Start: {
+        const gameStartInfo = JSON.parse(reader.string()) as GameStartInfo;
+        // The turns are interned against the players in the start info,
+        // this codec may not know about them yet.
+        reader.useKnownStrings(BinaryCodec.forGame(gameStartInfo).knownStrings);
+        const turns = Array.from({ length: reader.uint() }, () =>
+          reader.turn(),
+        );
+        return reader.done({ type: "start", turns, gameStartInfo });
+      }
+      default:
+        throw new Error(`unexpected server frame type ${reader.frameType}`);
+    }
+  }
+}
+
+class FrameWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+  private interned: Map<string, number>;
+  private internedCount: number;
+
+  constructor(frameType: FrameType, knownStrings: string[]) {
+    this.interned = new Map(knownStrings.map((s, i) => [s, i]));
+    this.internedCount = knownStrings.length;
+    this.byte(BINARY_CODEC_VERSION);
+    this.byte(frameType);
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  turn(turn: Turn) {
+    this.uint(turn.turnNumber);
+    this.presence(turn.hash);
+    if (turn.hash !== null && turn.hash !== undefined) {
+      this.number(turn.hash);
+    }
+    this.uint(turn.intents.length);
+    turn.intents.forEach((intent) => this.intent(intent));
+  }
+
+  intent(intent: Intent) {
+    const typeID = intentTypes.indexOf(intent.type);
+    if (typeID === -1) {
+      throw new Error(`cannot encode intent type ${intent.type}`);
+    }
+    this.uint(typeID);
+    this.internedString(intent.clientID);
+    const fields = intentFields[intent.type] as FieldSpec<IntentType>[];
+    const values = intent as unknown as Record<string, unknown>;
+    for (const field of fields) {
+      const value = values[field.name];
+      if (field.nullable || field.optional) {
+        this.presence(value);
+      }
+      if (value === null || value === undefined) {
+        if (
+          (value === null && !field.nullable) ||
+          (value === undefined && !field.optional)
+        ) {
+          throw new Error(`${intent.type}.${field.name} is missing`);
+        }
+        continue;
+      }
+      this.field(field.kind, value, `${intent.type}.${field.name}`);
+    }
+  }
+
+  private field(kind: FieldKind, value: unknown, name: string) {
+    switch (kind) {
+      case "interned":
+        if (typeof value !== "string") break;
+        return this.internedString(value);
+      case "string":
+        if (typeof value !== "string") break;
+        return this.string(value);
+      case "number":
+        if (typeof value !== "number") break;
+        return this.number(value);
+      case "bool":
+        if (typeof value !== "boolean") break;
+        return this.byte(value ? 1 : 0);
+      case "numbers":
+        if (!Array.isArray(value) || value.some((n) => typeof n !== "number"))
+          break;
+        this.uint(value.length);
+        return value.forEach((n: number) => this.number(n));
+      case "bigint":
+        if (typeof value !== "bigint") break;
+        return this.string(value.toString());
+    }
+    throw new Error(`${name} is not a ${kind}`);
+  }
+
+  private presence(value: unknown) {
+    if (value === null) {
+      this.byte(Presence.Null);
+    } else if (value === undefined) {
+      this.byte(Presence.Undefined);
+    } else {
+      this.byte(Presence.Value);
+    }
+  }
+
+  private internedString(s: string) {
+    const index = this.interned.get(s);
+    if (index !== undefined) {
+      this.uint(index + 1);
+      return;
+    }
+    this.uint(0);
+    this.string(s);
+    this.interned.set(s, this.internedCount++);
+  }
+
+  string(s: string) {
+    const bytes = textEncoder.encode(s);
+    this.uint(bytes.length);
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  private number(n: number) {
+    if (Number.isInteger(n) && n >= 0 && n <= MAX_SMALL_NUMBER) {
+      this.uint(n * 2);
+      return;
+    }
+    this.uint(FLOAT_MARKER);
+    this.reserve(8);
+    this.view.setFloat64(this.length, n);
+    this.length += 8;
+  }
+
+  // LEB128, written with arithmetic so it works beyond 32 bits.
+  uint(n: number) {
+    if (!Number.isSafeInteger(n) || n < 0) {
+      throw new Error(`cannot encode ${n} as an unsigned integer`);
+    }
+    while (n >= 0x80) {
+      this.byte(n % 0x80 | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.byte(n);
+  }
+
+  private byte(b: number) {
+    this.reserve(1);
+    this.buffer[this.length++] = b;
+  }
+
+  private reserve(bytes: number) {
+    if (this.length + bytes <= this.buffer.length) {
+      return;
+    }
+    let size = this.buffer.length * 2;
+    while (size < this.length + bytes) {
+      size *= 2;
+    }
+    const buffer = new Uint8Array(size);
+    buffer.set(this.buffer.subarray(0, this.length));
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+class FrameReader {
+  readonly frameType: number;
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private offset: number;
+  private interned: string[];
+
+  constructor(data: ArrayBuffer | Uint8Array, knownStrings: string[]) {
+    this.bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.view = new DataView(
+      this.bytes.buffer,
+      this.bytes.byteOffset,
+      this.bytes.byteLength,
+    );
+    this.interned = [...knownStrings];
+    this.offset = 0;
+    const version = this.byte();
+    if (version > MAX_VERSION) {
+      throw new Error("not a binary frame");
+    }
+    if (version !== BINARY_CODEC_VERSION) {
+      throw new Error(`unsupported binary codec version ${version}`);
+    }
+    this.frameType = this.byte();
+  }
+
+  // Reads the rest of the frame against another set of known strings.
+  useKnownStrings(knownStrings: string[]) {
+    this.interned = [...knownStrings];
+  }
+
+  done<T>(message: T): T {
+    if (this.offset !== this.bytes.length) {
+      throw new Error("trailing bytes after binary frame");
+    }
+    return message;
+  }
+
+  turn(): Turn {
+    const turnNumber = this.uint();
+    const hashPresence = this.byte();
+    const hash = this.optional(hashPresence, () => this.number());
+    const intents = Array.from({ length: this.uint() }, () => this.intent());
+    const turn: Turn = { turnNumber, intents };
+    if (hash !== undefined) {
+      turn.hash = hash;
+    }
+    return turn;
+  }
+
+  intent(): Intent {
+    const type = intentTypes[this.uint()];
+    if (type === undefined) {
+      throw new Error("unknown intent type");
+    }
+    const intent: Record<string, unknown> = {
+      type,
+      clientID: this.internedString(),
+    };
+    const fields = intentFields[type] as FieldSpec<IntentType>[];
+    for (const field of fields) {
+      const presence =
+        field.nullable || field.optional ? this.byte() : Presence.Value;
+      const value = this.optional(presence, () => this.field(field.kind));
+      if (value !== undefined) {
+        intent[field.name] = value;
+      }
+    }
+    return intent as unknown as Intent;
+  }
+
+  private optional<T>(presence: number, read: () => T): T | null | undefined {
+    switch (presence) {
+      case Presence.Value:
+        return read();
+      case Presence.Null:
+        return null;
+      case Presence.Undefined:
+        return undefined;
+      default:
+        throw new Error(`invalid presence ${presence}`);
+    }
+  }
+
+  private field(kind: FieldKind): unknown {
+    switch (kind) {
+      case "interned":
+        return this.internedString();
+      case "string":
+      case "bigint":
+        return this.string();
+      case "number":
+        return this.number();
+      case "bool":
+        return this.byte() !== 0;
+      case "numbers":
+        return Array.from({ length: this.uint() }, () => this.number());
+    }
+  }
+
+  private internedString(): string {
+    const index = this.uint();
+    if (index === 0) {
+      const s = this.string();
+      this.interned.push(s);
+      return s;
+    }
+    const s = this.interned[index - 1];
+    if (s === undefined) {
+      throw new Error(`unknown interned string ${index}`);
+    }
+    return s;
+  }
+
+  string(): string {
+    const length = this.uint();
+    this.ensure(length);
+    const s = textDecoder.decode(
+      this.bytes.subarray(this.offset, this.offset + length),
+    );
+    this.offset += length;
+    return s;
+  }
+
+  private number(): number {
+    const n = this.uint();
+    if (n === FLOAT_MARKER) {
+      this.ensure(8);
+      const f = this.view.getFloat64(this.offset);
+      this.offset += 8;
+      return f;
+    }
+    if (n % 2 !== 0) {
+      throw new Error(`invalid number ${n}`);
+    }
+    return n / 2;
+  }
+
+  uint(): number {
+    let n = 0;
+    let scale = 1;
+    for (;;) {
+      const b = this.byte();
+      n += (b & 0x7f) * scale;
+      if ((b & 0x80) === 0) {
+        return n;
+      }
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error("varuint is too large");
+      }
+    }
+  }
+
+  private byte(): number {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes > this.bytes.length) {
+      throw new Error("unexpected end of binary frame");
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { placeName } from "../client/graphics/NameBoxCalculator";
-import { getConfig } from "./configuration/ConfigLoader";
+import { ServerConfig } from "./configuration/Config";
+import { createConfig, getConfig } from "./configuration/ConfigLoader";
 import { Executor } from "./execution/ExecutionManager";
 import { WinCheckExecution } from "./execution/WinCheckExecution";
 import {
@@ -18,28 +19,48 @@ import {
   PlayerProfile,
   PlayerType,
 } from "./game/Game";
-import { createGame } from "./game/GameImpl";
-import { TileRef } from "./game/GameMap";
+import { createGame, createGameUpdatesMap } from "./game/GameImpl";
+import { GameMapImpl, TileRef } from "./game/GameMap";
 import { GameMapLoader } from "./game/GameMapLoader";
 import {
   ErrorUpdate,
   GameUpdateType,
   GameUpdateViewData,
+  RailroadUpdate,
+  RailTile,
 } from "./game/GameUpdates";
+import {
+  ForecastNukeType,
+  NukeForecast,
+  nukeForecast,
+} from "./game/NukeForecast";
+import { ReplayMarker, replayMarkers } from "./game/ReplayMarkers";
 import { loadTerrainMap as loadGameMap } from "./game/TerrainMapLoader";
 import { PseudoRandom } from "./PseudoRandom";
 import { ClientID, GameStartInfo, Turn } from "./Schemas";
 import { sanitize, simpleHash } from "./Util";
+import { deepClone } from "./utilities/DeepClone";
 import { fixProfaneUsername } from "./validations/username";
 
+// The clientID is null when the game is simulated by the server, which has
+// no player of its own. The server also passes its own config because there
+// is no server to fetch it from.
 export async function createGameRunner(
   gameStart: GameStartInfo,
-  clientID: ClientID,
+  clientID: ClientID | null,
   mapLoader: GameMapLoader,
   callBack: (gu: GameUpdateViewData | ErrorUpdate) => void,
+  serverConfig?: ServerConfig,
 ): Promise<GameRunner> {
-  const config = await getConfig(gameStart.config, null);
-  const gameMap = await loadGameMap(gameStart.config.gameMap, mapLoader);
+  const config =
+    serverConfig !== undefined
+      ? createConfig(serverConfig, gameStart.config, null)
+      : await getConfig(gameStart.config, null);
+  const gameMap = await loadGameMap(
+    gameStart.config.gameMap,
+    mapLoader,
+    gameStart.config.customMap,
+  );
   const random = new PseudoRandom(simpleHash(gameStart.gameID));
 
   const humans = gameStart.players.map(
@@ -62,6 +83,7 @@ export async function createGameRunner(
             new Cell(n.coordinates[0], n.coordinates[1]),
             n.strength,
             new PlayerInfo(n.name, PlayerType.FakeHuman, null, random.nextID()),
+            n.personality,
           ),
       );
 
@@ -82,6 +104,34 @@ export async function createGameRunner(
   return gr;
 }
 
+// Replays start with a checkpoint every minute of game time and halve their
+// density whenever there are too many, bounding memory on long games.
+const initialCheckpointInterval = 600;
+const maxCheckpoints = 8;
+
+interface RunnerState {
+  game: Game;
+  execManager: Executor;
+  playerViewData: Record<PlayerID, NameViewData>;
+  railTiles: Map<TileRef, RailTileCount>;
+}
+
+interface RailTileCount {
+  railTile: RailTile;
+  count: number;
+}
+
+interface Checkpoint {
+  turn: number;
+  state: RunnerState;
+}
+
+export interface SeekResult {
+  gameUpdate: GameUpdateViewData;
+  // Markers for the turns simulated to reach the target turn.
+  markers: ReplayMarker[];
+}
+
 export class GameRunner {
   private turns: Turn[] = [];
   private currTurn = 0;
@@ -89,6 +139,11 @@ export class GameRunner {
 
   private playerViewData: Record<PlayerID, NameViewData> = {};
 
+  private checkpoints: Checkpoint[] = [];
+  private checkpointInterval = 0;
+  // Rail tiles currently on the map, so a seek can redraw them.
+  private railTiles = new Map<TileRef, RailTileCount>();
+
   constructor(
     public game: Game,
     private execManager: Executor,
@@ -107,6 +162,14 @@ export class GameRunner {
     this.game.addExecution(new WinCheckExecution());
   }
 
+  // Starts keeping copies of the game state so seek() doesn't have to
+  // simulate from the first turn. Only used for replays.
+  public enableCheckpoints(interval: number = initialCheckpointInterval) {
+    this.checkpointInterval = interval;
+    this.checkpoints = [];
+    this.checkpoint();
+  }
+
   public addTurn(turn: Turn): void {
     this.turns.push(turn);
   }
@@ -120,25 +183,12 @@ export class GameRunner {
     }
     this.isExecuting = true;
 
-    this.game.addExecution(
-      ...this.execManager.createExecs(this.turns[this.currTurn]),
-    );
-    this.currTurn++;
-
     let updates: GameUpdates;
 
     try {
-      updates = this.game.executeNextTick();
+      updates = this.executeTurn();
     } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error("Game tick error:", error.message);
-        this.callBack({
-          errMsg: error.message,
-          stack: error.stack,
-        } as ErrorUpdate);
-      } else {
-        console.error("Game tick error:", error);
-      }
+      this.reportError(error);
       return;
     }
 
@@ -173,6 +223,167 @@ export class GameRunner {
     this.isExecuting = false;
   }
 
+  /**
+   * Moves the game to the state after the given turns have been executed,
+   * restoring the nearest checkpoint and simulating forward from there.
+   * Returns the whole game state, as the view cannot be patched incrementally
+   * when going backwards, and throws if a tick failed. Without checkpoints it
+   * can only move forward, e.g. to resume a saved game.
+   */
+  public seek(turns: Turn[]): SeekResult {
+    const target = turns.length;
+    if (this.checkpoints.length === 0 && this.currTurn > target) {
+      throw new Error("checkpoints are not enabled");
+    }
+    this.turns = [...turns];
+
+    let checkpoint: Checkpoint | undefined = this.checkpoints[0];
+    for (const c of this.checkpoints) {
+      if (c.turn <= target) {
+        checkpoint = c;
+      }
+    }
+    if (
+      checkpoint !== undefined &&
+      (this.currTurn > target || this.currTurn < checkpoint.turn)
+    ) {
+      this.restore(checkpoint);
+    }
+
+    const markers: ReplayMarker[] = [];
+    while (this.currTurn < target) {
+      const updates = this.executeTurn();
+      markers.push(...replayMarkers(this.game.ticks(), updates));
+    }
+    return { gameUpdate: this.fullUpdate(), markers };
+  }
+
+  private executeTurn(): GameUpdates {
+    this.game.addExecution(
+      ...this.execManager.createExecs(this.turns[this.currTurn]),
+    );
+    this.currTurn++;
+
+    const updates = this.game.executeNextTick();
+
+    if (this.checkpointInterval > 0) {
+      this.trackRailroads(updates[GameUpdateType.RailroadEvent]);
+      if (
+        this.currTurn % this.checkpointInterval === 0 &&
+        this.currTurn > this.checkpoints[this.checkpoints.length - 1].turn
+      ) {
+        this.checkpoint();
+      }
+    }
+    return updates;
+  }
+
+  private reportError(error: unknown) {
+    if (error instanceof Error) {
+      console.error("Game tick error:", error.message);
+      this.callBack({
+        errMsg: error.message,
+        stack: error.stack,
+      } as ErrorUpdate);
+    } else {
+      console.error("Game tick error:", error);
+    }
+  }
+
+  private checkpoint() {
+    this.checkpoints.push({
+      turn: this.currTurn,
+      state: this.copyState(this.state()),
+    });
+    if (this.checkpoints.length > maxCheckpoints) {
+      this.checkpoints = this.checkpoints.filter((_, i) => i % 2 === 0);
+      this.checkpointInterval *= 2;
+    }
+  }
+
+  private restore(checkpoint: Checkpoint) {
+    // Copy again so the checkpoint stays untouched for later seeks.
+    const state = this.copyState(checkpoint.state);
+    this.game = state.game;
+    this.execManager = state.execManager;
+    this.playerViewData = state.playerViewData;
+    this.railTiles = state.railTiles;
+    this.currTurn = checkpoint.turn;
+  }
+
+  private state(): RunnerState {
+    return {
+      game: this.game,
+      execManager: this.execManager,
+      playerViewData: this.playerViewData,
+      railTiles: this.railTiles,
+    };
+  }
+
+  // Functions are shared by the copies too, so the state must not hold
+  // closures over the game; keep what they need in fields instead.
+  private copyState(state: RunnerState): RunnerState {
+    // The config and the terrain never change, so all copies share them.
+    const shared = new Set<object>([state.game.config()]);
+    for (const map of [state.game.map(), state.game.miniMap()]) {
+      if (map instanceof GameMapImpl) {
+        map.immutableData().forEach((data) => shared.add(data));
+      }
+    }
+    return deepClone(state, shared);
+  }
+
+  private trackRailroads(railUpdates: RailroadUpdate[]) {
+    for (const update of railUpdates) {
+      for (const railTile of update.railTiles) {
+        const existing = this.railTiles.get(railTile.tile);
+        if (update.isActive) {
+          if (existing !== undefined) {
+            existing.railTile = railTile;
+            existing.count++;
+          } else {
+            this.railTiles.set(railTile.tile, { railTile, count: 1 });
+          }
+        } else if (existing !== undefined && --existing.count <= 0) {
+          this.railTiles.delete(railTile.tile);
+        }
+      }
+    }
+  }
+
+  private fullUpdate(): GameUpdateViewData {
+    const updates = createGameUpdatesMap();
+    updates[GameUpdateType.Player] = this.game
+      .allPlayers()
+      .map((p) => p.toUpdate());
+    updates[GameUpdateType.Unit] = this.game.units().map((u) => u.toUpdate());
+    // Repeat overlapping rails so the view keeps counting them correctly.
+    const railTiles = Array.from(this.railTiles.values()).flatMap(
+      ({ railTile, count }) => Array<RailTile>(count).fill(railTile),
+    );
+    updates[GameUpdateType.RailroadEvent] = [
+      { type: GameUpdateType.RailroadEvent, isActive: true, railTiles },
+    ];
+
+    const packedTileUpdates = new BigUint64Array(
+      this.game.width() * this.game.height(),
+    );
+    this.game.forEachTile((tile) => {
+      packedTileUpdates[tile] = this.game.toTileUpdate(tile);
+    });
+
+    this.game.players().forEach((p) => {
+      this.playerViewData[p.id()] = placeName(this.game, p);
+    });
+
+    return {
+      tick: this.game.ticks(),
+      packedTileUpdates,
+      updates,
+      playerNameViewData: this.playerViewData,
+    };
+  }
+
   public playerActions(
     playerID: PlayerID,
     x: number,
@@ -195,6 +406,7 @@ export class GameRunner {
         canSendAllianceRequest: player.canSendAllianceRequest(other),
         canBreakAlliance: player.isAlliedWith(other),
         canDonate: player.canDonate(other),
+        canCedeTerritory: player.canCedeTerritory(other),
         canEmbargo: !player.hasEmbargoAgainst(other),
       };
       const alliance = player.allianceWith(other as Player);
@@ -253,4 +465,16 @@ export class GameRunner {
     }
     return player.bestTransportShipSpawn(targetTile);
   }
+
+  public nukeForecast(
+    playerID: PlayerID,
+    type: ForecastNukeType,
+    targetTile: TileRef,
+  ): NukeForecast {
+    const player = this.game.player(playerID);
+    if (!player.isPlayer()) {
+      throw new Error(`player with id ${playerID} not found`);
+    }
+    return nukeForecast(this.game, player, type, targetTile);
+  }
 }
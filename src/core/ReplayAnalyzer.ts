@@ -0,0 +1,178 @@
+import { ServerConfig } from "./configuration/Config";
+import { PlayerType, Tick } from "./game/Game";
+import { GameMapLoader } from "./game/GameMapLoader";
+import {
+  GameUpdateType,
+  GameUpdateViewData,
+  PlayerUpdate,
+} from "./game/GameUpdates";
+import { createGameRunner } from "./GameRunner";
+import { GameRecord, Turn } from "./Schemas";
+import { decompressGameRecord } from "./Util";
+
+// The state of one player at the end of a sampled tick.
+export interface PlayerSample {
+  tick: Tick;
+  playerID: string;
+  clientID: string | null;
+  name: string;
+  playerType: PlayerType;
+  isAlive: boolean;
+  tiles: number;
+  troops: number;
+  gold: bigint;
+  units: number;
+}
+
+export interface Desync {
+  turn: number;
+  archivedHash: number;
+  hash: number;
+}
+
+export interface ReplayAnalysis {
+  gameID: string;
+  turns: number;
+  samples: PlayerSample[];
+  // Number of turns whose archived hash was compared.
+  hashesChecked: number;
+  firstDesync: Desync | null;
+  // Set if the replay could not be simulated to the end.
+  error: string | null;
+}
+
+export interface ReplayAnalyzerOptions {
+  // Players are sampled every `interval` ticks and after the last turn.
+  interval: number;
+  // Keep simulating after the first desync, later samples are unreliable.
+  continueAfterDesync?: boolean;
+}
+
+// Simulates an archived game without a browser, sampling every player at a
+// fixed interval and checking the simulation against the archived hashes.
+export async function analyzeReplay(
+  gameRecord: GameRecord,
+  mapLoader: GameMapLoader,
+  serverConfig: ServerConfig,
+  options: ReplayAnalyzerOptions,
+): Promise<ReplayAnalysis> {
+  if (!Number.isInteger(options.interval) || options.interval <= 0) {
+    throw new Error(`invalid sample interval ${options.interval}`);
+  }
+  const turns: Turn[] = decompressGameRecord(gameRecord).turns;
+  const analysis: ReplayAnalysis = {
+    gameID: gameRecord.info.gameID,
+    turns: turns.length,
+    samples: [],
+    hashesChecked: 0,
+    firstDesync: null,
+    error: null,
+  };
+
+  // Active units by id, mapped to the small id of their owner.
+  const unitOwners = new Map<number, number>();
+  let done = false;
+
+  const onUpdate = (gu: GameUpdateViewData) => {
+    gu.updates[GameUpdateType.Unit].forEach((u) => {
+      if (u.isActive) {
+        unitOwners.set(u.id, u.ownerID);
+      } else {
+        unitOwners.delete(u.id);
+      }
+    });
+
+    gu.updates[GameUpdateType.Hash].forEach((hu) => {
+      const archivedHash = turns[hu.tick]?.hash;
+      if (archivedHash === null || archivedHash === undefined) {
+        return;
+      }
+      analysis.hashesChecked++;
+      if (archivedHash !== hu.hash && analysis.firstDesync === null) {
+        analysis.firstDesync = {
+          turn: hu.tick,
+          archivedHash,
+          hash: hu.hash,
+        };
+        done = !options.continueAfterDesync;
+      }
+    });
+
+    if (gu.tick % options.interval === 0 || gu.tick === turns.length) {
+      const units = new Map<number, number>();
+      unitOwners.forEach((owner) =>
+        units.set(owner, (units.get(owner) ?? 0) + 1),
+      );
+      gu.updates[GameUpdateType.Player].forEach((p) =>
+        analysis.samples.push(toSample(gu.tick, p, units.get(p.smallID) ?? 0)),
+      );
+    }
+  };
+
+  const runner = await createGameRunner(
+    gameRecord.info,
+    null,
+    mapLoader,
+    (gu) => {
+      if ("errMsg" in gu) {
+        analysis.error = gu.errMsg;
+        done = true;
+        return;
+      }
+      onUpdate(gu);
+    },
+    serverConfig,
+  );
+
+  for (const turn of turns) {
+    if (done) {
+      break;
+    }
+    runner.addTurn(turn);
+    runner.executeNextTick();
+  }
+  return analysis;
+}
+
+function toSample(tick: Tick, p: PlayerUpdate, units: number): PlayerSample {
+  return {
+    tick,
+    playerID: p.id,
+    clientID: p.clientID,
+    name: p.displayName,
+    playerType: p.playerType,
+    isAlive: p.isAlive,
+    tiles: p.tilesOwned,
+    troops: p.troops,
+    gold: p.gold,
+    units,
+  };
+}
+
+const csvColumns: (keyof PlayerSample)[] = [
+  "tick",
+  "playerID",
+  "clientID",
+  "name",
+  "playerType",
+  "isAlive",
+  "tiles",
+  "troops",
+  "gold",
+  "units",
+];
+
+export function samplesToCsv(samples: PlayerSample[]): string {
+  const rows = samples.map((s) =>
+    csvColumns.map((column) => csvValue(s[column])).join(","),
+  );
+  return [csvColumns.join(","), ...rows].join("\n") + "\n";
+}
+
+function csvValue(value: string | number | bigint | boolean | null): string {
+  if (value === null) {
+    return "";
+  }
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { UnitType } from "./game/Game";
+
+export const NukeMagnitudeSchema = z
+  .object({
+    inner: z.number().int().min(1).max(200),
+    outer: z.number().int().min(1).max(200),
+  })
+  .refine((m) => m.inner <= m.outer, {
+    message: "inner radius must not be larger than the outer radius",
+  });
+
+export const nukeRuleTypes = [
+  UnitType.AtomBomb,
+  UnitType.HydrogenBomb,
+  UnitType.MIRVWarhead,
+] as const;
+export type NukeRuleType = (typeof nukeRuleTypes)[number];
+
+// Units whose gold cost can be scaled.
+export const costRuleTypes = [
+  UnitType.City,
+  UnitType.DefensePost,
+  UnitType.Port,
+  UnitType.Warship,
+  UnitType.MissileSilo,
+  UnitType.SAMLauncher,
+  UnitType.AtomBomb,
+  UnitType.HydrogenBomb,
+  UnitType.MIRV,
+  UnitType.Factory,
+] as const;
+export type CostRuleType = (typeof costRuleTypes)[number];
+
+// Overrides for balance values of DefaultConfig, set by the host of a private
+// lobby. Unset values keep their default. Durations are in seconds.
+export const GameRulesSchema = z.object({
+  allianceDuration: z.number().int().min(30).max(3600).optional(),
+  allianceRequestCooldown: z.number().int().min(0).max(600).optional(),
+  traitorDuration: z.number().int().min(0).max(600).optional(),
+  spawnImmunityDuration: z.number().int().min(0).max(300).optional(),
+  percentageTilesOwnedToWin: z.number().int().min(10).max(100).optional(),
+  boatMaxNumber: z.number().int().min(1).max(20).optional(),
+  // Multiplies the gold cost of the unit.
+  unitCostMultipliers: z
+    .partialRecord(z.enum(costRuleTypes), z.number().min(0).max(10))
+    .optional(),
+  nukeMagnitudes: z
+    .partialRecord(z.enum(nukeRuleTypes), NukeMagnitudeSchema)
+    .optional(),
+});
+export type GameRules = z.infer<typeof GameRulesSchema>;
+
+// Rules that are a single number, for editing them generically.
+export type NumericGameRule = {
+  [K in keyof GameRules]-?: NonNullable<GameRules[K]> extends number
+    ? K
+    : never;
+}[keyof GameRules];
+
+export const numericGameRules: NumericGameRule[] = [
+  "allianceDuration",
+  "allianceRequestCooldown",
+  "traitorDuration",
+  "spawnImmunityDuration",
+  "percentageTilesOwnedToWin",
+  "boatMaxNumber",
+];
+
+export function numericGameRuleBounds(rule: NumericGameRule): {
+  min: number;
+  max: number;
+} {
+  const schema = GameRulesSchema.shape[rule].unwrap();
+  return {
+    min: schema.minValue ?? 0,
+    max: schema.maxValue ?? Number.MAX_SAFE_INTEGER,
+  };
+}
+
+// How the winner of a game is decided. "tiles" is the default, the first
+// player or team to own percentageTilesOwnedToWin of the land wins.
+export const VictoryConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("tiles") }),
+  // When time runs out the player or team with the most tiles wins.
+  z.object({
+    type: z.literal("timeLimit"),
+    minutes: z.number().int().min(1).max(300),
+  }),
+  // The last player or team alive wins, bots are not counted.
+  z.object({ type: z.literal("lastStanding") }),
+  // Owning most of the land around the center of the map for holdMinutes
+  // without interruption wins.
+  z.object({
+    type: z.literal("kingOfTheHill"),
+    radius: z.number().int().min(5).max(100),
+    holdMinutes: z.number().int().min(1).max(60),
+  }),
+  // When time runs out the player or team with the highest score wins, see
+  // victoryScore.
+  z.object({
+    type: z.literal("points"),
+    minutes: z.number().int().min(1).max(300),
+  }),
+]);
+export type VictoryCondition = z.infer<typeof VictoryConditionSchema>;
+
+// Every player spawns with a capital, capturing it costs the owner gold and
+// troop growth.
+export const CapitalModeSchema = z.object({
+  // The capturing player also takes the territory that is cut off from the
+  // largest part of the owner's land.
+  annexDisconnected: z.boolean(),
+});
+export type CapitalMode = z.infer<typeof CapitalModeSchema>;
+export type VictoryConditionType = VictoryCondition["type"];
@@ -15,6 +15,11 @@ import {
   UnitType,
 } from "./game/Game";
 import { PatternDecoder } from "./PatternDecoder";
+import {
+  CapitalModeSchema,
+  GameRulesSchema,
+  VictoryConditionSchema,
+} from "./RulesSchemas";
 import { PlayerStatsSchema } from "./StatsSchemas";
 import { flattenedEmojiTable } from "./Util";
 
@@ -35,13 +40,19 @@ export type Intent =
   | EmojiIntent
   | DonateGoldIntent
   | DonateTroopsIntent
+  | CedeTerritoryIntent
   | BuildUnitIntent
   | EmbargoIntent
   | QuickChatIntent
   | MoveWarshipIntent
+  | FleetMoveIntent
+  | QueueBuildIntent
+  | MoveQueuedBuildIntent
+  | CancelQueuedBuildIntent
   | MarkDisconnectedIntent
   | UpgradeStructureIntent
-  | KickPlayerIntent;
+  | KickPlayerIntent
+  | TogglePauseIntent;
 
 export type AttackIntent = z.infer<typeof AttackIntentSchema>;
 export type CancelAttackIntent = z.infer<typeof CancelAttackIntentSchema>;
@@ -57,12 +68,19 @@ export type TargetPlayerIntent = z.infer<typeof TargetPlayerIntentSchema>;
 export type EmojiIntent = z.infer<typeof EmojiIntentSchema>;
 export type DonateGoldIntent = z.infer<typeof DonateGoldIntentSchema>;
 export type DonateTroopsIntent = z.infer<typeof DonateTroopIntentSchema>;
+export type CedeTerritoryIntent = z.infer<typeof CedeTerritoryIntentSchema>;
 export type EmbargoIntent = z.infer<typeof EmbargoIntentSchema>;
 export type BuildUnitIntent = z.infer<typeof BuildUnitIntentSchema>;
 export type UpgradeStructureIntent = z.infer<
   typeof UpgradeStructureIntentSchema
 >;
 export type MoveWarshipIntent = z.infer<typeof MoveWarshipIntentSchema>;
+export type FleetMoveIntent = z.infer<typeof FleetMoveIntentSchema>;
+export type QueueBuildIntent = z.infer<typeof QueueBuildIntentSchema>;
+export type MoveQueuedBuildIntent = z.infer<typeof MoveQueuedBuildIntentSchema>;
+export type CancelQueuedBuildIntent = z.infer<
+  typeof CancelQueuedBuildIntentSchema
+>;
 export type QuickChatIntent = z.infer<typeof QuickChatIntentSchema>;
 export type MarkDisconnectedIntent = z.infer<
   typeof MarkDisconnectedIntentSchema
@@ -71,6 +89,7 @@ export type AllianceExtensionIntent = z.infer<
   typeof AllianceExtensionIntentSchema
 >;
 export type KickPlayerIntent = z.infer<typeof KickPlayerIntentSchema>;
+export type TogglePauseIntent = z.infer<typeof TogglePauseIntentSchema>;
 
 export type Turn = z.infer<typeof TurnSchema>;
 export type GameConfig = z.infer<typeof GameConfigSchema>;
@@ -81,14 +100,17 @@ export type ClientMessage =
   | ClientIntentMessage
   | ClientJoinMessage
   | ClientLogMessage
-  | ClientHashMessage;
+  | ClientHashMessage
+  | ClientLobbyChatMessage;
 export type ServerMessage =
   | ServerTurnMessage
   | ServerStartGameMessage
   | ServerPingMessage
   | ServerDesyncMessage
   | ServerPrestartMessage
-  | ServerErrorMessage;
+  | ServerErrorMessage
+  | ServerPausedMessage
+  | ServerLobbyChatMessage;
 
 export type ServerTurnMessage = z.infer<typeof ServerTurnMessageSchema>;
 export type ServerStartGameMessage = z.infer<
@@ -98,12 +120,19 @@ export type ServerPingMessage = z.infer<typeof ServerPingMessageSchema>;
 export type ServerDesyncMessage = z.infer<typeof ServerDesyncSchema>;
 export type ServerPrestartMessage = z.infer<typeof ServerPrestartMessageSchema>;
 export type ServerErrorMessage = z.infer<typeof ServerErrorSchema>;
+export type ServerPausedMessage = z.infer<typeof ServerPausedMessageSchema>;
+export type ServerLobbyChatMessage = z.infer<
+  typeof ServerLobbyChatMessageSchema
+>;
 export type ClientSendWinnerMessage = z.infer<typeof ClientSendWinnerSchema>;
 export type ClientPingMessage = z.infer<typeof ClientPingMessageSchema>;
 export type ClientIntentMessage = z.infer<typeof ClientIntentMessageSchema>;
 export type ClientJoinMessage = z.infer<typeof ClientJoinMessageSchema>;
 export type ClientLogMessage = z.infer<typeof ClientLogMessageSchema>;
 export type ClientHashMessage = z.infer<typeof ClientHashSchema>;
+export type ClientLobbyChatMessage = z.infer<
+  typeof ClientLobbyChatMessageSchema
+>;
 
 export type AllPlayersStats = z.infer<typeof AllPlayersStatsSchema>;
 export type Player = z.infer<typeof PlayerSchema>;
@@ -154,6 +183,17 @@ export const GameConfigSchema = z.object({
   maxPlayers: z.number().optional(),
   disabledUnits: z.enum(UnitType).array().optional(),
   playerTeams: TeamCountConfigSchema.optional(),
+  // Content hash of a map uploaded for a private lobby, replaces the terrain
+  // and nations of gameMap.
+  customMap: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/)
+    .optional(),
+  rules: GameRulesSchema.optional(),
+  victoryCondition: VictoryConditionSchema.optional(),
+  // Only territory and units near the player and their allies are shown.
+  fogOfWar: z.boolean().optional(),
+  capitalMode: CapitalModeSchema.optional(),
 });
 
 export const TeamSchema = z.string();
@@ -165,6 +205,26 @@ const SafeString = z
   )
   .max(1000);
 
+// Manifest of an uploaded map, the map metadata is computed from the image.
+export const CustomMapManifestSchema = z.object({
+  name: SafeString.min(1).max(40),
+  nations: z
+    .object({
+      coordinates: z.tuple([
+        z.number().int().nonnegative(),
+        z.number().int().nonnegative(),
+      ]),
+      flag: z
+        .string()
+        .regex(/^[a-zA-Z0-9_: -]*$/)
+        .max(40),
+      name: SafeString.min(1).max(40),
+      strength: z.number().int().min(0).max(5),
+    })
+    .array()
+    .max(100),
+});
+
 export const PersistentIdSchema = z.uuid();
 const JwtTokenSchema = z.jwt();
 const TokenSchema = z
@@ -314,12 +374,38 @@ export const DonateTroopIntentSchema = BaseIntentSchema.extend({
   troops: z.number().nullable(),
 });
 
+// Hands the connected region of the sender's territory closest to the tile
+// over to the recipient.
+export const CedeTerritoryIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("cede_territory"),
+  recipient: ID,
+  tile: z.number(),
+});
+
 export const BuildUnitIntentSchema = BaseIntentSchema.extend({
   type: z.literal("build_unit"),
   unit: z.enum(UnitType),
   tile: z.number(),
 });
 
+// Builds the unit once it can be afforded, see Player.buildQueue.
+export const QueueBuildIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("queue_build"),
+  unit: z.enum(UnitType),
+  tile: z.number(),
+});
+
+export const MoveQueuedBuildIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("move_queued_build"),
+  buildId: z.number(),
+  index: z.number().int().min(0),
+});
+
+export const CancelQueuedBuildIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("cancel_queued_build"),
+  buildId: z.number(),
+});
+
 export const UpgradeStructureIntentSchema = BaseIntentSchema.extend({
   type: z.literal("upgrade_structure"),
   unit: z.enum(UnitType),
@@ -342,6 +428,18 @@ export const MoveWarshipIntentSchema = BaseIntentSchema.extend({
   tile: z.number(),
 });
 
+export const MAX_FLEET_SIZE = 50;
+export const MAX_FLEET_WAYPOINTS = 10;
+
+// Moves several warships through the waypoints in formation. With patrol the
+// warships keep cycling through the waypoints.
+export const FleetMoveIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("fleet_move"),
+  unitIds: z.array(z.number()).min(1).max(MAX_FLEET_SIZE),
+  waypoints: z.array(z.number()).min(1).max(MAX_FLEET_WAYPOINTS),
+  patrol: z.boolean(),
+});
+
 export const QuickChatIntentSchema = BaseIntentSchema.extend({
   type: z.literal("quick_chat"),
   recipient: ID,
@@ -359,6 +457,12 @@ export const KickPlayerIntentSchema = BaseIntentSchema.extend({
   target: ID,
 });
 
+// Handled by the server, only the private lobby creator can pause.
+export const TogglePauseIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("toggle_pause"),
+  paused: z.boolean(),
+});
+
 const IntentSchema = z.discriminatedUnion("type", [
   AttackIntentSchema,
   CancelAttackIntentSchema,
@@ -373,13 +477,19 @@ const IntentSchema = z.discriminatedUnion("type", [
   EmojiIntentSchema,
   DonateGoldIntentSchema,
   DonateTroopIntentSchema,
+  CedeTerritoryIntentSchema,
   BuildUnitIntentSchema,
   UpgradeStructureIntentSchema,
   EmbargoIntentSchema,
   MoveWarshipIntentSchema,
+  FleetMoveIntentSchema,
+  QueueBuildIntentSchema,
+  MoveQueuedBuildIntentSchema,
+  CancelQueuedBuildIntentSchema,
   QuickChatIntentSchema,
   AllianceExtensionIntentSchema,
   KickPlayerIntentSchema,
+  TogglePauseIntentSchema,
 ]);
 
 //
@@ -430,6 +540,7 @@ export const ServerPingMessageSchema = z.object({
 export const ServerPrestartMessageSchema = z.object({
   type: z.literal("prestart"),
   gameMap: z.nativeEnum(GameMapType),
+  customMap: GameConfigSchema.shape.customMap,
 });
 
 export const ServerStartGameMessageSchema = z.object({
@@ -454,6 +565,22 @@ export const ServerErrorSchema = z.object({
   message: z.string().optional(),
 });
 
+// No turns are sent while the game is paused.
+export const ServerPausedMessageSchema = z.object({
+  type: z.literal("paused"),
+  paused: z.boolean(),
+  // The client that paused or resumed the game.
+  clientID: ID,
+});
+
+// Chat between players waiting in the lobby, already censored by the server.
+export const ServerLobbyChatMessageSchema = z.object({
+  type: z.literal("lobby_chat"),
+  clientID: ID,
+  username: UsernameSchema,
+  message: SafeString,
+});
+
 export const ServerMessageSchema = z.discriminatedUnion("type", [
   ServerTurnMessageSchema,
   ServerPrestartMessageSchema,
@@ -461,6 +588,8 @@ export const ServerMessageSchema = z.discriminatedUnion("type", [
   ServerPingMessageSchema,
   ServerDesyncSchema,
   ServerErrorSchema,
+  ServerPausedMessageSchema,
+  ServerLobbyChatMessageSchema,
 ]);
 
 //
@@ -494,6 +623,14 @@ export const ClientIntentMessageSchema = z.object({
   intent: IntentSchema,
 });
 
+export const MAX_LOBBY_CHAT_LENGTH = 200;
+
+// Only accepted before the game starts.
+export const ClientLobbyChatMessageSchema = z.object({
+  type: z.literal("lobby_chat"),
+  message: SafeString.min(1).max(MAX_LOBBY_CHAT_LENGTH),
+});
+
 // WARNING: never send this message to clients.
 export const ClientJoinMessageSchema = z.object({
   type: z.literal("join"),
@@ -504,6 +641,8 @@ export const ClientJoinMessageSchema = z.object({
   username: UsernameSchema,
   flag: FlagSchema,
   pattern: PatternSchema,
+  spectator: z.boolean().optional(), // Watch the game without playing.
+  codecVersion: z.number().optional(), // The BinaryCodec version, if any.
 });
 
 export const ClientMessageSchema = z.discriminatedUnion("type", [
@@ -513,6 +652,7 @@ export const ClientMessageSchema = z.discriminatedUnion("type", [
   ClientJoinMessageSchema,
   ClientLogMessageSchema,
   ClientHashSchema,
+  ClientLobbyChatMessageSchema,
 ]);
 
 //
@@ -525,6 +665,17 @@ export const PlayerRecordSchema = PlayerSchema.extend({
 });
 export type PlayerRecord = z.infer<typeof PlayerRecordSchema>;
 
+// The server produces no turns while paused, so replays skip the span on
+// their own. It is recorded to show where the game was paused.
+export const PauseSpanSchema = z.object({
+  // Number of turns executed when the game was paused.
+  turn: z.number(),
+  start: z.number(),
+  end: z.number(),
+  clientID: ID,
+});
+export type PauseSpan = z.infer<typeof PauseSpanSchema>;
+
 export const GameEndInfoSchema = GameStartInfoSchema.extend({
   players: PlayerRecordSchema.array(),
   start: z.number(),
@@ -532,6 +683,7 @@ export const GameEndInfoSchema = GameStartInfoSchema.extend({
   duration: z.number().nonnegative(),
   num_turns: z.number(),
   winner: WinnerSchema,
+  pauses: PauseSpanSchema.array().optional(),
 });
 export type GameEndInfo = z.infer<typeof GameEndInfoSchema>;
 
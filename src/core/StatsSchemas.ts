@@ -75,6 +75,10 @@ export const BOMB_INDEX_LAUNCH = 0; // Bombs launched
 export const BOMB_INDEX_LAND = 1; // Bombs landed
 export const BOMB_INDEX_INTERCEPT = 2; // Bombs intercepted
 
+// Cessions
+export const CESSION_INDEX_SENT = 0; // Tiles ceded to allies
+export const CESSION_INDEX_RECV = 1; // Tiles received from allies
+
 // Gold
 export const GOLD_INDEX_WORK = 0; // Gold earned by workers
 export const GOLD_INDEX_WAR = 1; // Gold earned by conquering players
@@ -103,6 +107,7 @@ export const PlayerStatsSchema = z
     betrayals: BigIntStringSchema.optional(),
     boats: z.partialRecord(BoatUnitSchema, AtLeastOneNumberSchema).optional(),
     bombs: z.partialRecord(BombUnitSchema, AtLeastOneNumberSchema).optional(),
+    cessions: AtLeastOneNumberSchema.optional(),
     gold: AtLeastOneNumberSchema.optional(),
     units: z.partialRecord(OtherUnitSchema, AtLeastOneNumberSchema).optional(),
   })
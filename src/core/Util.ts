@@ -6,6 +6,7 @@ import {
   GameConfig,
   GameID,
   GameRecord,
+  PauseSpan,
   PlayerRecord,
   Turn,
   Winner,
@@ -160,6 +161,7 @@ export function createGameRecord(
   end: number,
   winner: Winner,
   serverConfig: ServerConfig,
+  pauses: PauseSpan[] = [],
 ): GameRecord {
   const duration = Math.floor((end - start) / 1000);
   const version = "v0.0.2";
@@ -180,6 +182,7 @@ export function createGameRecord(
       duration,
       num_turns,
       winner,
+      pauses: pauses.length > 0 ? pauses : undefined,
     },
     version,
     gitCommit,
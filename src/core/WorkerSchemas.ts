@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { GameConfigSchema } from "./Schemas";
+import { CustomMapManifestSchema, GameConfigSchema } from "./Schemas";
 
 export const CreateGameInputSchema = GameConfigSchema.or(
   z
@@ -8,4 +8,18 @@ export const CreateGameInputSchema = GameConfigSchema.or(
     .transform((val) => undefined),
 );
 
-export const GameInputSchema = GameConfigSchema.partial();
+export const GameInputSchema = GameConfigSchema.partial().extend({
+  // null switches back to the built-in map.
+  customMap: GameConfigSchema.shape.customMap.nullable(),
+  // null turns capital mode off.
+  capitalMode: GameConfigSchema.shape.capitalMode.nullable(),
+});
+export type GameInput = z.infer<typeof GameInputSchema>;
+
+// A map package uploaded by the host of a private lobby.
+export const CustomMapUploadSchema = z.object({
+  manifest: CustomMapManifestSchema,
+  // Base64 encoded PNG.
+  terrain: z.base64().max(20_000_000),
+});
+export type CustomMapUpload = z.infer<typeof CustomMapUploadSchema>;
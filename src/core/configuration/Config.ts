@@ -26,6 +26,11 @@ export enum GameEnv {
   Prod,
 }
 
+export enum ArchiveStorageType {
+  R2 = "r2",
+  Local = "local",
+}
+
 export interface ServerConfig {
   turnIntervalMs(): number;
   gameCreationRate(): number;
@@ -48,6 +53,11 @@ export interface ServerConfig {
   r2Endpoint(): string;
   r2AccessKey(): string;
   r2SecretKey(): string;
+  archiveStorage(): ArchiveStorageType;
+  // Directory used by the local archive storage.
+  archiveDir(): string;
+  // Directory the game server loads maps from to simulate games.
+  mapsDir(): string;
   otelEndpoint(): string;
   otelAuthHeader(): string;
   otelEnabled(): boolean;
@@ -84,6 +94,10 @@ export interface Config {
   infiniteGold(): boolean;
   infiniteTroops(): boolean;
   instantBuild(): boolean;
+  fogOfWar(): boolean;
+  // Distance in tiles around friendly territory and vision units that is
+  // revealed in fog of war games.
+  fogOfWarVisionRadius(): number;
   numSpawnPhaseTurns(): number;
   userSettings(): UserSettings;
   playerTeams(): TeamCountConfig;
@@ -127,6 +141,9 @@ export interface Config {
   emojiMessageDuration(): Tick;
   donateCooldown(): Tick;
   defaultDonationAmount(sender: Player): number;
+  cessionCooldown(): Tick;
+  // Most tiles that can be ceded at once.
+  cessionMaxTiles(): number;
   unitInfo(type: UnitType): UnitInfo;
   tradeShipGold(dist: number, numPorts: number): Gold;
   tradeShipSpawnRate(numberOfPorts: number): number;
@@ -151,6 +168,13 @@ export interface Config {
   // 0-1
   traitorDefenseDebuff(): number;
   traitorDuration(): number;
+  capitalMode(): boolean;
+  capitalAnnexesDisconnected(): boolean;
+  // 0-1, share of the gold the owner loses to the capturing player.
+  capitalCaptureGoldLoss(): number;
+  // Multiplies troop growth while the debuff lasts.
+  capitalCaptureTroopGrowth(): number;
+  capitalCaptureDebuffDuration(): Tick;
   nukeMagnitudes(unitType: UnitType): NukeMagnitude;
   // Number of tiles destroyed to break an alliance
   nukeAllianceBreakThreshold(): number;
@@ -180,6 +204,8 @@ export interface Theme {
   terrainColor(gm: GameMap, tile: TileRef): Colord;
   backgroundColor(): Colord;
   falloutColor(): Colord;
+  // Covers tiles hidden by fog of war.
+  fogColor(): Colord;
   font(): string;
   textColor(playerInfo: PlayerView): string;
   // unit color for alternate view
@@ -22,10 +22,18 @@ import {
 import { TileRef } from "../game/GameMap";
 import { PlayerView } from "../game/GameView";
 import { UserSettings } from "../game/UserSettings";
+import { CostRuleType, GameRules, NukeRuleType } from "../RulesSchemas";
 import { GameConfig, GameID, TeamCountConfig } from "../Schemas";
 import { NukeType } from "../StatsSchemas";
 import { assertNever, simpleHash, within } from "../Util";
-import { Config, GameEnv, NukeMagnitude, ServerConfig, Theme } from "./Config";
+import {
+  ArchiveStorageType,
+  Config,
+  GameEnv,
+  NukeMagnitude,
+  ServerConfig,
+  Theme,
+} from "./Config";
 import { PastelTheme } from "./PastelTheme";
 import { PastelThemeDark } from "./PastelThemeDark";
 
@@ -149,6 +157,17 @@ export abstract class DefaultServerConfig implements ServerConfig {
   r2Bucket(): string {
     return process.env.R2_BUCKET ?? "";
   }
+  archiveStorage(): ArchiveStorageType {
+    return process.env.ARCHIVE_STORAGE === ArchiveStorageType.Local
+      ? ArchiveStorageType.Local
+      : ArchiveStorageType.R2;
+  }
+  archiveDir(): string {
+    return process.env.ARCHIVE_DIR ?? "archive";
+  }
+  mapsDir(): string {
+    return process.env.MAPS_DIR ?? "static/maps";
+  }
 
   adminHeader(): string {
     return "x-admin-key";
@@ -239,16 +258,35 @@ export class DefaultConfig implements Config {
     return 0.8;
   }
   traitorDuration(): number {
-    return 30 * 10; // 30 seconds
+    return (this.rules().traitorDuration ?? 30) * 10; // 30 seconds
   }
   spawnImmunityDuration(): Tick {
-    return 5 * 10;
+    return (this.rules().spawnImmunityDuration ?? 5) * 10;
+  }
+  capitalMode(): boolean {
+    return this._gameConfig.capitalMode !== undefined;
+  }
+  capitalAnnexesDisconnected(): boolean {
+    return this._gameConfig.capitalMode?.annexDisconnected ?? false;
+  }
+  capitalCaptureGoldLoss(): number {
+    return 0.5;
+  }
+  capitalCaptureTroopGrowth(): number {
+    return 0.5;
+  }
+  capitalCaptureDebuffDuration(): Tick {
+    return 120 * 10; // 2 minutes
   }
 
   gameConfig(): GameConfig {
     return this._gameConfig;
   }
 
+  private rules(): GameRules {
+    return this._gameConfig.rules ?? {};
+  }
+
   serverConfig(): ServerConfig {
     return this._serverConfig;
   }
@@ -319,6 +357,12 @@ export class DefaultConfig implements Config {
   instantBuild(): boolean {
     return this._gameConfig.instantBuild;
   }
+  fogOfWar(): boolean {
+    return this._gameConfig.fogOfWar ?? false;
+  }
+  fogOfWarVisionRadius(): number {
+    return 40;
+  }
   infiniteGold(): boolean {
     return this._gameConfig.infiniteGold;
   }
@@ -483,6 +527,11 @@ export class DefaultConfig implements Config {
           territoryBound: false,
           experimental: true,
         };
+      case UnitType.Capital:
+        return {
+          cost: () => 0n,
+          territoryBound: true,
+        };
       default:
         assertNever(type);
     }
@@ -497,7 +546,9 @@ export class DefaultConfig implements Config {
         return 0n;
       }
       const numUnits = Math.min(p.unitsOwned(type), p.unitsConstructed(type));
-      return BigInt(costFn(numUnits));
+      const multiplier =
+        this.rules().unitCostMultipliers?.[type as CostRuleType] ?? 1;
+      return BigInt(Math.round(costFn(numUnits) * multiplier));
     };
   }
 
@@ -507,6 +558,12 @@ export class DefaultConfig implements Config {
   donateCooldown(): Tick {
     return 10 * 10;
   }
+  cessionCooldown(): Tick {
+    return 60 * 10;
+  }
+  cessionMaxTiles(): number {
+    return 2000;
+  }
   emojiMessageDuration(): Tick {
     return 5 * 10;
   }
@@ -520,23 +577,27 @@ export class DefaultConfig implements Config {
     return 15 * 10;
   }
   allianceRequestCooldown(): Tick {
-    return 30 * 10;
+    return (this.rules().allianceRequestCooldown ?? 30) * 10;
   }
   allianceDuration(): Tick {
-    return 300 * 10; // 5 minutes.
+    return (this.rules().allianceDuration ?? 300) * 10; // 5 minutes.
   }
   temporaryEmbargoDuration(): Tick {
     return 300 * 10; // 5 minutes.
   }
 
   percentageTilesOwnedToWin(): number {
+    const rule = this.rules().percentageTilesOwnedToWin;
+    if (rule !== undefined) {
+      return rule;
+    }
     if (this._gameConfig.gameMode === GameMode.Team) {
       return 95;
     }
     return 80;
   }
   boatMaxNumber(): number {
-    return 3;
+    return this.rules().boatMaxNumber ?? 3;
   }
   numSpawnPhaseTurns(): number {
     return this._gameConfig.gameType === GameType.Singleplayer ? 100 : 300;
@@ -757,6 +818,10 @@ export class DefaultConfig implements Config {
       toAdd *= 0.6;
     }
 
+    if (player.hasCapitalDebuff()) {
+      toAdd *= this.capitalCaptureTroopGrowth();
+    }
+
     if (player.type() === PlayerType.FakeHuman) {
       switch (this._gameConfig.difficulty) {
         case Difficulty.Easy:
@@ -782,6 +847,10 @@ export class DefaultConfig implements Config {
   }
 
   nukeMagnitudes(unitType: UnitType): NukeMagnitude {
+    const rule = this.rules().nukeMagnitudes?.[unitType as NukeRuleType];
+    if (rule !== undefined) {
+      return rule;
+    }
     switch (unitType) {
       case UnitType.MIRVWarhead:
         return { inner: 12, outer: 18 };
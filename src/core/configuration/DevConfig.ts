@@ -1,7 +1,7 @@
 import { UnitInfo, UnitType } from "../game/Game";
 import { UserSettings } from "../game/UserSettings";
 import { GameConfig } from "../Schemas";
-import { GameEnv, ServerConfig } from "./Config";
+import { ArchiveStorageType, GameEnv, ServerConfig } from "./Config";
 import { DefaultConfig, DefaultServerConfig } from "./DefaultConfig";
 
 export class DevServerConfig extends DefaultServerConfig {
@@ -35,6 +35,18 @@ export class DevServerConfig extends DefaultServerConfig {
     return "DEV";
   }
 
+  // Dev boxes usually have no R2 credentials.
+  archiveStorage(): ArchiveStorageType {
+    return process.env.ARCHIVE_STORAGE === ArchiveStorageType.R2
+      ? ArchiveStorageType.R2
+      : ArchiveStorageType.Local;
+  }
+
+  // The dev client is served by webpack, so static/ may not exist.
+  mapsDir(): string {
+    return process.env.MAPS_DIR ?? "resources/maps";
+  }
+
   domain(): string {
     return "localhost";
   }
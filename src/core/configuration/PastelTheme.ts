@@ -26,6 +26,7 @@ export class PastelTheme implements Theme {
     colord({ r: 125, g: 255, b: 75 }), // Warmer tint
     colord({ r: 115, g: 250, b: 68 }), // Cooler tint
   ];
+  private fog = colord({ r: 40, g: 40, b: 48 });
   private water = colord({ r: 70, g: 132, b: 180 });
   private shorelineWater = colord({ r: 100, g: 143, b: 255 });
 
@@ -149,6 +150,10 @@ export class PastelTheme implements Theme {
     return this.rand.randElement(this.falloutColors);
   }
 
+  fogColor(): Colord {
+    return this.fog;
+  }
+
   font(): string {
     return "Overpass, sans-serif";
   }
@@ -26,6 +26,7 @@ export class PastelThemeDark implements Theme {
     colord({ r: 125, g: 255, b: 75 }), // Warmer tint
     colord({ r: 115, g: 250, b: 68 }), // Cooler tint
   ];
+  private fog = colord({ r: 12, g: 12, b: 16 });
   private water = colord({ r: 14, g: 11, b: 30 });
   private shorelineWater = colord({ r: 50, g: 50, b: 50 });
 
@@ -151,6 +152,10 @@ export class PastelThemeDark implements Theme {
     return this.rand.randElement(this.falloutColors);
   }
 
+  fogColor(): Colord {
+    return this.fog;
+  }
+
   font(): string {
     return "Overpass, sans-serif";
   }
@@ -0,0 +1,81 @@
+import { Execution, Game, Player, UnitType } from "../game/Game";
+import { TileRef } from "../game/GameMap";
+
+export class QueueBuildExecution implements Execution {
+  constructor(
+    private readonly player: Player,
+    private readonly unit: UnitType,
+    private readonly tile: TileRef,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    if (mg.config().isUnitDisabled(this.unit)) {
+      console.warn(`cannot queue ${this.unit} because it is disabled`);
+      return;
+    }
+    if (!mg.isValidRef(this.tile)) {
+      console.warn(`cannot queue ${this.unit} at invalid tile ${this.tile}`);
+      return;
+    }
+    if (this.player.queueBuild(this.unit, this.tile) === false) {
+      console.warn(`build queue of ${this.player.name()} is full`);
+    }
+  }
+
+  tick(ticks: number): void {}
+
+  isActive(): boolean {
+    return false;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
+
+export class MoveQueuedBuildExecution implements Execution {
+  constructor(
+    private readonly player: Player,
+    private readonly buildId: number,
+    private readonly index: number,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    if (!this.player.moveQueuedBuild(this.buildId, this.index)) {
+      console.warn(`queued build ${this.buildId} not found`);
+    }
+  }
+
+  tick(ticks: number): void {}
+
+  isActive(): boolean {
+    return false;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
+
+export class CancelQueuedBuildExecution implements Execution {
+  constructor(
+    private readonly player: Player,
+    private readonly buildId: number,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    if (!this.player.removeQueuedBuild(this.buildId)) {
+      console.warn(`queued build ${this.buildId} not found`);
+    }
+  }
+
+  tick(ticks: number): void {}
+
+  isActive(): boolean {
+    return false;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
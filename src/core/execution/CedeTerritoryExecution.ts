@@ -0,0 +1,98 @@
+import { Execution, Game, Player, PlayerID, UnitType } from "../game/Game";
+import { TileRef } from "../game/GameMap";
+
+export class CedeTerritoryExecution implements Execution {
+  private recipient: Player;
+  private mg: Game;
+
+  private active = true;
+
+  constructor(
+    private sender: Player,
+    private recipientID: PlayerID,
+    private tile: TileRef,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    this.mg = mg;
+    if (!mg.hasPlayer(this.recipientID)) {
+      console.warn(
+        `CedeTerritoryExecution recipient ${this.recipientID} not found`,
+      );
+      this.active = false;
+      return;
+    }
+    if (!mg.isValidRef(this.tile)) {
+      console.warn(`CedeTerritoryExecution tile ${this.tile} not valid`);
+      this.active = false;
+      return;
+    }
+
+    this.recipient = mg.player(this.recipientID);
+  }
+
+  tick(ticks: number): void {
+    const start = this.startTile();
+    if (
+      start === null ||
+      !this.sender.canCedeTerritory(this.recipient) ||
+      !this.sender.cedeTerritory(this.recipient, this.region(start))
+    ) {
+      console.warn(
+        `cannot cede territory from ${this.sender.name()} to ${this.recipient.name()}`,
+      );
+    }
+    this.active = false;
+  }
+
+  // The tile itself when the sender owns it, otherwise the closest border
+  // tile of the sender.
+  private startTile(): TileRef | null {
+    if (this.mg.owner(this.tile) === this.sender) {
+      return this.tile;
+    }
+    let closest: TileRef | null = null;
+    let closestDist = Infinity;
+    for (const border of this.sender.borderTiles()) {
+      const dist = this.mg.euclideanDistSquared(border, this.tile);
+      if (dist < closestDist) {
+        closest = border;
+        closestDist = dist;
+      }
+    }
+    return closest;
+  }
+
+  // Breadth first so the region grows evenly around the start tile and stays
+  // connected when it is cut off at the size limit. The sender's capital is
+  // walked through but left out.
+  private region(start: TileRef): TileRef[] {
+    const maxTiles = this.mg.config().cessionMaxTiles();
+    const capitals = new Set(
+      this.sender.units(UnitType.Capital).map((u) => u.tile()),
+    );
+    const region: TileRef[] = [];
+    const queue: TileRef[] = [start];
+    const seen = new Set<TileRef>(queue);
+    for (let i = 0; i < queue.length && region.length < maxTiles; i++) {
+      if (!capitals.has(queue[i])) {
+        region.push(queue[i]);
+      }
+      for (const n of this.mg.neighbors(queue[i])) {
+        if (!seen.has(n) && this.mg.owner(n) === this.sender) {
+          seen.add(n);
+          queue.push(n);
+        }
+      }
+    }
+    return region;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
@@ -9,12 +9,19 @@ import { BreakAllianceExecution } from "./alliance/BreakAllianceExecution";
 import { AttackExecution } from "./AttackExecution";
 import { BoatRetreatExecution } from "./BoatRetreatExecution";
 import { BotSpawner } from "./BotSpawner";
+import {
+  CancelQueuedBuildExecution,
+  MoveQueuedBuildExecution,
+  QueueBuildExecution,
+} from "./BuildQueueExecution";
+import { CedeTerritoryExecution } from "./CedeTerritoryExecution";
 import { ConstructionExecution } from "./ConstructionExecution";
 import { DonateGoldExecution } from "./DonateGoldExecution";
 import { DonateTroopsExecution } from "./DonateTroopExecution";
 import { EmbargoExecution } from "./EmbargoExecution";
 import { EmojiExecution } from "./EmojiExecution";
 import { FakeHumanExecution } from "./FakeHumanExecution";
+import { FleetMoveExecution } from "./FleetMoveExecution";
 import { MarkDisconnectedExecution } from "./MarkDisconnectedExecution";
 import { MoveWarshipExecution } from "./MoveWarshipExecution";
 import { NoOpExecution } from "./NoOpExecution";
@@ -32,7 +39,7 @@ export class Executor {
   constructor(
     private mg: Game,
     private gameID: GameID,
-    private clientID: ClientID,
+    private clientID: ClientID | null,
   ) {
     // Add one to avoid id collisions with bots.
     this.random = new PseudoRandom(simpleHash(gameID) + 1);
@@ -65,6 +72,13 @@ export class Executor {
         return new BoatRetreatExecution(player, intent.unitID);
       case "move_warship":
         return new MoveWarshipExecution(player, intent.unitId, intent.tile);
+      case "fleet_move":
+        return new FleetMoveExecution(
+          player,
+          intent.unitIds,
+          intent.waypoints,
+          intent.patrol,
+        );
       case "spawn":
         return new SpawnExecution(player.info(), intent.tile);
       case "boat":
@@ -97,10 +111,26 @@ export class Executor {
         );
       case "donate_gold":
         return new DonateGoldExecution(player, intent.recipient, intent.gold);
+      case "cede_territory":
+        return new CedeTerritoryExecution(
+          player,
+          intent.recipient,
+          intent.tile,
+        );
       case "embargo":
         return new EmbargoExecution(player, intent.targetID, intent.action);
       case "build_unit":
         return new ConstructionExecution(player, intent.unit, intent.tile);
+      case "queue_build":
+        return new QueueBuildExecution(player, intent.unit, intent.tile);
+      case "move_queued_build":
+        return new MoveQueuedBuildExecution(
+          player,
+          intent.buildId,
+          intent.index,
+        );
+      case "cancel_queued_build":
+        return new CancelQueuedBuildExecution(player, intent.buildId);
       case "allianceExtension": {
         return new AllianceExtensionExecution(player, intent.recipient);
       }
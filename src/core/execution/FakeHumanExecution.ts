@@ -25,6 +25,14 @@ import { SpawnExecution } from "./SpawnExecution";
 import { TransportShipExecution } from "./TransportShipExecution";
 import { closestTwoTiles } from "./Util";
 import { BotBehavior } from "./utils/BotBehavior";
+import {
+  NationStrategy,
+  nationStrategy,
+  pickPersonality,
+} from "./utils/NationStrategy";
+
+// Capitals this close to the border are worth attacking before anything else.
+const CAPITAL_ATTACK_RANGE = 40;
 
 export class FakeHumanExecution implements Execution {
   private active = true;
@@ -38,6 +46,7 @@ export class FakeHumanExecution implements Execution {
   private triggerRatio: number;
   private reserveRatio: number;
   private expandRatio: number;
+  private strategy: NationStrategy;
 
   private lastEmojiSent = new Map<Player, Tick>();
   private lastNukeSent: [Tick, TileRef][] = [];
@@ -47,15 +56,14 @@ export class FakeHumanExecution implements Execution {
   constructor(
     gameID: GameID,
     private nation: Nation,
+    // Overrides the personality of the nation.
+    private strategyOverride?: NationStrategy,
   ) {
     this.random = new PseudoRandom(
       simpleHash(nation.playerInfo.id) + simpleHash(gameID),
     );
     this.attackRate = this.random.nextInt(40, 80);
     this.attackTick = this.random.nextInt(0, this.attackRate);
-    this.triggerRatio = this.random.nextInt(60, 90) / 100;
-    this.reserveRatio = this.random.nextInt(30, 60) / 100;
-    this.expandRatio = this.random.nextInt(15, 25) / 100;
     this.heckleEmoji = ["🤡", "😡"].map((e) => flattenedEmojiTable.indexOf(e));
   }
 
@@ -64,6 +72,20 @@ export class FakeHumanExecution implements Execution {
     if (this.random.chance(10)) {
       // this.isTraitor = true
     }
+    // The difficulty is unavailable in the constructor
+    this.strategy =
+      this.strategyOverride ??
+      nationStrategy(
+        this.nation.personality ??
+          pickPersonality(this.random, mg.config().gameConfig().difficulty),
+      );
+    this.triggerRatio = this.randomRatio(this.strategy.triggerRatio);
+    this.reserveRatio = this.randomRatio(this.strategy.reserveRatio);
+    this.expandRatio = this.randomRatio(this.strategy.expandRatio);
+  }
+
+  private randomRatio([min, max]: [number, number]): number {
+    return this.random.nextInt(min, max) / 100;
   }
 
   private updateRelationsFromEmbargos() {
@@ -146,6 +168,7 @@ export class FakeHumanExecution implements Execution {
         this.triggerRatio,
         this.reserveRatio,
         this.expandRatio,
+        this.strategy.shouldAcceptAlliance,
       );
 
       // Send an attack on the first tick
@@ -177,7 +200,7 @@ export class FakeHumanExecution implements Execution {
       }
       return;
     }
-    if (this.random.chance(20)) {
+    if (this.random.chance(this.strategy.boatChance)) {
       this.sendBoatRandomly();
       return;
     }
@@ -194,8 +217,7 @@ export class FakeHumanExecution implements Execution {
       .filter((o) => o.isPlayer())
       .sort((a, b) => a.troops() - b.troops());
 
-    // 5% chance to send a random alliance request
-    if (this.random.chance(20)) {
+    if (this.random.chance(this.strategy.allianceRequestChance)) {
       const toAlly = this.random.randElement(enemies);
       if (this.player.canSendAllianceRequest(toAlly)) {
         this.player.createAllianceRequest(toAlly);
@@ -203,6 +225,12 @@ export class FakeHumanExecution implements Execution {
       }
     }
 
+    const capitalTarget = this.capitalTarget(enemyborder);
+    if (capitalTarget !== null && this.shouldAttack(capitalTarget)) {
+      this.behavior.sendAttack(capitalTarget);
+      return;
+    }
+
     // 50-50 attack weakest player vs random player
     const toAttack = this.random.chance(2)
       ? enemies[0]
@@ -213,11 +241,15 @@ export class FakeHumanExecution implements Execution {
     }
 
     this.behavior.forgetOldEnemies();
-    this.behavior.assistAllies();
+    if (this.strategy.assistsAllies) {
+      this.behavior.assistAllies();
+    }
     const enemy = this.behavior.selectEnemy();
     if (!enemy) return;
     this.maybeSendEmoji(enemy);
-    this.maybeSendNuke(enemy);
+    if (this.strategy.usesNukes) {
+      this.maybeSendNuke(enemy);
+    }
     if (this.player.sharesBorderWith(enemy)) {
       this.behavior.sendAttack(enemy);
     } else {
@@ -225,6 +257,36 @@ export class FakeHumanExecution implements Execution {
     }
   }
 
+  // The neighbor whose capital is closest to the border, if any is in range.
+  private capitalTarget(enemyBorder: TileRef[]): Player | null {
+    if (this.player === null) throw new Error("not initialized");
+    if (!this.mg.config().capitalMode()) {
+      return null;
+    }
+    let target: Player | null = null;
+    let targetDist = CAPITAL_ATTACK_RANGE * CAPITAL_ATTACK_RANGE;
+    const neighbors = new Set(enemyBorder.map((t) => this.mg.owner(t)));
+    for (const neighbor of neighbors) {
+      if (!neighbor.isPlayer() || this.player.isFriendly(neighbor)) {
+        continue;
+      }
+      for (const capital of neighbor.units(UnitType.Capital)) {
+        const closest = closestTwoTiles(
+          this.mg,
+          [capital.tile()],
+          enemyBorder.filter((t) => this.mg.owner(t) === neighbor),
+        );
+        if (closest === null) continue;
+        const dist = this.mg.euclideanDistSquared(closest.x, closest.y);
+        if (dist < targetDist) {
+          target = neighbor;
+          targetDist = dist;
+        }
+      }
+    }
+    return target;
+  }
+
   private shouldAttack(other: Player): boolean {
     if (this.player === null) throw new Error("not initialized");
     if (this.player.isOnSameTeam(other)) {
@@ -420,12 +482,10 @@ export class FakeHumanExecution implements Execution {
   private handleUnits() {
     const player = this.player;
     if (player === null) return;
-    return (
-      this.maybeSpawnStructure(UnitType.Port, 1) ||
-      this.maybeSpawnStructure(UnitType.City, 2) ||
-      this.maybeSpawnWarship() ||
-      this.maybeSpawnStructure(UnitType.Factory, 1) ||
-      this.maybeSpawnStructure(UnitType.MissileSilo, 1)
+    return this.strategy.buildOrder.some(({ type, max }) =>
+      type === UnitType.Warship
+        ? this.maybeSpawnWarship(max)
+        : this.maybeSpawnStructure(type, max),
     );
   }
 
@@ -451,17 +511,24 @@ export class FakeHumanExecution implements Execution {
 
   private structureSpawnTile(type: UnitType): TileRef | null {
     if (this.player === null) throw new Error("not initialized");
-    const tiles =
-      type === UnitType.Port
-        ? Array.from(this.player.borderTiles()).filter((t) =>
-            this.mg.isOceanShore(t),
-          )
-        : Array.from(this.player.tiles());
+    let tiles: TileRef[];
+    switch (type) {
+      case UnitType.Port:
+        tiles = Array.from(this.player.borderTiles()).filter((t) =>
+          this.mg.isOceanShore(t),
+        );
+        break;
+      case UnitType.DefensePost:
+        tiles = Array.from(this.player.borderTiles());
+        break;
+      default:
+        tiles = Array.from(this.player.tiles());
+    }
     if (tiles.length === 0) return null;
     return this.random.randElement(tiles);
   }
 
-  private maybeSpawnWarship(): boolean {
+  private maybeSpawnWarship(maxNum: number): boolean {
     if (this.player === null) throw new Error("not initialized");
     if (!this.random.chance(50)) {
       return false;
@@ -470,7 +537,7 @@ export class FakeHumanExecution implements Execution {
     const ships = this.player.units(UnitType.Warship);
     if (
       ports.length > 0 &&
-      ships.length === 0 &&
+      ships.length < maxNum &&
       this.player.gold() > this.cost(UnitType.Warship)
     ) {
       const port = this.random.randElement(ports);
@@ -0,0 +1,82 @@
+import { Execution, Game, Player, UnitType } from "../game/Game";
+import { TileRef } from "../game/GameMap";
+
+// Tiles between warships of a fleet.
+const FORMATION_SPACING = 3;
+
+export class FleetMoveExecution implements Execution {
+  constructor(
+    private readonly owner: Player,
+    private readonly unitIds: number[],
+    private readonly waypoints: TileRef[],
+    private readonly patrol: boolean,
+  ) {}
+
+  init(mg: Game, ticks: number): void {
+    if (this.waypoints.some((tile) => !mg.isValidRef(tile))) {
+      console.warn(`FleetMoveExecution: waypoints ${this.waypoints} not valid`);
+      return;
+    }
+    const ids = new Set(this.unitIds);
+    const warships = this.owner
+      .units(UnitType.Warship)
+      .filter((u) => ids.has(u.id()) && u.isActive());
+    if (warships.length === 0) {
+      console.warn("FleetMoveExecution: no warships found");
+      return;
+    }
+
+    const offsets = formationOffsets(warships.length);
+    warships.forEach((warship, i) => {
+      const route = this.waypoints.map((waypoint) =>
+        formationTile(mg, waypoint, offsets[i]),
+      );
+      warship.setPatrolRoute(route, this.patrol);
+      warship.setTargetTile(undefined);
+    });
+  }
+
+  tick(ticks: number): void {}
+
+  isActive(): boolean {
+    return false;
+  }
+
+  activeDuringSpawnPhase(): boolean {
+    return false;
+  }
+}
+
+// Offsets of the formation slots, filling squares around the waypoint from
+// the inside out.
+function formationOffsets(count: number): { x: number; y: number }[] {
+  const offsets = [{ x: 0, y: 0 }];
+  for (let ring = 1; offsets.length < count; ring++) {
+    for (let dx = -ring; dx <= ring; dx++) {
+      for (let dy = -ring; dy <= ring; dy++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) === ring) {
+          offsets.push({
+            x: dx * FORMATION_SPACING,
+            y: dy * FORMATION_SPACING,
+          });
+        }
+      }
+    }
+  }
+  return offsets.slice(0, count);
+}
+
+// The slot of a warship at the waypoint, or the waypoint itself when the slot
+// is not on the ocean.
+function formationTile(
+  mg: Game,
+  waypoint: TileRef,
+  offset: { x: number; y: number },
+): TileRef {
+  const x = mg.x(waypoint) + offset.x;
+  const y = mg.y(waypoint) + offset.y;
+  if (!mg.isValidCoord(x, y) || !mg.isOcean(mg.ref(x, y))) {
+    return waypoint;
+  }
+  return mg.ref(x, y);
+}
@@ -25,6 +25,7 @@ export class MoveWarshipExecution implements Execution {
       return;
     }
     warship.setPatrolTile(this.position);
+    warship.setPatrolRoute([], false);
     warship.setTargetTile(undefined);
   }
 
@@ -3,14 +3,17 @@ import { Execution, Game, Player, UnitType } from "../game/Game";
 import { GameImpl } from "../game/GameImpl";
 import { GameMap, TileRef } from "../game/GameMap";
 import { calculateBoundingBox, getMode, inscribed, simpleHash } from "../Util";
+import { ConstructionExecution } from "./ConstructionExecution";
 
 export class PlayerExecution implements Execution {
   private readonly ticksPerClusterCalc = 20;
+  private readonly ticksBetweenQueuedBuilds = 5;
 
   private config: Config;
   private lastCalc = 0;
   private mg: Game;
   private active = true;
+  private lastQueuedBuild = -Infinity;
 
   constructor(private player: Player) {}
 
@@ -32,7 +35,15 @@ export class PlayerExecution implements Execution {
       if (u.info().territoryBound) {
         if (tileOwner.isPlayer()) {
           if (tileOwner !== this.player) {
-            this.mg!.player(tileOwner.id()).captureUnit(u);
+            const capturing = this.mg!.player(tileOwner.id());
+            if (u.type() !== UnitType.Capital) {
+              capturing.captureUnit(u);
+            } else if (capturing.isFriendly(this.player)) {
+              // Handed over peacefully, nothing to capture.
+              u.delete(false);
+            } else {
+              this.mg.conquerCapital(capturing, u);
+            }
           }
         } else {
           u.delete();
@@ -84,6 +95,8 @@ export class PlayerExecution implements Execution {
       }
     }
 
+    this.startQueuedBuild(ticks);
+
     if (ticks - this.lastCalc > this.ticksPerClusterCalc) {
       if (this.player.lastTileChange() > this.lastCalc) {
         this.lastCalc = ticks;
@@ -97,6 +110,30 @@ export class PlayerExecution implements Execution {
     }
   }
 
+  // Starts the first queued build that can be placed, unless the gold is
+  // needed for an earlier one. The executions of a build take its gold a few
+  // ticks later, so builds are started one at a time.
+  private startQueuedBuild(ticks: number) {
+    if (ticks - this.lastQueuedBuild < this.ticksBetweenQueuedBuilds) {
+      return;
+    }
+    for (const build of this.player.buildQueue()) {
+      const cost = this.mg.unitInfo(build.type).cost(this.player);
+      if (this.player.gold() < cost) {
+        return;
+      }
+      if (this.player.canBuild(build.type, build.tile) === false) {
+        continue;
+      }
+      this.player.removeQueuedBuild(build.id);
+      this.mg.addExecution(
+        new ConstructionExecution(this.player, build.type, build.tile),
+      );
+      this.lastQueuedBuild = ticks;
+      return;
+    }
+  }
+
   private removeClusters() {
     const clusters = this.calculateClusters();
     clusters.sort((a, b) => b.size - a.size);
@@ -1,4 +1,11 @@
-import { Execution, Game, Player, PlayerInfo, PlayerType } from "../game/Game";
+import {
+  Execution,
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { BotExecution } from "./BotExecution";
 import { PlayerExecution } from "./PlayerExecution";
@@ -42,6 +49,14 @@ export class SpawnExecution implements Execution {
       player.conquer(t);
     });
 
+    if (this.mg.config().capitalMode()) {
+      // Moves with the player when they pick a new spawn.
+      player.units(UnitType.Capital).forEach((u) => u.delete(false));
+      if (this.mg.owner(this.tile) === player) {
+        player.buildUnit(UnitType.Capital, this.tile, {});
+      }
+    }
+
     if (!player.hasSpawned()) {
       this.mg.addExecution(new PlayerExecution(player));
       if (player.type() === PlayerType.Bot) {
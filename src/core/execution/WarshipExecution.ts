@@ -66,7 +66,11 @@ export class WarshipExecution implements Execution {
       return;
     }
 
-    this.patrol();
+    if (this.warship.patrolRoute().length > 0) {
+      this.followRoute();
+    } else {
+      this.patrol();
+    }
 
     if (this.warship.targetUnit() !== undefined) {
       this.shootTarget();
@@ -200,6 +204,30 @@ export class WarshipExecution implements Execution {
     }
   }
 
+  private followRoute() {
+    const waypoint = this.warship.patrolRoute()[0];
+    const result = this.pathfinder.nextTile(this.warship.tile(), waypoint);
+    switch (result.type) {
+      case PathFindResultType.Completed:
+        this.warship.reachedWaypoint();
+        this.warship.setTargetTile(undefined);
+        this.warship.move(result.node);
+        break;
+      case PathFindResultType.NextTile:
+        this.warship.move(result.node);
+        break;
+      case PathFindResultType.Pending:
+        this.warship.touch();
+        break;
+      case PathFindResultType.PathNotFound:
+        // Skip waypoints that can't be reached instead of getting stuck.
+        console.warn(`path not found to waypoint`);
+        this.warship.reachedWaypoint();
+        this.warship.setTargetTile(undefined);
+        break;
+    }
+  }
+
   private patrol() {
     if (this.warship.targetTile() === undefined) {
       this.warship.setTargetTile(this.randomTile());
@@ -5,8 +5,19 @@ import {
   Game,
   GameMode,
   Player,
+  PlayerType,
   Team,
 } from "../game/Game";
+import { TileRef } from "../game/GameMap";
+import { GameUpdateType, VictoryStanding } from "../game/GameUpdates";
+import { hillCenter, hillTiles, victoryScore } from "../game/Victory";
+import { VictoryCondition } from "../RulesSchemas";
+
+const CHECK_INTERVAL = 10;
+const TICKS_PER_MINUTE = 600;
+
+// A player in free for all, or a team.
+type Contender = Player | Team;
 
 export class WinEvent implements GameEvent {
   constructor(public readonly winner: Player) {}
@@ -17,21 +28,186 @@ export class WinCheckExecution implements Execution {
 
   private mg: Game | null = null;
 
+  private hill: TileRef[] = [];
+  private hillHolder: Contender | null = null;
+  private hillHeldTicks = 0;
+  // Last standing needs someone to outlast, a lone contender never wins.
+  private mostContenders = 0;
+
   constructor() {}
 
   init(mg: Game, ticks: number) {
     this.mg = mg;
+    const condition = this.condition();
+    if (condition.type === "kingOfTheHill") {
+      const center = hillCenter(mg);
+      if (center !== null) {
+        this.hill = hillTiles(mg, center, condition.radius);
+      }
+    }
   }
 
   tick(ticks: number) {
-    if (ticks % 10 !== 0) {
+    if (ticks % CHECK_INTERVAL !== 0) {
       return;
     }
     if (this.mg === null) throw new Error("Not initialized");
-    if (this.mg.config().gameConfig().gameMode === GameMode.FFA) {
-      this.checkWinnerFFA();
+    const condition = this.condition();
+    switch (condition.type) {
+      case "tiles":
+        if (this.mg.config().gameConfig().gameMode === GameMode.FFA) {
+          this.checkWinnerFFA();
+        } else {
+          this.checkWinnerTeam();
+        }
+        break;
+      case "timeLimit":
+        this.checkTimeLimit(condition.minutes, (c) => this.tiles(c));
+        break;
+      case "points":
+        this.checkTimeLimit(condition.minutes, (c) => this.points(c));
+        break;
+      case "lastStanding":
+        this.checkLastStanding();
+        break;
+      case "kingOfTheHill":
+        this.checkKingOfTheHill(condition.holdMinutes * TICKS_PER_MINUTE);
+        break;
+    }
+  }
+
+  private condition(): VictoryCondition {
+    if (this.mg === null) throw new Error("Not initialized");
+    return this.mg.config().gameConfig().victoryCondition ?? { type: "tiles" };
+  }
+
+  // Alive players in free for all, teams with alive players otherwise. Bots
+  // never win.
+  private contenders(): Map<Contender, Player[]> {
+    if (this.mg === null) throw new Error("Not initialized");
+    const contenders = new Map<Contender, Player[]>();
+    const ffa = this.mg.config().gameConfig().gameMode === GameMode.FFA;
+    for (const player of this.mg.players()) {
+      if (player.type() === PlayerType.Bot) continue;
+      const team = player.team();
+      const contender = ffa ? player : team;
+      if (contender === null || contender === ColoredTeams.Bot) continue;
+      contenders.set(contender, [...(contenders.get(contender) ?? []), player]);
+    }
+    return contenders;
+  }
+
+  private name(contender: Contender): string {
+    return typeof contender === "string" ? contender : contender.displayName();
+  }
+
+  private tiles(players: Player[]): number {
+    return players.reduce((sum, p) => sum + p.numTilesOwned(), 0);
+  }
+
+  private points(players: Player[]): number {
+    if (this.mg === null) throw new Error("Not initialized");
+    const stats = this.mg.stats();
+    return players.reduce(
+      (sum, p) => sum + victoryScore(p, stats.getPlayerStats(p)),
+      0,
+    );
+  }
+
+  private ranked(
+    contenders: Map<Contender, Player[]>,
+    score: (players: Player[]) => number,
+  ): [Contender, number][] {
+    return Array.from(contenders, ([c, players]): [Contender, number] => [
+      c,
+      score(players),
+    ]).sort((a, b) => b[1] - a[1]);
+  }
+
+  private sendProgress(
+    ranked: [Contender, number][],
+    ticksLeft: number | null,
+    hill?: { holder: string | null; heldTicks: number; holdTicks: number },
+  ) {
+    if (this.mg === null) throw new Error("Not initialized");
+    const standings: VictoryStanding[] = ranked
+      .slice(0, 3)
+      .map(([c, score]) => ({ name: this.name(c), score }));
+    this.mg.addUpdate({
+      type: GameUpdateType.VictoryProgress,
+      ticksLeft,
+      standings,
+      remaining: ranked.length,
+      hill,
+    });
+  }
+
+  private win(winner: Contender) {
+    if (this.mg === null) throw new Error("Not initialized");
+    this.mg.setWinner(winner, this.mg.stats().stats());
+    console.log(`${this.name(winner)} has won the game`);
+    this.active = false;
+  }
+
+  private checkTimeLimit(
+    minutes: number,
+    score: (players: Player[]) => number,
+  ): void {
+    if (this.mg === null) throw new Error("Not initialized");
+    const elapsed = this.mg.ticks() - this.mg.config().numSpawnPhaseTurns();
+    const ticksLeft = Math.max(0, minutes * TICKS_PER_MINUTE - elapsed);
+    const ranked = this.ranked(this.contenders(), score);
+    this.sendProgress(ranked, ticksLeft);
+    if (ticksLeft === 0 && ranked.length > 0) {
+      this.win(ranked[0][0]);
+    }
+  }
+
+  private checkLastStanding(): void {
+    const ranked = this.ranked(this.contenders(), (p) => this.tiles(p));
+    this.sendProgress(ranked, null);
+    this.mostContenders = Math.max(this.mostContenders, ranked.length);
+    if (ranked.length === 1 && this.mostContenders >= 2) {
+      this.win(ranked[0][0]);
+    }
+  }
+
+  private checkKingOfTheHill(holdTicks: number): void {
+    if (this.mg === null) throw new Error("Not initialized");
+    const contenders = this.contenders();
+    const owners = new Map<Contender, number>();
+    for (const tile of this.hill) {
+      const owner = this.mg.owner(tile);
+      if (!owner.isPlayer()) continue;
+      const contender =
+        this.mg.config().gameConfig().gameMode === GameMode.FFA
+          ? owner
+          : owner.team();
+      if (contender === null || !contenders.has(contender)) continue;
+      owners.set(contender, (owners.get(contender) ?? 0) + 1);
+    }
+    const ranked = Array.from(contenders.keys(), (c): [Contender, number] => [
+      c,
+      owners.get(c) ?? 0,
+    ]).sort((a, b) => b[1] - a[1]);
+
+    // The hill is held by owning more than half of it.
+    const top = ranked[0];
+    const holder =
+      top !== undefined && top[1] * 2 > this.hill.length ? top[0] : null;
+    if (holder !== null && holder === this.hillHolder) {
+      this.hillHeldTicks += CHECK_INTERVAL;
     } else {
-      this.checkWinnerTeam();
+      this.hillHolder = holder;
+      this.hillHeldTicks = 0;
+    }
+    this.sendProgress(ranked, null, {
+      holder: holder === null ? null : this.name(holder),
+      heldTicks: this.hillHeldTicks,
+      holdTicks,
+    });
+    if (holder !== null && this.hillHeldTicks >= holdTicks) {
+      this.win(holder);
     }
   }
 
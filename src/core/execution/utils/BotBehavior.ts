@@ -25,11 +25,15 @@ export class BotBehavior {
     private triggerRatio: number,
     private reserveRatio: number,
     private expandRatio: number,
+    private acceptAlliance: (
+      player: Player,
+      request: AllianceRequest,
+    ) => boolean = shouldAcceptAllianceRequest,
   ) {}
 
   handleAllianceRequests() {
     for (const req of this.player.incomingAllianceRequests()) {
-      if (shouldAcceptAllianceRequest(this.player, req)) {
+      if (this.acceptAlliance(this.player, req)) {
         req.accept();
       } else {
         req.reject();
@@ -225,7 +229,10 @@ export class BotBehavior {
   }
 }
 
-function shouldAcceptAllianceRequest(player: Player, request: AllianceRequest) {
+export function shouldAcceptAllianceRequest(
+  player: Player,
+  request: AllianceRequest,
+) {
   if (player.relation(request.requestor()) < Relation.Neutral) {
     return false; // Reject if hasMalice
   }
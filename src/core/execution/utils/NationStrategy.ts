@@ -0,0 +1,174 @@
+import {
+  AllianceRequest,
+  Difficulty,
+  NationPersonality,
+  Player,
+  Relation,
+  UnitType,
+} from "../../game/Game";
+import { PseudoRandom } from "../../PseudoRandom";
+import { shouldAcceptAllianceRequest } from "./BotBehavior";
+
+export interface BuildGoal {
+  type: UnitType;
+  // Stops building once this many are owned.
+  max: number;
+}
+
+/**
+ * How a nation plays. FakeHumanExecution runs the turns, the strategy decides
+ * what the nation cares about.
+ */
+export interface NationStrategy {
+  readonly personality: NationPersonality;
+  // Ranges the troop ratios are picked from, in percent of max troops.
+  readonly triggerRatio: [number, number];
+  readonly reserveRatio: [number, number];
+  readonly expandRatio: [number, number];
+  // At most one unit is built per turn, the first goal not yet reached wins.
+  readonly buildOrder: BuildGoal[];
+  // 1 in n chance per turn to send a boat to a random shore instead of
+  // attacking over land.
+  readonly boatChance: number;
+  // 1 in n chance per turn to ask a neighbor for an alliance.
+  readonly allianceRequestChance: number;
+  readonly assistsAllies: boolean;
+  readonly usesNukes: boolean;
+  shouldAcceptAlliance(player: Player, request: AllianceRequest): boolean;
+}
+
+const aggressive: NationStrategy = {
+  personality: NationPersonality.Aggressive,
+  triggerRatio: [50, 75],
+  reserveRatio: [20, 40],
+  expandRatio: [10, 20],
+  buildOrder: [
+    { type: UnitType.City, max: 1 },
+    { type: UnitType.MissileSilo, max: 1 },
+    { type: UnitType.Port, max: 1 },
+    { type: UnitType.Warship, max: 1 },
+    { type: UnitType.MissileSilo, max: 2 },
+    { type: UnitType.Factory, max: 1 },
+  ],
+  boatChance: 20,
+  allianceRequestChance: 50,
+  assistsAllies: true,
+  usesNukes: true,
+  // Only allies with someone it would rather not fight.
+  shouldAcceptAlliance: (player, request) =>
+    request.requestor().numTilesOwned() > player.numTilesOwned() * 2 &&
+    shouldAcceptAllianceRequest(player, request),
+};
+
+const economic: NationStrategy = {
+  personality: NationPersonality.Economic,
+  triggerRatio: [70, 90],
+  reserveRatio: [40, 60],
+  expandRatio: [20, 30],
+  buildOrder: [
+    { type: UnitType.Port, max: 1 },
+    { type: UnitType.City, max: 2 },
+    { type: UnitType.Factory, max: 1 },
+    { type: UnitType.Port, max: 2 },
+    { type: UnitType.City, max: 4 },
+    { type: UnitType.Factory, max: 2 },
+    { type: UnitType.MissileSilo, max: 1 },
+  ],
+  boatChance: 20,
+  allianceRequestChance: 10,
+  assistsAllies: true,
+  usesNukes: true,
+  shouldAcceptAlliance: shouldAcceptAllianceRequest,
+};
+
+const naval: NationStrategy = {
+  personality: NationPersonality.Naval,
+  triggerRatio: [60, 90],
+  reserveRatio: [30, 50],
+  expandRatio: [15, 25],
+  buildOrder: [
+    { type: UnitType.Port, max: 2 },
+    { type: UnitType.Warship, max: 1 },
+    { type: UnitType.City, max: 1 },
+    { type: UnitType.Warship, max: 3 },
+    { type: UnitType.Port, max: 3 },
+    { type: UnitType.City, max: 2 },
+    { type: UnitType.MissileSilo, max: 1 },
+  ],
+  boatChance: 5,
+  allianceRequestChance: 20,
+  assistsAllies: true,
+  usesNukes: true,
+  shouldAcceptAlliance: shouldAcceptAllianceRequest,
+};
+
+const turtle: NationStrategy = {
+  personality: NationPersonality.Turtle,
+  triggerRatio: [80, 95],
+  reserveRatio: [50, 70],
+  expandRatio: [20, 30],
+  buildOrder: [
+    { type: UnitType.DefensePost, max: 2 },
+    { type: UnitType.City, max: 1 },
+    { type: UnitType.SAMLauncher, max: 1 },
+    { type: UnitType.Port, max: 1 },
+    { type: UnitType.DefensePost, max: 4 },
+    { type: UnitType.City, max: 2 },
+    { type: UnitType.SAMLauncher, max: 2 },
+  ],
+  boatChance: 50,
+  allianceRequestChance: 5,
+  assistsAllies: false,
+  usesNukes: false,
+  // Takes any ally that is not openly hostile.
+  shouldAcceptAlliance: (player, request) =>
+    !request.requestor().isTraitor() &&
+    player.relation(request.requestor()) >= Relation.Neutral,
+};
+
+const strategies: Record<NationPersonality, NationStrategy> = {
+  [NationPersonality.Aggressive]: aggressive,
+  [NationPersonality.Economic]: economic,
+  [NationPersonality.Naval]: naval,
+  [NationPersonality.Turtle]: turtle,
+};
+
+// Harder games get more aggressive nations.
+const personalityWeights: Record<Difficulty, NationPersonality[]> = {
+  [Difficulty.Easy]: [
+    NationPersonality.Economic,
+    NationPersonality.Economic,
+    NationPersonality.Turtle,
+    NationPersonality.Turtle,
+    NationPersonality.Naval,
+  ],
+  [Difficulty.Medium]: [
+    NationPersonality.Aggressive,
+    NationPersonality.Economic,
+    NationPersonality.Naval,
+    NationPersonality.Turtle,
+  ],
+  [Difficulty.Hard]: [
+    NationPersonality.Aggressive,
+    NationPersonality.Aggressive,
+    NationPersonality.Economic,
+    NationPersonality.Naval,
+  ],
+  [Difficulty.Impossible]: [
+    NationPersonality.Aggressive,
+    NationPersonality.Aggressive,
+    NationPersonality.Aggressive,
+    NationPersonality.Naval,
+  ],
+};
+
+export function nationStrategy(personality: NationPersonality): NationStrategy {
+  return strategies[personality];
+}
+
+export function pickPersonality(
+  random: PseudoRandom,
+  difficulty: Difficulty,
+): NationPersonality {
+  return random.randElement(personalityWeights[difficulty]);
+}
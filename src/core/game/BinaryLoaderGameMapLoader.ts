@@ -71,6 +71,10 @@ export class BinaryLoaderGameMapLoader implements GameMapLoader {
     return mapData;
   }
 
+  getCustomMapData(hash: string): MapData {
+    throw new Error(`Custom map ${hash} is not bundled`);
+  }
+
   /**
    * Converts a given string into a UInt8Array where each character in the string
    * is represented as an 8-bit unsigned integer.
@@ -0,0 +1,242 @@
+import { NationPersonality } from "./Game";
+import { MapManifest, MapMetadata, Nation } from "./TerrainMapLoader";
+
+// Files a custom map is stored and served as, by content hash.
+export const customMapFiles = [
+  "manifest.json",
+  "map.bin",
+  "mini_map.bin",
+  "thumbnail.png",
+] as const;
+export type CustomMapFile = (typeof customMapFiles)[number];
+
+export const MIN_CUSTOM_MAP_SIZE = 100;
+export const MAX_CUSTOM_MAP_SIZE = 4000;
+// The largest built-in map, World, has 2M tiles.
+export const MAX_CUSTOM_MAP_TILES = 4_000_000;
+
+// A decoded terrain image, 4 bytes (RGBA) per pixel in row-major order.
+export interface TerrainImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface CustomMapFiles {
+  manifest: MapManifest;
+  mapBin: Uint8Array;
+  miniMapBin: Uint8Array;
+}
+
+// Same colors as the map generator used for the built-in maps: transparent
+// pixels and pixels with a blue of exactly 106 are water, for land the blue
+// channel is the elevation.
+const MIN_ALPHA = 20;
+const WATER_BLUE = 106;
+const MIN_LAND_BLUE = 140;
+const MAX_LAND_BLUE = 200;
+
+const IS_LAND = 1 << 7;
+const SHORELINE = 1 << 6;
+const OCEAN = 1 << 5;
+const MAX_MAGNITUDE = 0x1f;
+
+// Converts a terrain image and its nations into the files read by
+// genTerrainFromBin. Throws if the image or the nations are not usable.
+export function generateCustomMap(
+  name: string,
+  nations: Nation[],
+  image: TerrainImage,
+): CustomMapFiles {
+  const { width, height, data } = image;
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width < MIN_CUSTOM_MAP_SIZE ||
+    height < MIN_CUSTOM_MAP_SIZE ||
+    width > MAX_CUSTOM_MAP_SIZE ||
+    height > MAX_CUSTOM_MAP_SIZE ||
+    width * height > MAX_CUSTOM_MAP_TILES
+  ) {
+    throw new Error(
+      `Map must be between ${MIN_CUSTOM_MAP_SIZE} and ${MAX_CUSTOM_MAP_SIZE} pixels wide and high and have at most ${MAX_CUSTOM_MAP_TILES} pixels, got ${width}x${height}`,
+    );
+  }
+  if (data.length !== width * height * 4) {
+    throw new Error(
+      `Image data size ${data.length} incorrect for ${width}x${height} RGBA`,
+    );
+  }
+
+  // Elevation of land tiles, -1 for water.
+  const elevation = new Int8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const blue = data[i * 4 + 2];
+    if (data[i * 4 + 3] < MIN_ALPHA || blue === WATER_BLUE) {
+      elevation[i] = -1;
+    } else {
+      const clamped = Math.min(MAX_LAND_BLUE, Math.max(MIN_LAND_BLUE, blue));
+      elevation[i] = Math.floor((clamped - MIN_LAND_BLUE) / 2);
+    }
+  }
+
+  nations.forEach((n) => {
+    const [x, y] = n.coordinates;
+    if (!Number.isInteger(x) || !Number.isInteger(y)) {
+      throw new Error(`Nation ${n.name} has invalid coordinates`);
+    }
+    if (x < 0 || y < 0 || x >= width || y >= height) {
+      throw new Error(`Nation ${n.name} is outside of the map`);
+    }
+    if (elevation[y * width + x] < 0) {
+      throw new Error(`Nation ${n.name} does not start on land`);
+    }
+    if (
+      n.personality !== undefined &&
+      !Object.values(NationPersonality).includes(n.personality)
+    ) {
+      throw new Error(`Nation ${n.name} has unknown personality`);
+    }
+  });
+
+  const map = packTerrain(width, height, elevation);
+  if (map.metadata.num_land_tiles === 0) {
+    throw new Error("Map has no land");
+  }
+  const miniMap = packTerrain(
+    Math.ceil(width / 2),
+    Math.ceil(height / 2),
+    miniElevation(width, height, elevation),
+  );
+
+  return {
+    manifest: {
+      name,
+      map: map.metadata,
+      mini_map: miniMap.metadata,
+      nations,
+    },
+    mapBin: map.terrain,
+    miniMapBin: miniMap.terrain,
+  };
+}
+
+// Each mini map tile covers 2x2 tiles of the map and is only land if all of
+// them are, so pathfinding on the mini map never crosses a strait.
+function miniElevation(
+  width: number,
+  height: number,
+  elevation: Int8Array,
+): Int8Array {
+  const miniWidth = Math.ceil(width / 2);
+  const miniHeight = Math.ceil(height / 2);
+  const mini = new Int8Array(miniWidth * miniHeight);
+  for (let y = 0; y < miniHeight; y++) {
+    for (let x = 0; x < miniWidth; x++) {
+      let value = elevation[2 * y * width + 2 * x];
+      for (let dy = 0; dy < 2 && 2 * y + dy < height; dy++) {
+        for (let dx = 0; dx < 2 && 2 * x + dx < width; dx++) {
+          if (elevation[(2 * y + dy) * width + 2 * x + dx] < 0) {
+            value = -1;
+          }
+        }
+      }
+      mini[y * miniWidth + x] = value;
+    }
+  }
+  return mini;
+}
+
+// Encodes terrain in the bit layout of GameMapImpl. Water tiles store their
+// distance to land as magnitude, and the largest body of water is the ocean.
+function packTerrain(
+  width: number,
+  height: number,
+  elevation: Int8Array,
+): { terrain: Uint8Array; metadata: MapMetadata } {
+  const size = width * height;
+  const terrain = new Uint8Array(size);
+  const queue = new Int32Array(size);
+
+  const forEachNeighbor = (i: number, fn: (n: number) => void) => {
+    const x = i % width;
+    if (x > 0) fn(i - 1);
+    if (x < width - 1) fn(i + 1);
+    if (i >= width) fn(i - width);
+    if (i < size - width) fn(i + width);
+  };
+
+  // Shorelines, and the distance of every water tile to the nearest land.
+  const distance = new Int32Array(size).fill(-1);
+  let tail = 0;
+  let numLandTiles = 0;
+  for (let i = 0; i < size; i++) {
+    if (elevation[i] >= 0) {
+      numLandTiles++;
+      terrain[i] = IS_LAND | elevation[i];
+    }
+    let shoreline = false;
+    forEachNeighbor(i, (n) => {
+      shoreline ||= elevation[n] >= 0 !== elevation[i] >= 0;
+    });
+    if (shoreline) {
+      terrain[i] |= SHORELINE;
+      if (elevation[i] < 0) {
+        distance[i] = 0;
+        queue[tail++] = i;
+      }
+    }
+  }
+  for (let head = 0; head < tail; head++) {
+    const i = queue[head];
+    forEachNeighbor(i, (n) => {
+      if (elevation[n] < 0 && distance[n] === -1) {
+        distance[n] = distance[i] + 1;
+        queue[tail++] = n;
+      }
+    });
+  }
+
+  // Label bodies of water to find the largest.
+  const body = new Int32Array(size).fill(-1);
+  let ocean = -1;
+  let oceanSize = 0;
+  let bodies = 0;
+  for (let start = 0; start < size; start++) {
+    if (elevation[start] >= 0 || body[start] !== -1) {
+      continue;
+    }
+    body[start] = bodies;
+    queue[0] = start;
+    tail = 1;
+    for (let head = 0; head < tail; head++) {
+      forEachNeighbor(queue[head], (n) => {
+        if (elevation[n] < 0 && body[n] === -1) {
+          body[n] = bodies;
+          queue[tail++] = n;
+        }
+      });
+    }
+    if (tail > oceanSize) {
+      ocean = bodies;
+      oceanSize = tail;
+    }
+    bodies++;
+  }
+
+  for (let i = 0; i < size; i++) {
+    if (elevation[i] >= 0) {
+      continue;
+    }
+    terrain[i] |=
+      distance[i] === -1 ? MAX_MAGNITUDE : Math.min(distance[i], MAX_MAGNITUDE);
+    if (body[i] === ocean) {
+      terrain[i] |= OCEAN;
+    }
+  }
+
+  return {
+    terrain,
+    metadata: { width, height, num_land_tiles: numLandTiles },
+  };
+}
@@ -1,3 +1,4 @@
+import { CustomMapFile } from "./CustomMap";
 import { GameMapType } from "./Game";
 import { GameMapLoader, MapData } from "./GameMapLoader";
 
@@ -7,6 +8,7 @@ export class FetchGameMapLoader implements GameMapLoader {
   public constructor(
     private readonly prefix: string,
     private readonly cacheBuster?: string,
+    private readonly customMapPrefix = "/api/custom_map",
   ) {
     this.maps = new Map<GameMapType, MapData>();
   }
@@ -38,6 +40,18 @@ export class FetchGameMapLoader implements GameMapLoader {
     return mapData;
   }
 
+  public getCustomMapData(hash: string): MapData {
+    // Custom maps never change, so they need no cache buster.
+    const url = (file: CustomMapFile) =>
+      `${this.customMapPrefix}/${hash}/${file}`;
+    return {
+      mapBin: () => this.loadBinaryFromUrl(url("map.bin")),
+      miniMapBin: () => this.loadBinaryFromUrl(url("mini_map.bin")),
+      manifest: () => this.loadJsonFromUrl(url("manifest.json")),
+      webpPath: async () => url("thumbnail.png"),
+    };
+  }
+
   private url(map: string, path: string) {
     let url = `${this.prefix}/${map}/${path}`;
 
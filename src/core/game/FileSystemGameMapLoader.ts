@@ -0,0 +1,98 @@
+import fs from "fs/promises";
+import path from "path";
+import { CustomMapFile } from "./CustomMap";
+import { GameMapType } from "./Game";
+import { GameMapLoader, MapData } from "./GameMapLoader";
+import { MapManifest } from "./TerrainMapLoader";
+
+// Reads a file of a custom map, or null if there is no map with that hash.
+export type CustomMapFileReader = (
+  hash: string,
+  file: CustomMapFile,
+) => Promise<Uint8Array | null>;
+
+// Loads maps from disk, for simulating games outside of the browser. Custom
+// maps are read from wherever the caller stores them.
+export class FileSystemGameMapLoader implements GameMapLoader {
+  private maps: Map<GameMapType, MapData>;
+
+  public constructor(
+    private readonly mapsDir: string,
+    private readonly readCustomMap?: CustomMapFileReader,
+  ) {
+    this.maps = new Map<GameMapType, MapData>();
+  }
+
+  public getMapData(map: GameMapType): MapData {
+    const cachedMap = this.maps.get(map);
+    if (cachedMap) {
+      return cachedMap;
+    }
+
+    const key = Object.keys(GameMapType).find(
+      (k) => GameMapType[k as keyof typeof GameMapType] === map,
+    );
+    const fileName = key?.toLowerCase();
+
+    if (!fileName) {
+      throw new Error(`Unknown map: ${map}`);
+    }
+
+    const mapData = {
+      mapBin: this.createLazyLoader(() =>
+        this.loadBinary(this.path(fileName, "map.bin")),
+      ),
+      miniMapBin: this.createLazyLoader(() =>
+        this.loadBinary(this.path(fileName, "mini_map.bin")),
+      ),
+      manifest: this.createLazyLoader(() =>
+        fs
+          .readFile(this.path(fileName, "manifest.json"), "utf8")
+          .then((data) => JSON.parse(data) as MapManifest),
+      ),
+      webpPath: async () => this.path(fileName, "thumbnail.webp"),
+    } satisfies MapData;
+
+    this.maps.set(map, mapData);
+    return mapData;
+  }
+
+  public getCustomMapData(hash: string): MapData {
+    const load = async (file: CustomMapFile) => {
+      const data = await this.readCustomMap?.(hash, file);
+      if (data === null || data === undefined) {
+        throw new Error(`Custom map ${hash} not found`);
+      }
+      return data;
+    };
+    return {
+      mapBin: this.createLazyLoader(() => load("map.bin")),
+      miniMapBin: this.createLazyLoader(() => load("mini_map.bin")),
+      manifest: this.createLazyLoader(() =>
+        load("manifest.json").then(
+          (data) => JSON.parse(new TextDecoder().decode(data)) as MapManifest,
+        ),
+      ),
+      webpPath: async () => {
+        throw new Error("Custom maps have no thumbnail on disk");
+      },
+    };
+  }
+
+  private createLazyLoader<T>(loadFn: () => Promise<T>): () => Promise<T> {
+    let cache: Promise<T> | null = null;
+    return () => {
+      cache ??= loadFn();
+      return cache;
+    };
+  }
+
+  private path(map: string, file: string) {
+    return path.join(this.mapsDir, map, file);
+  }
+
+  private async loadBinary(file: string) {
+    const data = await fs.readFile(file);
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+}
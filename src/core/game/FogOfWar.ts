@@ -0,0 +1,118 @@
+import { GameMap, TileRef } from "./GameMap";
+
+// Side of the square cells visibility is tracked in, in tiles.
+const CELL_SIZE = 8;
+
+/**
+ * Tracks which parts of the map a player and their allies can see. Territory
+ * of the friendly players and their vision units (ports, warships) reveal
+ * everything within the vision radius. Everything is visible until the first
+ * update.
+ */
+export class FogOfWar {
+  private readonly cellsX: number;
+  private readonly cellsY: number;
+  private visible: Uint8Array;
+  private visiblePlayers: Set<number> | null = null;
+  // Offsets of the cells within the vision radius of a cell.
+  private readonly visionOffsets: { x: number; y: number }[] = [];
+
+  constructor(
+    private readonly map: GameMap,
+    visionRadius: number,
+  ) {
+    this.cellsX = Math.ceil(map.width() / CELL_SIZE);
+    this.cellsY = Math.ceil(map.height() / CELL_SIZE);
+    this.visible = new Uint8Array(this.cellsX * this.cellsY).fill(1);
+    const radius = Math.ceil(visionRadius / CELL_SIZE);
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        if (dx * dx + dy * dy <= radius * radius) {
+          this.visionOffsets.push({ x: dx, y: dy });
+        }
+      }
+    }
+  }
+
+  /**
+   * Recomputes what is visible to the friendly players, given by their small
+   * ids. Returns the tiles that were revealed or hidden.
+   */
+  update(friendlyIDs: Set<number>, visionTiles: TileRef[]): TileRef[] {
+    const sources = new Uint8Array(this.visible.length);
+    const numTiles = this.map.width() * this.map.height();
+    for (let tile = 0; tile < numTiles; tile++) {
+      if (friendlyIDs.has(this.map.ownerID(tile))) {
+        sources[this.cell(tile)] = 1;
+      }
+    }
+    for (const tile of visionTiles) {
+      sources[this.cell(tile)] = 1;
+    }
+
+    const visible = new Uint8Array(this.visible.length);
+    for (let cy = 0; cy < this.cellsY; cy++) {
+      for (let cx = 0; cx < this.cellsX; cx++) {
+        if (sources[cy * this.cellsX + cx] === 0) {
+          continue;
+        }
+        for (const offset of this.visionOffsets) {
+          const x = cx + offset.x;
+          const y = cy + offset.y;
+          if (x >= 0 && x < this.cellsX && y >= 0 && y < this.cellsY) {
+            visible[y * this.cellsX + x] = 1;
+          }
+        }
+      }
+    }
+
+    const changed: TileRef[] = [];
+    const visiblePlayers = new Set(friendlyIDs);
+    for (let cell = 0; cell < visible.length; cell++) {
+      const isVisible = visible[cell] === 1;
+      const wasVisible = this.visible[cell] === 1;
+      if (!isVisible && !wasVisible) {
+        continue;
+      }
+      this.forEachTileInCell(cell, (tile) => {
+        if (isVisible) {
+          visiblePlayers.add(this.map.ownerID(tile));
+        }
+        if (isVisible !== wasVisible) {
+          changed.push(tile);
+        }
+      });
+    }
+    visiblePlayers.delete(0);
+    this.visiblePlayers = visiblePlayers;
+    this.visible = visible;
+    return changed;
+  }
+
+  isVisible(tile: TileRef): boolean {
+    return this.visible[this.cell(tile)] === 1;
+  }
+
+  // Whether any territory of the player is visible.
+  isPlayerVisible(smallID: number): boolean {
+    return this.visiblePlayers?.has(smallID) ?? true;
+  }
+
+  private cell(tile: TileRef): number {
+    const x = Math.floor(this.map.x(tile) / CELL_SIZE);
+    const y = Math.floor(this.map.y(tile) / CELL_SIZE);
+    return y * this.cellsX + x;
+  }
+
+  private forEachTileInCell(cell: number, fn: (tile: TileRef) => void) {
+    const x0 = (cell % this.cellsX) * CELL_SIZE;
+    const y0 = Math.floor(cell / this.cellsX) * CELL_SIZE;
+    const x1 = Math.min(x0 + CELL_SIZE, this.map.width());
+    const y1 = Math.min(y0 + CELL_SIZE, this.map.height());
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        fn(this.map.ref(x, y));
+      }
+    }
+  }
+}
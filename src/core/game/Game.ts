@@ -38,6 +38,13 @@ export enum Difficulty {
   Impossible = "Impossible",
 }
 
+export enum NationPersonality {
+  Aggressive = "Aggressive",
+  Economic = "Economic",
+  Naval = "Naval",
+  Turtle = "Turtle",
+}
+
 export type Team = string;
 
 export const Duos = "Duos" as const;
@@ -166,6 +173,7 @@ export enum UnitType {
   Construction = "Construction",
   Train = "Train",
   Factory = "Factory",
+  Capital = "Capital",
 }
 
 export enum TrainType {
@@ -233,6 +241,8 @@ export interface UnitParamsMap {
 
   [UnitType.Factory]: Record<string, never>;
 
+  [UnitType.Capital]: Record<string, never>;
+
   [UnitType.MissileSilo]: Record<string, never>;
 
   [UnitType.DefensePost]: Record<string, never>;
@@ -274,6 +284,8 @@ export class Nation {
     public readonly spawnCell: Cell,
     public readonly strength: number,
     public readonly playerInfo: PlayerInfo,
+    // Picked from the difficulty when not set.
+    public readonly personality?: NationPersonality,
   ) {}
 }
 
@@ -474,6 +486,12 @@ export interface Unit {
   // Warships
   setPatrolTile(tile: TileRef): void;
   patrolTile(): TileRef | undefined;
+  // Waypoints still to visit, the next one first. A looping route puts each
+  // reached waypoint back at the end.
+  setPatrolRoute(waypoints: TileRef[], loop: boolean): void;
+  patrolRoute(): TileRef[];
+  // Makes the next waypoint the patrol tile and removes it from the route.
+  reachedWaypoint(): void;
 }
 
 export interface TerraNullius {
@@ -505,6 +523,9 @@ export interface Player {
   isAlive(): boolean;
   isTraitor(): boolean;
   markTraitor(): void;
+  // Troop growth is reduced for a while after the capital is captured.
+  hasCapitalDebuff(): boolean;
+  markCapitalCaptured(): void;
   largestClusterBoundingBox: { min: Cell; max: Cell } | null;
   lastTileChange(): Tick;
 
@@ -552,6 +573,13 @@ export interface Player {
   upgradeUnit(unit: Unit): void;
   captureUnit(unit: Unit): void;
 
+  // Builds waiting until they can be afforded, PlayerExecution starts them in
+  // order. Returns false if the queue is full.
+  buildQueue(): QueuedBuild[];
+  queueBuild(type: UnitType, tile: TileRef): QueuedBuild | false;
+  moveQueuedBuild(id: number, index: number): boolean;
+  removeQueuedBuild(id: number): boolean;
+
   // Relations & Diplomacy
   neighbors(): (Player | TerraNullius)[];
   sharesBorderWith(other: Player | TerraNullius): boolean;
@@ -591,6 +619,10 @@ export interface Player {
   donateTroops(recipient: Player, troops: number): boolean;
   donateGold(recipient: Player, gold: Gold): boolean;
 
+  // Cession
+  canCedeTerritory(recipient: Player): boolean;
+  cedeTerritory(recipient: Player, tiles: TileRef[]): boolean;
+
   // Embargo
   hasEmbargoAgainst(other: Player): boolean;
   tradingPartners(): Player[];
@@ -706,6 +738,7 @@ export interface Game extends GameMap {
   addUpdate(update: GameUpdate): void;
   railNetwork(): RailNetwork;
   conquerPlayer(conqueror: Player, conquered: Player): void;
+  conquerCapital(conqueror: Player, capital: Unit): void;
 }
 
 export interface PlayerActions {
@@ -739,10 +772,17 @@ export interface PlayerInteraction {
   canBreakAlliance: boolean;
   canTarget: boolean;
   canDonate: boolean;
+  canCedeTerritory: boolean;
   canEmbargo: boolean;
   allianceExpiresAt?: Tick;
 }
 
+export interface QueuedBuild {
+  id: number;
+  type: UnitType;
+  tile: TileRef;
+}
+
 export interface EmojiMessage {
   message: string;
   senderID: number;
@@ -776,6 +816,8 @@ export enum MessageType {
   RECEIVED_TROOPS_FROM_PLAYER,
   CHAT,
   RENEW_ALLIANCE,
+  SENT_TERRITORY_TO_PLAYER,
+  RECEIVED_TERRITORY_FROM_PLAYER,
 }
 
 // Message categories used for filtering events in the EventsDisplay
@@ -812,6 +854,8 @@ export const MESSAGE_TYPE_CATEGORIES: Record<MessageType, MessageCategory> = {
   [MessageType.RECEIVED_GOLD_FROM_TRADE]: MessageCategory.TRADE,
   [MessageType.SENT_TROOPS_TO_PLAYER]: MessageCategory.TRADE,
   [MessageType.RECEIVED_TROOPS_FROM_PLAYER]: MessageCategory.TRADE,
+  [MessageType.SENT_TERRITORY_TO_PLAYER]: MessageCategory.TRADE,
+  [MessageType.RECEIVED_TERRITORY_FROM_PLAYER]: MessageCategory.TRADE,
   [MessageType.CHAT]: MessageCategory.CHAT,
 } as const;
 
@@ -1,7 +1,7 @@
 import { renderNumber } from "../../client/Utils";
 import { Config } from "../configuration/Config";
 import { AllPlayersStats, ClientID, Winner } from "../Schemas";
-import { simpleHash } from "../Util";
+import { simpleHash, toInt } from "../Util";
 import { AllianceImpl } from "./AllianceImpl";
 import { AllianceRequestImpl } from "./AllianceRequestImpl";
 import {
@@ -898,10 +898,61 @@ export class GameImpl implements Game {
     // Record stats
     this.stats().goldWar(conqueror, conquered, gold);
   }
+
+  conquerCapital(conqueror: Player, capital: Unit) {
+    const conquered = capital.owner();
+    capital.delete(false);
+    conquered.markCapitalCaptured();
+
+    const gold = toInt(
+      Number(conquered.gold()) * this.config().capitalCaptureGoldLoss(),
+    );
+    conqueror.addGold(gold);
+    conquered.removeGold(gold);
+    this.displayMessage(
+      `Captured the capital of ${conquered.displayName()}, received ${renderNumber(
+        gold,
+      )} gold`,
+      MessageType.CAPTURED_ENEMY_UNIT,
+      conqueror.id(),
+      gold,
+    );
+    this.displayMessage(
+      `Your capital was captured by ${conqueror.displayName()}`,
+      MessageType.UNIT_CAPTURED_BY_ENEMY,
+      conquered.id(),
+    );
+    this.stats().goldWar(conqueror, conquered, gold);
+
+    if (this.config().capitalAnnexesDisconnected()) {
+      for (const tile of this.disconnectedTiles(conquered)) {
+        conqueror.conquer(tile);
+      }
+    }
+  }
+
+  // The tiles of the player outside of their largest connected territory.
+  private disconnectedTiles(player: Player): TileRef[] {
+    const seen = new Set<TileRef>();
+    const clusters: Set<TileRef>[] = [];
+    for (const tile of player.tiles()) {
+      if (seen.has(tile)) {
+        continue;
+      }
+      const cluster = this.bfs(
+        tile,
+        (_, t) => this.ownerID(t) === player.smallID(),
+      );
+      cluster.forEach((t) => seen.add(t));
+      clusters.push(cluster);
+    }
+    clusters.sort((a, b) => b.size - a.size);
+    return clusters.slice(1).flatMap((cluster) => Array.from(cluster));
+  }
 }
 
 // Or a more dynamic approach that will catch new enum values:
-const createGameUpdatesMap = (): GameUpdates => {
+export const createGameUpdatesMap = (): GameUpdates => {
   const map = {} as GameUpdates;
   Object.values(GameUpdateType)
     .filter((key) => !isNaN(Number(key))) // Filter out reverse mappings
@@ -108,6 +108,12 @@ export class GameMapImpl implements GameMap {
     return this._numTilesWithFallout;
   }
 
+  // Data that never changes after construction, so copies of the map can
+  // share it.
+  immutableData(): object[] {
+    return [this.terrain, this.refToX, this.refToY, this.yToRef];
+  }
+
   ref(x: number, y: number): TileRef {
     if (!this.isValidCoord(x, y)) {
       throw new Error(`Invalid coordinates: ${x},${y}`);
@@ -3,6 +3,8 @@ import { MapManifest } from "./TerrainMapLoader";
 
 export interface GameMapLoader {
   getMapData(map: GameMapType): MapData;
+  // Maps uploaded for private lobbies, by content hash.
+  getCustomMapData(hash: string): MapData;
 }
 
 export interface MapData {
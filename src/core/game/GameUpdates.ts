@@ -7,6 +7,7 @@ import {
   NameViewData,
   PlayerID,
   PlayerType,
+  QueuedBuild,
   Team,
   Tick,
   TrainType,
@@ -45,6 +46,7 @@ export enum GameUpdateType {
   BonusEvent,
   RailroadEvent,
   ConquestEvent,
+  VictoryProgress,
 }
 
 export type GameUpdate =
@@ -65,7 +67,8 @@ export type GameUpdate =
   | AllianceExtensionUpdate
   | BonusEventUpdate
   | RailroadUpdate
-  | ConquestUpdate;
+  | ConquestUpdate
+  | VictoryProgressUpdate;
 
 export interface BonusEventUpdate {
   type: GameUpdateType.BonusEvent;
@@ -123,6 +126,7 @@ export interface UnitUpdate {
   targetable: boolean;
   targetUnitId?: number; // Only for trade ships
   targetTile?: TileRef; // Only for bombs
+  patrolTile?: TileRef; // Only for warships
   health?: number;
   constructionType?: UnitType;
   missileTimerQueue: number[];
@@ -158,6 +162,7 @@ export interface PlayerUpdate {
   allies: number[];
   embargoes: Set<PlayerID>;
   isTraitor: boolean;
+  hasCapitalDebuff: boolean;
   targets: number[];
   outgoingEmojis: EmojiMessage[];
   outgoingAttacks: AttackUpdate[];
@@ -165,9 +170,15 @@ export interface PlayerUpdate {
   outgoingAllianceRequests: PlayerID[];
   alliances: AllianceView[];
   hasSpawned: boolean;
+  buildQueue: QueuedBuildUpdate[];
   betrayals?: bigint;
 }
 
+export interface QueuedBuildUpdate extends QueuedBuild {
+  // The current cost, it changes with the number of units owned.
+  cost: Gold;
+}
+
 export interface AllianceView {
   id: number;
   other: PlayerID;
@@ -242,6 +253,29 @@ export interface WinUpdate {
   winner: Winner;
 }
 
+export interface VictoryStanding {
+  // Display name of the player, or the team.
+  name: string;
+  score: number;
+}
+
+// Progress towards the victory condition of the game, sent periodically
+// unless the default tile percentage decides the winner.
+export interface VictoryProgressUpdate {
+  type: GameUpdateType.VictoryProgress;
+  // Ticks until time runs out, null without a time limit.
+  ticksLeft: number | null;
+  // Best first, at most three.
+  standings: VictoryStanding[];
+  // Players or teams still in the game.
+  remaining: number;
+  hill?: {
+    holder: string | null;
+    heldTicks: number;
+    holdTicks: number;
+  };
+}
+
 export interface HashUpdate {
   type: GameUpdateType.Hash;
   tick: Tick;
@@ -4,6 +4,7 @@ import { PatternDecoder } from "../PatternDecoder";
 import { ClientID, GameID, Player } from "../Schemas";
 import { createRandomName } from "../Util";
 import { WorkerClient } from "../worker/WorkerClient";
+import { FogOfWar } from "./FogOfWar";
 import {
   Cell,
   EmojiMessage,
@@ -30,8 +31,10 @@ import {
   GameUpdateType,
   GameUpdateViewData,
   PlayerUpdate,
+  QueuedBuildUpdate,
   UnitUpdate,
 } from "./GameUpdates";
+import { ForecastNukeType, NukeForecast } from "./NukeForecast";
 import { TerrainMapData } from "./TerrainMapLoader";
 import { TerraNulliusImpl } from "./TerraNulliusImpl";
 import { UnitGrid, UnitPredicate } from "./UnitGrid";
@@ -39,6 +42,9 @@ import { UserSettings } from "./UserSettings";
 
 const userSettings: UserSettings = new UserSettings();
 
+// Fog of war is recomputed once per second.
+const FOG_UPDATE_INTERVAL = 10;
+
 interface PlayerCosmetics {
   pattern?: string | undefined;
   flag?: string | undefined;
@@ -82,6 +88,10 @@ export class UnitView {
     this.data = data;
   }
 
+  deletedUpdate(): UnitUpdate {
+    return { ...this.data, isActive: false };
+  }
+
   id(): number {
     return this.data.id;
   }
@@ -129,6 +139,9 @@ export class UnitView {
   targetTile(): TileRef | undefined {
     return this.data.targetTile;
   }
+  patrolTile(): TileRef | undefined {
+    return this.data.patrolTile;
+  }
 
   // How "ready" this unit is from 0 to 1.
   missileReadinesss(): number {
@@ -334,6 +347,13 @@ export class PlayerView {
     return this.game.worker.transportShipSpawn(this.id(), targetTile);
   }
 
+  nukeForecast(
+    type: ForecastNukeType,
+    targetTile: TileRef,
+  ): Promise<NukeForecast> {
+    return this.game.worker.nukeForecast(this.id(), type, targetTile);
+  }
+
   transitiveTargets(): PlayerView[] {
     return [...this.targets(), ...this.allies().flatMap((p) => p.targets())];
   }
@@ -341,10 +361,17 @@ export class PlayerView {
   isTraitor(): boolean {
     return this.data.isTraitor;
   }
+  hasCapitalDebuff(): boolean {
+    return this.data.hasCapitalDebuff;
+  }
   outgoingEmojis(): EmojiMessage[] {
     return this.data.outgoingEmojis;
   }
 
+  buildQueue(): QueuedBuildUpdate[] {
+    return this.data.buildQueue;
+  }
+
   hasSpawned(): boolean {
     return this.data.hasSpawned;
   }
@@ -353,12 +380,27 @@ export class PlayerView {
   }
 }
 
+// The queries the view sends to the worker, tools without a worker can answer
+// them themselves.
+export type GameViewQueries = Pick<
+  WorkerClient,
+  | "playerInteraction"
+  | "playerBorderTiles"
+  | "attackAveragePosition"
+  | "playerProfile"
+  | "transportShipSpawn"
+  | "nukeForecast"
+>;
+
 export class GameView implements GameMap {
   private lastUpdate: GameUpdateViewData | null;
   private smallIDToID = new Map<number, PlayerID>();
   private _players = new Map<PlayerID, PlayerView>();
   private _units = new Map<number, UnitView>();
   private updatedTiles: TileRef[] = [];
+  // Null when the game has no fog of war or the client is spectating.
+  private fog: FogOfWar | null;
+  private fogUpdatedTiles: TileRef[] = [];
 
   private _myPlayer: PlayerView | null = null;
   private _focusedPlayer: PlayerView | null = null;
@@ -372,16 +414,22 @@ export class GameView implements GameMap {
   private _map: GameMap;
 
   constructor(
-    public worker: WorkerClient,
+    public worker: GameViewQueries,
     private _config: Config,
     private _mapData: TerrainMapData,
     private _myClientID: ClientID,
     private _gameID: GameID,
     private _hunans: Player[],
+    private _isSpectator: boolean = false,
+    private _isLobbyCreator: boolean = false,
   ) {
     this._map = this._mapData.gameMap;
     this.lastUpdate = null;
     this.unitGrid = new UnitGrid(this._map);
+    this.fog =
+      this._config.fogOfWar() && !this._isSpectator
+        ? new FogOfWar(this._map, this._config.fogOfWarVisionRadius())
+        : null;
     this._cosmetics = new Map(
       this._hunans.map((h) => [
         h.clientID,
@@ -462,12 +510,78 @@ export class GameView implements GameMap {
         this.toDelete.add(unit.id());
       }
     });
+
+    this.fogUpdatedTiles = [];
+    if (gu.tick % FOG_UPDATE_INTERVAL === 0) {
+      this.updateFog();
+    }
+  }
+
+  // Everything stays visible during the spawn phase so players can pick
+  // where to spawn.
+  private updateFog() {
+    const myPlayer = this.myPlayer();
+    if (this.fog === null || myPlayer === null || this.inSpawnPhase()) {
+      return;
+    }
+    const friendlyIDs = new Set(
+      this.players()
+        .filter((p) => p === myPlayer || p.isFriendly(myPlayer))
+        .map((p) => p.smallID()),
+    );
+    const visionTiles = this.units(UnitType.Port, UnitType.Warship)
+      .filter((u) => friendlyIDs.has(u.owner().smallID()))
+      .map((u) => u.tile());
+    this.fogUpdatedTiles = this.fog.update(friendlyIDs, visionTiles);
+  }
+
+  /**
+   * Replaces the whole game state with a full update, e.g. after seeking in a
+   * replay. Units missing from the update are reported as deleted so layers
+   * clean them up.
+   */
+  public reset(gu: GameUpdateViewData) {
+    const unitIDs = new Set(gu.updates[GameUpdateType.Unit].map((u) => u.id));
+    for (const unit of this._units.values()) {
+      if (unit.isActive() && !unitIDs.has(unit.id())) {
+        gu.updates[GameUpdateType.Unit].push(unit.deletedUpdate());
+      }
+    }
+    this.update(gu);
   }
 
   recentlyUpdatedTiles(): TileRef[] {
     return this.updatedTiles;
   }
 
+  // Tiles that were revealed or hidden by fog of war this tick.
+  recentlyFogUpdatedTiles(): TileRef[] {
+    return this.fogUpdatedTiles;
+  }
+
+  isTileVisible(tile: TileRef): boolean {
+    return this.fog?.isVisible(tile) ?? true;
+  }
+
+  // Whether any territory of the player is visible, friendly players always
+  // are.
+  isPlayerVisible(player: PlayerView): boolean {
+    return this.fog?.isPlayerVisible(player.smallID()) ?? true;
+  }
+
+  isUnitVisible(unit: UnitView): boolean {
+    const myPlayer = this.myPlayer();
+    if (this.fog === null || myPlayer === null) {
+      return true;
+    }
+    const owner = unit.owner();
+    return (
+      owner === myPlayer ||
+      owner.isFriendly(myPlayer) ||
+      this.fog.isVisible(unit.tile())
+    );
+  }
+
   nearbyUnits(
     tile: TileRef,
     searchRange: number,
@@ -503,6 +617,16 @@ export class GameView implements GameMap {
     return this._myPlayer;
   }
 
+  // Spectators have no player, so the UI is read only.
+  isSpectator(): boolean {
+    return this._isSpectator;
+  }
+
+  // Only the creator of a private lobby can pause a multiplayer game.
+  isLobbyCreator(): boolean {
+    return this._isLobbyCreator;
+  }
+
   player(id: PlayerID): PlayerView {
     const player = this._players.get(id);
     if (player === undefined) {
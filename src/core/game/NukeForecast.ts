@@ -0,0 +1,159 @@
+import { ParabolaPathFinder } from "../pathfinding/PathFinding";
+import { Game, Player, PlayerID, TrajectoryTile, UnitType } from "./Game";
+import { TileRef } from "./GameMap";
+
+export type ForecastNukeType = UnitType.AtomBomb | UnitType.HydrogenBomb;
+
+export interface NukeImpact {
+  playerID: PlayerID;
+  tiles: number;
+  troops: number;
+}
+
+export interface NukeInterceptor {
+  unitID: number;
+  ownerID: PlayerID;
+  tile: TileRef;
+  hitChance: number;
+}
+
+export interface NukeForecast {
+  // Sorted by tiles destroyed, largest first.
+  impacts: NukeImpact[];
+  // Players whose alliance with the launching player would break.
+  brokenAlliances: PlayerID[];
+  interceptors: NukeInterceptor[];
+  // Chance that at least one of the interceptors shoots the bomb down.
+  interceptionChance: number;
+}
+
+interface ImpactEstimate {
+  tiles: number;
+  troops: number;
+  tilesOwned: number;
+}
+
+/**
+ * Estimates what a nuke launched by the player at the tile would do, using
+ * the same rules as NukeExecution. Tiles between the inner and outer radius
+ * are destroyed at random, so they count as half a tile.
+ */
+export function nukeForecast(
+  game: Game,
+  player: Player,
+  type: ForecastNukeType,
+  dst: TileRef,
+): NukeForecast {
+  const config = game.config();
+  const magnitude = config.nukeMagnitudes(type);
+  const inner2 = magnitude.inner * magnitude.inner;
+  const outer2 = magnitude.outer * magnitude.outer;
+  const target = game.owner(dst);
+  const maxTroops = target.isPlayer() ? config.maxTroops(target) : 1;
+
+  const estimates = new Map<Player, ImpactEstimate>();
+  const x = game.x(dst);
+  const y = game.y(dst);
+  for (let dx = -magnitude.outer; dx <= magnitude.outer; dx++) {
+    for (let dy = -magnitude.outer; dy <= magnitude.outer; dy++) {
+      const d2 = dx * dx + dy * dy;
+      if (d2 > outer2 || !game.isValidCoord(x + dx, y + dy)) {
+        continue;
+      }
+      const owner = game.owner(game.ref(x + dx, y + dy));
+      if (!owner.isPlayer()) {
+        continue;
+      }
+      let estimate = estimates.get(owner);
+      if (estimate === undefined) {
+        estimate = { tiles: 0, troops: 0, tilesOwned: owner.numTilesOwned() };
+        estimates.set(owner, estimate);
+      }
+      const weight = d2 <= inner2 ? 1 : 0.5;
+      // Tiles are relinquished before the troops on them are killed.
+      estimate.tiles += weight;
+      estimate.tilesOwned -= weight;
+      const troopsLeft = owner.troops() - estimate.troops;
+      estimate.troops += Math.min(
+        troopsLeft,
+        weight *
+          config.nukeDeathFactor(
+            type,
+            troopsLeft,
+            estimate.tilesOwned,
+            maxTroops,
+          ),
+      );
+    }
+  }
+
+  const threshold = config.nukeAllianceBreakThreshold();
+  const brokenAlliances: PlayerID[] = [];
+  for (const [other, estimate] of estimates) {
+    if (estimate.tiles > threshold && player.isAlliedWith(other)) {
+      brokenAlliances.push(other.id());
+    }
+  }
+
+  const hitChance = type === UnitType.AtomBomb ? 1 : config.samHittingChance();
+  const targetableTiles = nukeTrajectory(game, player, type, dst)
+    .filter((tile) => tile.targetable)
+    .map((tile) => tile.tile);
+  const samRange2 = config.defaultSamRange() ** 2;
+  const interceptors = game
+    .units(UnitType.SAMLauncher)
+    .filter(
+      (sam) =>
+        sam.owner() !== player &&
+        !sam.owner().isFriendly(player) &&
+        // Reloading launchers don't fire.
+        !sam.isInCooldown() &&
+        targetableTiles.some(
+          (tile) => game.euclideanDistSquared(sam.tile(), tile) <= samRange2,
+        ),
+    )
+    .map((sam) => ({
+      unitID: sam.id(),
+      ownerID: sam.owner().id(),
+      tile: sam.tile(),
+      hitChance,
+    }));
+
+  return {
+    impacts: Array.from(estimates, ([owner, estimate]) => ({
+      playerID: owner.id(),
+      tiles: Math.round(estimate.tiles),
+      troops: Math.round(estimate.troops),
+    })).sort((a, b) => b.tiles - a.tiles),
+    brokenAlliances,
+    interceptors,
+    interceptionChance:
+      1 - interceptors.reduce((miss, i) => miss * (1 - i.hitChance), 1),
+  };
+}
+
+// The path of the nuke as NukeExecution flies it, from the closest silo that
+// is ready to launch. Without one the nuke is taken to fall from above the
+// target.
+function nukeTrajectory(
+  game: Game,
+  player: Player,
+  type: ForecastNukeType,
+  dst: TileRef,
+): TrajectoryTile[] {
+  const src = player.canBuild(type, dst);
+  const config = game.config();
+  const targetRange2 = config.defaultNukeTargetableRange() ** 2;
+  const pathFinder = new ParabolaPathFinder(game);
+  pathFinder.computeControlPoints(
+    src === false ? dst : src,
+    dst,
+    config.defaultNukeSpeed(),
+  );
+  return pathFinder.allTiles().map((tile) => ({
+    tile,
+    targetable:
+      game.euclideanDistSquared(tile, dst) < targetRange2 ||
+      (src !== false && game.euclideanDistSquared(src, tile) < targetRange2),
+  }));
+}
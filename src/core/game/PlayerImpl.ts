@@ -31,6 +31,7 @@ import {
   PlayerInfo,
   PlayerProfile,
   PlayerType,
+  QueuedBuild,
   Relation,
   Team,
   TerraNullius,
@@ -53,6 +54,8 @@ import {
 } from "./TransportShipUtils";
 import { UnitImpl } from "./UnitImpl";
 
+const MAX_BUILD_QUEUE = 10;
+
 interface Target {
   tick: Tick;
   target: Player;
@@ -73,6 +76,7 @@ export class PlayerImpl implements Player {
   private _troops: bigint;
 
   markedTraitorTick = -1;
+  private capitalCapturedTick = -1;
 
   private embargoes = new Map<PlayerID, Embargo>();
 
@@ -92,6 +96,7 @@ export class PlayerImpl implements Player {
   private outgoingEmojis_: EmojiMessage[] = [];
 
   private sentDonations: Donation[] = [];
+  private lastCession: Tick | null = null;
 
   private relations = new Map<Player, number>();
 
@@ -102,6 +107,9 @@ export class PlayerImpl implements Player {
   private _hasSpawned = false;
   private _isDisconnected = false;
 
+  private _buildQueue: QueuedBuild[] = [];
+  private nextQueuedBuildID = 1;
+
   constructor(
     private mg: GameImpl,
     private _smallID: number,
@@ -141,6 +149,7 @@ export class PlayerImpl implements Player {
       allies: this.alliances().map((a) => a.other(this).smallID()),
       embargoes: new Set([...this.embargoes.keys()].map((p) => p.toString())),
       isTraitor: this.isTraitor(),
+      hasCapitalDebuff: this.hasCapitalDebuff(),
       targets: this.targets().map((p) => p.smallID()),
       outgoingEmojis: this.outgoingEmojis(),
       outgoingAttacks: this._outgoingAttacks.map((a) => {
@@ -172,6 +181,10 @@ export class PlayerImpl implements Player {
           }) satisfies AllianceView,
       ),
       hasSpawned: this.hasSpawned(),
+      buildQueue: this._buildQueue.map((b) => ({
+        ...b,
+        cost: this.mg.unitInfo(b.type).cost(this),
+      })),
       betrayals: stats?.betrayals,
     };
   }
@@ -432,6 +445,18 @@ export class PlayerImpl implements Player {
     this.mg.stats().betray(this);
   }
 
+  hasCapitalDebuff(): boolean {
+    return (
+      this.capitalCapturedTick >= 0 &&
+      this.mg.ticks() - this.capitalCapturedTick <
+        this.mg.config().capitalCaptureDebuffDuration()
+    );
+  }
+
+  markCapitalCaptured(): void {
+    this.capitalCapturedTick = this.mg.ticks();
+  }
+
   createAllianceRequest(recipient: Player): AllianceRequest | null {
     if (this.isAlliedWith(recipient)) {
       throw new Error(`cannot create alliance request, already allies`);
@@ -632,6 +657,58 @@ export class PlayerImpl implements Player {
     return true;
   }
 
+  canCedeTerritory(recipient: Player): boolean {
+    if (
+      recipient === this ||
+      !this.isFriendly(recipient) ||
+      !recipient.isAlive()
+    ) {
+      return false;
+    }
+    if (
+      recipient.type() === PlayerType.Human &&
+      this.mg.config().gameConfig().gameMode === GameMode.FFA &&
+      this.mg.config().gameConfig().gameType === GameType.Public
+    ) {
+      return false;
+    }
+    return (
+      this.lastCession === null ||
+      this.mg.ticks() - this.lastCession >= this.mg.config().cessionCooldown()
+    );
+  }
+
+  // Structures on the tiles are handed over by PlayerExecution, like for any
+  // other territory bound unit on a tile that changes owner.
+  cedeTerritory(recipient: Player, tiles: TileRef[]): boolean {
+    // The capital is never handed over, not even to an ally.
+    const capitals = new Set(this.units(UnitType.Capital).map((u) => u.tile()));
+    const ceded = tiles.filter(
+      (tile) => this.mg.owner(tile) === this && !capitals.has(tile),
+    );
+    // Ceding everything would eliminate the sender.
+    if (ceded.length === 0 || ceded.length >= this.numTilesOwned()) {
+      return false;
+    }
+    for (const tile of ceded) {
+      recipient.conquer(tile);
+    }
+
+    this.lastCession = this.mg.ticks();
+    this.mg.stats().territoryCede(this, recipient, ceded.length);
+    this.mg.displayMessage(
+      `Ceded ${renderNumber(ceded.length)} tiles to ${recipient.name()}`,
+      MessageType.SENT_TERRITORY_TO_PLAYER,
+      this.id(),
+    );
+    this.mg.displayMessage(
+      `Received ${renderNumber(ceded.length)} tiles from ${this.name()}`,
+      MessageType.RECEIVED_TERRITORY_FROM_PLAYER,
+      recipient.id(),
+    );
+    return true;
+  }
+
   hasEmbargoAgainst(other: Player): boolean {
     return this.embargoes.has(other.id());
   }
@@ -813,6 +890,36 @@ export class PlayerImpl implements Player {
     this.recordUnitConstructed(unit.type());
   }
 
+  buildQueue(): QueuedBuild[] {
+    return this._buildQueue;
+  }
+
+  queueBuild(type: UnitType, tile: TileRef): QueuedBuild | false {
+    if (this._buildQueue.length >= MAX_BUILD_QUEUE) {
+      return false;
+    }
+    const build = { id: this.nextQueuedBuildID++, type, tile };
+    this._buildQueue.push(build);
+    return build;
+  }
+
+  moveQueuedBuild(id: number, index: number): boolean {
+    const from = this._buildQueue.findIndex((b) => b.id === id);
+    if (from === -1) {
+      return false;
+    }
+    const [build] = this._buildQueue.splice(from, 1);
+    const to = Math.max(0, Math.min(index, this._buildQueue.length));
+    this._buildQueue.splice(to, 0, build);
+    return true;
+  }
+
+  removeQueuedBuild(id: number): boolean {
+    const before = this._buildQueue.length;
+    this._buildQueue = this._buildQueue.filter((b) => b.id !== id);
+    return this._buildQueue.length !== before;
+  }
+
   public buildableUnits(tile: TileRef): BuildableUnit[] {
     const validTiles = this.validStructureSpawnTiles(tile);
     return Object.values(UnitType).map((u) => {
@@ -865,6 +972,9 @@ export class PlayerImpl implements Player {
       case UnitType.Shell:
       case UnitType.SAMMissile:
         return targetTile;
+      case UnitType.Capital:
+        // Only placed at spawn.
+        return false;
       case UnitType.TransportShip:
         return canBuildTransportShip(this.mg, this, targetTile);
       case UnitType.TradeShip:
@@ -0,0 +1,43 @@
+import { GameUpdates, UnitType } from "./Game";
+import { GameUpdateType } from "./GameUpdates";
+
+export enum ReplayMarkerType {
+  Win = "win",
+  Nuke = "nuke",
+  BrokeAlliance = "broke_alliance",
+  Pause = "pause",
+}
+
+// A notable event on the replay timeline, shown on the scrub bar.
+export interface ReplayMarker {
+  type: ReplayMarkerType;
+  // Number of turns executed when the event happened.
+  turn: number;
+}
+
+const nukeTypes: UnitType[] = [
+  UnitType.AtomBomb,
+  UnitType.HydrogenBomb,
+  UnitType.MIRVWarhead,
+];
+
+// Returns at most one marker of each type for the given tick.
+export function replayMarkers(
+  turn: number,
+  updates: GameUpdates,
+): ReplayMarker[] {
+  const markers: ReplayMarker[] = [];
+  if (updates[GameUpdateType.Win].length > 0) {
+    markers.push({ type: ReplayMarkerType.Win, turn });
+  }
+  const detonated = updates[GameUpdateType.Unit].some(
+    (u) => nukeTypes.includes(u.unitType) && !u.isActive && u.reachedTarget,
+  );
+  if (detonated) {
+    markers.push({ type: ReplayMarkerType.Nuke, turn });
+  }
+  if (updates[GameUpdateType.BrokeAlliance].length > 0) {
+    markers.push({ type: ReplayMarkerType.BrokeAlliance, turn });
+  }
+  return markers;
+}
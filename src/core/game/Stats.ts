@@ -73,6 +73,13 @@ export interface Stats {
   // Player's SAM intercepts a bomb from attacker
   bombIntercept(player: Player, type: NukeType, count: number | bigint): void;
 
+  // Player cedes tiles to an ally or teammate
+  territoryCede(
+    player: Player,
+    recipient: Player,
+    tiles: number | bigint,
+  ): void;
+
   // Player earns gold from conquering tiles or trade ships from captured
   goldWar(player: Player, captured: Player, gold: number | bigint): void;
 
@@ -11,6 +11,8 @@ import {
   BOMB_INDEX_INTERCEPT,
   BOMB_INDEX_LAND,
   BOMB_INDEX_LAUNCH,
+  CESSION_INDEX_RECV,
+  CESSION_INDEX_SENT,
   GOLD_INDEX_STEAL,
   GOLD_INDEX_TRADE,
   GOLD_INDEX_WAR,
@@ -110,6 +112,14 @@ export class StatsImpl implements Stats {
     p.bombs[type][index] += _bigint(value);
   }
 
+  private _addCession(player: Player, index: number, value: BigIntLike) {
+    const p = this._makePlayerStats(player);
+    if (p === undefined) return;
+    p.cessions ??= [0n];
+    while (p.cessions.length <= index) p.cessions.push(0n);
+    p.cessions[index] += _bigint(value);
+  }
+
   private _addGold(player: Player, index: number, value: BigIntLike) {
     const p = this._makePlayerStats(player);
     if (p === undefined) return;
@@ -219,6 +229,11 @@ export class StatsImpl implements Stats {
     this._addBomb(player, type, BOMB_INDEX_INTERCEPT, count);
   }
 
+  territoryCede(player: Player, recipient: Player, tiles: BigIntLike): void {
+    this._addCession(player, CESSION_INDEX_SENT, tiles);
+    this._addCession(recipient, CESSION_INDEX_RECV, tiles);
+  }
+
   goldWork(player: Player, gold: BigIntLike): void {
     this._addGold(player, GOLD_INDEX_WORK, gold);
   }
@@ -1,4 +1,4 @@
-import { GameMapType } from "./Game";
+import { GameMapType, NationPersonality } from "./Game";
 import { GameMap, GameMapImpl } from "./GameMap";
 import { GameMapLoader } from "./GameMapLoader";
 
@@ -8,7 +8,16 @@ export type TerrainMapData = {
   miniGameMap: GameMap;
 };
 
-const loadedMaps = new Map<GameMapType, TerrainMapData>();
+interface TerrainMapFiles {
+  manifest: MapManifest;
+  mapBin: Uint8Array;
+  miniMapBin: Uint8Array;
+}
+
+// Only the files are cached, every game gets its own map state because the
+// server runs many games in the same process. Custom maps are cached by their
+// content hash.
+const loadedMaps = new Map<GameMapType | string, TerrainMapFiles>();
 
 export interface MapMetadata {
   width: number;
@@ -28,32 +37,39 @@ export interface Nation {
   flag: string;
   name: string;
   strength: number;
+  personality?: NationPersonality;
 }
 
 export async function loadTerrainMap(
   map: GameMapType,
   terrainMapFileLoader: GameMapLoader,
+  customMap?: string,
 ): Promise<TerrainMapData> {
-  const cached = loadedMaps.get(map);
-  if (cached !== undefined) return cached;
-  const mapFiles = terrainMapFileLoader.getMapData(map);
+  const key = customMap ?? map;
+  let files = loadedMaps.get(key);
+  if (files === undefined) {
+    const mapFiles =
+      customMap !== undefined
+        ? terrainMapFileLoader.getCustomMapData(customMap)
+        : terrainMapFileLoader.getMapData(map);
+    files = {
+      manifest: await mapFiles.manifest(),
+      mapBin: await mapFiles.mapBin(),
+      miniMapBin: await mapFiles.miniMapBin(),
+    };
+    loadedMaps.set(key, files);
+  }
 
-  const manifest = await mapFiles.manifest();
-  const gameMap = await genTerrainFromBin(
-    manifest.map,
-    await mapFiles.mapBin(),
-  );
+  const gameMap = await genTerrainFromBin(files.manifest.map, files.mapBin);
   const miniGameMap = await genTerrainFromBin(
-    manifest.mini_map,
-    await mapFiles.miniMapBin(),
+    files.manifest.mini_map,
+    files.miniMapBin,
   );
-  const result = {
-    manifest: await mapFiles.manifest(),
+  return {
+    manifest: files.manifest,
     gameMap: gameMap,
     miniGameMap: miniGameMap,
   };
-  loadedMaps.set(map, result);
-  return result;
 }
 
 export async function genTerrainFromBin(
@@ -32,6 +32,8 @@ export class UnitImpl implements Unit {
   private _missileTimerQueue: number[] = [];
   private _hasTrainStation: boolean = false;
   private _patrolTile: TileRef | undefined;
+  private _patrolRoute: TileRef[] = [];
+  private _loopPatrolRoute = false;
   private _level: number = 1;
   private _targetable: boolean = true;
   private _loaded: boolean | undefined;
@@ -96,6 +98,27 @@ export class UnitImpl implements Unit {
     return this._patrolTile;
   }
 
+  setPatrolRoute(waypoints: TileRef[], loop: boolean): void {
+    this._patrolRoute = [...waypoints];
+    // Looping over a single waypoint would never settle into a patrol.
+    this._loopPatrolRoute = loop && waypoints.length > 1;
+  }
+
+  patrolRoute(): TileRef[] {
+    return this._patrolRoute;
+  }
+
+  reachedWaypoint(): void {
+    const waypoint = this._patrolRoute.shift();
+    if (waypoint === undefined) {
+      return;
+    }
+    this._patrolTile = waypoint;
+    if (this._loopPatrolRoute) {
+      this._patrolRoute.push(waypoint);
+    }
+  }
+
   isUnit(): this is Unit {
     return true;
   }
@@ -132,6 +155,7 @@ export class UnitImpl implements Unit {
       constructionType: this._constructionType,
       targetUnitId: this._targetUnit?.id() ?? undefined,
       targetTile: this.targetTile() ?? undefined,
+      patrolTile: this._patrolTile,
       missileTimerQueue: this._missileTimerQueue,
       level: this.level(),
       hasTrainStation: this._hasTrainStation,
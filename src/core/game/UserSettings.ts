@@ -1,5 +1,15 @@
 const PATTERN_KEY = "territoryPattern";
 
+// Map overlays for planning, the values are part of the setting keys.
+export enum StrategicOverlay {
+  DefenseCoverage = "defenseCoverage",
+  SamCoverage = "samCoverage",
+  WarshipPatrols = "warshipPatrols",
+  TradeRoutes = "tradeRoutes",
+  Fallout = "fallout",
+  BorderPressure = "borderPressure",
+}
+
 export class UserSettings {
   get(key: string, defaultValue: boolean): boolean {
     const value = localStorage.getItem(key);
@@ -56,6 +66,14 @@ export class UserSettings {
     return this.get("settings.territoryPatterns", true);
   }
 
+  minimap() {
+    return this.get("settings.minimap", true);
+  }
+
+  strategicOverlay(overlay: StrategicOverlay) {
+    return this.get(`settings.overlay.${overlay}`, false);
+  }
+
   focusLocked() {
     return false;
     // TODO: renable when performance issues are fixed.
@@ -98,6 +116,14 @@ export class UserSettings {
     this.set("settings.structureSprites", !this.structureSprites());
   }
 
+  toggleMinimap() {
+    this.set("settings.minimap", !this.minimap());
+  }
+
+  toggleStrategicOverlay(overlay: StrategicOverlay) {
+    this.set(`settings.overlay.${overlay}`, !this.strategicOverlay(overlay));
+  }
+
   toggleTerritoryPatterns() {
     this.set("settings.territoryPatterns", !this.territoryPatterns());
   }
@@ -0,0 +1,78 @@
+import {
+  OTHER_INDEX_CAPTURE,
+  OTHER_INDEX_DESTROY,
+  PlayerStats,
+} from "../StatsSchemas";
+import { Player } from "./Game";
+import { GameMap, TileRef } from "./GameMap";
+
+// Land tile closest to the center of the map, the center of the hill in king
+// of the hill games. Both the simulation and the client derive it from the
+// map so it does not need to be sent.
+export function hillCenter(map: GameMap): TileRef | null {
+  const cx = Math.floor(map.width() / 2);
+  const cy = Math.floor(map.height() / 2);
+  let best: TileRef | null = null;
+  let bestDist = Infinity;
+  map.forEachTile((tile) => {
+    if (!map.isLand(tile)) return;
+    const dx = map.x(tile) - cx;
+    const dy = map.y(tile) - cy;
+    const dist = dx * dx + dy * dy;
+    if (dist < bestDist) {
+      best = tile;
+      bestDist = dist;
+    }
+  });
+  return best;
+}
+
+// Land tiles within radius of the hill center.
+export function hillTiles(
+  map: GameMap,
+  center: TileRef,
+  radius: number,
+): TileRef[] {
+  const tiles: TileRef[] = [];
+  const cx = map.x(center);
+  const cy = map.y(center);
+  for (let y = cy - radius; y <= cy + radius; y++) {
+    for (let x = cx - radius; x <= cx + radius; x++) {
+      if (!map.isValidCoord(x, y)) continue;
+      const tile = map.ref(x, y);
+      if (
+        map.isLand(tile) &&
+        map.euclideanDistSquared(center, tile) <= radius * radius
+      ) {
+        tiles.push(tile);
+      }
+    }
+  }
+  return tiles;
+}
+
+const GOLD_PER_POINT = 1000;
+const POINTS_PER_UNIT = 100;
+
+// Score of the "points" victory condition: one point per tile, one per
+// thousand gold earned and a hundred per structure or warship destroyed or
+// captured.
+export function victoryScore(
+  player: Player,
+  stats: PlayerStats | null,
+): number {
+  let gold = 0n;
+  for (const earned of stats?.gold ?? []) {
+    gold += earned;
+  }
+  let units = 0n;
+  for (const counts of Object.values(stats?.units ?? {})) {
+    units +=
+      (counts[OTHER_INDEX_DESTROY] ?? 0n) + (counts[OTHER_INDEX_CAPTURE] ?? 0n);
+  }
+  return (
+    player.numTilesOwned() +
+    Number(gold / BigInt(GOLD_PER_POINT)) +
+    Number(units) * POINTS_PER_UNIT
+  );
+}
@@ -109,9 +109,13 @@ export class PathFinder {
   private aStar: AStar<TileRef>;
   private computeFinished = true;
 
+  // Settings are kept instead of a closure building the search, so that a
+  // copy of the game (see deepClone) searches its own maps.
   private constructor(
     private game: Game,
-    private newAStar: (curr: TileRef, dst: TileRef) => AStar<TileRef>,
+    private iterations: number,
+    private waterPath: boolean,
+    private maxTries: number,
   ) {}
 
   public static Mini(
@@ -120,17 +124,19 @@ export class PathFinder {
     waterPath: boolean = true,
     maxTries: number = 20,
   ) {
-    return new PathFinder(game, (curr: TileRef, dst: TileRef) => {
-      return new MiniAStar(
-        game.map(),
-        game.miniMap(),
-        curr,
-        dst,
-        iterations,
-        maxTries,
-        waterPath,
-      );
-    });
+    return new PathFinder(game, iterations, waterPath, maxTries);
+  }
+
+  private newAStar(curr: TileRef, dst: TileRef): AStar<TileRef> {
+    return new MiniAStar(
+      this.game.map(),
+      this.game.miniMap(),
+      curr,
+      dst,
+      this.iterations,
+      this.maxTries,
+      this.waterPath,
+    );
   }
 
   nextTile(
@@ -0,0 +1,87 @@
+type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Copies an object graph, preserving prototypes, cycles and shared references.
+ *
+ * Objects in `shared` are referenced by the copy instead of being copied, and
+ * functions are always shared, so they must only close over immutable data.
+ * Only own enumerable properties are copied.
+ *
+ * The graph is walked iteratively so long chains don't overflow the stack.
+ */
+export function deepClone<T>(root: T, shared: ReadonlySet<object> = new Set()) {
+  const copies = new Map<object, object>();
+  const pending: [object, object][] = [];
+
+  const copyOf = (value: unknown): unknown => {
+    if (typeof value !== "object" || value === null || shared.has(value)) {
+      return value;
+    }
+    const existing = copies.get(value);
+    if (existing !== undefined) {
+      return existing;
+    }
+    let copy: object;
+    if (ArrayBuffer.isView(value)) {
+      if (value instanceof DataView) {
+        throw new Error("cannot clone DataView");
+      }
+      copy = (value as TypedArray).slice();
+    } else if (value instanceof Map) {
+      copy = new Map();
+    } else if (value instanceof Set) {
+      copy = new Set();
+    } else if (value instanceof Date) {
+      copy = new Date(value.getTime());
+    } else if (Array.isArray(value)) {
+      copy = new Array(value.length);
+    } else {
+      copy = Object.create(Object.getPrototypeOf(value));
+    }
+    copies.set(value, copy);
+    pending.push([value, copy]);
+    return copy;
+  };
+
+  const fill = (source: object, copy: object) => {
+    if (ArrayBuffer.isView(source) || source instanceof Date) {
+      return;
+    }
+    if (source instanceof Map) {
+      for (const [key, value] of source) {
+        (copy as Map<unknown, unknown>).set(copyOf(key), copyOf(value));
+      }
+      return;
+    }
+    if (source instanceof Set) {
+      for (const value of source) {
+        (copy as Set<unknown>).add(copyOf(value));
+      }
+      return;
+    }
+    for (const key of Object.keys(source)) {
+      (copy as Record<string, unknown>)[key] = copyOf(
+        (source as Record<string, unknown>)[key],
+      );
+    }
+  };
+
+  const result = copyOf(root) as T;
+  let next = pending.pop();
+  while (next !== undefined) {
+    fill(next[0], next[1]);
+    next = pending.pop();
+  }
+  return result;
+}
@@ -45,6 +45,19 @@ export function isProfaneUsername(username: string): boolean {
   return matcher.hasMatch(username);
 }
 
+// Masks profane words in free text, like lobby chat, with asterisks.
+export function censorProfanity(text: string): string {
+  let censored = text;
+  for (const match of matcher.getAllMatches(text)) {
+    const length = match.endIndex - match.startIndex + 1;
+    censored =
+      censored.slice(0, match.startIndex) +
+      "*".repeat(length) +
+      censored.slice(match.endIndex + 1);
+  }
+  return censored;
+}
+
 export function validateUsername(username: string): {
   isValid: boolean;
   error?: string;
@@ -6,9 +6,12 @@ import {
   AttackAveragePositionResultMessage,
   InitializedMessage,
   MainThreadMessage,
+  NukeForecastResultMessage,
   PlayerActionsResultMessage,
   PlayerBorderTilesResultMessage,
   PlayerProfileResultMessage,
+  SeekErrorMessage,
+  SeekResultMessage,
   TransportShipSpawnResultMessage,
   WorkerMessage,
 } from "./WorkerMessages";
@@ -47,6 +50,9 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
           mapLoader,
           gameUpdate,
         ).then((gr) => {
+          if (message.isReplay) {
+            gr.enableCheckpoints();
+          }
           sendMessage({
             type: "initialized",
             id: message.id,
@@ -170,6 +176,49 @@ ctx.addEventListener("message", async (e: MessageEvent<MainThreadMessage>) => {
         console.error("Failed to spawn transport ship:", error);
       }
       break;
+    case "nuke_forecast":
+      if (!gameRunner) {
+        throw new Error("Game runner not initialized");
+      }
+
+      try {
+        const forecast = (await gameRunner).nukeForecast(
+          message.playerID,
+          message.nukeType,
+          message.targetTile,
+        );
+        sendMessage({
+          type: "nuke_forecast_result",
+          id: message.id,
+          result: forecast,
+        } as NukeForecastResultMessage);
+      } catch (error) {
+        console.error("Failed to forecast nuke:", error);
+      }
+      break;
+    case "seek":
+      if (!gameRunner) {
+        throw new Error("Game runner not initialized");
+      }
+
+      try {
+        const result = (await gameRunner).seek(message.turns);
+        sendMessage({
+          type: "seek_result",
+          id: message.id,
+          result,
+        } as SeekResultMessage);
+      } catch (error) {
+        console.error("Failed to seek:", error);
+        // The client waits for an answer, ticks are dropped meanwhile.
+        sendMessage({
+          type: "seek_error",
+          id: message.id,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        } as SeekErrorMessage);
+      }
+      break;
     default:
       console.warn("Unknown message :", message);
   }
@@ -7,6 +7,8 @@ import {
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { ErrorUpdate, GameUpdateViewData } from "../game/GameUpdates";
+import { ForecastNukeType, NukeForecast } from "../game/NukeForecast";
+import { SeekResult } from "../GameRunner";
 import { ClientID, GameStartInfo, Turn } from "../Schemas";
 import { generateID } from "../Util";
 import { WorkerMessage } from "./WorkerMessages";
@@ -22,6 +24,7 @@ export class WorkerClient {
   constructor(
     private gameStartInfo: GameStartInfo,
     private clientID: ClientID,
+    private isReplay: boolean = false,
   ) {
     this.worker = new Worker(new URL("./Worker.worker.ts", import.meta.url));
     this.messageHandlers = new Map();
@@ -70,6 +73,7 @@ export class WorkerClient {
         id: messageId,
         gameStartInfo: this.gameStartInfo,
         clientID: this.clientID,
+        isReplay: this.isReplay,
       });
 
       // Add timeout for initialization
@@ -255,6 +259,66 @@ export class WorkerClient {
     });
   }
 
+  nukeForecast(
+    playerID: PlayerID,
+    nukeType: ForecastNukeType,
+    targetTile: TileRef,
+  ): Promise<NukeForecast> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (
+          message.type === "nuke_forecast_result" &&
+          message.result !== undefined
+        ) {
+          resolve(message.result);
+        }
+      });
+
+      this.worker.postMessage({
+        type: "nuke_forecast",
+        id: messageId,
+        playerID,
+        nukeType,
+        targetTile,
+      });
+    });
+  }
+
+  // Moves the game to the state after the given turns, replays only.
+  seek(turns: Turn[]): Promise<SeekResult> {
+    return new Promise((resolve, reject) => {
+      if (!this.isInitialized) {
+        reject(new Error("Worker not initialized"));
+        return;
+      }
+
+      const messageId = generateID();
+
+      this.messageHandlers.set(messageId, (message) => {
+        if (message.type === "seek_result" && message.result !== undefined) {
+          resolve(message.result);
+        } else if (message.type === "seek_error") {
+          const error = new Error(message.error);
+          error.stack = message.stack;
+          reject(error);
+        }
+      });
+
+      this.worker.postMessage({
+        type: "seek",
+        id: messageId,
+        turns,
+      });
+    });
+  }
+
   cleanup() {
     this.worker.terminate();
     this.messageHandlers.clear();
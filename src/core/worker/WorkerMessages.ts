@@ -6,6 +6,8 @@ import {
 } from "../game/Game";
 import { TileRef } from "../game/GameMap";
 import { GameUpdateViewData } from "../game/GameUpdates";
+import { ForecastNukeType, NukeForecast } from "../game/NukeForecast";
+import { SeekResult } from "../GameRunner";
 import { ClientID, GameStartInfo, Turn } from "../Schemas";
 
 export type WorkerMessageType =
@@ -23,7 +25,12 @@ export type WorkerMessageType =
   | "attack_average_position"
   | "attack_average_position_result"
   | "transport_ship_spawn"
-  | "transport_ship_spawn_result";
+  | "transport_ship_spawn_result"
+  | "nuke_forecast"
+  | "nuke_forecast_result"
+  | "seek"
+  | "seek_result"
+  | "seek_error";
 
 // Base interface for all messages
 interface BaseWorkerMessage {
@@ -40,6 +47,7 @@ export interface InitMessage extends BaseWorkerMessage {
   type: "init";
   gameStartInfo: GameStartInfo;
   clientID: ClientID;
+  isReplay: boolean;
 }
 
 export interface TurnMessage extends BaseWorkerMessage {
@@ -112,6 +120,35 @@ export interface TransportShipSpawnResultMessage extends BaseWorkerMessage {
   result: TileRef | false;
 }
 
+export interface NukeForecastMessage extends BaseWorkerMessage {
+  type: "nuke_forecast";
+  playerID: PlayerID;
+  nukeType: ForecastNukeType;
+  targetTile: TileRef;
+}
+
+export interface NukeForecastResultMessage extends BaseWorkerMessage {
+  type: "nuke_forecast_result";
+  result: NukeForecast;
+}
+
+export interface SeekMessage extends BaseWorkerMessage {
+  type: "seek";
+  // All turns up to the turn to seek to.
+  turns: Turn[];
+}
+
+export interface SeekResultMessage extends BaseWorkerMessage {
+  type: "seek_result";
+  result: SeekResult;
+}
+
+export interface SeekErrorMessage extends BaseWorkerMessage {
+  type: "seek_error";
+  error: string;
+  stack?: string;
+}
+
 // Union types for type safety
 export type MainThreadMessage =
   | HeartbeatMessage
@@ -121,7 +158,9 @@ export type MainThreadMessage =
   | PlayerProfileMessage
   | PlayerBorderTilesMessage
   | AttackAveragePositionMessage
-  | TransportShipSpawnMessage;
+  | TransportShipSpawnMessage
+  | NukeForecastMessage
+  | SeekMessage;
 
 // Message send from worker
 export type WorkerMessage =
@@ -131,4 +170,7 @@ export type WorkerMessage =
   | PlayerProfileResultMessage
   | PlayerBorderTilesResultMessage
   | AttackAveragePositionResultMessage
-  | TransportShipSpawnResultMessage;
+  | TransportShipSpawnResultMessage
+  | NukeForecastResultMessage
+  | SeekResultMessage
+  | SeekErrorMessage;
@@ -0,0 +1,97 @@
+import fs from "fs/promises";
+import { parseArgs } from "util";
+import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../core/game/FileSystemGameMapLoader";
+import { analyzeReplay, samplesToCsv } from "../core/ReplayAnalyzer";
+import { GameRecord } from "../core/Schemas";
+import { replacer } from "../core/Util";
+import { LocalArchiveStorage } from "../server/LocalArchiveStorage";
+
+const usage = `Usage: npm run analyze-replay -- <game record> [options]
+
+Replays an archived game and writes the tiles, troops, gold and units of every
+player over time. Exits with 1 if the replay desyncs from the archived hashes.
+
+Options:
+  --interval <seconds>  time between samples (default 60)
+  --format <csv|json>   output format (default csv)
+  --out <file>          write to a file instead of stdout
+  --continue            keep going after the first desync
+  --maps <dir>          maps directory (default MAPS_DIR)
+  --archive <dir>       local archive with the custom maps (default ARCHIVE_DIR)`;
+
+// stdout is reserved for the time series, the config and the simulation log
+// with console.log.
+console.log = console.error;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    interval: { type: "string", default: "60" },
+    format: { type: "string", default: "csv" },
+    out: { type: "string" },
+    continue: { type: "boolean", default: false },
+    maps: { type: "string" },
+    archive: { type: "string" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+const interval = Number(values.interval);
+if (
+  values.help ||
+  positionals.length !== 1 ||
+  !(interval > 0) ||
+  (values.format !== "csv" && values.format !== "json")
+) {
+  console.error(usage);
+  process.exit(values.help ? 0 : 2);
+}
+
+const serverConfig = getServerConfigFromServer();
+const gameRecord = JSON.parse(
+  await fs.readFile(positionals[0], "utf8"),
+) as GameRecord;
+
+const archive = new LocalArchiveStorage(
+  values.archive ?? serverConfig.archiveDir(),
+);
+const analysis = await analyzeReplay(
+  gameRecord,
+  new FileSystemGameMapLoader(
+    values.maps ?? serverConfig.mapsDir(),
+    (hash, file) => archive.readCustomMapFile(hash, file),
+  ),
+  serverConfig,
+  {
+    interval: Math.max(
+      1,
+      Math.round((interval * 1000) / serverConfig.turnIntervalMs()),
+    ),
+    continueAfterDesync: values.continue,
+  },
+);
+
+const output =
+  values.format === "csv"
+    ? samplesToCsv(analysis.samples)
+    : JSON.stringify(analysis, replacer, 2) + "\n";
+if (values.out !== undefined) {
+  await fs.writeFile(values.out, output);
+} else {
+  process.stdout.write(output);
+}
+
+console.error(
+  `${analysis.gameID}: ${analysis.turns} turns, ${analysis.hashesChecked} hashes checked`,
+);
+if (analysis.error !== null) {
+  console.error(`replay failed: ${analysis.error}`);
+}
+if (analysis.firstDesync !== null) {
+  const { turn, archivedHash, hash } = analysis.firstDesync;
+  console.error(
+    `first desync on turn ${turn}: archived hash ${archivedHash}, replay hash ${hash}`,
+  );
+}
+process.exit(analysis.error !== null || analysis.firstDesync !== null ? 1 : 0);
@@ -0,0 +1,21 @@
+import { ArchiveStorageType } from "../core/configuration/Config";
+import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
+import { R2ArchiveStorage } from "../server/R2ArchiveStorage";
+
+// Lists the games archived in R2 before the archive index existed, so the
+// archived games API finds them. Safe to run again, indexed games are skipped.
+
+const serverConfig = getServerConfigFromServer();
+if (serverConfig.archiveStorage() !== ArchiveStorageType.R2) {
+  console.error("The archive is not stored in R2, it needs no index.");
+  process.exit(2);
+}
+
+const storage = new R2ArchiveStorage(
+  serverConfig.r2Endpoint(),
+  serverConfig.r2AccessKey(),
+  serverConfig.r2SecretKey(),
+  serverConfig.r2Bucket(),
+);
+const written = await storage.backfillIndex();
+console.log(`indexed ${written} games`);
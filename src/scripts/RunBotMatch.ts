@@ -0,0 +1,114 @@
+import fs from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import { Bot } from "../botsdk/Bot";
+import { ExpansionBot } from "../botsdk/ExpansionBot";
+import { MatchResult, runMatch } from "../botsdk/MatchRunner";
+import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../core/game/FileSystemGameMapLoader";
+import { GameMapType } from "../core/game/Game";
+import { replacer } from "../core/Util";
+
+const usage = `Usage: npm run bot-match -- <bot>... [options]
+
+Plays matches between bots without a server and writes the results as JSON.
+A bot is "expansion" for the example bot, or the path of a module whose
+default export is a function (name: string) => Bot.
+
+Options:
+  --map <name>          map to play on (default World)
+  --games <n>           number of matches (default 1)
+  --max-turns <n>       turns before a match ends without winner (default 36000)
+  --maps <dir>          maps directory (default MAPS_DIR)
+  --out <file>          write to a file instead of stdout`;
+
+// stdout is reserved for the results, the simulation log goes to stderr.
+console.log = console.error;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    map: { type: "string", default: "World" },
+    games: { type: "string", default: "1" },
+    "max-turns": { type: "string", default: "36000" },
+    maps: { type: "string" },
+    out: { type: "string" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+const gameMap = Object.values(GameMapType).find(
+  (m) => m === values.map || m.replace(/\s+/g, "") === values.map,
+);
+const games = Number(values.games);
+const maxTurns = Number(values["max-turns"]);
+if (
+  values.help ||
+  positionals.length < 2 ||
+  gameMap === undefined ||
+  !Number.isInteger(games) ||
+  games < 1 ||
+  !Number.isInteger(maxTurns) ||
+  maxTurns < 1
+) {
+  console.error(usage);
+  process.exit(values.help ? 0 : 2);
+}
+
+type BotFactory = (name: string) => Bot;
+
+async function loadBot(spec: string): Promise<BotFactory> {
+  if (spec === "expansion") {
+    return (name) => new ExpansionBot(name);
+  }
+  const module = await import(pathToFileURL(path.resolve(spec)).href);
+  if (typeof module.default !== "function") {
+    throw new Error(`${spec} has no default export creating a bot`);
+  }
+  return module.default as BotFactory;
+}
+
+const factories = await Promise.all(positionals.map(loadBot));
+const serverConfig = getServerConfigFromServer();
+const mapLoader = new FileSystemGameMapLoader(
+  values.maps ?? serverConfig.mapsDir(),
+);
+
+const matches: MatchResult[] = [];
+const wins: Record<string, number> = {};
+for (let game = 0; game < games; game++) {
+  const bots = factories.map((create, i) =>
+    create(
+      `${path.basename(positionals[i], path.extname(positionals[i]))}${i}`,
+    ),
+  );
+  const result = await runMatch(
+    {
+      gameMap,
+      bots,
+      maxTurns,
+      gameID: `match${String(game).padStart(3, "0")}`,
+    },
+    mapLoader,
+    serverConfig,
+  );
+  matches.push(result);
+  if (result.winnerName !== null) {
+    wins[result.winnerName] = (wins[result.winnerName] ?? 0) + 1;
+  }
+  console.error(
+    `match ${game + 1}/${games}: ${result.winnerName ?? "no winner"} after ${result.turns} turns`,
+  );
+  if (result.error !== null) {
+    console.error(`match failed: ${result.error}`);
+  }
+}
+
+const output = JSON.stringify({ wins, matches }, replacer, 2) + "\n";
+if (values.out !== undefined) {
+  await fs.writeFile(values.out, output);
+} else {
+  process.stdout.write(output);
+}
+process.exit(matches.some((m) => m.error !== null) ? 1 : 0);
@@ -1,39 +1,54 @@
-import { S3 } from "@aws-sdk/client-s3";
+import { ArchiveStorageType, ServerConfig } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
+import { CustomMapFile } from "../core/game/CustomMap";
 import { AnalyticsRecord, GameID, GameRecord } from "../core/Schemas";
-import { replacer } from "../core/Util";
+import { assertNever } from "../core/Util";
+import {
+  ArchivedGameSummary,
+  ArchiveQuery,
+  ArchiveStorage,
+} from "./ArchiveStorage";
+import { LocalArchiveStorage } from "./LocalArchiveStorage";
 import { logger } from "./Logger";
+import { R2ArchiveStorage } from "./R2ArchiveStorage";
 
 const config = getServerConfigFromServer();
 
 const log = logger.child({ component: "Archive" });
 
-// R2 client configuration
-const r2 = new S3({
-  region: "auto", // R2 ignores region, but it's required by the SDK
-  endpoint: config.r2Endpoint(),
-  credentials: {
-    accessKeyId: config.r2AccessKey(),
-    secretAccessKey: config.r2SecretKey(),
-  },
-});
+export function createArchiveStorage(
+  serverConfig: ServerConfig,
+): ArchiveStorage {
+  const type = serverConfig.archiveStorage();
+  switch (type) {
+    case ArchiveStorageType.R2:
+      return new R2ArchiveStorage(
+        serverConfig.r2Endpoint(),
+        serverConfig.r2AccessKey(),
+        serverConfig.r2SecretKey(),
+        serverConfig.r2Bucket(),
+      );
+    case ArchiveStorageType.Local:
+      return new LocalArchiveStorage(serverConfig.archiveDir());
+    default:
+      assertNever(type);
+  }
+}
 
-const bucket = config.r2Bucket();
-const gameFolder = "games";
-const analyticsFolder = "analytics";
+const storage = createArchiveStorage(config);
+log.info(`using ${config.archiveStorage()} archive storage`);
 
 export async function archive(gameRecord: GameRecord) {
   try {
     gameRecord.gitCommit = config.gitCommit();
-    // Archive to R2
-    await archiveAnalyticsToR2(gameRecord);
+    await archiveAnalytics(gameRecord);
 
     // Archive full game if there are turns
     if (gameRecord.turns.length > 0) {
       log.info(
-        `${gameRecord.info.gameID}: game has more than zero turns, attempting to write to full game to R2`,
+        `${gameRecord.info.gameID}: game has more than zero turns, attempting to write full game to archive`,
       );
-      await archiveFullGameToR2(gameRecord);
+      await archiveFullGame(gameRecord);
     }
   } catch (error: unknown) {
     // If the error is not an instance of Error, log it as a string
@@ -54,7 +69,7 @@ export async function archive(gameRecord: GameRecord) {
   }
 }
 
-async function archiveAnalyticsToR2(gameRecord: GameRecord) {
+async function archiveAnalytics(gameRecord: GameRecord) {
   // Create analytics data object
   const { info, version, gitCommit, subdomain, domain } = gameRecord;
   const analyticsData: AnalyticsRecord = {
@@ -66,28 +81,20 @@ async function archiveAnalyticsToR2(gameRecord: GameRecord) {
   };
 
   try {
-    // Store analytics data using just the game ID as the key
-    const analyticsKey = `${info.gameID}.json`;
-
-    await r2.putObject({
-      Bucket: bucket,
-      Key: `${analyticsFolder}/${analyticsKey}`,
-      Body: JSON.stringify(analyticsData, replacer),
-      ContentType: "application/json",
-    });
+    await storage.writeAnalytics(analyticsData);
 
-    log.info(`${info.gameID}: successfully wrote game analytics to R2`);
+    log.info(`${info.gameID}: successfully wrote game analytics`);
   } catch (error: unknown) {
     // If the error is not an instance of Error, log it as a string
     if (!(error instanceof Error)) {
       log.error(
-        `${gameRecord.info.gameID}: Error writing game analytics to R2. Non-Error type: ${String(error)}`,
+        `${gameRecord.info.gameID}: Error writing game analytics. Non-Error type: ${String(error)}`,
       );
       return;
     }
 
     const { message, stack, name } = error;
-    log.error(`${info.gameID}: Error writing game analytics to R2: ${error}`, {
+    log.error(`${info.gameID}: Error writing game analytics: ${error}`, {
       message: message,
       stack: stack,
       name: name,
@@ -97,7 +104,7 @@ async function archiveAnalyticsToR2(gameRecord: GameRecord) {
   }
 }
 
-async function archiveFullGameToR2(gameRecord: GameRecord) {
+async function archiveFullGame(gameRecord: GameRecord) {
   // Create a deep copy to avoid modifying the original
   const recordCopy = structuredClone(gameRecord);
 
@@ -107,44 +114,33 @@ async function archiveFullGameToR2(gameRecord: GameRecord) {
   });
 
   try {
-    await r2.putObject({
-      Bucket: bucket,
-      Key: `${gameFolder}/${recordCopy.info.gameID}`,
-      Body: JSON.stringify(recordCopy, replacer),
-      ContentType: "application/json",
-    });
+    await storage.writeGameRecord(recordCopy);
   } catch (error) {
     log.error(`error saving game ${gameRecord.info.gameID}`);
     throw error;
   }
 
-  log.info(`${gameRecord.info.gameID}: game record successfully written to R2`);
+  log.info(
+    `${gameRecord.info.gameID}: game record successfully written to archive`,
+  );
 }
 
 export async function readGameRecord(
   gameId: GameID,
 ): Promise<GameRecord | null> {
   try {
-    // Check if file exists and download in one operation
-    const response = await r2.getObject({
-      Bucket: bucket,
-      Key: `${gameFolder}/${gameId}`, // Fixed - needed to include gameFolder
-    });
-    // Parse the response body
-    if (response.Body === undefined) return null;
-    const bodyContents = await response.Body.transformToString();
-    return JSON.parse(bodyContents) as GameRecord;
+    return await storage.readGameRecord(gameId);
   } catch (error: unknown) {
     // If the error is not an instance of Error, log it as a string
     if (!(error instanceof Error)) {
       log.error(
-        `${gameId}: Error reading game record from R2. Non-Error type: ${String(error)}`,
+        `${gameId}: Error reading game record. Non-Error type: ${String(error)}`,
       );
       return null;
     }
     const { message, stack, name } = error;
     // Log the error for monitoring purposes
-    log.error(`${gameId}: Error reading game record from R2: ${error}`, {
+    log.error(`${gameId}: Error reading game record: ${error}`, {
       message: message,
       stack: stack,
       name: name,
@@ -158,11 +154,7 @@ export async function readGameRecord(
 
 export async function gameRecordExists(gameId: GameID): Promise<boolean> {
   try {
-    await r2.headObject({
-      Bucket: bucket,
-      Key: `${gameFolder}/${gameId}`, // Fixed - needed to include gameFolder
-    });
-    return true;
+    return await storage.gameRecordExists(gameId);
   } catch (error: unknown) {
     // If the error is not an instance of Error, log it as a string
     if (!(error instanceof Error)) {
@@ -172,9 +164,6 @@ export async function gameRecordExists(gameId: GameID): Promise<boolean> {
       return false;
     }
     const { message, stack, name } = error;
-    if (name === "NotFound") {
-      return false;
-    }
     log.error(`${gameId}: Error checking archive existence: ${error}`, {
       message: message,
       stack: stack,
@@ -184,3 +173,40 @@ export async function gameRecordExists(gameId: GameID): Promise<boolean> {
     return false;
   }
 }
+
+export async function listArchivedGames(
+  query: ArchiveQuery,
+): Promise<ArchivedGameSummary[]> {
+  return storage.listGames(query);
+}
+
+export async function writeCustomMap(
+  hash: string,
+  files: Record<CustomMapFile, Uint8Array>,
+) {
+  // The manifest goes last, a map without one is treated as missing.
+  const { "manifest.json": manifest, ...rest } = files;
+  await Promise.all(
+    Object.entries(rest).map(([file, data]) =>
+      storage.writeCustomMapFile(hash, file as CustomMapFile, data),
+    ),
+  );
+  await storage.writeCustomMapFile(hash, "manifest.json", manifest);
+  log.info(`custom map ${hash} written to archive`);
+}
+
+export async function readCustomMapFile(
+  hash: string,
+  file: CustomMapFile,
+): Promise<Uint8Array | null> {
+  try {
+    return await storage.readCustomMapFile(hash, file);
+  } catch (error: unknown) {
+    log.error(`custom map ${hash}: Error reading ${file}: ${error}`);
+    return null;
+  }
+}
+
+export async function customMapExists(hash: string): Promise<boolean> {
+  return (await readCustomMapFile(hash, "manifest.json")) !== null;
+}
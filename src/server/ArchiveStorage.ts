@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { CustomMapFile } from "../core/game/CustomMap";
+import { GameMapType } from "../core/game/Game";
+import {
+  AnalyticsRecord,
+  ClientInfo,
+  GameID,
+  GameRecord,
+  Winner,
+} from "../core/Schemas";
+
+export interface ArchiveStorage {
+  writeAnalytics(record: AnalyticsRecord): Promise<void>;
+  writeGameRecord(record: GameRecord): Promise<void>;
+  // Returns null if the game has not been archived.
+  readGameRecord(gameID: GameID): Promise<GameRecord | null>;
+  gameRecordExists(gameID: GameID): Promise<boolean>;
+  // Newest first, at most query.limit games.
+  listGames(query: ArchiveQuery): Promise<ArchivedGameSummary[]>;
+  // Custom maps are stored next to the games so replays can load them.
+  writeCustomMapFile(
+    hash: string,
+    file: CustomMapFile,
+    data: Uint8Array,
+  ): Promise<void>;
+  // Returns null if there is no custom map with that hash.
+  readCustomMapFile(
+    hash: string,
+    file: CustomMapFile,
+  ): Promise<Uint8Array | null>;
+}
+
+export const ArchiveQuerySchema = z.object({
+  // Game start time bounds, in ms since epoch.
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional(),
+  map: z.enum(GameMapType).optional(),
+  // Matches a client id, or a username case-insensitively.
+  player: z.string().max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+export type ArchiveQuery = z.infer<typeof ArchiveQuerySchema>;
+
+export interface ArchivedGameSummary {
+  gameID: GameID;
+  map: GameMapType;
+  start: number;
+  end: number;
+  duration: number;
+  numTurns: number;
+  winner: Winner;
+  players: ClientInfo[];
+}
+
+export function matchesArchiveQuery(
+  game: ArchivedGameSummary,
+  query: ArchiveQuery,
+): boolean {
+  if (query.from !== undefined && game.start < query.from) {
+    return false;
+  }
+  if (query.to !== undefined && game.start > query.to) {
+    return false;
+  }
+  if (query.map !== undefined && game.map !== query.map) {
+    return false;
+  }
+  if (query.player !== undefined) {
+    const player = query.player.toLowerCase();
+    return game.players.some(
+      (p) => p.clientID === query.player || p.username.toLowerCase() === player,
+    );
+  }
+  return true;
+}
+
+// Newest games first.
+export function sortArchivedGames(games: ArchivedGameSummary[]) {
+  return games.sort((a, b) => b.start - a.start);
+}
+
+// Strips PII so the summary can be returned to players.
+export function toArchivedGameSummary(
+  record: AnalyticsRecord,
+): ArchivedGameSummary {
+  const { info } = record;
+  return {
+    gameID: info.gameID,
+    map: info.config.gameMap,
+    start: info.start,
+    end: info.end,
+    duration: info.duration,
+    numTurns: info.num_turns,
+    winner: info.winner,
+    players: info.players.map((p) => ({
+      clientID: p.clientID,
+      username: p.username,
+    })),
+  };
+}
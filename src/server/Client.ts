@@ -19,5 +19,9 @@ export class Client {
     public readonly ws: WebSocket,
     public readonly flag: string | undefined,
     public readonly pattern: string | undefined,
+    // Spectators receive the turn stream but never take part in the game.
+    public readonly isSpectator: boolean = false,
+    // Turns are sent with the BinaryCodec instead of JSON.
+    public readonly useBinaryCodec: boolean = false,
   ) {}
 }
@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import {
+  CustomMapFile,
+  generateCustomMap,
+  MAX_CUSTOM_MAP_TILES,
+} from "../core/game/CustomMap";
+import { MapManifest } from "../core/game/TerrainMapLoader";
+import { censorProfanity } from "../core/validations/username";
+import { CustomMapUpload } from "../core/WorkerSchemas";
+import { decodePng } from "./PngDecoder";
+
+export interface ConvertedCustomMap {
+  // sha256 of the converted map, what GameConfig.customMap refers to.
+  hash: string;
+  manifest: MapManifest;
+  files: Record<CustomMapFile, Uint8Array>;
+}
+
+// Validates an uploaded map package and converts it into the format of the
+// built-in maps. Throws if the package is invalid.
+export function convertCustomMap(upload: CustomMapUpload): ConvertedCustomMap {
+  const png = Buffer.from(upload.terrain, "base64");
+  const image = decodePng(png, MAX_CUSTOM_MAP_TILES);
+  const { manifest, mapBin, miniMapBin } = generateCustomMap(
+    censorProfanity(upload.manifest.name),
+    upload.manifest.nations.map((n) => ({
+      ...n,
+      name: censorProfanity(n.name),
+    })),
+    image,
+  );
+
+  const manifestJson = new TextEncoder().encode(JSON.stringify(manifest));
+  const hash = crypto
+    .createHash("sha256")
+    .update(manifestJson)
+    .update(mapBin)
+    .update(miniMapBin)
+    .digest("hex");
+  return {
+    hash,
+    manifest,
+    files: {
+      "manifest.json": manifestJson,
+      "map.bin": mapBin,
+      "mini_map.bin": miniMapBin,
+      "thumbnail.png": png,
+    },
+  };
+}
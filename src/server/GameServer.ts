@@ -2,6 +2,10 @@ import ipAnonymize from "ip-anonymize";
 import { Logger } from "winston";
 import WebSocket from "ws";
 import { z } from "zod";
+import { BinaryCodec, isBinaryMessage } from "../core/BinaryCodec";
+import { GameEnv, ServerConfig } from "../core/configuration/Config";
+import { GameType } from "../core/game/Game";
+import { WinUpdate } from "../core/game/GameUpdates";
 import {
   ClientID,
   ClientMessageSchema,
@@ -11,20 +15,30 @@ import {
   GameStartInfo,
   GameStartInfoSchema,
   Intent,
+  PauseSpan,
   PlayerRecord,
   ServerDesyncSchema,
   ServerErrorMessage,
+  ServerLobbyChatMessage,
+  ServerPausedMessage,
   ServerPrestartMessageSchema,
   ServerStartGameMessage,
   ServerTurnMessage,
   Turn,
 } from "../core/Schemas";
 import { createGameRecord } from "../core/Util";
-import { GameEnv, ServerConfig } from "../core/configuration/Config";
-import { GameType } from "../core/game/Game";
+import {
+  censorProfanity,
+  fixProfaneUsername,
+} from "../core/validations/username";
+import { GameInput } from "../core/WorkerSchemas";
 import { archive } from "./Archive";
 import { Client } from "./Client";
-import { gatekeeper } from "./Gatekeeper";
+import { GameSimulation } from "./GameSimulation";
+import { gatekeeper, LimiterType } from "./Gatekeeper";
+
+const MAX_LOBBY_CHAT_HISTORY = 50;
+
 export enum GamePhase {
   Lobby = "LOBBY",
   Active = "ACTIVE",
@@ -41,6 +55,9 @@ export class GameServer {
   private turns: Turn[] = [];
   private intents: Intent[] = [];
   public activeClients: Client[] = [];
+  // Spectators receive turns but are not players, so they are never counted
+  // as clients, cannot send intents and do not vote on hashes.
+  private spectators: Client[] = [];
   private LobbyCreatorID: string | undefined;
   private allClients: Map<ClientID, Client> = new Map();
   private clientsDisconnectedStatus: Map<ClientID, boolean> = new Map();
@@ -53,9 +70,23 @@ export class GameServer {
 
   private winner: ClientSendWinnerMessage | null = null;
 
+  // Set while the lobby creator has the game paused.
+  private currentPause: Omit<PauseSpan, "end"> | null = null;
+  private pauses: PauseSpan[] = [];
+
+  // The most recent lobby chat, replayed to players who join later.
+  private lobbyChat: ServerLobbyChatMessage[] = [];
+
+  // The server's own copy of the game, the reference for hashes and winner.
+  private simulation: GameSimulation | null = null;
+
   // Note: This can be undefined if accessed before the game starts.
   private gameStartInfo!: GameStartInfo;
 
+  // Used for clients that negotiated binary turns, recreated with the
+  // players' ids once the game starts.
+  private codec = new BinaryCodec();
+
   private log: Logger;
 
   private _hasPrestarted = false;
@@ -77,7 +108,7 @@ export class GameServer {
     this.LobbyCreatorID = lobbyCreatorID ?? undefined;
   }
 
-  public updateGameConfig(gameConfig: Partial<GameConfig>): void {
+  public updateGameConfig(gameConfig: GameInput): void {
     if (gameConfig.gameMap !== undefined) {
       this.gameConfig.gameMap = gameConfig.gameMap;
     }
@@ -99,6 +130,12 @@ export class GameServer {
     if (gameConfig.instantBuild !== undefined) {
       this.gameConfig.instantBuild = gameConfig.instantBuild;
     }
+    if (gameConfig.fogOfWar !== undefined) {
+      this.gameConfig.fogOfWar = gameConfig.fogOfWar;
+    }
+    if (gameConfig.capitalMode !== undefined) {
+      this.gameConfig.capitalMode = gameConfig.capitalMode ?? undefined;
+    }
     if (gameConfig.gameMode !== undefined) {
       this.gameConfig.gameMode = gameConfig.gameMode;
     }
@@ -110,6 +147,18 @@ export class GameServer {
     if (gameConfig.playerTeams !== undefined) {
       this.gameConfig.playerTeams = gameConfig.playerTeams;
     }
+
+    if (gameConfig.customMap !== undefined) {
+      this.gameConfig.customMap = gameConfig.customMap ?? undefined;
+    }
+
+    if (gameConfig.rules !== undefined) {
+      this.gameConfig.rules = gameConfig.rules;
+    }
+
+    if (gameConfig.victoryCondition !== undefined) {
+      this.gameConfig.victoryCondition = gameConfig.victoryCondition;
+    }
   }
 
   public addClient(client: Client, lastTurn: number) {
@@ -120,6 +169,10 @@ export class GameServer {
       });
       return;
     }
+    if (client.isSpectator) {
+      this.addSpectator(client, lastTurn);
+      return;
+    }
     // Log when lobby creator joins private game
     if (client.clientID === this.LobbyCreatorID) {
       this.log.info("Lobby creator joined", {
@@ -189,6 +242,24 @@ export class GameServer {
       this.activeClients = this.activeClients.filter((c) => c !== existing);
     }
 
+    // A spectator joining as player stops spectating.
+    const spectator = this.spectators.find(
+      (c) => c.clientID === client.clientID,
+    );
+    if (spectator !== undefined) {
+      if (client.persistentID !== spectator.persistentID) {
+        this.log.error("persistent ids do not match", {
+          clientID: client.clientID,
+          clientIP: ipAnonymize(client.ip),
+          clientPersistentID: client.persistentID,
+          existingIP: ipAnonymize(spectator.ip),
+          existingPersistentID: spectator.persistentID,
+        });
+        return;
+      }
+      this.spectators = this.spectators.filter((c) => c !== spectator);
+    }
+
     // Client connection accepted
     this.activeClients.push(client);
     client.lastPing = Date.now();
@@ -197,12 +268,21 @@ export class GameServer {
 
     this.allClients.set(client.clientID, client);
 
+    // Chat has its own rate limit on top of the one for all messages.
+    const lobbyChat = gatekeeper.wsHandler(
+      client.ip,
+      async (message: string) => this.sendLobbyChat(client, message),
+      LimiterType.LobbyChat,
+    );
+
     client.ws.removeAllListeners("message");
     client.ws.on(
       "message",
       gatekeeper.wsHandler(client.ip, async (message: string) => {
         try {
-          const parsed = ClientMessageSchema.safeParse(JSON.parse(message));
+          const parsed = ClientMessageSchema.safeParse(
+            this.parseMessage(message),
+          );
           if (!parsed.success) {
             const error = z.prettifyError(parsed.error);
             this.log.error("Failed to parse client message", error, {
@@ -269,6 +349,19 @@ export class GameServer {
                   this.kickClient(clientMsg.intent.target);
                   return;
                 }
+
+                case "toggle_pause": {
+                  if (!this.isPrivateLobbyCreator(client.clientID)) {
+                    this.log.warn(`Only lobby creator can pause the game`, {
+                      clientID: client.clientID,
+                      creatorID: this.LobbyCreatorID,
+                      gameID: this.id,
+                    });
+                    return;
+                  }
+                  this.setPaused(clientMsg.intent.paused, client.clientID);
+                  return;
+                }
                 default: {
                   this.addIntent(clientMsg.intent);
                   break;
@@ -286,6 +379,10 @@ export class GameServer {
               break;
             }
             case "winner": {
+              if (this.simulation?.isHealthy()) {
+                // The simulation decides the winner.
+                return;
+              }
               if (
                 this.outOfSyncClients.has(client.clientID) ||
                 this.kickedClients.has(client.clientID) ||
@@ -297,6 +394,10 @@ export class GameServer {
               this.archiveGame();
               break;
             }
+            case "lobby_chat": {
+              await lobbyChat(clientMsg.message);
+              break;
+            }
             default: {
               this.log.warn(
                 `Unknown message type: ${(clientMsg as any).type}`,
@@ -334,7 +435,104 @@ export class GameServer {
 
     // In case a client joined the game late and missed the start message.
     if (this._hasStarted) {
-      this.sendStartGameMsg(client.ws, lastTurn);
+      this.sendStartGameMsg(client, lastTurn);
+      this.sendPausedMsg(client.ws);
+    } else {
+      this.sendLobbyChatHistory(client.ws);
+    }
+  }
+
+  private addSpectator(client: Client, lastTurn: number) {
+    this.log.info("spectator (re)joining game", {
+      clientID: client.clientID,
+      persistentID: client.persistentID,
+      clientIP: ipAnonymize(client.ip),
+      isRejoin: lastTurn > 0,
+    });
+
+    if (this.activeClients.some((c) => c.clientID === client.clientID)) {
+      this.log.warn("cannot add spectator, already joined as player", {
+        clientID: client.clientID,
+      });
+      client.ws.close(1002, "Already joined as player");
+      return;
+    }
+
+    // Remove stale spectator if this is a reconnect
+    const existing = this.spectators.find(
+      (c) => c.clientID === client.clientID,
+    );
+    if (existing !== undefined) {
+      if (client.persistentID !== existing.persistentID) {
+        this.log.error("persistent ids do not match", {
+          clientID: client.clientID,
+          clientIP: ipAnonymize(client.ip),
+          clientPersistentID: client.persistentID,
+          existingIP: ipAnonymize(existing.ip),
+          existingPersistentID: existing.persistentID,
+        });
+        client.ws.close(1002, "Unauthorized");
+        return;
+      }
+      this.spectators = this.spectators.filter((c) => c !== existing);
+    }
+    this.spectators.push(client);
+    client.lastPing = Date.now();
+
+    client.ws.removeAllListeners("message");
+    client.ws.on(
+      "message",
+      gatekeeper.wsHandler(client.ip, async (message: string) => {
+        try {
+          const parsed = ClientMessageSchema.safeParse(
+            this.parseMessage(message),
+          );
+          if (!parsed.success) {
+            const error = z.prettifyError(parsed.error);
+            this.log.error("Failed to parse spectator message", error, {
+              clientID: client.clientID,
+            });
+            client.ws.close(1002, "ClientMessageSchema");
+            return;
+          }
+          const clientMsg = parsed.data;
+          if (clientMsg.type === "ping") {
+            // Spectators don't update lastPingUpdate so a game with only
+            // spectators left still ends.
+            client.lastPing = Date.now();
+          } else {
+            this.log.warn(`Spectator cannot send ${clientMsg.type} message`, {
+              clientID: client.clientID,
+            });
+          }
+        } catch (error) {
+          this.log.info(
+            `error handling spectator websocket request in game server: ${error}`,
+            {
+              clientID: client.clientID,
+            },
+          );
+        }
+      }),
+    );
+    client.ws.on("close", () => {
+      this.log.info("spectator disconnected", {
+        clientID: client.clientID,
+        persistentID: client.persistentID,
+      });
+      this.spectators = this.spectators.filter((c) => c !== client);
+    });
+    client.ws.on("error", (error: Error) => {
+      if ((error as any).code === "WS_ERR_UNEXPECTED_RSV_1") {
+        client.ws.close(1002, "WS_ERR_UNEXPECTED_RSV_1");
+      }
+    });
+
+    if (this._hasStarted) {
+      this.sendStartGameMsg(client, lastTurn);
+      this.sendPausedMsg(client.ws);
+    } else {
+      this.sendLobbyChatHistory(client.ws);
     }
   }
 
@@ -360,6 +558,7 @@ export class GameServer {
     const prestartMsg = ServerPrestartMessageSchema.safeParse({
       type: "prestart",
       gameMap: this.gameConfig.gameMap,
+      customMap: this.gameConfig.customMap,
     });
 
     if (!prestartMsg.success) {
@@ -380,6 +579,7 @@ export class GameServer {
       });
       c.ws.send(msg);
     });
+    this.spectators.forEach((c) => c.ws.send(msg));
   }
 
   public start() {
@@ -408,6 +608,15 @@ export class GameServer {
       return;
     }
     this.gameStartInfo = result.data satisfies GameStartInfo;
+    this.codec = BinaryCodec.forGame(this.gameStartInfo);
+
+    this.simulation = new GameSimulation(
+      this.gameStartInfo,
+      this.config,
+      this.log,
+      (update) => this.onSimulationWin(update),
+    );
+    this.simulation.start();
 
     this.endTurnIntervalID = setInterval(
       () => this.endTurn(),
@@ -418,22 +627,26 @@ export class GameServer {
         clientID: c.clientID,
         persistentID: c.persistentID,
       });
-      this.sendStartGameMsg(c.ws, 0);
+      this.sendStartGameMsg(c, 0);
     });
+    this.spectators.forEach((c) => this.sendStartGameMsg(c, 0));
   }
 
   private addIntent(intent: Intent) {
     this.intents.push(intent);
   }
 
-  private sendStartGameMsg(ws: WebSocket, lastTurn: number) {
+  private sendStartGameMsg(client: Client, lastTurn: number) {
     try {
-      ws.send(
-        JSON.stringify({
-          type: "start",
-          turns: this.turns.slice(lastTurn),
-          gameStartInfo: this.gameStartInfo,
-        } satisfies ServerStartGameMessage),
+      const msg = {
+        type: "start",
+        turns: this.turns.slice(lastTurn),
+        gameStartInfo: this.gameStartInfo,
+      } satisfies ServerStartGameMessage;
+      client.ws.send(
+        client.useBinaryCodec
+          ? this.codec.encodeStartMessage(msg)
+          : JSON.stringify(msg),
       );
     } catch (error) {
       throw new Error(
@@ -445,7 +658,81 @@ export class GameServer {
     }
   }
 
+  private setPaused(paused: boolean, clientID: ClientID) {
+    if (!this._hasStarted || paused === (this.currentPause !== null)) {
+      return;
+    }
+    this.log.info(paused ? "game paused" : "game resumed", {
+      clientID,
+      turn: this.turns.length,
+    });
+    if (paused) {
+      this.currentPause = {
+        turn: this.turns.length,
+        start: Date.now(),
+        clientID,
+      };
+    } else {
+      this.endPause();
+    }
+
+    const msg = JSON.stringify({
+      type: "paused",
+      paused,
+      clientID,
+    } satisfies ServerPausedMessage);
+    [...this.activeClients, ...this.spectators].forEach((c) => c.ws.send(msg));
+  }
+
+  private endPause() {
+    if (this.currentPause !== null) {
+      this.pauses.push({ ...this.currentPause, end: Date.now() });
+      this.currentPause = null;
+    }
+  }
+
+  private sendPausedMsg(ws: WebSocket) {
+    if (this.currentPause === null) {
+      return;
+    }
+    ws.send(
+      JSON.stringify({
+        type: "paused",
+        paused: true,
+        clientID: this.currentPause.clientID,
+      } satisfies ServerPausedMessage),
+    );
+  }
+
+  private sendLobbyChat(client: Client, message: string) {
+    if (this.hasStarted()) {
+      this.log.warn("Lobby chat after the game started", {
+        clientID: client.clientID,
+      });
+      return;
+    }
+    const msg = {
+      type: "lobby_chat",
+      clientID: client.clientID,
+      username: fixProfaneUsername(client.username),
+      message: censorProfanity(message),
+    } satisfies ServerLobbyChatMessage;
+    this.lobbyChat.push(msg);
+    if (this.lobbyChat.length > MAX_LOBBY_CHAT_HISTORY) {
+      this.lobbyChat.shift();
+    }
+    const str = JSON.stringify(msg);
+    [...this.activeClients, ...this.spectators].forEach((c) => c.ws.send(str));
+  }
+
+  private sendLobbyChatHistory(ws: WebSocket) {
+    this.lobbyChat.forEach((msg) => ws.send(JSON.stringify(msg)));
+  }
+
   private endTurn() {
+    if (this.currentPause !== null) {
+      return;
+    }
     const pastTurn: Turn = {
       turnNumber: this.turns.length,
       intents: this.intents,
@@ -456,13 +743,31 @@ export class GameServer {
     this.handleSynchronization();
     this.checkDisconnectedStatus();
 
-    const msg = JSON.stringify({
+    const msg = {
       type: "turn",
       turn: pastTurn,
-    } satisfies ServerTurnMessage);
-    this.activeClients.forEach((c) => {
-      c.ws.send(msg);
+    } satisfies ServerTurnMessage;
+    const json = JSON.stringify(msg);
+    let binary: Uint8Array | null = null;
+    [...this.activeClients, ...this.spectators].forEach((c) => {
+      if (c.useBinaryCodec) {
+        binary ??= this.codec.encodeTurnMessage(msg);
+        c.ws.send(binary);
+      } else {
+        c.ws.send(json);
+      }
     });
+    // Simulated later, the turn reaches the clients first.
+    this.simulation?.addTurn(pastTurn);
+  }
+
+  // The websocket hands over text and binary frames alike, binary ones are
+  // recognized by their header.
+  private parseMessage(message: string): unknown {
+    if (isBinaryMessage(message)) {
+      return this.codec.decodeClientMessage(message);
+    }
+    return JSON.parse(message);
   }
 
   async end() {
@@ -470,6 +775,7 @@ export class GameServer {
     if (this.endTurnIntervalID) {
       clearInterval(this.endTurnIntervalID);
     }
+    this.simulation?.stop();
     this.websockets.forEach((ws) => {
       if (ws.readyState === WebSocket.OPEN) {
         ws.close(1000, "game has ended");
@@ -538,6 +844,15 @@ export class GameServer {
       }
     }
     this.activeClients = alive;
+    this.spectators = this.spectators.filter((client) => {
+      if (now - client.lastPing <= 60_000) {
+        return true;
+      }
+      if (client.ws.readyState === WebSocket.OPEN) {
+        client.ws.close(1000, "no heartbeats received, closing connection");
+      }
+      return false;
+    });
     if (now > this.createdAt + this.maxGameDuration) {
       this.log.warn("game past max duration", {
         gameID: this.id,
@@ -610,7 +925,9 @@ export class GameServer {
       });
       return;
     }
-    const client = this.activeClients.find((c) => c.clientID === clientID);
+    const client =
+      this.activeClients.find((c) => c.clientID === clientID) ??
+      this.spectators.find((c) => c.clientID === clientID);
     if (client) {
       this.log.info("Kicking client from game", {
         clientID: client.clientID,
@@ -626,6 +943,7 @@ export class GameServer {
       this.activeClients = this.activeClients.filter(
         (c) => c.clientID !== clientID,
       );
+      this.spectators = this.spectators.filter((c) => c.clientID !== clientID);
       this.kickedClients.add(clientID);
     } else {
       this.log.warn(`cannot kick client, not found in game`, {
@@ -666,11 +984,25 @@ export class GameServer {
     });
   }
 
+  private onSimulationWin(update: WinUpdate) {
+    if (this.winner !== null) {
+      return;
+    }
+    this.winner = {
+      type: "winner",
+      winner: update.winner,
+      allPlayersStats: update.allPlayersStats,
+    };
+    this.archiveGame();
+  }
+
   private archiveGame() {
     this.log.info("archiving game", {
       gameID: this.id,
       winner: this.winner?.winner,
     });
+    // The game can end while paused.
+    this.endPause();
 
     // Players must stay in the same order as the game start info.
     const playerRecords: PlayerRecord[] = this.gameStartInfo.players.map(
@@ -698,14 +1030,12 @@ export class GameServer {
         Date.now(),
         this.winner?.winner,
         this.config,
+        this.pauses,
       ),
     );
   }
 
   private handleSynchronization() {
-    if (this.activeClients.length <= 1) {
-      return;
-    }
     if (this.turns.length % 10 !== 0 || this.turns.length < 10) {
       // Check hashes every 10 turns
       return;
@@ -713,8 +1043,16 @@ export class GameServer {
 
     const lastHashTurn = this.turns.length - 10;
 
-    const { mostCommonHash, outOfSyncClients } =
-      this.findOutOfSyncClients(lastHashTurn);
+    // Fall back to a majority vote while the simulation is loading or behind.
+    const serverHash = this.simulation?.hash(lastHashTurn) ?? null;
+    if (serverHash === null && this.activeClients.length <= 1) {
+      return;
+    }
+
+    const { mostCommonHash, outOfSyncClients } = this.findOutOfSyncClients(
+      lastHashTurn,
+      serverHash,
+    );
 
     if (outOfSyncClients.length === 0) {
       this.turns[lastHashTurn].hash = mostCommonHash;
@@ -753,10 +1091,23 @@ export class GameServer {
     }
   }
 
-  findOutOfSyncClients(turnNumber: number): {
+  findOutOfSyncClients(
+    turnNumber: number,
+    serverHash: number | null = null,
+  ): {
     mostCommonHash: number | null;
     outOfSyncClients: Client[];
   } {
+    if (serverHash !== null) {
+      return {
+        mostCommonHash: serverHash,
+        outOfSyncClients: this.activeClients.filter(
+          (c) =>
+            c.hashes.has(turnNumber) && c.hashes.get(turnNumber) !== serverHash,
+        ),
+      };
+    }
+
     const counts = new Map<number, number>();
 
     // Count occurrences of each hash
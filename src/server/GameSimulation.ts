@@ -0,0 +1,137 @@
+import { Logger } from "winston";
+import { ServerConfig } from "../core/configuration/Config";
+import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../core/game/FileSystemGameMapLoader";
+import { Tick } from "../core/game/Game";
+import {
+  ErrorUpdate,
+  GameUpdateType,
+  GameUpdateViewData,
+  WinUpdate,
+} from "../core/game/GameUpdates";
+import { createGameRunner, GameRunner } from "../core/GameRunner";
+import { GameStartInfo, Turn } from "../core/Schemas";
+import { readCustomMapFile } from "./Archive";
+
+const mapLoader = new FileSystemGameMapLoader(
+  getServerConfigFromServer().mapsDir(),
+  readCustomMapFile,
+);
+
+// Ticks run after the turn was sent, in slices this long, so the other games
+// of the worker are served in between.
+const sliceMs = 20;
+// A simulation this many turns behind won't catch up, the clients' majority
+// vote decides the hashes and the winner instead.
+const maxBacklogTurns = 600;
+
+// Runs the game on the server so its hashes and winner can be trusted over
+// the ones reported by clients. Until it has simulated a turn, hash() returns
+// null for it.
+export class GameSimulation {
+  private runner: GameRunner | null = null;
+  // Turns not simulated yet, including the ones received while the map is
+  // still loading.
+  private pendingTurns: Turn[] = [];
+  private scheduled = false;
+  private hashes: Map<Tick, number> = new Map();
+  private failed = false;
+  private stopped = false;
+
+  constructor(
+    private gameStartInfo: GameStartInfo,
+    private config: ServerConfig,
+    private log: Logger,
+    private onWin: (update: WinUpdate) => void,
+  ) {}
+
+  public async start() {
+    try {
+      const runner = await createGameRunner(
+        this.gameStartInfo,
+        null,
+        mapLoader,
+        (gu) => this.onUpdate(gu),
+        this.config,
+      );
+      if (this.stopped || this.failed) {
+        return;
+      }
+      this.runner = runner;
+      this.schedule();
+    } catch (error) {
+      this.failed = true;
+      this.log.error(`failed to start game simulation: ${error}`);
+    }
+  }
+
+  public addTurn(turn: Turn) {
+    if (this.failed || this.stopped) {
+      return;
+    }
+    this.pendingTurns.push(turn);
+    if (this.pendingTurns.length > maxBacklogTurns) {
+      this.failed = true;
+      this.runner = null;
+      this.pendingTurns = [];
+      this.log.warn(
+        `game simulation fell ${maxBacklogTurns} turns behind, leaving the game to the clients`,
+      );
+      return;
+    }
+    this.schedule();
+  }
+
+  // Returns null if the simulation has not reached the tick yet.
+  public hash(tick: Tick): number | null {
+    return this.hashes.get(tick) ?? null;
+  }
+
+  public isHealthy(): boolean {
+    return !this.failed;
+  }
+
+  public stop() {
+    this.stopped = true;
+    this.runner = null;
+    this.pendingTurns = [];
+  }
+
+  private schedule() {
+    if (this.runner === null || this.scheduled) {
+      return;
+    }
+    this.scheduled = true;
+    setImmediate(() => this.runSlice());
+  }
+
+  private runSlice() {
+    this.scheduled = false;
+    const deadline = performance.now() + sliceMs;
+    while (this.runner !== null && performance.now() < deadline) {
+      const turn = this.pendingTurns.shift();
+      if (turn === undefined) {
+        return;
+      }
+      this.runner.addTurn(turn);
+      this.runner.executeNextTick();
+    }
+    if (this.pendingTurns.length > 0) {
+      this.schedule();
+    }
+  }
+
+  private onUpdate(gu: GameUpdateViewData | ErrorUpdate) {
+    if ("errMsg" in gu) {
+      this.failed = true;
+      this.log.error(`game simulation failed: ${gu.errMsg}`, {
+        stack: gu.stack,
+      });
+      return;
+    }
+    gu.updates[GameUpdateType.Hash].forEach((hu) =>
+      this.hashes.set(hu.tick, hu.hash),
+    );
+    gu.updates[GameUpdateType.Win].forEach((wu) => this.onWin(wu));
+  }
+}
@@ -10,6 +10,7 @@ export enum LimiterType {
   Post = "post",
   Put = "put",
   WebSocket = "websocket",
+  LobbyChat = "lobby_chat",
 }
 
 export interface Gatekeeper {
@@ -23,6 +24,7 @@ export interface Gatekeeper {
   wsHandler: (
     req: http.IncomingMessage | string,
     fn: (message: string) => Promise<void>,
+    limiterType?: LimiterType,
   ) => (message: string) => Promise<void>;
 }
 
@@ -112,11 +114,12 @@ export class GatekeeperWrapper implements Gatekeeper {
   wsHandler(
     req: http.IncomingMessage | string,
     fn: (message: string) => Promise<void>,
+    limiterType: LimiterType = LimiterType.WebSocket,
   ) {
     return async (message: string) => {
       try {
         const gk = await this.getGK();
-        const handler = gk.wsHandler(req, fn);
+        const handler = gk.wsHandler(req, fn, limiterType);
         return handler(message);
       } catch (error) {
         console.error("WebSocket handler error:", error);
@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import path from "path";
+import { CustomMapFile } from "../core/game/CustomMap";
+import { AnalyticsRecord, GameID, GameRecord } from "../core/Schemas";
+import { replacer } from "../core/Util";
+import {
+  ArchivedGameSummary,
+  ArchiveQuery,
+  ArchiveStorage,
+  matchesArchiveQuery,
+  sortArchivedGames,
+  toArchivedGameSummary,
+} from "./ArchiveStorage";
+
+const gameFolder = "games";
+const analyticsFolder = "analytics";
+const customMapFolder = "maps";
+
+// Game ids come from request paths, so never let them escape the archive dir.
+const safeGameID = /^[a-zA-Z0-9]+$/;
+const safeMapHash = /^[0-9a-f]+$/;
+
+// Stores archives as JSON files, mirroring the R2 bucket layout, so games
+// can be archived and replayed without any cloud credentials.
+export class LocalArchiveStorage implements ArchiveStorage {
+  constructor(private readonly dir: string) {}
+
+  async writeAnalytics(record: AnalyticsRecord): Promise<void> {
+    await this.writeJson(
+      this.path(analyticsFolder, `${record.info.gameID}.json`),
+      record,
+    );
+  }
+
+  async writeGameRecord(record: GameRecord): Promise<void> {
+    await this.writeJson(this.path(gameFolder, record.info.gameID), record);
+  }
+
+  async readGameRecord(gameID: GameID): Promise<GameRecord | null> {
+    if (!safeGameID.test(gameID)) {
+      return null;
+    }
+    try {
+      const contents = await fs.readFile(this.path(gameFolder, gameID), "utf8");
+      return JSON.parse(contents) as GameRecord;
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async gameRecordExists(gameID: GameID): Promise<boolean> {
+    if (!safeGameID.test(gameID)) {
+      return false;
+    }
+    try {
+      await fs.access(this.path(gameFolder, gameID));
+      return true;
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async listGames(query: ArchiveQuery): Promise<ArchivedGameSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.path(analyticsFolder));
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const matches: ArchivedGameSummary[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const contents = await fs.readFile(
+        this.path(analyticsFolder, file),
+        "utf8",
+      );
+      const game = toArchivedGameSummary(
+        JSON.parse(contents) as AnalyticsRecord,
+      );
+      if (matchesArchiveQuery(game, query)) {
+        matches.push(game);
+      }
+    }
+    return sortArchivedGames(matches).slice(0, query.limit);
+  }
+
+  async writeCustomMapFile(
+    hash: string,
+    file: CustomMapFile,
+    data: Uint8Array,
+  ): Promise<void> {
+    if (!safeMapHash.test(hash)) {
+      throw new Error(`invalid custom map hash ${hash}`);
+    }
+    const target = this.path(customMapFolder, hash, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, target);
+  }
+
+  async readCustomMapFile(
+    hash: string,
+    file: CustomMapFile,
+  ): Promise<Uint8Array | null> {
+    if (!safeMapHash.test(hash)) {
+      return null;
+    }
+    try {
+      const data = await fs.readFile(this.path(customMapFolder, hash, file));
+      return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    } catch (error: unknown) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private path(...parts: string[]): string {
+    return path.join(this.dir, ...parts);
+  }
+
+  private async writeJson(file: string, data: unknown) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write to a temporary file first so readers never see a partial record.
+    const tmp = `${file}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, replacer));
+    await fs.rename(tmp, file);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
@@ -5,8 +5,10 @@ import http from "http";
 import path from "path";
 import { fileURLToPath } from "url";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
-import { GameInfo, ID } from "../core/Schemas";
+import { customMapFiles } from "../core/game/CustomMap";
+import { GameConfigSchema, GameInfo, ID } from "../core/Schemas";
 import { generateID } from "../core/Util";
+import { readCustomMapFile } from "./Archive";
 import { gatekeeper, LimiterType } from "./Gatekeeper";
 import { logger } from "./Logger";
 import { MapPlaylist } from "./MapPlaylist";
@@ -153,6 +155,29 @@ app.get(
   }),
 );
 
+// Maps uploaded to private lobbies. They are addressed by content hash, so
+// they can be cached forever.
+app.get(
+  "/api/custom_map/:hash/:file",
+  gatekeeper.httpHandler(LimiterType.Get, async (req, res) => {
+    const { hash, file } = req.params;
+    const customMapFile = customMapFiles.find((f) => f === file);
+    if (
+      customMapFile === undefined ||
+      !GameConfigSchema.shape.customMap.safeParse(hash).success
+    ) {
+      return res.sendStatus(400);
+    }
+    const data = await readCustomMapFile(hash, customMapFile);
+    if (data === null) {
+      return res.sendStatus(404);
+    }
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.type(path.extname(customMapFile));
+    res.send(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  }),
+);
+
 // Add lobbies endpoint to list public games for this worker
 app.get(
   "/api/public_lobbies",
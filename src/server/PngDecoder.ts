@@ -0,0 +1,227 @@
+import zlib from "zlib";
+import { TerrainImage } from "../core/game/CustomMap";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+enum ColorType {
+  Grayscale = 0,
+  RGB = 2,
+  Palette = 3,
+  GrayscaleAlpha = 4,
+  RGBA = 6,
+}
+
+const channels: Record<ColorType, number> = {
+  [ColorType.Grayscale]: 1,
+  [ColorType.RGB]: 3,
+  [ColorType.Palette]: 1,
+  [ColorType.GrayscaleAlpha]: 2,
+  [ColorType.RGBA]: 4,
+};
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (crcTable === null) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Decodes an 8 bit, non-interlaced PNG into RGBA pixels. This covers what
+// image editors export for map terrain, without a native image library on
+// the server. maxPixels is checked before inflating the image data.
+export function decodePng(png: Buffer, maxPixels: number): TerrainImage {
+  if (
+    png.length < PNG_SIGNATURE.length ||
+    PNG_SIGNATURE.some((b, i) => png[i] !== b)
+  ) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = ColorType.RGBA;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  let ended = false;
+  while (!ended) {
+    if (offset + 12 > png.length) {
+      throw new Error("Truncated PNG image");
+    }
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 8 + length;
+    if (end + 4 > png.length) {
+      throw new Error("Truncated PNG image");
+    }
+    if (crc32(png.subarray(offset + 4, end)) !== png.readUInt32BE(end)) {
+      throw new Error(`Corrupt PNG ${type} chunk`);
+    }
+    const data = png.subarray(offset + 8, end);
+    offset = end + 4;
+
+    switch (type) {
+      case "IHDR": {
+        width = data.readUInt32BE(0);
+        height = data.readUInt32BE(4);
+        const bitDepth = data[8];
+        colorType = data[9];
+        const interlace = data[12];
+        if (bitDepth !== 8 || !(colorType in channels) || interlace !== 0) {
+          throw new Error(
+            "Only 8 bit, non-interlaced PNG images are supported",
+          );
+        }
+        if (width === 0 || height === 0 || width * height > maxPixels) {
+          throw new Error(
+            `Image must have at most ${maxPixels} pixels, got ${width}x${height}`,
+          );
+        }
+        break;
+      }
+      case "PLTE":
+        palette = data;
+        break;
+      case "tRNS":
+        transparency = data;
+        break;
+      case "IDAT":
+        idat.push(data);
+        break;
+      case "IEND":
+        ended = true;
+        break;
+    }
+  }
+  if (width === 0) {
+    throw new Error("PNG image has no header");
+  }
+  if (colorType === ColorType.Palette && palette === null) {
+    throw new Error("PNG image has no palette");
+  }
+
+  const bytesPerPixel = channels[colorType as ColorType];
+  const stride = width * bytesPerPixel;
+  let raw: Buffer;
+  try {
+    raw = zlib.inflateSync(Buffer.concat(idat), {
+      maxOutputLength: (stride + 1) * height,
+    });
+  } catch {
+    throw new Error("Corrupt PNG image data");
+  }
+  if (raw.length !== (stride + 1) * height) {
+    throw new Error("Corrupt PNG image data");
+  }
+
+  const pixels = unfilter(raw, stride, height, bytesPerPixel);
+  const colors = palette ?? Buffer.alloc(0);
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * bytesPerPixel;
+    let r: number, g: number, b: number, a: number;
+    switch (colorType) {
+      case ColorType.Grayscale:
+        r = g = b = pixels[p];
+        a = 255;
+        break;
+      case ColorType.GrayscaleAlpha:
+        r = g = b = pixels[p];
+        a = pixels[p + 1];
+        break;
+      case ColorType.RGB:
+        r = pixels[p];
+        g = pixels[p + 1];
+        b = pixels[p + 2];
+        a = 255;
+        break;
+      case ColorType.Palette: {
+        const index = pixels[p];
+        r = colors[index * 3] ?? 0;
+        g = colors[index * 3 + 1] ?? 0;
+        b = colors[index * 3 + 2] ?? 0;
+        a = transparency?.[index] ?? 255;
+        break;
+      }
+      default:
+        r = pixels[p];
+        g = pixels[p + 1];
+        b = pixels[p + 2];
+        a = pixels[p + 3];
+    }
+    rgba[i * 4] = r;
+    rgba[i * 4 + 1] = g;
+    rgba[i * 4 + 2] = b;
+    rgba[i * 4 + 3] = a;
+  }
+  return { width, height, data: rgba };
+}
+
+// Reverses the per-row filters, see
+// https://www.w3.org/TR/png/#9Filter-types
+function unfilter(
+  raw: Buffer,
+  stride: number,
+  height: number,
+  bpp: number,
+): Uint8Array {
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = y * (stride + 1) + 1;
+    const cur = y * stride;
+    const prev = cur - stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? out[cur + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter ${filter}`);
+      }
+      out[cur + x] = (raw[row + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
@@ -0,0 +1,296 @@
+import { ListObjectsV2CommandOutput, S3 } from "@aws-sdk/client-s3";
+import { CustomMapFile } from "../core/game/CustomMap";
+import { GameMapType } from "../core/game/Game";
+import { AnalyticsRecord, GameID, GameRecord } from "../core/Schemas";
+import { replacer } from "../core/Util";
+import {
+  ArchivedGameSummary,
+  ArchiveQuery,
+  ArchiveStorage,
+  matchesArchiveQuery,
+  toArchivedGameSummary,
+} from "./ArchiveStorage";
+
+const gameFolder = "games";
+const analyticsFolder = "analytics";
+const customMapFolder = "maps";
+// Small summaries of the analytics, keyed so that listing them returns the
+// newest games first. The key also holds the map, so filtering by time and
+// map needs no reads. Games archived before the index existed are added with
+// backfillIndex().
+const indexFolder = "analytics_index";
+// Listing is public, so a query lists and reads only this many games, whether
+// or not enough of them matched.
+const maxListedGames = 5000;
+const maxReadGames = 200;
+// Summaries read at once.
+const readBatchSize = 10;
+// Summaries never change, so they are kept once read.
+const maxCachedSummaries = 5000;
+
+// Keys sort in ascending order, so the start time is counted down from the
+// largest time that fits in the padded width.
+const maxTime = 10 ** 15 - 1;
+const timeWidth = 15;
+const gameIDWidth = 8;
+
+interface IndexEntry {
+  start: number;
+  gameID: GameID;
+  map: string;
+}
+
+// All games started at start, or before.
+function indexPrefix(start: number): string {
+  return `${indexFolder}/${String(maxTime - start).padStart(timeWidth, "0")}-`;
+}
+
+function indexKey(start: number, gameID: GameID, map: GameMapType): string {
+  return `${indexPrefix(start)}${gameID}-${encodeURIComponent(map)}.json`;
+}
+
+// Null for keys that aren't index entries.
+function parseIndexKey(key: string): IndexEntry | null {
+  const match = new RegExp(
+    `^${indexFolder}/(\\d{${timeWidth}})-([a-zA-Z0-9]{${gameIDWidth}})-(.+)\\.json$`,
+  ).exec(key);
+  if (match === null) return null;
+  return {
+    start: maxTime - Number(match[1]),
+    gameID: match[2],
+    map: decodeURIComponent(match[3]),
+  };
+}
+
+export class R2ArchiveStorage implements ArchiveStorage {
+  private r2: S3;
+  private summaries = new Map<string, ArchivedGameSummary>();
+
+  constructor(
+    endpoint: string,
+    accessKeyId: string,
+    secretAccessKey: string,
+    private bucket: string,
+  ) {
+    this.r2 = new S3({
+      region: "auto", // R2 ignores region, but it's required by the SDK
+      endpoint,
+      credentials: {
+        accessKeyId,
+        secretAccessKey,
+      },
+    });
+  }
+
+  async writeAnalytics(record: AnalyticsRecord): Promise<void> {
+    // Store analytics data using just the game ID as the key
+    await this.r2.putObject({
+      Bucket: this.bucket,
+      Key: `${analyticsFolder}/${record.info.gameID}.json`,
+      Body: JSON.stringify(record, replacer),
+      ContentType: "application/json",
+    });
+    await this.writeIndexEntry(record);
+  }
+
+  private async writeIndexEntry(record: AnalyticsRecord) {
+    await this.r2.putObject({
+      Bucket: this.bucket,
+      Key: indexKey(
+        record.info.start,
+        record.info.gameID,
+        record.info.config.gameMap,
+      ),
+      Body: JSON.stringify(toArchivedGameSummary(record), replacer),
+      ContentType: "application/json",
+    });
+  }
+
+  async writeGameRecord(record: GameRecord): Promise<void> {
+    await this.r2.putObject({
+      Bucket: this.bucket,
+      Key: `${gameFolder}/${record.info.gameID}`,
+      Body: JSON.stringify(record, replacer),
+      ContentType: "application/json",
+    });
+  }
+
+  async readGameRecord(gameID: GameID): Promise<GameRecord | null> {
+    try {
+      // Check if file exists and download in one operation
+      const response = await this.r2.getObject({
+        Bucket: this.bucket,
+        Key: `${gameFolder}/${gameID}`,
+      });
+      if (response.Body === undefined) return null;
+      const bodyContents = await response.Body.transformToString();
+      return JSON.parse(bodyContents) as GameRecord;
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async gameRecordExists(gameID: GameID): Promise<boolean> {
+    try {
+      await this.r2.headObject({
+        Bucket: this.bucket,
+        Key: `${gameFolder}/${gameID}`,
+      });
+      return true;
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Walks the index from the newest game on, so the first matches are the
+  // newest ones. Only the games left after filtering by time and map are
+  // read, a batch at a time.
+  async listGames(query: ArchiveQuery): Promise<ArchivedGameSummary[]> {
+    const matches: ArchivedGameSummary[] = [];
+    let candidates: string[] = [];
+    let listed = 0;
+    let read = 0;
+    // True once enough games matched or read.
+    const readCandidates = async (): Promise<boolean> => {
+      const games = await Promise.all(
+        candidates.map((key) => this.readSummary(key)),
+      );
+      read += candidates.length;
+      candidates = [];
+      for (const game of games) {
+        if (game !== null && matchesArchiveQuery(game, query)) {
+          matches.push(game);
+        }
+      }
+      return matches.length >= query.limit || read >= maxReadGames;
+    };
+
+    for await (const key of this.listKeys(
+      `${indexFolder}/`,
+      // Skips the games started after the end of the range.
+      query.to !== undefined ? indexPrefix(query.to) : undefined,
+    )) {
+      const entry = parseIndexKey(key);
+      if (entry === null) continue;
+      // Everything after this one is older.
+      if (query.from !== undefined && entry.start < query.from) break;
+      if (listed++ >= maxListedGames) break;
+      if (query.map !== undefined && entry.map !== query.map) continue;
+      candidates.push(key);
+      // Without a player every candidate matches, so only as many as needed
+      // are read.
+      const batchSize =
+        query.player === undefined
+          ? Math.min(readBatchSize, query.limit - matches.length)
+          : readBatchSize;
+      if (candidates.length >= batchSize && (await readCandidates())) {
+        return matches.slice(0, query.limit);
+      }
+    }
+    await readCandidates();
+    return matches.slice(0, query.limit);
+  }
+
+  // Adds the index entries of games archived before the index existed.
+  // Returns the number of entries written.
+  async backfillIndex(): Promise<number> {
+    const indexed = new Set<GameID>();
+    for await (const key of this.listKeys(`${indexFolder}/`)) {
+      const entry = parseIndexKey(key);
+      if (entry !== null) indexed.add(entry.gameID);
+    }
+    let written = 0;
+    for await (const key of this.listKeys(`${analyticsFolder}/`)) {
+      const gameID = key.slice(analyticsFolder.length + 1, -".json".length);
+      if (indexed.has(gameID)) continue;
+      const response = await this.r2.getObject({
+        Bucket: this.bucket,
+        Key: key,
+      });
+      if (response.Body === undefined) continue;
+      const record = JSON.parse(
+        await response.Body.transformToString(),
+      ) as AnalyticsRecord;
+      await this.writeIndexEntry(record);
+      written++;
+    }
+    return written;
+  }
+
+  private async *listKeys(
+    prefix: string,
+    startAfter?: string,
+  ): AsyncGenerator<string> {
+    let continuationToken: string | undefined = undefined;
+    do {
+      const page: ListObjectsV2CommandOutput = await this.r2.listObjectsV2({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        StartAfter: startAfter,
+        ContinuationToken: continuationToken,
+      });
+      for (const object of page.Contents ?? []) {
+        if (object.Key !== undefined) yield object.Key;
+      }
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken !== undefined);
+  }
+
+  private async readSummary(key: string): Promise<ArchivedGameSummary | null> {
+    const cached = this.summaries.get(key);
+    if (cached !== undefined) return cached;
+    const response = await this.r2.getObject({
+      Bucket: this.bucket,
+      Key: key,
+    });
+    if (response.Body === undefined) return null;
+    const game = JSON.parse(
+      await response.Body.transformToString(),
+    ) as ArchivedGameSummary;
+    this.summaries.set(key, game);
+    if (this.summaries.size > maxCachedSummaries) {
+      // Maps iterate in insertion order, so this is the oldest read.
+      this.summaries.delete(this.summaries.keys().next().value!);
+    }
+    return game;
+  }
+
+  async writeCustomMapFile(
+    hash: string,
+    file: CustomMapFile,
+    data: Uint8Array,
+  ): Promise<void> {
+    await this.r2.putObject({
+      Bucket: this.bucket,
+      Key: `${customMapFolder}/${hash}/${file}`,
+      Body: data,
+    });
+  }
+
+  async readCustomMapFile(
+    hash: string,
+    file: CustomMapFile,
+  ): Promise<Uint8Array | null> {
+    try {
+      const response = await this.r2.getObject({
+        Bucket: this.bucket,
+        Key: `${customMapFolder}/${hash}/${file}`,
+      });
+      if (response.Body === undefined) return null;
+      return await response.Body.transformToByteArray();
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -7,6 +7,7 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { WebSocket, WebSocketServer } from "ws";
 import { z } from "zod";
+import { BINARY_CODEC_VERSION } from "../core/BinaryCodec";
 import { GameEnv } from "../core/configuration/Config";
 import { getServerConfigFromServer } from "../core/configuration/ConfigLoader";
 import { COSMETICS } from "../core/CosmeticSchemas";
@@ -18,9 +19,21 @@ import {
   ID,
   ServerErrorMessage,
 } from "../core/Schemas";
-import { CreateGameInputSchema, GameInputSchema } from "../core/WorkerSchemas";
-import { archive, readGameRecord } from "./Archive";
+import {
+  CreateGameInputSchema,
+  CustomMapUploadSchema,
+  GameInputSchema,
+} from "../core/WorkerSchemas";
+import {
+  archive,
+  customMapExists,
+  listArchivedGames,
+  readGameRecord,
+  writeCustomMap,
+} from "./Archive";
+import { ArchiveQuerySchema } from "./ArchiveStorage";
 import { Client } from "./Client";
+import { convertCustomMap, ConvertedCustomMap } from "./CustomMaps";
 import { GameManager } from "./GameManager";
 import { gatekeeper, LimiterType } from "./Gatekeeper";
 import { getUserMe, verifyClientToken } from "./jwt";
@@ -78,6 +91,9 @@ export function startWorker() {
   });
 
   app.set("trust proxy", 3);
+  // Map packages are larger than the default limit. The global parser skips
+  // bodies that were already parsed.
+  app.use("/api/game/:id/custom_map", express.json({ limit: "30mb" }));
   app.use(express.json());
   app.use(express.static(path.join(__dirname, "../../out")));
   app.use(
@@ -195,11 +211,58 @@ export function startWorker() {
           .status(400)
           .json({ error: "Cannot update game after it has started" });
       }
+      if (
+        typeof config.customMap === "string" &&
+        !(await customMapExists(config.customMap))
+      ) {
+        return res.status(400).json({ error: "Custom map not found" });
+      }
       game.updateGameConfig(config);
       res.status(200).json({ success: true });
     }),
   );
 
+  app.post(
+    "/api/game/:id/custom_map",
+    gatekeeper.httpHandler(LimiterType.Post, async (req, res) => {
+      const game = gm.game(req.params.id);
+      if (game === null) {
+        return res.status(400).json({ error: "Game not found" });
+      }
+      if (game.isPublic()) {
+        // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
+        const clientIP = req.ip || req.socket.remoteAddress || "unknown";
+        log.warn(
+          `cannot upload map to public game ${game.id}, ip: ${ipAnonymize(clientIP)}`,
+        );
+        return res.status(400).json({ error: "Cannot update public game" });
+      }
+      if (game.hasStarted()) {
+        return res
+          .status(400)
+          .json({ error: "Cannot update game after it has started" });
+      }
+      const result = CustomMapUploadSchema.safeParse(req.body);
+      if (!result.success) {
+        const error = z.prettifyError(result.error);
+        return res.status(400).json({ error });
+      }
+
+      let customMap: ConvertedCustomMap;
+      try {
+        customMap = convertCustomMap(result.data);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.info(`rejected custom map for game ${game.id}: ${message}`);
+        return res.status(400).json({ error: message });
+      }
+      await writeCustomMap(customMap.hash, customMap.files);
+      game.updateGameConfig({ customMap: customMap.hash });
+      log.info(`game ${game.id} uses custom map ${customMap.hash}`);
+      res.json({ hash: customMap.hash, manifest: customMap.manifest });
+    }),
+  );
+
   app.get(
     "/api/game/:id/exists",
     gatekeeper.httpHandler(LimiterType.Get, async (req, res) => {
@@ -261,6 +324,19 @@ export function startWorker() {
     }),
   );
 
+  app.get(
+    "/api/archived_games",
+    gatekeeper.httpHandler(LimiterType.Get, async (req, res) => {
+      const result = ArchiveQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        const error = z.prettifyError(result.error);
+        return res.status(400).json({ error });
+      }
+      const games = await listArchivedGames(result.data);
+      return res.status(200).json({ games });
+    }),
+  );
+
   app.post(
     "/api/archive_singleplayer_game",
     gatekeeper.httpHandler(LimiterType.Post, async (req, res) => {
@@ -435,6 +511,8 @@ export function startWorker() {
             ws,
             clientMsg.flag,
             clientMsg.pattern,
+            clientMsg.spectator ?? false,
+            clientMsg.codecVersion === BINARY_CODEC_VERSION,
           );
 
           const wasFound = gm.addClient(
@@ -0,0 +1,114 @@
+import {
+  CancelQueuedBuildExecution,
+  MoveQueuedBuildExecution,
+  QueueBuildExecution,
+} from "../src/core/execution/BuildQueueExecution";
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../src/core/game/Game";
+import { setup } from "./util/Setup";
+import { executeTicks } from "./util/utils";
+
+let game: Game;
+let player: Player;
+
+function queue(type: UnitType, x: number, y: number) {
+  game.addExecution(new QueueBuildExecution(player, type, game.ref(x, y)));
+  game.executeNextTick();
+}
+
+function cityCost(): bigint {
+  return game.unitInfo(UnitType.City).cost(player);
+}
+
+describe("BuildQueue", () => {
+  beforeEach(async () => {
+    game = await setup("plains", { instantBuild: true });
+    const info = new PlayerInfo(
+      "builder",
+      PlayerType.Human,
+      null,
+      "builder_id",
+    );
+    game.addPlayer(info);
+    game.addExecution(
+      new SpawnExecution(game.player(info.id).info(), game.ref(5, 5)),
+    );
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+    player = game.player("builder_id");
+    player.removeGold(player.gold());
+  });
+
+  test("queued build starts once it can be afforded", () => {
+    queue(UnitType.City, 5, 5);
+    queue(UnitType.City, 6, 6);
+    executeTicks(game, 10);
+    expect(player.units(UnitType.City)).toHaveLength(0);
+    expect(player.buildQueue()).toHaveLength(2);
+
+    player.addGold(cityCost());
+    executeTicks(game, 10);
+    expect(player.units(UnitType.City)).toHaveLength(1);
+    expect(player.buildQueue()).toHaveLength(1);
+    expect(player.buildQueue()[0].tile).toBe(game.ref(6, 6));
+  });
+
+  test("gold is saved for the first queued build", () => {
+    queue(UnitType.City, 5, 5);
+    queue(UnitType.DefensePost, 6, 6);
+    // Enough for the defense post but not for the city.
+    player.addGold(game.unitInfo(UnitType.DefensePost).cost(player));
+    executeTicks(game, 10);
+    expect(player.units(UnitType.DefensePost)).toHaveLength(0);
+    expect(player.buildQueue()).toHaveLength(2);
+  });
+
+  test("builds that can't be placed don't block the queue", () => {
+    // There is no water on the map for a port.
+    queue(UnitType.Port, 5, 5);
+    queue(UnitType.City, 6, 6);
+    player.addGold(cityCost() * 10n);
+    executeTicks(game, 10);
+    expect(player.units(UnitType.City)).toHaveLength(1);
+    expect(player.buildQueue().map((b) => b.type)).toEqual([UnitType.Port]);
+  });
+
+  test("queued builds can be reordered and cancelled", () => {
+    queue(UnitType.City, 5, 5);
+    queue(UnitType.DefensePost, 6, 6);
+    queue(UnitType.MissileSilo, 7, 7);
+    const [city, post, silo] = player.buildQueue();
+
+    game.addExecution(new MoveQueuedBuildExecution(player, silo.id, 0));
+    game.executeNextTick();
+    expect(player.buildQueue().map((b) => b.id)).toEqual([
+      silo.id,
+      city.id,
+      post.id,
+    ]);
+
+    game.addExecution(new CancelQueuedBuildExecution(player, city.id));
+    game.executeNextTick();
+    expect(player.buildQueue().map((b) => b.id)).toEqual([silo.id, post.id]);
+
+    // Out of range indexes move the build to the end.
+    game.addExecution(new MoveQueuedBuildExecution(player, silo.id, 99));
+    game.executeNextTick();
+    expect(player.buildQueue().map((b) => b.id)).toEqual([post.id, silo.id]);
+  });
+
+  test("queue is limited", () => {
+    for (let i = 0; i < 12; i++) {
+      player.queueBuild(UnitType.City, game.ref(5, 5));
+    }
+    expect(player.buildQueue()).toHaveLength(10);
+    expect(player.queueBuild(UnitType.City, game.ref(5, 5))).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../src/core/game/Game";
+import { GameConfig } from "../src/core/Schemas";
+import { setup } from "./util/Setup";
+
+let game: Game;
+let attacker: Player;
+let defender: Player;
+
+async function startGame(gameConfig: Partial<GameConfig>) {
+  game = await setup("big_plains", gameConfig, [
+    new PlayerInfo("attacker", PlayerType.Human, "client_id1", "attacker_id"),
+    new PlayerInfo("defender", PlayerType.Human, "client_id2", "defender_id"),
+  ]);
+  game.addExecution(
+    new SpawnExecution(game.player("attacker_id").info(), game.ref(10, 10)),
+    new SpawnExecution(game.player("defender_id").info(), game.ref(30, 10)),
+  );
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  attacker = game.player("attacker_id");
+  defender = game.player("defender_id");
+}
+
+function captureCapital() {
+  attacker.conquer(game.ref(30, 10));
+  // Picked up by PlayerExecution on the next tick.
+  game.executeNextTick();
+  game.executeNextTick();
+}
+
+describe("Capital", () => {
+  test("spawning creates a capital in capital mode", async () => {
+    await startGame({ capitalMode: { annexDisconnected: false } });
+
+    const capitals = defender.units(UnitType.Capital);
+    expect(capitals).toHaveLength(1);
+    expect(capitals[0].tile()).toBe(game.ref(30, 10));
+  });
+
+  test("no capitals without capital mode", async () => {
+    await startGame({});
+
+    expect(game.units(UnitType.Capital)).toHaveLength(0);
+  });
+
+  test("capturing the capital costs gold and troop growth", async () => {
+    await startGame({ capitalMode: { annexDisconnected: false } });
+    defender.addGold(1000n);
+    const defenderGold = defender.gold();
+    const attackerGold = attacker.gold();
+    const troopGrowth = game.config().troopIncreaseRate(defender);
+
+    captureCapital();
+
+    expect(defender.units(UnitType.Capital)).toHaveLength(0);
+    // The capital is destroyed, not captured.
+    expect(attacker.units(UnitType.Capital).map((u) => u.tile())).toEqual([
+      game.ref(10, 10),
+    ]);
+    const lost = defenderGold / 2n;
+    expect(defender.gold()).toBeLessThan(defenderGold);
+    expect(attacker.gold()).toBeGreaterThanOrEqual(attackerGold + lost);
+    expect(defender.hasCapitalDebuff()).toBe(true);
+    expect(game.config().troopIncreaseRate(defender)).toBeLessThan(troopGrowth);
+
+    for (let i = 0; i < game.config().capitalCaptureDebuffDuration(); i++) {
+      game.executeNextTick();
+    }
+    expect(defender.hasCapitalDebuff()).toBe(false);
+  });
+
+  test("capturing the capital can annex cut off territory", async () => {
+    await startGame({ capitalMode: { annexDisconnected: true } });
+    // A small exclave away from the main territory.
+    for (let x = 60; x < 63; x++) {
+      defender.conquer(game.ref(x, 60));
+    }
+
+    captureCapital();
+
+    expect(game.owner(game.ref(61, 60)).id()).toBe(attacker.id());
+    expect(game.owner(game.ref(31, 10)).id()).toBe(defender.id());
+  });
+});
@@ -0,0 +1,144 @@
+import { CedeTerritoryExecution } from "../src/core/execution/CedeTerritoryExecution";
+import { SpawnExecution } from "../src/core/execution/SpawnExecution";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../src/core/game/Game";
+import { setup } from "./util/Setup";
+import { TestConfig } from "./util/TestConfig";
+import { executeTicks } from "./util/utils";
+
+let game: Game;
+let sender: Player;
+let recipient: Player;
+
+function cede(x: number, y: number) {
+  game.addExecution(
+    new CedeTerritoryExecution(sender, recipient.id(), game.ref(x, y)),
+  );
+  executeTicks(game, 2);
+}
+
+describe("CedeTerritory", () => {
+  beforeEach(async () => {
+    game = await setup("big_plains", { instantBuild: true }, [
+      new PlayerInfo("sender", PlayerType.Human, "client_id1", "sender_id"),
+      new PlayerInfo(
+        "recipient",
+        PlayerType.Human,
+        "client_id2",
+        "recipient_id",
+      ),
+    ]);
+    (game.config() as TestConfig).cessionMaxTiles = jest.fn(() => 50);
+
+    sender = game.player("sender_id");
+    recipient = game.player("recipient_id");
+    game.addExecution(
+      new SpawnExecution(sender.info(), game.ref(10, 10)),
+      new SpawnExecution(recipient.info(), game.ref(50, 10)),
+    );
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+
+    for (let x = 0; x < 20; x++) {
+      for (let y = 0; y < 20; y++) {
+        sender.conquer(game.ref(x, y));
+      }
+    }
+    sender.createAllianceRequest(recipient)!.accept();
+  });
+
+  test("cedes the region closest to the tile", () => {
+    const senderTiles = sender.numTilesOwned();
+    const recipientTiles = recipient.numTilesOwned();
+
+    cede(40, 10);
+
+    expect(sender.numTilesOwned()).toBe(senderTiles - 50);
+    expect(recipient.numTilesOwned()).toBe(recipientTiles + 50);
+    expect(game.owner(game.ref(19, 10)).id()).toBe(recipient.id());
+    expect(game.owner(game.ref(0, 0)).id()).toBe(sender.id());
+    expect(game.stats().stats()).toMatchObject({
+      client_id1: { cessions: [50n] },
+      client_id2: { cessions: [0n, 50n] },
+    });
+  });
+
+  test("structures on ceded tiles follow the territory", () => {
+    const city = sender.buildUnit(UnitType.City, game.ref(19, 10), {});
+    const post = sender.buildUnit(UnitType.DefensePost, game.ref(0, 0), {});
+
+    cede(19, 10);
+    // Picked up by PlayerExecution on the next tick.
+    game.executeNextTick();
+
+    expect(city.owner().id()).toBe(recipient.id());
+    expect(post.owner().id()).toBe(sender.id());
+  });
+
+  test("the capital stays with the sender", () => {
+    const capital = sender.buildUnit(UnitType.Capital, game.ref(19, 10), {});
+    sender.addGold(1000n);
+    const senderGold = sender.gold();
+    const senderTiles = sender.numTilesOwned();
+
+    cede(19, 10);
+    game.executeNextTick();
+
+    expect(game.owner(game.ref(19, 10)).id()).toBe(sender.id());
+    expect(game.owner(game.ref(18, 10)).id()).toBe(recipient.id());
+    expect(sender.numTilesOwned()).toBe(senderTiles - 50);
+    expect(capital.isActive()).toBe(true);
+    expect(capital.owner().id()).toBe(sender.id());
+    expect(sender.gold()).toBeGreaterThanOrEqual(senderGold);
+    expect(sender.hasCapitalDebuff()).toBe(false);
+  });
+
+  test("an ally handed the capital tile does not capture it", () => {
+    const capital = sender.buildUnit(UnitType.Capital, game.ref(19, 10), {});
+    sender.addGold(1000n);
+    const senderGold = sender.gold();
+
+    recipient.conquer(game.ref(19, 10));
+    executeTicks(game, 2);
+
+    expect(capital.isActive()).toBe(false);
+    expect(sender.gold()).toBeGreaterThanOrEqual(senderGold);
+    expect(sender.hasCapitalDebuff()).toBe(false);
+  });
+
+  test("only allies can receive territory", () => {
+    sender.breakAlliance(sender.allianceWith(recipient)!);
+    const senderTiles = sender.numTilesOwned();
+
+    cede(19, 10);
+
+    expect(sender.numTilesOwned()).toBe(senderTiles);
+  });
+
+  test("cessions have a cooldown", () => {
+    cede(19, 10);
+    const senderTiles = sender.numTilesOwned();
+
+    cede(19, 10);
+    expect(sender.numTilesOwned()).toBe(senderTiles);
+
+    executeTicks(game, game.config().cessionCooldown());
+    cede(19, 10);
+    expect(sender.numTilesOwned()).toBe(senderTiles - 50);
+  });
+
+  test("the sender keeps at least one tile", () => {
+    (game.config() as TestConfig).cessionMaxTiles = jest.fn(() => 100_000);
+    const senderTiles = sender.numTilesOwned();
+
+    cede(19, 10);
+
+    expect(sender.numTilesOwned()).toBe(senderTiles);
+  });
+});
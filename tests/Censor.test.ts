@@ -5,6 +5,9 @@ jest.mock("obscenity", () => {
       private dummy: string[] = ["foo", "bar", "leet", "code"];
       constructor(_opts: any) {}
       hasMatch(input: string): boolean {
+        return this.getAllMatches(input).length > 0;
+      }
+      getAllMatches(input: string) {
         const lower = input.toLowerCase();
         const decoded = lower
           .replace(/4/g, "a")
@@ -13,7 +16,15 @@ jest.mock("obscenity", () => {
           .replace(/0/g, "o")
           .replace(/5/g, "s")
           .replace(/7/g, "t");
-        return this.dummy.some((token) => decoded.includes(token));
+        return this.dummy.flatMap((token) => {
+          const matches = [];
+          let i = decoded.indexOf(token);
+          while (i !== -1) {
+            matches.push({ startIndex: i, endIndex: i + token.length - 1 });
+            i = decoded.indexOf(token, i + 1);
+          }
+          return matches;
+        });
       }
     },
     collapseDuplicatesTransformer: () => ({}),
@@ -32,6 +43,7 @@ jest.mock("../src/client/Utils", () => ({
 }));
 
 import {
+  censorProfanity,
   fixProfaneUsername,
   isProfaneUsername,
   MAX_USERNAME_LENGTH,
@@ -81,6 +93,17 @@ describe("username.ts functions", () => {
     });
   });
 
+  describe("censorProfanity (mocked)", () => {
+    test.each([
+      { text: "hello there", expected: "hello there" },
+      { text: "what the foo", expected: "what the ***" },
+      { text: "l33t and b4r!", expected: "**** and ***!" },
+      { text: "foofoo", expected: "******" },
+    ])('censorProfanity("$text") → "$expected"', ({ text, expected }) => {
+      expect(censorProfanity(text)).toBe(expected);
+    });
+  });
+
   describe("validateUsername", () => {
     test("rejects non-string", () => {
       // @ts-expect-error: Testing non-string input to validateUsername on purpose
@@ -0,0 +1,71 @@
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../src/core/game/Game";
+import { GameConfig, Turn } from "../src/core/Schemas";
+import { createGameRecord } from "../src/core/Util";
+import { TestServerConfig } from "./util/TestServerConfig";
+
+class RecordServerConfig extends TestServerConfig {
+  gitCommit(): string {
+    return "0".repeat(40);
+  }
+  domain(): string {
+    return "localhost";
+  }
+  subdomain(): string {
+    return "";
+  }
+}
+
+const config: GameConfig = {
+  gameMap: GameMapType.World,
+  difficulty: Difficulty.Medium,
+  gameType: GameType.Private,
+  gameMode: GameMode.FFA,
+  disableNPCs: false,
+  bots: 400,
+  infiniteGold: false,
+  infiniteTroops: false,
+  instantBuild: false,
+  disabledUnits: [],
+};
+
+const turns: Turn[] = Array.from({ length: 20 }, (_, turnNumber) => ({
+  turnNumber,
+  intents: [],
+}));
+
+describe("createGameRecord", () => {
+  test("records pause spans", () => {
+    const pauses = [{ turn: 10, start: 1000, end: 5000, clientID: "creator1" }];
+    const record = createGameRecord(
+      "game1234",
+      config,
+      [],
+      turns,
+      0,
+      10000,
+      undefined,
+      new RecordServerConfig(),
+      pauses,
+    );
+    expect(record.info.pauses).toEqual(pauses);
+  });
+
+  test("omits pauses when the game was never paused", () => {
+    const record = createGameRecord(
+      "game1234",
+      config,
+      [],
+      turns,
+      0,
+      10000,
+      undefined,
+      new RecordServerConfig(),
+    );
+    expect(record.info.pauses).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  nationStrategy,
+  pickPersonality,
+} from "../src/core/execution/utils/NationStrategy";
+import { Difficulty, NationPersonality, UnitType } from "../src/core/game/Game";
+import { PseudoRandom } from "../src/core/PseudoRandom";
+import { startNationMatch } from "./util/NationMatch";
+import { executeTicks } from "./util/utils";
+
+describe("NationStrategy", () => {
+  test("personalities follow their own build order", async () => {
+    const { game, players } = await startNationMatch(
+      "big_plains",
+      [
+        nationStrategy(NationPersonality.Aggressive),
+        nationStrategy(NationPersonality.Economic),
+        nationStrategy(NationPersonality.Turtle),
+      ],
+      { instantBuild: true },
+    );
+    const [aggressive, economic, turtle] = players;
+    players.forEach((p) => p.addGold(100_000_000n));
+    executeTicks(game, 1000);
+
+    players.forEach((p) => expect(p.isAlive()).toBe(true));
+    expect(aggressive.unitsOwned(UnitType.MissileSilo)).toBeGreaterThan(0);
+    expect(aggressive.unitsOwned(UnitType.DefensePost)).toBe(0);
+    expect(economic.unitsOwned(UnitType.Factory)).toBeGreaterThan(0);
+    expect(economic.unitsOwned(UnitType.MissileSilo)).toBe(0);
+    expect(turtle.unitsOwned(UnitType.DefensePost)).toBeGreaterThan(0);
+    expect(turtle.unitsOwned(UnitType.MissileSilo)).toBe(0);
+  });
+
+  test("aggressive nations outgrow turtles", async () => {
+    const { game, players } = await startNationMatch("big_plains", [
+      nationStrategy(NationPersonality.Aggressive),
+      nationStrategy(NationPersonality.Turtle),
+    ]);
+    executeTicks(game, 600);
+    const [aggressive, turtle] = players;
+
+    expect(aggressive.numTilesOwned()).toBeGreaterThan(turtle.numTilesOwned());
+  });
+
+  test("turtles accept alliances aggressive nations reject", async () => {
+    const { players } = await startNationMatch("big_plains", [
+      nationStrategy(NationPersonality.Aggressive),
+      nationStrategy(NationPersonality.Turtle),
+      nationStrategy(NationPersonality.Turtle),
+    ]);
+    const [aggressive, turtle, otherTurtle] = players;
+
+    const toAggressive = turtle.createAllianceRequest(aggressive);
+    const toTurtle = aggressive.createAllianceRequest(otherTurtle);
+    expect(
+      nationStrategy(NationPersonality.Aggressive).shouldAcceptAlliance(
+        aggressive,
+        toAggressive!,
+      ),
+    ).toBe(false);
+    expect(
+      nationStrategy(NationPersonality.Turtle).shouldAcceptAlliance(
+        otherTurtle,
+        toTurtle!,
+      ),
+    ).toBe(true);
+  });
+
+  test("difficulty shifts the personality mix", () => {
+    const random = new PseudoRandom(42);
+    for (let i = 0; i < 100; i++) {
+      expect(pickPersonality(random, Difficulty.Impossible)).not.toBe(
+        NationPersonality.Turtle,
+      );
+      expect(pickPersonality(random, Difficulty.Easy)).not.toBe(
+        NationPersonality.Aggressive,
+      );
+    }
+  });
+});
@@ -157,6 +157,14 @@ describe("Stats", () => {
     });
   });
 
+  test("territoryCede", () => {
+    stats.territoryCede(player1, player2, 10);
+    expect(stats.stats()).toStrictEqual({
+      client1: { cessions: [10n] },
+      client2: { cessions: [0n, 10n] },
+    });
+  });
+
   test("goldWar", () => {
     stats.goldWar(player1, player2, 1);
     expect(stats.stats()).toStrictEqual({
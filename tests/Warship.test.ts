@@ -1,3 +1,4 @@
+import { FleetMoveExecution } from "../src/core/execution/FleetMoveExecution";
 import { MoveWarshipExecution } from "../src/core/execution/MoveWarshipExecution";
 import { WarshipExecution } from "../src/core/execution/WarshipExecution";
 import {
@@ -247,4 +248,120 @@ describe("Warship", () => {
 
     expect(exec.isActive()).toBe(false);
   });
+
+  test("Fleet moves to the waypoint in formation", async () => {
+    game.config().warshipTargettingRange = () => 1;
+
+    const warships = [10, 12].map((y) =>
+      player1.buildUnit(UnitType.Warship, game.ref(coastX + 1, y), {
+        patrolTile: game.ref(coastX + 1, y),
+      }),
+    );
+    warships.forEach((w) => game.addExecution(new WarshipExecution(w)));
+
+    game.addExecution(
+      new FleetMoveExecution(
+        player1,
+        warships.map((w) => w.id()),
+        [game.ref(coastX + 5, 8)],
+        false,
+      ),
+    );
+
+    executeTicks(game, 20);
+
+    expect(warships[0].patrolTile()).toBe(game.ref(coastX + 5, 8));
+    // The second warship takes the next formation slot.
+    expect(warships[1].patrolTile()).toBe(game.ref(coastX + 2, 5));
+    expect(warships.every((w) => w.patrolRoute().length === 0)).toBe(true);
+  });
+
+  test("Fleet cycles through a patrol route", async () => {
+    game.config().warshipTargettingRange = () => 1;
+
+    const warship = player1.buildUnit(
+      UnitType.Warship,
+      game.ref(coastX + 1, 10),
+      {
+        patrolTile: game.ref(coastX + 1, 10),
+      },
+    );
+    game.addExecution(new WarshipExecution(warship));
+
+    const waypoints = [game.ref(coastX + 5, 3), game.ref(coastX + 5, 13)];
+    game.addExecution(
+      new FleetMoveExecution(player1, [warship.id()], waypoints, true),
+    );
+
+    const visited = new Set<number>();
+    for (let i = 0; i < 60; i++) {
+      game.executeNextTick();
+      visited.add(warship.patrolTile()!);
+    }
+
+    expect(visited).toContain(waypoints[0]);
+    expect(visited).toContain(waypoints[1]);
+    expect(warship.patrolRoute()).toHaveLength(2);
+  });
+
+  test("Moving a single warship cancels its patrol route", async () => {
+    const warship = player1.buildUnit(
+      UnitType.Warship,
+      game.ref(coastX + 1, 10),
+      {
+        patrolTile: game.ref(coastX + 1, 10),
+      },
+    );
+    new FleetMoveExecution(
+      player1,
+      [warship.id()],
+      [game.ref(coastX + 5, 3), game.ref(coastX + 5, 13)],
+      true,
+    ).init(game, 0);
+    expect(warship.patrolRoute()).toHaveLength(2);
+
+    new MoveWarshipExecution(
+      player1,
+      warship.id(),
+      game.ref(coastX + 5, 15),
+    ).init(game, 0);
+    expect(warship.patrolRoute()).toHaveLength(0);
+    expect(warship.patrolTile()).toBe(game.ref(coastX + 5, 15));
+  });
+
+  test("FleetMoveExecution ignores warships of other players", async () => {
+    const originalPatrolTile = game.ref(coastX + 1, 10);
+    const warship = player1.buildUnit(
+      UnitType.Warship,
+      game.ref(coastX + 1, 5),
+      {
+        patrolTile: originalPatrolTile,
+      },
+    );
+    new FleetMoveExecution(
+      player2,
+      [warship.id()],
+      [game.ref(coastX + 5, 15)],
+      false,
+    ).init(game, 0);
+    expect(warship.patrolRoute()).toHaveLength(0);
+    expect(warship.patrolTile()).toBe(originalPatrolTile);
+  });
+
+  test("Warship updates carry the patrol tile", async () => {
+    const warship = player1.buildUnit(
+      UnitType.Warship,
+      game.ref(coastX + 1, 10),
+      {
+        patrolTile: game.ref(coastX + 1, 10),
+      },
+    );
+    new MoveWarshipExecution(
+      player1,
+      warship.id(),
+      game.ref(coastX + 5, 15),
+    ).init(game, 0);
+
+    expect(warship.toUpdate().patrolTile).toBe(game.ref(coastX + 5, 15));
+  });
 });
@@ -0,0 +1,219 @@
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { Bot, BotContext } from "../../src/botsdk/Bot";
+import { BotClient } from "../../src/botsdk/BotClient";
+import { getServerConfigFromServer } from "../../src/core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../../src/core/game/FileSystemGameMapLoader";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { GameView } from "../../src/core/game/GameView";
+import {
+  ClientMessage,
+  GameStartInfo,
+  Intent,
+  ServerMessage,
+} from "../../src/core/Schemas";
+
+// Only needed to decode patterns, which bots don't have.
+jest.mock("jose", () => ({
+  base64url: { decode: jest.fn() },
+}));
+
+// ts-jest can't compile the JSON imports of the schemas, the test server only
+// sends valid messages.
+jest.mock("../../src/core/Schemas", () => ({
+  ServerMessageSchema: {
+    safeParse: (data: unknown) => ({ success: true, data }),
+  },
+}));
+
+const serverConfig = getServerConfigFromServer();
+const mapLoader = new FileSystemGameMapLoader(serverConfig.mapsDir());
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "game0001",
+  players: [
+    {
+      clientID: "bot00001",
+      username: "spawner",
+      flag: "",
+      pattern: undefined,
+    },
+  ],
+  config: {
+    gameMap: GameMapType.Pangaea,
+    gameType: GameType.Private,
+    gameMode: GameMode.FFA,
+    difficulty: Difficulty.Medium,
+    disableNPCs: true,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+  },
+};
+
+// Spawns on the first free land tile and notes when it sees itself spawned.
+class SpawnBot implements Bot {
+  readonly name = "spawner";
+  spawnedAt: number | null = null;
+  game: GameView | null = null;
+  private sentSpawn = false;
+
+  tick(ctx: BotContext) {
+    const { game, actions } = ctx;
+    this.game = game;
+    if (ctx.player()?.hasSpawned()) {
+      this.spawnedAt ??= game.ticks();
+      return;
+    }
+    if (this.sentSpawn) return;
+    for (let tile = 0; tile < game.width() * game.height(); tile++) {
+      if (game.isLand(tile)) {
+        actions.spawn(tile);
+        this.sentSpawn = true;
+        return;
+      }
+    }
+  }
+}
+
+describe("BotClient", () => {
+  let server: WebSocketServer;
+  let received: ClientMessage[];
+
+  const send = (socket: WebSocket, message: ServerMessage) =>
+    socket.send(JSON.stringify(message));
+
+  beforeEach(async () => {
+    received = [];
+    server = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => server.once("listening", resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("joins a game and plays through intents", async () => {
+    let path: string | undefined;
+    server.on("connection", (socket, request) => {
+      path = request.url;
+      let turnNumber = 0;
+      const turn = (intents: Intent[]) =>
+        send(socket, {
+          type: "turn",
+          turn: { turnNumber: turnNumber++, intents },
+        });
+      socket.on("message", (data) => {
+        const message = JSON.parse(data.toString()) as ClientMessage;
+        received.push(message);
+        if (message.type === "join") {
+          send(socket, { type: "start", gameStartInfo, turns: [] });
+          turn([]);
+        } else if (message.type === "intent") {
+          turn([message.intent]);
+          for (let i = 0; i < 5; i++) turn([]);
+          socket.close(1000, "done");
+        }
+      });
+    });
+
+    const bot = new SpawnBot();
+    const port = (server.address() as AddressInfo).port;
+    const client = new BotClient(
+      {
+        url: `ws://localhost:${port}`,
+        gameID: gameStartInfo.gameID,
+        bot,
+        token: "token01",
+        clientID: "bot00001",
+      },
+      mapLoader,
+      serverConfig,
+    );
+    const result = await client.run();
+
+    expect(result).toEqual({ type: "closed", code: 1000, reason: "done" });
+    expect(path).toBe(`/${serverConfig.workerPath(gameStartInfo.gameID)}`);
+    expect(received[0]).toMatchObject({
+      type: "join",
+      gameID: gameStartInfo.gameID,
+      clientID: "bot00001",
+      token: "token01",
+      username: "spawner",
+    });
+    const intents = received.filter((m) => m.type === "intent");
+    expect(intents).toHaveLength(1);
+    expect(intents[0]).toMatchObject({
+      intent: { type: "spawn", clientID: "bot00001", name: "spawner" },
+    });
+    // The bot saw its spawn in its view of the game.
+    expect(bot.spawnedAt).not.toBeNull();
+    expect(bot.game).toBeInstanceOf(GameView);
+  });
+
+  test("reports server errors", async () => {
+    server.on("connection", (socket) => {
+      socket.on("message", () =>
+        send(socket, { type: "error", error: "game not found" }),
+      );
+    });
+
+    const port = (server.address() as AddressInfo).port;
+    const client = new BotClient(
+      {
+        url: `ws://localhost:${port}`,
+        gameID: gameStartInfo.gameID,
+        bot: new SpawnBot(),
+        token: "token01",
+      },
+      mapLoader,
+      serverConfig,
+    );
+
+    expect(await client.run()).toEqual({
+      type: "error",
+      error: "game not found",
+    });
+  });
+
+  test("ends the game when the bot throws", async () => {
+    server.on("connection", (socket) => {
+      socket.on("message", (data) => {
+        const message = JSON.parse(data.toString()) as ClientMessage;
+        if (message.type !== "join") return;
+        // Malformed frames are skipped.
+        socket.send("not json");
+        send(socket, { type: "start", gameStartInfo, turns: [] });
+        send(socket, { type: "turn", turn: { turnNumber: 0, intents: [] } });
+      });
+    });
+
+    const port = (server.address() as AddressInfo).port;
+    const client = new BotClient(
+      {
+        url: `ws://localhost:${port}`,
+        gameID: gameStartInfo.gameID,
+        bot: {
+          name: "broken",
+          tick: () => {
+            throw new Error("oops");
+          },
+        },
+        token: "token01",
+      },
+      mapLoader,
+      serverConfig,
+    );
+
+    expect(await client.run()).toEqual({
+      type: "error",
+      error: "bot failed: Error: oops",
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { Bot, BotContext } from "../../src/botsdk/Bot";
+import { ExpansionBot } from "../../src/botsdk/ExpansionBot";
+import { runMatch } from "../../src/botsdk/MatchRunner";
+import { getServerConfigFromServer } from "../../src/core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../../src/core/game/FileSystemGameMapLoader";
+import { GameMapType } from "../../src/core/game/Game";
+
+// Only needed to decode patterns, which bots don't have.
+jest.mock("jose", () => ({
+  base64url: { decode: jest.fn() },
+}));
+
+const serverConfig = getServerConfigFromServer();
+const mapLoader = new FileSystemGameMapLoader(serverConfig.mapsDir());
+
+// Never spawns, so it can't win.
+class IdleBot implements Bot {
+  readonly name = "idle";
+  ticks = 0;
+  tick(ctx: BotContext) {
+    this.ticks++;
+    expect(ctx.player()?.hasSpawned()).toBe(false);
+  }
+}
+
+describe("MatchRunner", () => {
+  test("bots expand through their intents", async () => {
+    const idle = new IdleBot();
+    const result = await runMatch(
+      {
+        gameMap: GameMapType.Pangaea,
+        bots: [new ExpansionBot("alpha"), new ExpansionBot("beta"), idle],
+        maxTurns: 600,
+      },
+      mapLoader,
+      serverConfig,
+    );
+    expect(result.error).toBeNull();
+    expect(result.turns).toBe(600);
+    expect(result.winnerName).toBeNull();
+    expect(idle.ticks).toBe(600);
+
+    const [first, second, third] = result.players;
+    expect([first.name, second.name].sort()).toEqual(["alpha", "beta"]);
+    expect(second.tiles).toBeGreaterThan(500);
+    expect(third).toMatchObject({ name: "idle", isAlive: false, tiles: 0 });
+  });
+
+  test("reports the winner", async () => {
+    const result = await runMatch(
+      {
+        gameMap: GameMapType.Pangaea,
+        bots: [new ExpansionBot("alpha", 0.5), new IdleBot()],
+        maxTurns: 2000,
+        config: { victoryCondition: { type: "timeLimit", minutes: 1 } },
+      },
+      mapLoader,
+      serverConfig,
+    );
+    expect(result.error).toBeNull();
+    expect(result.turns).toBeLessThan(2000);
+    expect(result.winner).toEqual(["player", "bot00000"]);
+    expect(result.winnerName).toBe("alpha");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+  cameraBookmarkSlot,
+  cameraBookmarkSlots,
+  defaultKeybinds,
+  keybindConflict,
+  loadKeybinds,
+  PlayerHotkeyAction,
+} from "../../src/client/Keybinds";
+
+describe("Keybinds", () => {
+  afterEach(() => localStorage.clear());
+
+  test("saved keybinds override the defaults", () => {
+    localStorage.setItem(
+      "settings.keybinds",
+      JSON.stringify({
+        buildCity: "KeyK",
+        [PlayerHotkeyAction.Target]: "KeyP",
+      }),
+    );
+
+    const keybinds = loadKeybinds();
+    expect(keybinds["buildCity"]).toBe("KeyK");
+    expect(keybinds[PlayerHotkeyAction.Target]).toBe("KeyP");
+    expect(keybinds["buildPort"]).toBe(defaultKeybinds["buildPort"]);
+  });
+
+  test("invalid saved keybinds fall back to the defaults", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    localStorage.setItem("settings.keybinds", "{");
+
+    expect(loadKeybinds()).toEqual(defaultKeybinds);
+  });
+
+  test("conflicts with other actions are reported", () => {
+    const keybinds = { ...defaultKeybinds, buildCity: "KeyK" };
+
+    expect(keybindConflict(keybinds, "buildPort", "KeyK")).toBe("buildCity");
+    expect(keybindConflict(keybinds, "buildPort", "KeyW")).toBe("moveUp");
+    // Rebinding an action to its own key is fine.
+    expect(keybindConflict(keybinds, "buildCity", "KeyK")).toBeNull();
+    expect(keybindConflict(keybinds, "buildPort", "KeyJ")).toBeNull();
+  });
+
+  test("conflicts with fixed shortcuts are reported", () => {
+    expect(keybindConflict(defaultKeybinds, "buildCity", "Escape")).toBe(
+      "closeView",
+    );
+    expect(keybindConflict(defaultKeybinds, "buildCity", "ArrowUp")).toBe(
+      "moveUp",
+    );
+    expect(keybindConflict(defaultKeybinds, "moveUp", "ArrowUp")).toBeNull();
+    // Alt+R refreshes the graphics, hotkeys ignore keys pressed with Alt.
+    expect(keybindConflict(defaultKeybinds, "boatAttack", "KeyR")).toBe(
+      "refreshGraphics",
+    );
+    expect(keybindConflict(defaultKeybinds, "buildPort", "KeyR")).toBeNull();
+    expect(
+      keybindConflict(defaultKeybinds, PlayerHotkeyAction.Target, "KeyR"),
+    ).toBeNull();
+  });
+
+  test("free digits are camera bookmarks", () => {
+    // Digit1 and Digit2 change the attack ratio.
+    expect(cameraBookmarkSlots(defaultKeybinds)).toEqual([
+      3, 4, 5, 6, 7, 8, 9, 0,
+    ]);
+    expect(cameraBookmarkSlot(defaultKeybinds, "Digit3")).toBe(3);
+    expect(cameraBookmarkSlot(defaultKeybinds, "Digit1")).toBeNull();
+    expect(cameraBookmarkSlot(defaultKeybinds, "KeyK")).toBeNull();
+
+    expect(keybindConflict(defaultKeybinds, "buildCity", "Digit3")).toBe(
+      "cameraBookmark",
+    );
+    expect(keybindConflict(defaultKeybinds, "buildCity", "Digit1")).toBe(
+      "attackRatioDown",
+    );
+    const keybinds = { ...defaultKeybinds, buildCity: "Digit3" };
+    expect(cameraBookmarkSlots(keybinds)).not.toContain(3);
+    expect(keybindConflict(keybinds, "buildCity", "Digit3")).toBeNull();
+  });
+
+  test("the defaults don't conflict", () => {
+    for (const [action, key] of Object.entries(defaultKeybinds)) {
+      expect(keybindConflict(defaultKeybinds, action, key)).toBeNull();
+    }
+  });
+
+  test("unbound keys never conflict", () => {
+    expect(
+      keybindConflict(defaultKeybinds, PlayerHotkeyAction.Emoji, "Null"),
+    ).toBeNull();
+    expect(keybindConflict(defaultKeybinds, "buildMIRV", "")).toBeNull();
+  });
+});
@@ -113,6 +113,8 @@ describe("RadialMenuElements", () => {
       cost: jest.fn(() => 100),
       count: jest.fn(() => 5),
       sendBuildOrUpgrade: jest.fn(),
+      canQueue: jest.fn(() => false),
+      queueBuild: jest.fn(),
     };
 
     mockPlayerActions = {
@@ -384,6 +386,20 @@ describe("RadialMenuElements", () => {
       }
     });
 
+    it("should queue builds that can't be afforded", () => {
+      mockBuildMenu.canBuildOrUpgrade = jest.fn(() => false);
+      mockBuildMenu.canQueue = jest.fn(() => true);
+
+      const subMenu = buildMenuElement.subMenu!(mockParams);
+      const cityElement = subMenu.find((item) => item.id === "build_City");
+
+      expect(cityElement!.disabled(mockParams)).toBe(false);
+      cityElement!.action!(mockParams);
+      expect(mockBuildMenu.sendBuildOrUpgrade).not.toHaveBeenCalled();
+      expect(mockBuildMenu.queueBuild).toHaveBeenCalled();
+      expect(mockParams.closeMenu).toHaveBeenCalled();
+    });
+
     it("should not execute action when buildable unit is not found", () => {
       mockPlayerActions.buildableUnits = [];
       mockBuildMenu.canBuildOrUpgrade = jest.fn(() => false);
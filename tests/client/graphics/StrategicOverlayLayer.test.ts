@@ -0,0 +1,111 @@
+import {
+  borderPressure,
+  falloutDensity,
+  StrategicOverlayLayer,
+  troopDensities,
+} from "../../../src/client/graphics/layers/StrategicOverlayLayer";
+import { UnitType } from "../../../src/core/game/Game";
+import { StrategicOverlay } from "../../../src/core/game/UserSettings";
+
+describe("StrategicOverlayLayer", () => {
+  let game: any;
+  let owners: number[];
+  let fallout: Set<number>;
+
+  function player(smallID: number, troops: number, tiles: number) {
+    return {
+      smallID: () => smallID,
+      troops: () => troops,
+      numTilesOwned: () => tiles,
+    };
+  }
+
+  beforeEach(() => {
+    // 4x4 map, tiles are indices.
+    owners = new Array(16).fill(0);
+    fallout = new Set();
+    game = {
+      width: () => 4,
+      height: () => 4,
+      x: (t: number) => t % 4,
+      y: (t: number) => Math.floor(t / 4),
+      ownerID: (t: number) => owners[t],
+      hasFallout: (t: number) => fallout.has(t),
+      forEachTile: (fn: (t: number) => void) => owners.forEach((_, t) => fn(t)),
+      neighbors: (t: number) =>
+        [t - 4, t + 4, t % 4 > 0 ? t - 1 : -1, t % 4 < 3 ? t + 1 : -1].filter(
+          (n) => n >= 0 && n < 16,
+        ),
+      playerViews: () => [player(1, 1000, 10), player(2, 4000, 10)],
+    };
+  });
+
+  test("border pressure compares troop density with the neighbors", () => {
+    const densities = troopDensities(game);
+    expect(densities.get(1)).toBe(100);
+    expect(densities.get(2)).toBe(400);
+
+    owners[5] = 1;
+    owners[6] = 2;
+    owners[4] = 1;
+
+    expect(borderPressure(game, 5, densities)).toBe(4);
+    expect(borderPressure(game, 6, densities)).toBe(0.25);
+    // Only touches its own territory and wilderness.
+    expect(borderPressure(game, 4, densities)).toBeNull();
+  });
+
+  test("fallout density is the share of fallout tiles per cell", () => {
+    fallout.add(0);
+    fallout.add(1);
+    fallout.add(15);
+
+    expect(Array.from(falloutDensity(game, 2))).toEqual([0.5, 0, 0, 0.25]);
+  });
+
+  test("trade routes to ports under the fog are hidden", () => {
+    const unit = (
+      id: number,
+      type: UnitType,
+      tile: number,
+      target?: number,
+    ) => ({
+      id: () => id,
+      type: () => type,
+      tile: () => tile,
+      isActive: () => true,
+      targetUnitId: () => target,
+    });
+    const units = [
+      unit(1, UnitType.Port, 3),
+      unit(2, UnitType.Port, 12),
+      unit(3, UnitType.TradeShip, 5, 1),
+      unit(4, UnitType.TradeShip, 6, 2),
+    ];
+    game.units = (...types: UnitType[]) =>
+      units.filter((u) => types.includes(u.type()));
+    game.unit = (id: number) => units.find((u) => u.id() === id);
+    // The port on tile 12 is under the fog.
+    game.isTileVisible = (t: number) => t !== 12;
+    const layer = new StrategicOverlayLayer(game, {
+      strategicOverlay: (o: StrategicOverlay) =>
+        o === StrategicOverlay.TradeRoutes,
+    } as any);
+    const context = {
+      save: jest.fn(),
+      restore: jest.fn(),
+      setLineDash: jest.fn(),
+      beginPath: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      stroke: jest.fn(),
+    };
+
+    layer.tick();
+    layer.renderLayer(context as any);
+
+    expect(context.moveTo).toHaveBeenCalledTimes(1);
+    expect(context.moveTo).toHaveBeenCalledWith(-0.5, -0.5);
+    expect(context.lineTo).toHaveBeenCalledWith(1.5, -1.5);
+  });
+});
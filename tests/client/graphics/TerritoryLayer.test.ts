@@ -0,0 +1,104 @@
+/**
+ * @jest-environment jsdom
+ */
+import { TerritoryLayer } from "../../../src/client/graphics/layers/TerritoryLayer";
+import { TerritoryCanvasPainter } from "../../../src/client/graphics/territory/TerritoryCanvasPainter";
+import { TerritoryWebGLRenderer } from "../../../src/client/graphics/territory/TerritoryWebGLRenderer";
+import { EventBus } from "../../../src/core/EventBus";
+
+// Only needed to decode patterns.
+jest.mock("jose", () => ({
+  base64url: { decode: jest.fn() },
+}));
+jest.mock("nanoid", () => ({
+  customAlphabet: jest.fn(() => jest.fn(() => "mock-id")),
+}));
+jest.mock("dompurify", () => ({
+  __esModule: true,
+  default: {
+    sanitize: jest.fn((str: string) => str),
+  },
+}));
+jest.mock(
+  "../../../src/client/graphics/territory/TerritoryWebGLRenderer",
+  () => ({
+    TerritoryWebGLRenderer: { create: jest.fn() },
+  }),
+);
+jest.mock(
+  "../../../src/client/graphics/territory/TerritoryCanvasPainter",
+  () => ({
+    TerritoryCanvasPainter: jest.fn().mockImplementation(() => ({
+      imageData: new Uint8ClampedArray(2 * 2 * 4),
+      alternativeImageData: new Uint8ClampedArray(2 * 2 * 4),
+      paintTerritory: jest.fn(),
+    })),
+  }),
+);
+
+// jsdom has neither 2d contexts nor image data.
+class FakeImageData {
+  constructor(
+    readonly data: Uint8ClampedArray,
+    readonly width: number,
+    readonly height: number,
+  ) {}
+}
+(globalThis as any).ImageData = FakeImageData;
+
+describe("TerritoryLayer", () => {
+  let layer: TerritoryLayer;
+  let renderers: { canvas: HTMLCanvasElement; dispose: jest.Mock }[];
+
+  beforeEach(() => {
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockReturnValue({ putImageData: jest.fn() } as any);
+    renderers = [];
+    jest.mocked(TerritoryWebGLRenderer.create).mockImplementation(() => {
+      const renderer = {
+        canvas: document.createElement("canvas"),
+        dispose: jest.fn(),
+        paintTile: jest.fn(),
+      };
+      renderers.push(renderer);
+      return renderer as unknown as TerritoryWebGLRenderer;
+    });
+    jest.mocked(TerritoryCanvasPainter).mockClear();
+
+    // 2x2 map
+    const game: any = {
+      width: () => 2,
+      height: () => 2,
+      config: () => ({ theme: () => ({}) }),
+      forEachTile: (fn: (t: number) => void) => [0, 1, 2, 3].forEach(fn),
+    };
+    layer = new TerritoryLayer(game, new EventBus(), {} as any, {} as any);
+    layer.init();
+  });
+
+  test("falls back to the CPU when the WebGL context is lost", () => {
+    expect(renderers).toHaveLength(1);
+    expect(TerritoryCanvasPainter).not.toHaveBeenCalled();
+
+    renderers[0].canvas.dispatchEvent(new Event("webglcontextlost"));
+
+    expect(TerritoryCanvasPainter).toHaveBeenCalledTimes(1);
+    const painter = jest.mocked(TerritoryCanvasPainter).mock.results[0].value;
+    expect(painter.paintTerritory).toHaveBeenCalledTimes(4);
+    // Later redraws stay on the CPU.
+    layer.redraw();
+    expect(renderers).toHaveLength(1);
+    expect(TerritoryCanvasPainter).toHaveBeenCalledTimes(2);
+  });
+
+  test("contexts of disposed renderers are let go", () => {
+    layer.redraw();
+    expect(renderers[0].dispose).toHaveBeenCalled();
+
+    renderers[0].canvas.dispatchEvent(new Event("webglcontextlost"));
+
+    expect(TerritoryCanvasPainter).not.toHaveBeenCalled();
+    expect(renderers).toHaveLength(2);
+  });
+});
@@ -0,0 +1,151 @@
+import { colord } from "colord";
+import {
+  BORDER_FLAG,
+  DEFENDED_FLAG,
+  FALLOUT_FLAG,
+  HIDDEN_FLAG,
+  PaletteRow,
+  TerritoryPalette,
+  TerritoryState,
+} from "../../../src/client/graphics/territory/TerritoryState";
+
+describe("TerritoryState", () => {
+  let game: any;
+  let owners: number[];
+  let borders: Set<number>;
+  let defended: Set<number>;
+  let hidden: Set<number>;
+  let fallout: Set<number>;
+  let players: any[];
+  let myPlayer: any;
+
+  function player(smallID: number, friendly = false) {
+    return {
+      id: () => `player${smallID}`,
+      smallID: () => smallID,
+      isFriendly: () => friendly,
+      patternDecoder: () => undefined,
+    };
+  }
+
+  beforeEach(() => {
+    // 4x4 map, tiles are indices.
+    owners = new Array(16).fill(0);
+    borders = new Set();
+    defended = new Set();
+    hidden = new Set();
+    fallout = new Set();
+    players = [player(1), player(2, true), player(300)];
+    myPlayer = null;
+    game = {
+      width: () => 4,
+      height: () => 4,
+      x: (t: number) => t % 4,
+      y: (t: number) => Math.floor(t / 4),
+      ownerID: (t: number) => owners[t],
+      owner: (t: number) => players.find((p) => p.smallID() === owners[t]),
+      isTileVisible: (t: number) => !hidden.has(t),
+      hasFallout: (t: number) => fallout.has(t),
+      isBorder: (t: number) => borders.has(t),
+      hasUnitNearby: (t: number) => defended.has(t),
+      config: () => ({ defensePostRange: () => 5 }),
+      playerViews: () => players,
+      myPlayer: () => myPlayer,
+    };
+  });
+
+  test("packs the owner and flags of a tile", () => {
+    const state = new TerritoryState(game);
+    owners[5] = 300;
+    borders.add(5);
+    defended.add(5);
+    fallout.add(6);
+    hidden.add(7);
+
+    [5, 6, 7].forEach((t) => state.paintTile(t));
+
+    expect(Array.from(state.data.subarray(20, 32))).toEqual([
+      300 & 0xff,
+      1,
+      BORDER_FLAG | DEFENDED_FLAG,
+      255,
+      0,
+      0,
+      FALLOUT_FLAG,
+      255,
+      0,
+      0,
+      HIDDEN_FLAG,
+      255,
+    ]);
+  });
+
+  test("tracks the blocks to upload", () => {
+    const state = new TerritoryState(game);
+    expect(state.takeDirtyRects()).toEqual([]);
+
+    state.paintTile(13);
+    state.paintTile(5);
+
+    // The whole 4x4 map is a single block.
+    expect(state.takeDirtyRects()).toEqual([
+      { x: 0, y: 0, width: 4, height: 4 },
+    ]);
+    expect(state.takeDirtyRects()).toEqual([]);
+  });
+
+  test("uploads changes far apart separately", () => {
+    // 200x200 map, 4x4 blocks of up to 64 tiles.
+    game.width = () => 200;
+    game.height = () => 200;
+    game.x = (t: number) => t % 200;
+    game.y = (t: number) => Math.floor(t / 200);
+    game.ownerID = () => 0;
+    const state = new TerritoryState(game);
+    const tile = (x: number, y: number) => y * 200 + x;
+
+    state.paintTile(tile(199, 199));
+    state.paintTile(tile(70, 0));
+    state.paintTile(tile(0, 0));
+    state.paintTile(tile(130, 0));
+
+    expect(state.takeDirtyRects()).toEqual([
+      // Neighboring blocks in a row are merged.
+      { x: 0, y: 0, width: 192, height: 64 },
+      // Blocks at the edge are cut to the map.
+      { x: 192, y: 192, width: 8, height: 8 },
+    ]);
+  });
+
+  test("the palette grows with the player ids", () => {
+    const theme: any = {
+      territoryColor: () => colord("#ff0000"),
+      borderColor: () => colord("#00ff00"),
+      defendedBorderColors: () => ({
+        light: colord("#ffffff"),
+        dark: colord("#000000"),
+      }),
+      selfColor: () => colord("#0000ff"),
+      allyColor: () => colord("#00ffff"),
+      enemyColor: () => colord("#ff00ff"),
+    };
+    const palette = new TerritoryPalette(game, theme);
+    const color = (row: PaletteRow, id: number) => {
+      const offset = (row * palette.width + id) * 4;
+      return Array.from(palette.data.subarray(offset, offset + 4));
+    };
+
+    palette.update();
+    expect(palette.width).toBe(512);
+    expect(color(PaletteRow.Territory, 300)).toEqual([255, 0, 0, 255]);
+    expect(color(PaletteRow.Border, 1)).toEqual([0, 255, 0, 255]);
+    // Nothing to compare against without a player.
+    expect(color(PaletteRow.Alternative, 1)[3]).toBe(0);
+
+    myPlayer = players[0];
+    palette.update();
+    expect(color(PaletteRow.Alternative, 1)).toEqual([0, 0, 255, 255]);
+    expect(color(PaletteRow.Alternative, 2)).toEqual([0, 255, 255, 255]);
+    expect(color(PaletteRow.Alternative, 300)).toEqual([255, 0, 255, 255]);
+  });
+});
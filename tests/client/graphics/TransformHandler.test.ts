@@ -0,0 +1,151 @@
+/**
+ * @jest-environment jsdom
+ */
+import { TransformHandler } from "../../../src/client/graphics/TransformHandler";
+import {
+  CameraBookmarkEvent,
+  DragEvent,
+  FollowAttackEvent,
+  ToggleFollowEvent,
+} from "../../../src/client/InputHandler";
+import { EventBus } from "../../../src/core/EventBus";
+
+jest.mock("../../../src/client/graphics/layers/Leaderboard", () => ({
+  GoToPlayerEvent: class {},
+  GoToPositionEvent: class {},
+  GoToUnitEvent: class {},
+}));
+
+describe("TransformHandler", () => {
+  let transformHandler: TransformHandler;
+  let eventBus: EventBus;
+  let ship: any;
+  let game: any;
+
+  function center() {
+    return transformHandler.screenToWorldCoordinates(10 + 400, 20 + 300);
+  }
+
+  beforeEach(() => {
+    // Tiles are y * 1000 + x.
+    ship = { id: () => 7, isActive: () => true, tile: () => 200 * 1000 + 600 };
+    game = {
+      width: () => 1000,
+      height: () => 500,
+      x: (t: number) => t % 1000,
+      y: (t: number) => Math.floor(t / 1000),
+      ref: (x: number, y: number) => y * 1000 + x,
+      isValidCoord: () => true,
+      manhattanDist: (a: number, b: number) =>
+        Math.abs((a % 1000) - (b % 1000)) +
+        Math.abs(Math.floor(a / 1000) - Math.floor(b / 1000)),
+      units: () => [ship],
+      unit: (id: number) => (id === 7 ? ship : undefined),
+      isUnitVisible: () => true,
+    };
+    const canvas: any = {
+      getBoundingClientRect: () => ({
+        left: 10,
+        top: 20,
+        width: 800,
+        height: 600,
+      }),
+    };
+    eventBus = new EventBus();
+    transformHandler = new TransformHandler(game, eventBus, canvas);
+    transformHandler.scale = 2;
+  });
+
+  test("centerOn puts the position in the middle of the screen", () => {
+    transformHandler.centerOn(300, 120);
+
+    expect(center().x).toBe(300);
+    expect(center().y).toBe(120);
+    expect(transformHandler.hasChanged()).toBe(true);
+
+    const [topLeft, bottomRight] = transformHandler.screenBoundingRect();
+    expect(topLeft.x).toBe(100);
+    expect(topLeft.y).toBe(-30);
+    expect(bottomRight.x).toBe(500);
+    expect(bottomRight.y).toBe(270);
+  });
+
+  test("camera bookmarks restore the position and zoom", () => {
+    transformHandler.centerOn(300, 120);
+    eventBus.emit(new CameraBookmarkEvent(3, true));
+
+    transformHandler.scale = 5;
+    transformHandler.centerOn(700, 400);
+    eventBus.emit(new CameraBookmarkEvent(3, false));
+    expect(transformHandler.scale).toBe(2);
+    expect(center().x).toBe(300);
+    expect(center().y).toBe(120);
+
+    // Empty slots do nothing.
+    eventBus.emit(new CameraBookmarkEvent(4, false));
+    expect(center().x).toBe(300);
+  });
+
+  describe("following a unit", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    test("tracks the unit near the cursor until it dies", () => {
+      transformHandler.centerOn(590, 195);
+      // The ship is 10 tiles right and 5 down of the screen center.
+      eventBus.emit(new ToggleFollowEvent(10 + 400 + 20, 20 + 300 + 10));
+
+      jest.advanceTimersByTime(3000);
+      expect(Math.abs(center().x - 600)).toBeLessThanOrEqual(2);
+      expect(Math.abs(center().y - 200)).toBeLessThanOrEqual(2);
+
+      // Keeps following as the unit moves.
+      ship.tile = () => 220 * 1000 + 640;
+      jest.advanceTimersByTime(5000);
+      expect(Math.abs(center().x - 640)).toBeLessThanOrEqual(2);
+
+      ship.isActive = () => false;
+      ship.tile = () => 0;
+      jest.advanceTimersByTime(5000);
+      expect(Math.abs(center().x - 640)).toBeLessThanOrEqual(2);
+    });
+
+    test("stops following units under the fog", () => {
+      transformHandler.centerOn(590, 195);
+      eventBus.emit(new ToggleFollowEvent(10 + 400 + 20, 20 + 300 + 10));
+      jest.advanceTimersByTime(3000);
+
+      game.isUnitVisible = () => false;
+      ship.tile = () => 220 * 1000 + 640;
+      jest.advanceTimersByTime(5000);
+      expect(Math.abs(center().x - 600)).toBeLessThanOrEqual(2);
+    });
+
+    test("stops following an attack whose position can't be found", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      const attacker = {
+        isPlayer: () => true,
+        outgoingAttacks: () => [{ id: "attack1" }],
+        attackAveragePosition: jest.fn(() =>
+          Promise.reject(new Error("worker gone")),
+        ),
+      };
+      game.playerBySmallID = () => attacker;
+
+      eventBus.emit(new FollowAttackEvent(3, "attack1"));
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(attacker.attackAveragePosition).toHaveBeenCalledTimes(1);
+    });
+
+    test("dragging stops following", () => {
+      transformHandler.centerOn(600, 200);
+      eventBus.emit(new ToggleFollowEvent(10 + 400, 20 + 300));
+      eventBus.emit(new DragEvent(200, 0));
+      const x = center().x;
+
+      jest.advanceTimersByTime(3000);
+      expect(center().x).toBe(x);
+    });
+  });
+});
@@ -1,7 +1,10 @@
 /**
  * @jest-environment jsdom
  */
-import { UILayer } from "../../../src/client/graphics/layers/UILayer";
+import {
+  UILayer,
+  visibleNukeForecast,
+} from "../../../src/client/graphics/layers/UILayer";
 import { UnitSelectionEvent } from "../../../src/client/InputHandler";
 import { UnitView } from "../../../src/core/game/GameView";
 
@@ -155,4 +158,32 @@ describe("UILayer", () => {
     ui.tick();
     expect(ui["allProgressBars"].has(2)).toBe(false);
   });
+
+  it("should hide what the fog hides from nuke forecasts", () => {
+    const players: Record<string, any> = {
+      seen: { smallID: () => 1 },
+      hidden: { smallID: () => 2 },
+    };
+    game.player = (id: string) => players[id];
+    game.isPlayerVisible = (p: any) => p === players.seen;
+    game.isTileVisible = (t: number) => t === 1;
+
+    const forecast = visibleNukeForecast(game, {
+      impacts: [
+        { playerID: "hidden", tiles: 50, troops: 1000 },
+        { playerID: "seen", tiles: 10, troops: 200 },
+      ],
+      brokenAlliances: ["seen", "hidden"],
+      interceptors: [
+        { unitID: 1, ownerID: "seen", tile: 1, hitChance: 0.5 },
+        { unitID: 2, ownerID: "hidden", tile: 2, hitChance: 0.5 },
+      ],
+      interceptionChance: 0.75,
+    });
+
+    expect(forecast.impacts.map((i) => i.playerID)).toEqual(["seen"]);
+    expect(forecast.brokenAlliances).toEqual(["seen"]);
+    expect(forecast.interceptors.map((i) => i.unitID)).toEqual([1]);
+    expect(forecast.interceptionChance).toBe(0.5);
+  });
 });
@@ -0,0 +1,200 @@
+import {
+  BINARY_CODEC_VERSION,
+  BinaryCodec,
+  isBinaryMessage,
+} from "../../src/core/BinaryCodec";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+  UnitType,
+} from "../../src/core/game/Game";
+import {
+  ClientIntentMessage,
+  GameStartInfo,
+  Intent,
+  ServerStartGameMessage,
+  ServerTurnMessage,
+} from "../../src/core/Schemas";
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "game1234",
+  config: {
+    gameMap: GameMapType.World,
+    difficulty: Difficulty.Medium,
+    gameType: GameType.Private,
+    gameMode: GameMode.FFA,
+    disableNPCs: false,
+    bots: 400,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    disabledUnits: [],
+  },
+  players: [
+    { clientID: "client01", username: "alice", flag: "us" },
+    { clientID: "client02", username: "bob" },
+  ],
+};
+
+const intents: Intent[] = [
+  {
+    type: "spawn",
+    clientID: "client01",
+    name: "alice",
+    flag: "us",
+    playerType: PlayerType.Human,
+    tile: 123456,
+  },
+  {
+    type: "spawn",
+    clientID: "client02",
+    name: "bob",
+    playerType: PlayerType.Human,
+    tile: 0,
+  },
+  { type: "attack", clientID: "client01", targetID: null, troops: 1234.5 },
+  { type: "attack", clientID: "client01", targetID: "client02", troops: null },
+  {
+    type: "boat",
+    clientID: "client02",
+    targetID: "client01",
+    troops: 500,
+    dst: 4000000,
+    src: null,
+  },
+  { type: "cancel_attack", clientID: "client01", attackID: "attack01" },
+  { type: "emoji", clientID: "client01", recipient: "AllPlayers", emoji: 3 },
+  { type: "build_unit", clientID: "client02", unit: UnitType.City, tile: 77 },
+  {
+    type: "quick_chat",
+    clientID: "client01",
+    recipient: "client02",
+    quickChatKey: "greet.hello",
+  },
+  {
+    type: "allianceRequestReply",
+    clientID: "client02",
+    requestor: "client01",
+    accept: true,
+  },
+  { type: "mark_disconnected", clientID: "client02", isDisconnected: false },
+  { type: "toggle_pause", clientID: "client01", paused: true },
+  {
+    type: "fleet_move",
+    clientID: "client02",
+    unitIds: [3, 17],
+    waypoints: [1200, 45000],
+    patrol: true,
+  },
+  { type: "queue_build", clientID: "client01", unit: UnitType.Port, tile: 9 },
+  { type: "move_queued_build", clientID: "client01", buildId: 4, index: 0 },
+  { type: "cancel_queued_build", clientID: "client01", buildId: 4 },
+  {
+    type: "cede_territory",
+    clientID: "client01",
+    recipient: "client02",
+    tile: 4321,
+  },
+];
+
+describe("BinaryCodec", () => {
+  const codec = BinaryCodec.forGame(gameStartInfo);
+
+  test("round trips turns", () => {
+    const msg: ServerTurnMessage = {
+      type: "turn",
+      turn: { turnNumber: 1234, intents, hash: -98765 },
+    };
+    expect(codec.decodeServerMessage(codec.encodeTurnMessage(msg))).toEqual(
+      msg,
+    );
+
+    const empty: ServerTurnMessage = {
+      type: "turn",
+      turn: { turnNumber: 0, intents: [] },
+    };
+    expect(codec.decodeServerMessage(codec.encodeTurnMessage(empty))).toEqual(
+      empty,
+    );
+  });
+
+  test("round trips intents", () => {
+    intents.forEach((intent) => {
+      const msg: ClientIntentMessage = { type: "intent", intent };
+      expect(codec.decodeClientMessage(codec.encodeIntentMessage(msg))).toEqual(
+        msg,
+      );
+    });
+  });
+
+  test("sends gold as a string like the JSON replacer", () => {
+    const msg: ClientIntentMessage = {
+      type: "intent",
+      intent: {
+        type: "donate_gold",
+        clientID: "client01",
+        recipient: "client02",
+        gold: 12345678901234567890n,
+      },
+    };
+    expect(codec.decodeClientMessage(codec.encodeIntentMessage(msg))).toEqual({
+      ...msg,
+      intent: { ...msg.intent, gold: "12345678901234567890" },
+    });
+  });
+
+  test("late joiners can decode the start message without the players", () => {
+    const msg: ServerStartGameMessage = {
+      type: "start",
+      turns: [{ turnNumber: 0, intents }],
+      gameStartInfo,
+    };
+    const data = codec.encodeStartMessage(msg);
+    expect(new BinaryCodec().decodeServerMessage(data)).toEqual(msg);
+  });
+
+  test("is smaller than JSON", () => {
+    const msg: ServerTurnMessage = {
+      type: "turn",
+      turn: { turnNumber: 5000, intents },
+    };
+    expect(codec.encodeTurnMessage(msg).length).toBeLessThan(
+      JSON.stringify(msg).length / 2,
+    );
+  });
+
+  test("tells binary frames apart from JSON", () => {
+    const msg: ServerTurnMessage = {
+      type: "turn",
+      turn: { turnNumber: 1, intents },
+    };
+    const data = codec.encodeTurnMessage(msg);
+    expect(isBinaryMessage(data)).toBe(true);
+    expect(isBinaryMessage(data.buffer)).toBe(true);
+    expect(isBinaryMessage(JSON.stringify(msg))).toBe(false);
+    expect(isBinaryMessage(Buffer.from(JSON.stringify(msg)))).toBe(false);
+  });
+
+  test("rejects other versions and malformed frames", () => {
+    const msg: ServerTurnMessage = {
+      type: "turn",
+      turn: { turnNumber: 1, intents },
+    };
+    const data = codec.encodeTurnMessage(msg);
+
+    const otherVersion = data.slice();
+    otherVersion[0] = BINARY_CODEC_VERSION + 1;
+    expect(() => codec.decodeServerMessage(otherVersion)).toThrow(
+      "unsupported binary codec version",
+    );
+    expect(() =>
+      codec.decodeServerMessage(data.subarray(0, data.length - 1)),
+    ).toThrow();
+    expect(() => codec.decodeClientMessage(data)).toThrow(
+      "unexpected client frame type",
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { DefaultConfig } from "../../src/core/configuration/DefaultConfig";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  Player,
+  PlayerType,
+  UnitType,
+} from "../../src/core/game/Game";
+import { GameRules, GameRulesSchema } from "../../src/core/RulesSchemas";
+import { GameConfig } from "../../src/core/Schemas";
+import { TestServerConfig } from "../util/TestServerConfig";
+
+function config(rules?: GameRules, gameMode = GameMode.FFA): DefaultConfig {
+  const gameConfig: GameConfig = {
+    gameMap: GameMapType.World,
+    difficulty: Difficulty.Medium,
+    gameType: GameType.Private,
+    gameMode,
+    disableNPCs: false,
+    bots: 0,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    rules,
+  };
+  return new DefaultConfig(new TestServerConfig(), gameConfig, null, false);
+}
+
+const player = {
+  type: () => PlayerType.Human,
+  unitsOwned: () => 1,
+  unitsConstructed: () => 1,
+} as unknown as Player;
+
+describe("GameRules", () => {
+  test("defaults apply without rules", () => {
+    const c = config();
+    expect(c.allianceDuration()).toBe(3000);
+    expect(c.boatMaxNumber()).toBe(3);
+    expect(c.percentageTilesOwnedToWin()).toBe(80);
+    expect(config({}, GameMode.Team).percentageTilesOwnedToWin()).toBe(95);
+    expect(c.unitInfo(UnitType.City).cost(player)).toBe(250_000n);
+  });
+
+  test("rules override the defaults", () => {
+    const c = config({
+      allianceDuration: 60,
+      spawnImmunityDuration: 0,
+      percentageTilesOwnedToWin: 50,
+      boatMaxNumber: 10,
+      unitCostMultipliers: { [UnitType.City]: 0.5 },
+      nukeMagnitudes: { [UnitType.AtomBomb]: { inner: 5, outer: 10 } },
+    });
+    expect(c.allianceDuration()).toBe(600);
+    expect(c.spawnImmunityDuration()).toBe(0);
+    expect(c.percentageTilesOwnedToWin()).toBe(50);
+    expect(c.boatMaxNumber()).toBe(10);
+    expect(c.unitInfo(UnitType.City).cost(player)).toBe(125_000n);
+    expect(c.unitInfo(UnitType.Port).cost(player)).toBe(250_000n);
+    expect(c.nukeMagnitudes(UnitType.AtomBomb)).toEqual({
+      inner: 5,
+      outer: 10,
+    });
+    expect(c.nukeMagnitudes(UnitType.HydrogenBomb)).toEqual({
+      inner: 80,
+      outer: 100,
+    });
+  });
+
+  test("rejects values out of bounds", () => {
+    expect(GameRulesSchema.safeParse({ allianceDuration: 10 }).success).toBe(
+      false,
+    );
+    expect(GameRulesSchema.safeParse({ boatMaxNumber: 1.5 }).success).toBe(
+      false,
+    );
+    expect(
+      GameRulesSchema.safeParse({
+        unitCostMultipliers: { [UnitType.City]: -1 },
+      }).success,
+    ).toBe(false);
+    expect(
+      GameRulesSchema.safeParse({
+        unitCostMultipliers: { [UnitType.Construction]: 1 },
+      }).success,
+    ).toBe(false);
+    expect(
+      GameRulesSchema.safeParse({
+        nukeMagnitudes: { [UnitType.AtomBomb]: { inner: 40, outer: 30 } },
+      }).success,
+    ).toBe(false);
+    expect(
+      GameRulesSchema.safeParse({
+        traitorDuration: 0,
+        nukeMagnitudes: { [UnitType.MIRVWarhead]: { inner: 1, outer: 1 } },
+      }).success,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { Executor } from "../../src/core/execution/ExecutionManager";
+import {
+  ErrorUpdate,
+  GameUpdateType,
+  GameUpdateViewData,
+} from "../../src/core/game/GameUpdates";
+import { GameRunner } from "../../src/core/GameRunner";
+import { Turn } from "../../src/core/Schemas";
+import { setup } from "../util/Setup";
+
+const numTurns = 300;
+
+const turns: Turn[] = Array.from({ length: numTurns }, (_, turnNumber) => ({
+  turnNumber,
+  intents: [],
+}));
+
+async function createRunner(hashes: Map<number, number>): Promise<GameRunner> {
+  const game = await setup("plains", { bots: 10 });
+  const runner = new GameRunner(
+    game,
+    new Executor(game, "game_id", "client_id"),
+    (gu: GameUpdateViewData | ErrorUpdate) => {
+      if (!("updates" in gu)) {
+        throw new Error(gu.errMsg);
+      }
+      gu.updates[GameUpdateType.Hash].forEach((h) =>
+        hashes.set(h.tick, h.hash),
+      );
+    },
+  );
+  runner.init();
+  return runner;
+}
+
+function runTo(runner: GameRunner, turn: number) {
+  while (runner.game.ticks() < turn) {
+    runner.executeNextTick();
+  }
+}
+
+describe("GameRunner seeking", () => {
+  let expected: Map<number, number>;
+
+  beforeAll(async () => {
+    expected = new Map();
+    const runner = await createRunner(expected);
+    turns.forEach((turn) => runner.addTurn(turn));
+    runTo(runner, numTurns);
+    // Make sure the bots actually changed the game.
+    expect(new Set(expected.values()).size).toBeGreaterThan(10);
+  });
+
+  test("seeking backwards replays the same game", async () => {
+    const hashes = new Map<number, number>();
+    const runner = await createRunner(hashes);
+    runner.enableCheckpoints(50);
+    turns.forEach((turn) => runner.addTurn(turn));
+    runTo(runner, 250);
+
+    const result = runner.seek(turns.slice(0, 120));
+    expect(result?.gameUpdate.tick).toBe(120);
+    expect(runner.game.ticks()).toBe(120);
+
+    hashes.clear();
+    turns.slice(120).forEach((turn) => runner.addTurn(turn));
+    runTo(runner, numTurns);
+    for (let tick = 130; tick < numTurns; tick += 10) {
+      expect(hashes.get(tick)).toBe(expected.get(tick));
+    }
+  });
+
+  test("seeking forwards simulates the skipped turns", async () => {
+    const hashes = new Map<number, number>();
+    const runner = await createRunner(hashes);
+    runner.enableCheckpoints(50);
+
+    const result = runner.seek(turns.slice(0, 230));
+    expect(runner.game.ticks()).toBe(230);
+    // The whole map is sent so the view can be rebuilt.
+    expect(result?.gameUpdate.packedTileUpdates.length).toBe(
+      runner.game.width() * runner.game.height(),
+    );
+    expect(result?.gameUpdate.updates[GameUpdateType.Player].length).toBe(
+      runner.game.allPlayers().length,
+    );
+
+    turns.slice(230).forEach((turn) => runner.addTurn(turn));
+    runTo(runner, numTurns);
+    for (let tick = 240; tick < numTurns; tick += 10) {
+      expect(hashes.get(tick)).toBe(expected.get(tick));
+    }
+  });
+
+  test("restoring a checkpoint leaves it untouched", async () => {
+    const hashes = new Map<number, number>();
+    const runner = await createRunner(hashes);
+    runner.enableCheckpoints(50);
+    runner.seek(turns.slice(0, 200));
+
+    for (const target of [60, 180, 60]) {
+      runner.seek(turns.slice(0, target));
+      hashes.clear();
+      turns.slice(target, target + 20).forEach((turn) => runner.addTurn(turn));
+      runTo(runner, target + 20);
+      expect(hashes.get(target + 10)).toBe(expected.get(target + 10));
+    }
+  });
+
+  test("resuming a saved game seeks forwards without checkpoints", async () => {
+    const hashes = new Map<number, number>();
+    const runner = await createRunner(hashes);
+    runner.seek(turns.slice(0, 200));
+    expect(runner.game.ticks()).toBe(200);
+
+    turns.slice(200).forEach((turn) => runner.addTurn(turn));
+    runTo(runner, numTurns);
+    for (let tick = 210; tick < numTurns; tick += 10) {
+      expect(hashes.get(tick)).toBe(expected.get(tick));
+    }
+    expect(() => runner.seek(turns.slice(0, 100))).toThrow(
+      "checkpoints are not enabled",
+    );
+  });
+
+  test("a failing tick aborts the seek", async () => {
+    const runner = await createRunner(new Map());
+    jest.spyOn(runner.game, "executeNextTick").mockImplementation(() => {
+      throw new Error("tick failed");
+    });
+
+    expect(() => runner.seek(turns.slice(0, 50))).toThrow("tick failed");
+  });
+});
@@ -0,0 +1,166 @@
+import { getServerConfigFromServer } from "../../src/core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../../src/core/game/FileSystemGameMapLoader";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+} from "../../src/core/game/Game";
+import { GameUpdateType } from "../../src/core/game/GameUpdates";
+import { createGameRunner } from "../../src/core/GameRunner";
+import {
+  analyzeReplay,
+  PlayerSample,
+  samplesToCsv,
+} from "../../src/core/ReplayAnalyzer";
+import { GameRecord, GameStartInfo, Turn } from "../../src/core/Schemas";
+
+const serverConfig = getServerConfigFromServer();
+const mapLoader = new FileSystemGameMapLoader(serverConfig.mapsDir());
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "replay01",
+  config: {
+    gameMap: GameMapType.Pangaea,
+    difficulty: Difficulty.Medium,
+    gameType: GameType.Private,
+    gameMode: GameMode.FFA,
+    disableNPCs: true,
+    bots: 20,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    disabledUnits: [],
+  },
+  players: [],
+};
+
+const numTurns = 40;
+
+// Records the hashes of a normal run, like the server does when archiving.
+async function hashes(): Promise<Map<number, number>> {
+  const hashes = new Map<number, number>();
+  const runner = await createGameRunner(
+    gameStartInfo,
+    null,
+    mapLoader,
+    (gu) => {
+      if ("errMsg" in gu) throw new Error(gu.errMsg);
+      gu.updates[GameUpdateType.Hash].forEach((h) =>
+        hashes.set(h.tick, h.hash),
+      );
+    },
+    serverConfig,
+  );
+  for (let turnNumber = 0; turnNumber < numTurns; turnNumber++) {
+    runner.addTurn({ turnNumber, intents: [] });
+    runner.executeNextTick();
+  }
+  return hashes;
+}
+
+// Archived records leave out turns without intents.
+function gameRecord(turns: Turn[]): GameRecord {
+  return {
+    info: {
+      ...gameStartInfo,
+      players: [],
+      start: 0,
+      end: 4000,
+      duration: 4,
+      num_turns: numTurns,
+      winner: undefined,
+    },
+    version: "v0.0.2",
+    gitCommit: "0".repeat(40),
+    subdomain: "",
+    domain: "localhost",
+    turns,
+  };
+}
+
+describe("ReplayAnalyzer", () => {
+  let archivedHashes: Map<number, number>;
+
+  beforeAll(async () => {
+    archivedHashes = await hashes();
+  });
+
+  function hashedTurns(): Turn[] {
+    return [...archivedHashes].map(([turnNumber, hash]) => ({
+      turnNumber,
+      intents: [],
+      hash,
+    }));
+  }
+
+  test("samples every player at the interval", async () => {
+    const analysis = await analyzeReplay(
+      gameRecord(hashedTurns()),
+      mapLoader,
+      serverConfig,
+      { interval: 15 },
+    );
+    expect(analysis.error).toBeNull();
+    expect(analysis.turns).toBe(numTurns);
+    expect(new Set(analysis.samples.map((s) => s.tick))).toEqual(
+      new Set([15, 30, 40]),
+    );
+    const last = analysis.samples.filter((s) => s.tick === 40);
+    expect(last).toHaveLength(20);
+    expect(last.every((s) => s.tiles > 0)).toBe(true);
+  });
+
+  test("verifies the archived hashes", async () => {
+    const analysis = await analyzeReplay(
+      gameRecord(hashedTurns()),
+      mapLoader,
+      serverConfig,
+      { interval: 10 },
+    );
+    expect(analysis.hashesChecked).toBe(archivedHashes.size);
+    expect(analysis.firstDesync).toBeNull();
+  });
+
+  test("reports the first desync", async () => {
+    const turns = hashedTurns();
+    turns[2].hash = turns[2].hash! + 1;
+    turns[3].hash = turns[3].hash! + 1;
+    const analysis = await analyzeReplay(
+      gameRecord(turns),
+      mapLoader,
+      serverConfig,
+      { interval: 10 },
+    );
+    expect(analysis.firstDesync).toEqual({
+      turn: turns[2].turnNumber,
+      archivedHash: turns[2].hash,
+      hash: archivedHashes.get(turns[2].turnNumber),
+    });
+    // Samples after the desync are not reliable so the replay stops.
+    expect(analysis.samples.some((s) => s.tick > turns[2].turnNumber + 1)).toBe(
+      false,
+    );
+  });
+
+  test("writes samples as CSV", () => {
+    const sample: PlayerSample = {
+      tick: 10,
+      playerID: "abc",
+      clientID: null,
+      name: 'Bot, "the first"',
+      playerType: PlayerType.Bot,
+      isAlive: true,
+      tiles: 100,
+      troops: 2500.5,
+      gold: 12345678901234567890n,
+      units: 2,
+    };
+    expect(samplesToCsv([sample]).split("\n")).toEqual([
+      "tick,playerID,clientID,name,playerType,isAlive,tiles,troops,gold,units",
+      '10,abc,,"Bot, ""the first""",BOT,true,100,2500.5,12345678901234567890,2',
+      "",
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { SpawnExecution } from "../../../src/core/execution/SpawnExecution";
+import { WinCheckExecution } from "../../../src/core/execution/WinCheckExecution";
+import {
+  Game,
+  GameMode,
+  Player,
+  PlayerInfo,
+  PlayerType,
+} from "../../../src/core/game/Game";
+import {
+  GameUpdateType,
+  VictoryProgressUpdate,
+  WinUpdate,
+} from "../../../src/core/game/GameUpdates";
+import { hillCenter, hillTiles } from "../../../src/core/game/Victory";
+import { VictoryCondition } from "../../../src/core/RulesSchemas";
+import { setup } from "../../util/Setup";
+
+let game: Game;
+let alice: Player;
+let bob: Player;
+
+async function start(
+  victoryCondition: VictoryCondition,
+  gameMode = GameMode.FFA,
+  withBob = true,
+) {
+  game = await setup("plains", {
+    victoryCondition,
+    gameMode,
+    playerTeams: 2,
+  });
+  const aliceInfo = new PlayerInfo("alice", PlayerType.Human, "alice", "alice");
+  const bobInfo = new PlayerInfo("bob", PlayerType.Human, "bob", "bob");
+  game.addPlayer(aliceInfo);
+  game.addExecution(new SpawnExecution(aliceInfo, game.ref(10, 10)));
+  if (withBob) {
+    game.addPlayer(bobInfo);
+    game.addExecution(new SpawnExecution(bobInfo, game.ref(90, 90)));
+  }
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+  alice = game.player("alice");
+  if (withBob) {
+    bob = game.player("bob");
+  }
+  game.addExecution(new WinCheckExecution());
+}
+
+// Runs until the game has a winner, collecting the last progress update.
+function run(maxTicks: number): {
+  win: WinUpdate | undefined;
+  progress: VictoryProgressUpdate | undefined;
+} {
+  let win: WinUpdate | undefined;
+  let progress: VictoryProgressUpdate | undefined;
+  for (let i = 0; i < maxTicks && win === undefined; i++) {
+    const updates = game.executeNextTick();
+    win = updates[GameUpdateType.Win][0];
+    progress = updates[GameUpdateType.VictoryProgress][0] ?? progress;
+  }
+  return { win, progress };
+}
+
+describe("WinCheckExecution", () => {
+  test("time limit is won by the largest player", async () => {
+    await start({ type: "timeLimit", minutes: 1 });
+    for (let x = 0; x < 20; x++) {
+      bob.conquer(game.ref(x, 50));
+    }
+
+    const early = run(300);
+    expect(early.win).toBeUndefined();
+    expect(early.progress?.ticksLeft).toBeGreaterThan(0);
+    expect(early.progress?.standings[0].name).toBe("bob");
+
+    const { win, progress } = run(400);
+    expect(progress?.ticksLeft).toBe(0);
+    expect(win?.winner).toEqual(["player", "bob"]);
+  });
+
+  test("last standing is won once the others are eliminated", async () => {
+    await start({ type: "lastStanding" });
+    expect(run(20).progress?.remaining).toBe(2);
+
+    for (const tile of Array.from(bob.tiles())) {
+      alice.conquer(tile);
+    }
+    const { win } = run(20);
+    expect(win?.winner).toEqual(["player", "alice"]);
+  });
+
+  test("last standing is not won by a lone contender", async () => {
+    await start({ type: "lastStanding" }, GameMode.FFA, false);
+
+    const { win, progress } = run(100);
+    expect(progress?.remaining).toBe(1);
+    expect(win).toBeUndefined();
+  });
+
+  test("king of the hill is won by holding the hill", async () => {
+    await start({ type: "kingOfTheHill", radius: 5, holdMinutes: 1 });
+    const hill = hillTiles(game, hillCenter(game)!, 5);
+    expect(hill.length).toBeGreaterThan(50);
+
+    // Owning less than half of the hill does not count.
+    for (const tile of hill.slice(0, hill.length / 2)) {
+      alice.conquer(tile);
+    }
+    expect(run(20).progress?.hill?.holder).toBeNull();
+
+    for (const tile of hill) {
+      alice.conquer(tile);
+    }
+    const held = run(300);
+    expect(held.win).toBeUndefined();
+    expect(held.progress?.hill?.holder).toBe("alice");
+
+    // Losing the hill resets the hold time.
+    for (const tile of hill) {
+      bob.conquer(tile);
+    }
+    const lost = run(300);
+    expect(lost.win).toBeUndefined();
+    expect(lost.progress?.hill?.holder).toBe("bob");
+
+    expect(run(400).win?.winner).toEqual(["player", "bob"]);
+  });
+
+  test("teams share their score", async () => {
+    await start({ type: "points", minutes: 1 }, GameMode.Team);
+    const { win, progress } = run(700);
+    expect(progress?.standings).toHaveLength(2);
+    expect(win?.winner?.[0]).toBe("team");
+  });
+});
@@ -0,0 +1,180 @@
+import { getServerConfigFromServer } from "../../../src/core/configuration/ConfigLoader";
+import {
+  CustomMapFiles,
+  generateCustomMap,
+  TerrainImage,
+} from "../../../src/core/game/CustomMap";
+import { FileSystemGameMapLoader } from "../../../src/core/game/FileSystemGameMapLoader";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+  PlayerType,
+} from "../../../src/core/game/Game";
+import { GameMapImpl } from "../../../src/core/game/GameMap";
+import { GameUpdateType } from "../../../src/core/game/GameUpdates";
+import {
+  genTerrainFromBin,
+  Nation,
+} from "../../../src/core/game/TerrainMapLoader";
+import { createGameRunner } from "../../../src/core/GameRunner";
+
+const width = 120;
+const height = 101;
+
+const nations: Nation[] = [
+  { coordinates: [10, 10], flag: "us", name: "Westland", strength: 2 },
+];
+
+// Land on the left with a one tile lake at (20, 50), ocean on the right.
+function terrainImage(): TerrainImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const land = x < 60 && !(x === 20 && y === 50);
+      data[i + 2] = land ? 150 : 106;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function loadMap(files: CustomMapFiles) {
+  return new GameMapImpl(
+    files.manifest.map.width,
+    files.manifest.map.height,
+    files.mapBin,
+    files.manifest.map.num_land_tiles,
+  );
+}
+
+describe("CustomMap", () => {
+  test("converts the terrain image", () => {
+    const files = generateCustomMap("Test", nations, terrainImage());
+    expect(files.manifest.map).toEqual({
+      width,
+      height,
+      num_land_tiles: 60 * height - 1,
+    });
+    const map = loadMap(files);
+
+    const land = map.ref(30, 30);
+    expect(map.isLand(land)).toBe(true);
+    expect(map.magnitude(land)).toBe(5);
+    expect(map.isShoreline(land)).toBe(false);
+    expect(map.isShoreline(map.ref(59, 30))).toBe(true);
+
+    expect(map.isOcean(map.ref(60, 30))).toBe(true);
+    expect(map.isShoreline(map.ref(60, 30))).toBe(true);
+    expect(map.magnitude(map.ref(60, 30))).toBe(0);
+    expect(map.magnitude(map.ref(70, 30))).toBe(10);
+    expect(map.magnitude(map.ref(119, 30))).toBe(31);
+
+    const lake = map.ref(20, 50);
+    expect(map.isLand(lake)).toBe(false);
+    expect(map.isOcean(lake)).toBe(false);
+    expect(map.isShoreline(map.ref(20, 49))).toBe(true);
+  });
+
+  test("makes a half size mini map where water wins", () => {
+    const files = generateCustomMap("Test", nations, terrainImage());
+    expect(files.manifest.mini_map.width).toBe(60);
+    expect(files.manifest.mini_map.height).toBe(51);
+    const mini = new GameMapImpl(
+      60,
+      51,
+      files.miniMapBin,
+      files.manifest.mini_map.num_land_tiles,
+    );
+    expect(mini.isLand(mini.ref(29, 0))).toBe(true);
+    expect(mini.isLand(mini.ref(30, 0))).toBe(false);
+    // The lake covers a quarter of its mini map tile.
+    expect(mini.isLand(mini.ref(10, 25))).toBe(false);
+    // The last row only covers one row of the map.
+    expect(mini.isLand(mini.ref(0, 50))).toBe(true);
+  });
+
+  test("treats transparent pixels as water", () => {
+    const image = terrainImage();
+    image.data[3] = 0;
+    const files = generateCustomMap("Test", nations, image);
+    expect(files.manifest.map.num_land_tiles).toBe(60 * height - 2);
+  });
+
+  test("rejects invalid maps", () => {
+    expect(() =>
+      generateCustomMap("Test", nations, {
+        width: 50,
+        height: 50,
+        data: new Uint8Array(50 * 50 * 4),
+      }),
+    ).toThrow(/pixels wide/);
+    expect(() =>
+      generateCustomMap(
+        "Test",
+        [{ ...nations[0], coordinates: [100, 10] }],
+        terrainImage(),
+      ),
+    ).toThrow(/does not start on land/);
+    expect(() =>
+      generateCustomMap(
+        "Test",
+        [{ ...nations[0], coordinates: [10, 200] }],
+        terrainImage(),
+      ),
+    ).toThrow(/outside of the map/);
+  });
+
+  test("games load the custom map by hash", async () => {
+    const files = generateCustomMap("Test", nations, terrainImage());
+    const hash = "c".repeat(64);
+    const encoded = {
+      "manifest.json": new TextEncoder().encode(JSON.stringify(files.manifest)),
+      "map.bin": files.mapBin,
+      "mini_map.bin": files.miniMapBin,
+      "thumbnail.png": new Uint8Array(),
+    };
+    const serverConfig = getServerConfigFromServer();
+    const mapLoader = new FileSystemGameMapLoader(
+      serverConfig.mapsDir(),
+      async (h, file) => (h === hash ? encoded[file] : null),
+    );
+    expect(
+      await genTerrainFromBin(files.manifest.map, files.mapBin),
+    ).toBeDefined();
+
+    let nationNames: string[] = [];
+    const runner = await createGameRunner(
+      {
+        gameID: "custom01",
+        config: {
+          gameMap: GameMapType.World,
+          customMap: hash,
+          difficulty: Difficulty.Medium,
+          gameType: GameType.Private,
+          gameMode: GameMode.FFA,
+          disableNPCs: false,
+          bots: 0,
+          infiniteGold: false,
+          infiniteTroops: false,
+          instantBuild: false,
+        },
+        players: [],
+      },
+      null,
+      mapLoader,
+      (gu) => {
+        if ("errMsg" in gu) throw new Error(gu.errMsg);
+        nationNames = gu.updates[GameUpdateType.Player]
+          .filter((p) => p.playerType === PlayerType.FakeHuman)
+          .map((p) => p.displayName);
+      },
+      serverConfig,
+    );
+    runner.addTurn({ turnNumber: 0, intents: [] });
+    runner.executeNextTick();
+    expect(nationNames).toEqual(["Westland"]);
+  });
+});
@@ -0,0 +1,73 @@
+import { FogOfWar } from "../../../src/core/game/FogOfWar";
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+} from "../../../src/core/game/Game";
+import { setup } from "../../util/Setup";
+
+let game: Game;
+let player: Player;
+let otherPlayer: Player;
+let fog: FogOfWar;
+
+describe("FogOfWar", () => {
+  beforeEach(async () => {
+    game = await setup("big_plains", {}, [
+      new PlayerInfo("player", PlayerType.Human, "client_id1", "player_id"),
+      new PlayerInfo("other", PlayerType.Human, "client_id2", "other_id"),
+    ]);
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+
+    player = game.player("player_id");
+    otherPlayer = game.player("other_id");
+    for (let x = 0; x < 10; x++) {
+      for (let y = 0; y < 10; y++) {
+        player.conquer(game.ref(x, y));
+        otherPlayer.conquer(game.ref(x + 100, y + 100));
+      }
+    }
+    fog = new FogOfWar(game, 16);
+  });
+
+  test("everything is visible before the first update", () => {
+    expect(fog.isVisible(game.ref(150, 150))).toBe(true);
+    expect(fog.isPlayerVisible(otherPlayer.smallID())).toBe(true);
+  });
+
+  test("reveals the vision radius around friendly territory", () => {
+    const changed = fog.update(new Set([player.smallID()]), []);
+
+    expect(fog.isVisible(game.ref(5, 5))).toBe(true);
+    expect(fog.isVisible(game.ref(25, 5))).toBe(true);
+    expect(fog.isVisible(game.ref(50, 5))).toBe(false);
+    expect(fog.isVisible(game.ref(105, 105))).toBe(false);
+    expect(fog.isPlayerVisible(player.smallID())).toBe(true);
+    expect(fog.isPlayerVisible(otherPlayer.smallID())).toBe(false);
+
+    expect(changed).toContain(game.ref(105, 105));
+    expect(changed).not.toContain(game.ref(5, 5));
+    expect(fog.update(new Set([player.smallID()]), [])).toEqual([]);
+  });
+
+  test("vision tiles reveal their surroundings", () => {
+    fog.update(new Set([player.smallID()]), [game.ref(90, 90)]);
+
+    expect(fog.isVisible(game.ref(100, 100))).toBe(true);
+    expect(fog.isPlayerVisible(otherPlayer.smallID())).toBe(true);
+
+    const changed = fog.update(new Set([player.smallID()]), []);
+    expect(changed).toContain(game.ref(100, 100));
+    expect(fog.isVisible(game.ref(100, 100))).toBe(false);
+  });
+
+  test("allied territory is revealed", () => {
+    fog.update(new Set([player.smallID(), otherPlayer.smallID()]), []);
+
+    expect(fog.isVisible(game.ref(105, 105))).toBe(true);
+    expect(fog.isPlayerVisible(otherPlayer.smallID())).toBe(true);
+  });
+});
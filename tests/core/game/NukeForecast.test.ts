@@ -0,0 +1,145 @@
+import {
+  Game,
+  Player,
+  PlayerInfo,
+  PlayerType,
+  UnitType,
+} from "../../../src/core/game/Game";
+import { nukeForecast } from "../../../src/core/game/NukeForecast";
+import { setup } from "../../util/Setup";
+import { TestConfig } from "../../util/TestConfig";
+
+let game: Game;
+let player: Player;
+let otherPlayer: Player;
+
+describe("NukeForecast", () => {
+  beforeEach(async () => {
+    game = await setup(
+      "big_plains",
+      {
+        infiniteGold: true,
+        instantBuild: true,
+      },
+      [
+        new PlayerInfo("player", PlayerType.Human, "client_id1", "player_id"),
+        new PlayerInfo("other", PlayerType.Human, "client_id2", "other_id"),
+      ],
+    );
+
+    (game.config() as TestConfig).nukeMagnitudes = jest.fn(() => ({
+      inner: 5,
+      outer: 5,
+    }));
+    (game.config() as TestConfig).nukeAllianceBreakThreshold = jest.fn(() => 5);
+
+    while (game.inSpawnPhase()) {
+      game.executeNextTick();
+    }
+
+    player = game.player("player_id");
+    otherPlayer = game.player("other_id");
+
+    for (let x = 90; x < 99; x++) {
+      for (let y = 90; y < 99; y++) {
+        otherPlayer.conquer(game.ref(x, y));
+      }
+    }
+    otherPlayer.addTroops(10_000);
+  });
+
+  test("estimates tiles and troops destroyed per player", () => {
+    const forecast = nukeForecast(
+      game,
+      player,
+      UnitType.AtomBomb,
+      game.ref(94, 94),
+    );
+
+    expect(forecast.impacts).toHaveLength(1);
+    const impact = forecast.impacts[0];
+    expect(impact.playerID).toBe(otherPlayer.id());
+    // All of the 9x9 square but its corners is within a radius of 5.
+    expect(impact.tiles).toBe(77);
+    expect(impact.troops).toBeGreaterThan(0);
+    expect(impact.troops).toBeLessThanOrEqual(otherPlayer.troops());
+    expect(forecast.brokenAlliances).toEqual([]);
+  });
+
+  test("lists alliances that would break", () => {
+    player.createAllianceRequest(otherPlayer)!.accept();
+
+    expect(
+      nukeForecast(game, player, UnitType.AtomBomb, game.ref(94, 94))
+        .brokenAlliances,
+    ).toEqual([otherPlayer.id()]);
+    // Only a few tiles at the corner of the territory are hit.
+    expect(
+      nukeForecast(game, player, UnitType.AtomBomb, game.ref(87, 87))
+        .brokenAlliances,
+    ).toEqual([]);
+  });
+
+  test("lists hostile SAM launchers in range", () => {
+    (game.config() as TestConfig).samHittingChance = jest.fn(() => 0.5);
+    otherPlayer.buildUnit(UnitType.SAMLauncher, game.ref(90, 90), {});
+    otherPlayer.buildUnit(UnitType.SAMLauncher, game.ref(98, 98), {});
+    // Out of range
+    otherPlayer.buildUnit(UnitType.SAMLauncher, game.ref(150, 150), {});
+    // Own SAM launchers don't shoot at own nukes.
+    player.buildUnit(UnitType.SAMLauncher, game.ref(94, 94), {});
+
+    const hydrogen = nukeForecast(
+      game,
+      player,
+      UnitType.HydrogenBomb,
+      game.ref(94, 94),
+    );
+    expect(hydrogen.interceptors).toHaveLength(2);
+    expect(hydrogen.interceptors.every((i) => i.hitChance === 0.5)).toBe(true);
+    expect(hydrogen.interceptionChance).toBeCloseTo(0.75);
+
+    // Atom bombs are always hit.
+    expect(
+      nukeForecast(game, player, UnitType.AtomBomb, game.ref(94, 94))
+        .interceptionChance,
+    ).toBe(1);
+
+    player.createAllianceRequest(otherPlayer)!.accept();
+    expect(
+      nukeForecast(game, player, UnitType.HydrogenBomb, game.ref(94, 94))
+        .interceptors,
+    ).toHaveLength(0);
+  });
+
+  test("lists SAM launchers along the path from the silo", () => {
+    player.conquer(game.ref(10, 190));
+    player.buildUnit(UnitType.MissileSilo, game.ref(10, 190), {});
+    // Far from the target but close to the launch.
+    otherPlayer.buildUnit(UnitType.SAMLauncher, game.ref(15, 185), {});
+
+    const forecast = nukeForecast(
+      game,
+      player,
+      UnitType.HydrogenBomb,
+      game.ref(94, 94),
+    );
+    expect(forecast.interceptors.map((i) => i.tile)).toEqual([
+      game.ref(15, 185),
+    ]);
+  });
+
+  test("skips reloading SAM launchers", () => {
+    const sam = otherPlayer.buildUnit(
+      UnitType.SAMLauncher,
+      game.ref(90, 90),
+      {},
+    );
+    sam.launch();
+
+    expect(
+      nukeForecast(game, player, UnitType.HydrogenBomb, game.ref(94, 94))
+        .interceptors,
+    ).toHaveLength(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { PathFinder } from "../../../src/core/pathfinding/PathFinding";
+import { deepClone } from "../../../src/core/utilities/DeepClone";
+import { setup } from "../../util/Setup";
+
+describe("deepClone", () => {
+  test("copies the graph with its cycles and prototypes", () => {
+    class Node {
+      next: Node | null = null;
+      constructor(readonly values: Map<string, Set<number>>) {}
+    }
+    const a = new Node(new Map([["a", new Set([1, 2])]]));
+    const b = new Node(new Map());
+    a.next = b;
+    b.next = a;
+
+    const copy = deepClone(a);
+    expect(copy).toBeInstanceOf(Node);
+    expect(copy).not.toBe(a);
+    expect(copy.next?.next).toBe(copy);
+    expect(copy.values.get("a")).toEqual(new Set([1, 2]));
+    expect(copy.values.get("a")).not.toBe(a.values.get("a"));
+  });
+
+  test("shares functions and the given objects", () => {
+    const config = { speed: 1 };
+    const compare = (x: number, y: number) => x - y;
+    const data = { speed: 1 };
+    const copy = deepClone({ config, compare, data }, new Set([config]));
+    expect(copy.config).toBe(config);
+    expect(copy.compare).toBe(compare);
+    expect(copy.data).not.toBe(data);
+  });
+
+  // Functions are shared, so a closure over the game would keep working on
+  // the original after a checkpoint is restored.
+  test("pathfinders of a copied game search the copy", async () => {
+    const game = await setup("half_land_half_ocean");
+    const ocean: number[] = [];
+    game.forEachTile((tile) => {
+      if (game.isOcean(tile)) ocean.push(tile);
+    });
+    const pathFinder = PathFinder.Mini(game, 10_000);
+    pathFinder.nextTile(ocean[0], ocean[ocean.length - 1]);
+
+    const copy = deepClone({ game, pathFinder }, new Set([game.config()]));
+    const original = jest.spyOn(game, "miniMap");
+    const copied = jest.spyOn(copy.game, "miniMap");
+    copy.pathFinder.nextTile(ocean[0], ocean[1]);
+
+    expect(copied).toHaveBeenCalled();
+    expect(original).not.toHaveBeenCalled();
+  });
+});
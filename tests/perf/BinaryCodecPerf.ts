@@ -0,0 +1,101 @@
+import Benchmark from "benchmark";
+import fs from "fs/promises";
+import path from "path";
+import { BinaryCodec } from "../../src/core/BinaryCodec";
+import { getServerConfigFromServer } from "../../src/core/configuration/ConfigLoader";
+import {
+  GameRecord,
+  GameStartInfo,
+  ServerTurnMessage,
+} from "../../src/core/Schemas";
+import { decompressGameRecord } from "../../src/core/Util";
+
+// Compares the JSON and binary size of the turns in archived games.
+// Usage: npx tsx tests/perf/BinaryCodecPerf.ts [archive dir]
+const archiveDir = process.argv[2] ?? getServerConfigFromServer().archiveDir();
+const gamesDir = path.join(archiveDir, "games");
+
+const files = await fs.readdir(gamesDir).catch(() => [] as string[]);
+if (files.length === 0) {
+  console.log(`no archived games found in ${gamesDir}`);
+  process.exit(0);
+}
+
+let totalJson = 0;
+let totalBinary = 0;
+let largest: { codec: BinaryCodec; messages: ServerTurnMessage[] } | null =
+  null;
+
+for (const file of files) {
+  const record = JSON.parse(
+    await fs.readFile(path.join(gamesDir, file), "utf8"),
+  ) as GameRecord;
+  const gameStartInfo: GameStartInfo = {
+    gameID: record.info.gameID,
+    config: record.info.config,
+    players: record.info.players.map((p) => ({
+      clientID: p.clientID,
+      username: p.username,
+      flag: p.flag,
+      pattern: p.pattern,
+    })),
+  };
+  const codec = BinaryCodec.forGame(gameStartInfo);
+  const turns = decompressGameRecord(record).turns;
+  const messages = turns.map(
+    (turn) => ({ type: "turn", turn }) satisfies ServerTurnMessage,
+  );
+
+  let json = 0;
+  let binary = 0;
+  for (const msg of messages) {
+    json += JSON.stringify(msg).length;
+    binary += codec.encodeTurnMessage(msg).length;
+  }
+  const start = { type: "start", turns, gameStartInfo } as const;
+  console.log(
+    `${record.info.gameID}: ${turns.length} turns, ` +
+      `turns ${formatRatio(json, binary)}, ` +
+      `late join ${formatRatio(
+        JSON.stringify(start).length,
+        codec.encodeStartMessage(start).length,
+      )}`,
+  );
+  totalJson += json;
+  totalBinary += binary;
+  if (largest === null || messages.length > largest.messages.length) {
+    largest = { codec, messages };
+  }
+}
+
+console.log(`all games: turns ${formatRatio(totalJson, totalBinary)}`);
+
+if (largest !== null) {
+  const { codec, messages } = largest;
+  const jsonEncoded = messages.map((msg) => JSON.stringify(msg));
+  const encoded = messages.map((msg) => codec.encodeTurnMessage(msg));
+  new Benchmark.Suite()
+    .add("JSON encode turns", () => {
+      messages.forEach((msg) => JSON.stringify(msg));
+    })
+    .add("binary encode turns", () => {
+      messages.forEach((msg) => codec.encodeTurnMessage(msg));
+    })
+    .add("JSON decode turns", () => {
+      jsonEncoded.forEach((data) => JSON.parse(data));
+    })
+    .add("binary decode turns", () => {
+      encoded.forEach((data) => codec.decodeServerMessage(data));
+    })
+    .on("cycle", (event: any) => {
+      console.log(String(event.target));
+    })
+    .run({ async: true });
+}
+
+function formatRatio(json: number, binary: number): string {
+  return `${json} B JSON -> ${binary} B binary (${(
+    (binary / json) *
+    100
+  ).toFixed(1)}%)`;
+}
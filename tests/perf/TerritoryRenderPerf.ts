@@ -0,0 +1,139 @@
+import fs from "fs/promises";
+import path from "path";
+import { TerritoryCanvasPainter } from "../../src/client/graphics/territory/TerritoryCanvasPainter";
+import {
+  TerritoryPalette,
+  TerritoryState,
+} from "../../src/client/graphics/territory/TerritoryState";
+import {
+  createConfig,
+  getServerConfigFromServer,
+} from "../../src/core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../../src/core/game/FileSystemGameMapLoader";
+import { GameUpdateViewData } from "../../src/core/game/GameUpdates";
+import { GameView, GameViewQueries } from "../../src/core/game/GameView";
+import { loadTerrainMap } from "../../src/core/game/TerrainMapLoader";
+import { UserSettings } from "../../src/core/game/UserSettings";
+import { createGameRunner } from "../../src/core/GameRunner";
+import { GameRecord } from "../../src/core/Schemas";
+import { decompressGameRecord } from "../../src/core/Util";
+
+// Replays archived games and times the CPU side of both territory renderers
+// on the tiles each tick changes: the canvas painter coloring tiles, and the
+// WebGL renderer packing tile state and rebuilding its palette. For WebGL it
+// also reports how much of the state texture is uploaded per tick. GPU time
+// needs a browser, the performance overlay shows it while playing.
+// Usage: npx tsx tests/perf/TerritoryRenderPerf.ts [archive dir]
+const serverConfig = getServerConfigFromServer();
+const archiveDir = process.argv[2] ?? serverConfig.archiveDir();
+const gamesDir = path.join(archiveDir, "games");
+const mapLoader = new FileSystemGameMapLoader(serverConfig.mapsDir());
+
+const files = await fs.readdir(gamesDir).catch(() => [] as string[]);
+if (files.length === 0) {
+  console.log(`no archived games found in ${gamesDir}`);
+  process.exit(0);
+}
+
+// The painters never query the worker.
+const unsupported = () => Promise.reject(new Error("no worker in perf runs"));
+const noQueries: GameViewQueries = {
+  playerInteraction: unsupported,
+  playerBorderTiles: unsupported,
+  attackAveragePosition: unsupported,
+  playerProfile: unsupported,
+  transportShipSpawn: unsupported,
+  nukeForecast: unsupported,
+};
+
+// The theme reads the dark mode setting.
+globalThis.localStorage ??= { getItem: () => null } as unknown as Storage;
+
+for (const file of files) {
+  const record = JSON.parse(
+    await fs.readFile(path.join(gamesDir, file), "utf8"),
+  ) as GameRecord;
+  const config = createConfig(
+    serverConfig,
+    record.info.config,
+    new UserSettings(),
+    true,
+  );
+  const mapData = await loadTerrainMap(
+    record.info.config.gameMap,
+    mapLoader,
+    record.info.config.customMap,
+  );
+  const game = new GameView(
+    noQueries,
+    config,
+    mapData,
+    "",
+    record.info.gameID,
+    record.info.players,
+    true,
+  );
+  const painter = new TerritoryCanvasPainter(game, config.theme());
+  const state = new TerritoryState(game);
+  const palette = new TerritoryPalette(game, config.theme());
+
+  let ticks = 0;
+  let tiles = 0;
+  let canvasMs = 0;
+  let webglMs = 0;
+  let uploadedBytes = 0;
+  const onUpdate = (gu: GameUpdateViewData) => {
+    game.update(gu);
+    const updated = game.recentlyUpdatedTiles();
+    ticks++;
+    tiles += updated.length;
+
+    // Like TerritoryLayer.renderTerritory.
+    let start = performance.now();
+    for (const tile of updated) {
+      painter.paintTerritory(tile);
+      for (const n of game.neighbors(tile)) {
+        painter.paintTerritory(n, true);
+      }
+    }
+    canvasMs += performance.now() - start;
+
+    // Like TerritoryLayer.tick with WebGL.
+    start = performance.now();
+    palette.update();
+    for (const tile of updated) {
+      state.paintTile(tile);
+      for (const n of game.neighbors(tile)) {
+        state.paintTile(n);
+      }
+    }
+    const rects = state.takeDirtyRects();
+    webglMs += performance.now() - start;
+    for (const rect of rects) {
+      uploadedBytes += rect.width * rect.height * 4;
+    }
+  };
+
+  const runner = await createGameRunner(
+    record.info,
+    null,
+    mapLoader,
+    (gu) => {
+      if ("errMsg" in gu) throw new Error(gu.errMsg);
+      onUpdate(gu);
+    },
+    serverConfig,
+  );
+  for (const turn of decompressGameRecord(record).turns) {
+    runner.addTurn(turn);
+    runner.executeNextTick();
+  }
+
+  console.log(
+    `${record.info.gameID} (${record.info.config.gameMap}): ${ticks} ticks, ` +
+      `${(tiles / Math.max(1, ticks)).toFixed(0)} tiles/tick, ` +
+      `canvas ${(canvasMs / Math.max(1, ticks)).toFixed(3)} ms/tick, ` +
+      `webgl ${(webglMs / Math.max(1, ticks)).toFixed(3)} ms/tick, ` +
+      `upload ${(uploadedBytes / 1024 / Math.max(1, ticks)).toFixed(1)} KB/tick`,
+  );
+}
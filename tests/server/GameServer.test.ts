@@ -0,0 +1,193 @@
+import { EventEmitter } from "events";
+import winston from "winston";
+import WebSocket from "ws";
+import { getServerConfigFromServer } from "../../src/core/configuration/ConfigLoader";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { ClientMessage, GameConfig, Intent } from "../../src/core/Schemas";
+import { Client } from "../../src/server/Client";
+import { GamePhase, GameServer } from "../../src/server/GameServer";
+
+// ts-jest can't compile the JSON imports of the schemas, the tests only send
+// valid messages.
+jest.mock("../../src/core/Schemas", () => {
+  const valid = { safeParse: (data: unknown) => ({ success: true, data }) };
+  return {
+    ClientMessageSchema: valid,
+    GameStartInfoSchema: valid,
+    ServerDesyncSchema: valid,
+    ServerPrestartMessageSchema: valid,
+  };
+});
+jest.mock("../../src/server/Gatekeeper", () => ({
+  gatekeeper: {
+    wsHandler: (_ip: string, fn: (message: string) => Promise<void>) => fn,
+  },
+  LimiterType: {},
+}));
+jest.mock("../../src/server/Archive", () => ({ archive: jest.fn() }));
+jest.mock("../../src/server/GameSimulation", () => ({}));
+jest.mock("../../src/core/validations/username", () => ({}));
+
+const serverConfig = getServerConfigFromServer();
+const log = winston.createLogger({ silent: true });
+
+class FakeSocket extends EventEmitter {
+  readyState = WebSocket.OPEN;
+  send = jest.fn();
+  close = jest.fn();
+}
+
+function client(
+  clientID: string,
+  options: { isSpectator?: boolean; persistentID?: string } = {},
+): Client {
+  return new Client(
+    clientID,
+    options.persistentID ?? `persistent-${clientID}`,
+    null,
+    undefined,
+    undefined,
+    "127.0.0.1",
+    clientID,
+    new FakeSocket() as unknown as WebSocket,
+    undefined,
+    undefined,
+    options.isSpectator ?? false,
+  );
+}
+
+async function send(c: Client, message: ClientMessage) {
+  (c.ws as unknown as FakeSocket).emit("message", JSON.stringify(message));
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("GameServer", () => {
+  let server: GameServer;
+
+  beforeEach(() => {
+    const gameConfig: GameConfig = {
+      gameMap: GameMapType.World,
+      gameType: GameType.Public,
+      gameMode: GameMode.FFA,
+      difficulty: Difficulty.Medium,
+      disableNPCs: true,
+      bots: 0,
+      infiniteGold: false,
+      infiniteTroops: false,
+      instantBuild: false,
+      maxPlayers: 2,
+    };
+    server = new GameServer(
+      "game0001",
+      log,
+      Date.now(),
+      serverConfig,
+      gameConfig,
+    );
+  });
+
+  test("spectators don't take player slots", () => {
+    server.addClient(client("player01"), 0);
+    server.addClient(client("watch001", { isSpectator: true }), 0);
+
+    expect(server.numClients()).toBe(1);
+    expect(server.gameInfo().clients?.map((c) => c.clientID)).toEqual([
+      "player01",
+    ]);
+    // The lobby waits for a second player.
+    expect(server.phase()).toBe(GamePhase.Lobby);
+  });
+
+  test("intents of spectators are rejected", async () => {
+    const player = client("player01");
+    const spectator = client("watch001", { isSpectator: true });
+    server.addClient(player, 0);
+    server.addClient(spectator, 0);
+
+    await send(spectator, {
+      type: "intent",
+      intent: {
+        type: "attack",
+        clientID: "watch001",
+        targetID: null,
+        troops: 1,
+      },
+    });
+    await send(player, {
+      type: "intent",
+      intent: {
+        type: "attack",
+        clientID: "player01",
+        targetID: null,
+        troops: 1,
+      },
+    });
+
+    const attacks = (server as any).intents.filter(
+      (intent: Intent) => intent.type === "attack",
+    );
+    expect(attacks).toEqual([
+      expect.objectContaining({ clientID: "player01" }),
+    ]);
+  });
+
+  test("spectators don't vote on hashes", async () => {
+    const players = [client("player01"), client("player02")];
+    const spectators = ["watch001", "watch002", "watch003"].map((id) =>
+      client(id, { isSpectator: true }),
+    );
+    players.forEach((p) => server.addClient(p, 0));
+    spectators.forEach((s) => server.addClient(s, 0));
+
+    await send(players[0], { type: "hash", turnNumber: 10, hash: 1 });
+    await send(players[1], { type: "hash", turnNumber: 10, hash: 1 });
+    for (const s of spectators) {
+      await send(s, { type: "hash", turnNumber: 10, hash: 2 });
+    }
+
+    const { mostCommonHash, outOfSyncClients } =
+      server.findOutOfSyncClients(10);
+    expect(mostCommonHash).toBe(1);
+    expect(outOfSyncClients).toEqual([]);
+  });
+
+  test("a spectator joining as player stops spectating", () => {
+    const spectator = client("player01", { isSpectator: true });
+    server.addClient(spectator, 0);
+    server.addClient(client("player01"), 0);
+
+    expect(server.numClients()).toBe(1);
+    expect((server as any).spectators).toEqual([]);
+  });
+
+  test("a spectator can't take over a player's id", () => {
+    server.addClient(client("player01"), 0);
+    const spectator = client("player01", { isSpectator: true });
+    server.addClient(spectator, 0);
+
+    expect(spectator.ws.close).toHaveBeenCalled();
+    expect((server as any).spectators).toEqual([]);
+  });
+
+  test("spectators reconnect with their persistent id only", () => {
+    const spectator = client("watch001", { isSpectator: true });
+    server.addClient(spectator, 0);
+
+    const impostor = client("watch001", {
+      isSpectator: true,
+      persistentID: "someone-else",
+    });
+    server.addClient(impostor, 0);
+    expect(impostor.ws.close).toHaveBeenCalled();
+    expect((server as any).spectators).toEqual([spectator]);
+
+    const reconnect = client("watch001", { isSpectator: true });
+    server.addClient(reconnect, 0);
+    expect((server as any).spectators).toEqual([reconnect]);
+  });
+});
@@ -0,0 +1,132 @@
+import winston from "winston";
+import { getServerConfigFromServer } from "../../src/core/configuration/ConfigLoader";
+import { FileSystemGameMapLoader } from "../../src/core/game/FileSystemGameMapLoader";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { GameUpdateType } from "../../src/core/game/GameUpdates";
+import { createGameRunner } from "../../src/core/GameRunner";
+import { GameStartInfo, Turn } from "../../src/core/Schemas";
+import { GameSimulation } from "../../src/server/GameSimulation";
+
+const serverConfig = getServerConfigFromServer();
+const log = winston.createLogger({ silent: true });
+
+const gameStartInfo: GameStartInfo = {
+  gameID: "simgame1",
+  config: {
+    gameMap: GameMapType.Pangaea,
+    difficulty: Difficulty.Medium,
+    gameType: GameType.Private,
+    gameMode: GameMode.FFA,
+    disableNPCs: true,
+    bots: 20,
+    infiniteGold: false,
+    infiniteTroops: false,
+    instantBuild: false,
+    disabledUnits: [],
+  },
+  players: [],
+};
+
+const turns: Turn[] = Array.from({ length: 40 }, (_, turnNumber) => ({
+  turnNumber,
+  intents: [],
+}));
+
+// Lets the simulation run the turns it was given.
+async function caughtUp(simulation: GameSimulation, tick: number) {
+  for (let i = 0; i < 1000 && simulation.hash(tick) === null; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe("GameSimulation", () => {
+  test("hashes match the clients' simulation", async () => {
+    const clientHashes = new Map<number, number>();
+    const client = await createGameRunner(
+      gameStartInfo,
+      "client01",
+      new FileSystemGameMapLoader(serverConfig.mapsDir()),
+      (gu) => {
+        if ("errMsg" in gu) throw new Error(gu.errMsg);
+        gu.updates[GameUpdateType.Hash].forEach((h) =>
+          clientHashes.set(h.tick, h.hash),
+        );
+      },
+      serverConfig,
+    );
+    turns.forEach((turn) => {
+      client.addTurn(turn);
+      client.executeNextTick();
+    });
+
+    const simulation = new GameSimulation(
+      gameStartInfo,
+      serverConfig,
+      log,
+      () => {},
+    );
+    const started = simulation.start();
+    // Turns that arrive while the map loads are simulated once it's ready.
+    turns.forEach((turn) => simulation.addTurn(turn));
+    expect(simulation.hash(10)).toBeNull();
+    await started;
+    await caughtUp(simulation, 30);
+
+    expect(simulation.isHealthy()).toBe(true);
+    for (const tick of [10, 20, 30]) {
+      expect(simulation.hash(tick)).not.toBeNull();
+      expect(simulation.hash(tick)).toBe(clientHashes.get(tick));
+    }
+  });
+
+  test("stopped simulation ignores turns", async () => {
+    const simulation = new GameSimulation(
+      gameStartInfo,
+      serverConfig,
+      log,
+      () => {},
+    );
+    await simulation.start();
+    simulation.stop();
+    turns.forEach((turn) => simulation.addTurn(turn));
+    expect(simulation.hash(10)).toBeNull();
+  });
+
+  test("turns are simulated after they were sent", async () => {
+    const simulation = new GameSimulation(
+      gameStartInfo,
+      serverConfig,
+      log,
+      () => {},
+    );
+    await simulation.start();
+    turns.slice(0, 11).forEach((turn) => simulation.addTurn(turn));
+    expect(simulation.hash(10)).toBeNull();
+
+    await caughtUp(simulation, 10);
+    expect(simulation.hash(10)).not.toBeNull();
+  });
+
+  test("a simulation far behind leaves the game to the clients", async () => {
+    const simulation = new GameSimulation(
+      gameStartInfo,
+      serverConfig,
+      log,
+      () => {},
+    );
+    const started = simulation.start();
+    for (let turnNumber = 0; turnNumber <= 600; turnNumber++) {
+      simulation.addTurn({ turnNumber, intents: [] });
+    }
+    await started;
+
+    expect(simulation.isHealthy()).toBe(false);
+    await caughtUp(simulation, 10);
+    expect(simulation.hash(10)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  Difficulty,
+  GameMapType,
+  GameMode,
+  GameType,
+} from "../../src/core/game/Game";
+import { GameRecord } from "../../src/core/Schemas";
+import {
+  ArchiveQuerySchema,
+  toArchivedGameSummary,
+} from "../../src/server/ArchiveStorage";
+import { LocalArchiveStorage } from "../../src/server/LocalArchiveStorage";
+
+function gameRecord(
+  gameID: string,
+  gameMap: GameMapType,
+  start: number,
+  username: string,
+): GameRecord {
+  return {
+    info: {
+      gameID,
+      config: {
+        gameMap,
+        difficulty: Difficulty.Medium,
+        gameType: GameType.Singleplayer,
+        gameMode: GameMode.FFA,
+        disableNPCs: false,
+        bots: 0,
+        infiniteGold: false,
+        infiniteTroops: false,
+        instantBuild: false,
+      },
+      players: [
+        {
+          clientID: "client01",
+          username,
+          persistentID: "00000000-0000-4000-8000-000000000000",
+          stats: {},
+        },
+      ],
+      start,
+      end: start + 1000,
+      duration: 1,
+      num_turns: 10,
+      winner: ["player", "client01"],
+    },
+    version: "v0.0.2",
+    gitCommit: "0".repeat(40),
+    subdomain: "",
+    domain: "",
+    turns: [{ turnNumber: 3, intents: [] }],
+  };
+}
+
+describe("LocalArchiveStorage", () => {
+  let dir: string;
+  let storage: LocalArchiveStorage;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "archive-"));
+    storage = new LocalArchiveStorage(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads back a written game record", async () => {
+    const record = gameRecord("game0001", GameMapType.World, 1000, "alice");
+    expect(await storage.gameRecordExists("game0001")).toBe(false);
+    expect(await storage.readGameRecord("game0001")).toBeNull();
+
+    await storage.writeGameRecord(record);
+
+    expect(await storage.gameRecordExists("game0001")).toBe(true);
+    expect(await storage.readGameRecord("game0001")).toEqual(record);
+  });
+
+  test("rejects ids that are not game ids", async () => {
+    expect(await storage.readGameRecord("../../etc/passwd")).toBeNull();
+    expect(await storage.gameRecordExists("..")).toBe(false);
+  });
+
+  test("stores custom maps by hash", async () => {
+    const hash = "ab".repeat(32);
+    expect(await storage.readCustomMapFile(hash, "map.bin")).toBeNull();
+
+    await storage.writeCustomMapFile(hash, "map.bin", new Uint8Array([1, 2]));
+
+    expect(await storage.readCustomMapFile(hash, "map.bin")).toEqual(
+      new Uint8Array([1, 2]),
+    );
+    expect(await storage.readCustomMapFile("../games", "map.bin")).toBeNull();
+  });
+
+  test("lists analytics newest first filtered by date, map and player", async () => {
+    await storage.writeAnalytics(
+      gameRecord("game0001", GameMapType.World, 1000, "alice"),
+    );
+    await storage.writeAnalytics(
+      gameRecord("game0002", GameMapType.Europe, 2000, "bob"),
+    );
+    await storage.writeAnalytics(
+      gameRecord("game0003", GameMapType.World, 3000, "Bob"),
+    );
+
+    const ids = async (query: Record<string, string>) =>
+      (await storage.listGames(ArchiveQuerySchema.parse(query))).map(
+        (g) => g.gameID,
+      );
+
+    expect(await ids({})).toEqual(["game0003", "game0002", "game0001"]);
+    expect(await ids({ map: GameMapType.World })).toEqual([
+      "game0003",
+      "game0001",
+    ]);
+    expect(await ids({ player: "bob" })).toEqual(["game0003", "game0002"]);
+    expect(await ids({ from: "1500", to: "2500" })).toEqual(["game0002"]);
+    expect(await ids({ limit: "1" })).toEqual(["game0003"]);
+  });
+
+  test("returns an empty list before anything is archived", async () => {
+    expect(await storage.listGames(ArchiveQuerySchema.parse({}))).toEqual([]);
+  });
+
+  test("summaries do not include persistent ids", () => {
+    const summary = toArchivedGameSummary(
+      gameRecord("game0001", GameMapType.World, 1000, "alice"),
+    );
+    expect(JSON.stringify(summary)).not.toContain("persistentID");
+    expect(summary.players).toEqual([
+      { clientID: "client01", username: "alice" },
+    ]);
+  });
+});
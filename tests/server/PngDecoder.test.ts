@@ -0,0 +1,97 @@
+import zlib from "zlib";
+import { decodePng } from "../../src/server/PngDecoder";
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// Builds a PNG from rows that are already filtered, each starting with its
+// filter type.
+function png(
+  width: number,
+  height: number,
+  colorType: number,
+  rows: number[][],
+  extra: Buffer[] = [],
+): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    ...extra,
+    chunk("IDAT", zlib.deflateSync(Buffer.from(rows.flat()))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("PngDecoder", () => {
+  test("decodes RGB images with every filter type", () => {
+    // Two pixels per row, each row decodes to (10,20,30) (40,50,60) plus
+    // 5 per row above.
+    const image = png(2, 5, 2, [
+      [0, 10, 20, 30, 40, 50, 60],
+      [1, 15, 25, 35, 30, 30, 30],
+      [2, 5, 5, 5, 5, 5, 5],
+      [3, 15, 20, 25, 18, 18, 18],
+      [4, 5, 5, 5, 5, 5, 5],
+    ]);
+    const { width, height, data } = decodePng(image, 100);
+    expect([width, height]).toEqual([2, 5]);
+    for (let y = 0; y < 5; y++) {
+      expect(Array.from(data.subarray(y * 8, y * 8 + 8))).toEqual([
+        10 + 5 * y,
+        20 + 5 * y,
+        30 + 5 * y,
+        255,
+        40 + 5 * y,
+        50 + 5 * y,
+        60 + 5 * y,
+        255,
+      ]);
+    }
+  });
+
+  test("decodes palette images with transparency", () => {
+    const image = png(
+      2,
+      1,
+      3,
+      [[0, 1, 0]],
+      [
+        chunk("PLTE", Buffer.from([0, 0, 106, 0, 150, 150])),
+        chunk("tRNS", Buffer.from([0])),
+      ],
+    );
+    expect(Array.from(decodePng(image, 100).data)).toEqual([
+      0, 150, 150, 255, 0, 0, 106, 0,
+    ]);
+  });
+
+  test("rejects invalid images", () => {
+    expect(() => decodePng(Buffer.from("not a png"), 100)).toThrow(/Not a PNG/);
+    const image = png(2, 1, 6, [[0, 1, 2, 3, 4, 5, 6, 7, 8]]);
+    expect(() => decodePng(image, 1)).toThrow(/at most 1 pixels/);
+    image[image.length - 20] ^= 0xff;
+    expect(() => decodePng(image, 100)).toThrow(/Corrupt/);
+  });
+});
@@ -0,0 +1,140 @@
+import { GameMapType } from "../../src/core/game/Game";
+import { AnalyticsRecord } from "../../src/core/Schemas";
+import { ArchiveQuerySchema } from "../../src/server/ArchiveStorage";
+import { R2ArchiveStorage } from "../../src/server/R2ArchiveStorage";
+
+// An in memory bucket, listing in key order like R2.
+const objects = new Map<string, string>();
+const getObject = jest.fn(async ({ Key }: { Key: string }) => ({
+  Body: { transformToString: async () => objects.get(Key)! },
+}));
+
+jest.mock("@aws-sdk/client-s3", () => ({
+  S3: jest.fn().mockImplementation(() => ({
+    putObject: async ({ Key, Body }: { Key: string; Body: string }) => {
+      objects.set(Key, Body);
+    },
+    getObject,
+    listObjectsV2: async ({
+      Prefix,
+      StartAfter,
+      ContinuationToken,
+    }: {
+      Prefix: string;
+      StartAfter?: string;
+      ContinuationToken?: string;
+    }) => {
+      const after = ContinuationToken ?? StartAfter ?? "";
+      const keys = Array.from(objects.keys())
+        .filter((key) => key.startsWith(Prefix) && key > after)
+        .sort();
+      const page = keys.slice(0, 2);
+      return {
+        Contents: page.map((Key) => ({ Key })),
+        IsTruncated: keys.length > page.length,
+        NextContinuationToken: page[page.length - 1],
+      };
+    },
+  })),
+}));
+
+function analytics(
+  gameID: string,
+  gameMap: GameMapType,
+  start: number,
+  username: string,
+): AnalyticsRecord {
+  return {
+    info: {
+      gameID,
+      config: { gameMap },
+      players: [{ clientID: "client01", username, stats: {} }],
+      start,
+      end: start + 1000,
+      duration: 1,
+      num_turns: 10,
+      winner: ["player", "client01"],
+    },
+  } as unknown as AnalyticsRecord;
+}
+
+describe("R2ArchiveStorage", () => {
+  let storage: R2ArchiveStorage;
+
+  const ids = async (query: Record<string, string>) =>
+    (await storage.listGames(ArchiveQuerySchema.parse(query))).map(
+      (g) => g.gameID,
+    );
+
+  beforeEach(async () => {
+    objects.clear();
+    storage = new R2ArchiveStorage("http://r2", "key", "secret", "bucket");
+    await storage.writeAnalytics(
+      analytics("game0001", GameMapType.World, 1000, "alice"),
+    );
+    await storage.writeAnalytics(
+      analytics("game0003", GameMapType.World, 3000, "Bob"),
+    );
+    await storage.writeAnalytics(
+      analytics("game0002", GameMapType.Europe, 2000, "bob"),
+    );
+    await storage.writeAnalytics(
+      analytics("game0004", GameMapType.Europe, 4000, "carol"),
+    );
+    getObject.mockClear();
+  });
+
+  test("lists the newest games first", async () => {
+    expect(await ids({})).toEqual([
+      "game0004",
+      "game0003",
+      "game0002",
+      "game0001",
+    ]);
+    expect(await ids({ map: GameMapType.World })).toEqual([
+      "game0003",
+      "game0001",
+    ]);
+    expect(await ids({ player: "bob" })).toEqual(["game0003", "game0002"]);
+  });
+
+  test("only reads the games it needs", async () => {
+    expect(await ids({ limit: "2" })).toEqual(["game0004", "game0003"]);
+    expect(getObject).toHaveBeenCalledTimes(2);
+
+    // game0003 was read before.
+    getObject.mockClear();
+    expect(await ids({ from: "1500", to: "3500" })).toEqual([
+      "game0003",
+      "game0002",
+    ]);
+    expect(getObject).toHaveBeenCalledTimes(1);
+    getObject.mockClear();
+    expect(await ids({ to: "3000" })).toEqual([
+      "game0003",
+      "game0002",
+      "game0001",
+    ]);
+  });
+
+  test("filters by map without reading other games", async () => {
+    expect(await ids({ map: GameMapType.Europe })).toEqual([
+      "game0004",
+      "game0002",
+    ]);
+    expect(getObject).toHaveBeenCalledTimes(2);
+
+    getObject.mockClear();
+    expect(await ids({ map: GameMapType.Mena })).toEqual([]);
+    expect(getObject).not.toHaveBeenCalled();
+  });
+
+  test("backfills the index of older games", async () => {
+    const record = analytics("game0005", GameMapType.World, 5000, "dave");
+    objects.set("analytics/game0005.json", JSON.stringify(record));
+
+    expect(await storage.backfillIndex()).toBe(1);
+    expect(await ids({ player: "dave" })).toEqual(["game0005"]);
+    expect(await storage.backfillIndex()).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { FakeHumanExecution } from "../../src/core/execution/FakeHumanExecution";
+import { NationStrategy } from "../../src/core/execution/utils/NationStrategy";
+import {
+  Cell,
+  Game,
+  Nation,
+  Player,
+  PlayerInfo,
+  PlayerType,
+} from "../../src/core/game/Game";
+import { GameConfig } from "../../src/core/Schemas";
+import { setup } from "./Setup";
+
+export interface NationMatch {
+  game: Game;
+  // In the order of the strategies.
+  players: Player[];
+}
+
+// Sets up a game between nations with the given strategies and no humans,
+// spawned evenly spread along the diagonal of the map. Returns once the spawn
+// phase is over, run the match with executeTicks.
+export async function startNationMatch(
+  mapName: string,
+  strategies: NationStrategy[],
+  gameConfig: Partial<GameConfig> = {},
+): Promise<NationMatch> {
+  const game = await setup(mapName, gameConfig);
+  const infos = strategies.map((strategy, i) => {
+    const info = new PlayerInfo(
+      `${strategy.personality} ${i}`,
+      PlayerType.FakeHuman,
+      null,
+      `nation_${i}`,
+    );
+    const spacing = 1 / (strategies.length + 1);
+    const cell = new Cell(
+      Math.floor(game.width() * spacing * (i + 1)),
+      Math.floor(game.height() * spacing * (i + 1)),
+    );
+    game.addExecution(
+      new FakeHumanExecution("game_id", new Nation(cell, 1, info), strategy),
+    );
+    return info;
+  });
+
+  while (game.inSpawnPhase()) {
+    game.executeNextTick();
+  }
+
+  return { game, players: infos.map((info) => game.player(info.id)) };
+}
@@ -1,5 +1,9 @@
 import { JWK } from "jose";
-import { GameEnv, ServerConfig } from "../../src/core/configuration/Config";
+import {
+  ArchiveStorageType,
+  GameEnv,
+  ServerConfig,
+} from "../../src/core/configuration/Config";
 import { GameMapType } from "../../src/core/game/Game";
 import { GameID } from "../../src/core/Schemas";
 
@@ -94,4 +98,13 @@ export class TestServerConfig implements ServerConfig {
   r2SecretKey(): string {
     throw new Error("Method not implemented.");
   }
+  archiveStorage(): ArchiveStorageType {
+    throw new Error("Method not implemented.");
+  }
+  archiveDir(): string {
+    throw new Error("Method not implemented.");
+  }
+  mapsDir(): string {
+    throw new Error("Method not implemented.");
+  }
 }
@@ -239,6 +239,7 @@ export default async (env, argv) => {
                 "/api/auth/callback",
                 "/api/auth/discord",
                 "/api/kick_player",
+                "/api/custom_map",
               ],
               target: "http://localhost:3000",
               secure: false,